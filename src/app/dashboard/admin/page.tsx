@@ -9,7 +9,8 @@ import {
   LiveChatSupport,
   UserManagement,
   VendorManagement,
-  ProductManagement
+  ProductManagement,
+  SearchQualityDashboard
 } from '@/modules/admin';
 import { AuthGuard } from '@/modules/core';
 
@@ -38,6 +39,8 @@ export default function AdminDashboard() {
             <p className="text-gray-600">Order management features coming soon...</p>
           </div>
         );
+      case 'search':
+        return <SearchQualityDashboard />;
       case 'support':
         return (
           <div className="space-y-8">
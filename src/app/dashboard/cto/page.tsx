@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { AuthGuard } from '@/modules/core';
+import { SearchQualityDashboard } from '@/modules/admin';
 
 interface StatCardProps {
   title: string;
@@ -38,6 +39,7 @@ const CTODashboardTabs = ({ activeTab, onTabChange }: { activeTab: string; onTab
     { id: 'performance', label: 'Performance', icon: '⚡' },
     { id: 'development', label: 'Development', icon: '👨‍💻' },
     { id: 'database', label: 'Database', icon: '🗄️' },
+    { id: 'search', label: 'Search Quality', icon: '🔍' },
   ];
 
   return (
@@ -355,6 +357,8 @@ export default function CTODashboard() {
         return <DevelopmentTab />;
       case 'database':
         return <DatabaseTab />;
+      case 'search':
+        return <SearchQualityDashboard />;
       default:
         return <SystemOverview />;
     }
@@ -1,45 +1,18 @@
 'use client';
 
-import React from 'react';
-import { financePaymentAPI } from '@/shared/services';
+import { AuthGuard } from '@/modules/core';
+import { FinanceDashboard } from '@/modules/admin';
 
-interface FinanceOverview {
-    totalRevenue?: number;
-    monthlyRevenue?: number;
-    pendingPayments?: number;
-    completedPayments?: number;
-    refundedAmount?: number;
-}
-
-const FinanceDashboard = () => {
-    // Placeholder for finance data fetching and state management
-    const [overview, setOverview] = React.useState<FinanceOverview>({});
-
-    React.useEffect(() => {
-        async function fetchFinanceOverview() {
-            try {
-                // Get vendor financial summary
-                const data = await financePaymentAPI.analytics.getVendorSummary();
-                setOverview(data);
-            } catch (error) {
-                console.error('Failed to fetch finance overview:', error);
-            }
-        }
-        fetchFinanceOverview();
-    }, []);
-
-    return (
-        <div className="finance-dashboard">
-            <h1>Finance Dashboard</h1>
-            {/* Render finance-related components */}
-            <div>
-                <p>Total Revenue: {overview.totalRevenue}</p>
-                <p>Monthly Revenue: {overview.monthlyRevenue}</p>
-                {/* More financial metrics could go here */}
-            </div>
+export default function FinanceDashboardPage() {
+  return (
+    <AuthGuard allowedRoles={['ROLE_ADMIN', 'ADMIN', 'ROLE_FINANCE', 'FINANCE']}>
+      <section className="max-w-7xl mx-auto px-4 py-10 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Finance Dashboard</h1>
+          <p className="text-sm text-gray-500">Reconcile payments, refunds and settlements, and track vendor payouts and P&amp;L.</p>
         </div>
-    );
-};
-
-export default FinanceDashboard;
-
+        <FinanceDashboard />
+      </section>
+    </AuthGuard>
+  );
+}
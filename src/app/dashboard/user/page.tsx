@@ -13,7 +13,9 @@ import {
   UserProfile,
   UserOrders,
   UserWishlist,
-  UserSupport
+  UserSupport,
+  SavedSearchDigest,
+  CreditDues
 } from '@/modules/buyer';
 import { SearchBar } from '@/shared/components';
 import { AuthGuard } from '@/modules/core';
@@ -49,10 +51,12 @@ function UserDashboardContent() {
             <SearchBar placeholder="Search for products..." />
             <div className="mt-10 grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="md:col-span-2 space-y-6">
+                <CreditDues />
                 <RecentOrders />
                 <UserProductGrid />
               </div>
               <div className="space-y-6">
+                <SavedSearchDigest />
                 <CategorySidebar />
                 <AccountActions onNavigate={handleNavigate} />
               </div>
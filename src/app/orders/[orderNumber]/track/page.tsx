@@ -0,0 +1,11 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import ShipmentTracking from '@/modules/buyer/components/ShipmentTracking';
+
+export default function TrackOrderPage() {
+  const params = useParams();
+  const orderNumber = decodeURIComponent(params?.orderNumber as string);
+
+  return <ShipmentTracking orderNumber={orderNumber} />;
+}
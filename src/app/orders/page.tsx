@@ -269,10 +269,13 @@ export default function OrdersPage() {
                   )}
                   
                   {(order.status === 'shipped' || order.status === 'delivered') && order.trackingNumber && (
-                    <button className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors">
+                    <Link
+                      href={`/orders/${encodeURIComponent(order.orderNumber)}/track`}
+                      className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                    >
                       <Truck size={16} />
                       Track Package
-                    </button>
+                    </Link>
                   )}
 
                   {order.status === 'pending' && (
@@ -5,6 +5,8 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { Search, Filter, Grid, List, Star, Heart, ShoppingCart } from 'lucide-react';
 import { api } from '@/shared/utils/apiClient';
 import { dynamicDataService } from '@/shared/services/dynamicDataService';
+import { addProductToCart } from '@/features/cart/cartSlice';
+import { useAppDispatch } from '@/shared/hooks/redux';
 
 interface Product {
   id: number;
@@ -33,6 +35,7 @@ interface SearchFilters {
 
 function SearchContent() {
   const router = useRouter();
+  const dispatch = useAppDispatch();
   const searchParams = useSearchParams();
   const initialQuery = searchParams.get('q') || '';
   
@@ -114,10 +117,10 @@ function SearchContent() {
   };
 
   // Add to cart
-  const handleAddToCart = async (productId: number, e: React.MouseEvent) => {
+  const handleAddToCart = async (product: Product, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      await dynamicDataService.cart.addToCart(productId, 1);
+      await dispatch(addProductToCart({ productId: product.id, vendorName: product.vendor?.name })).unwrap();
       console.log('Product added to cart');
     } catch (error) {
       console.error('Failed to add to cart:', error);
@@ -385,7 +388,7 @@ function SearchContent() {
                           </div>
                           
                           <button
-                            onClick={(e) => handleAddToCart(product.id, e)}
+                            onClick={(e) => handleAddToCart(product, e)}
                             disabled={!product.inStock}
                             className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
                           >
@@ -0,0 +1,213 @@
+'use client';
+
+import { VendorCartGroup } from '@/features/cart/cartSlice';
+import {
+  formatProviderName,
+  getCarrierChoiceLabel,
+  shopCarrierRates,
+  type CarrierChoice,
+  type CarrierOption,
+  type CarrierRateComparison
+} from '@/services/carrierRateShopping';
+import type { OrderShippingSelection } from '@/services/orderService';
+import { DEFAULT_ITEM_WEIGHT } from '@/services/shippingRuleEngine';
+import { ShippingService } from '@/services/shippingService';
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CarrierRateSelectorProps {
+  group: VendorCartGroup;
+  toAddress: {
+    addressLine1: string;
+    city: string;
+    state: string;
+    pincode: string;
+  };
+  cod: boolean;
+  // What the buyer pays for shipping, from the vendor's shipping rules - the same whichever carrier is picked
+  shippingCharge?: number;
+  selected?: OrderShippingSelection;
+  onSelect: (vendorId: string, selection: OrderShippingSelection | undefined) => void;
+}
+
+const CHOICES: CarrierChoice[] = ['RECOMMENDED', 'CHEAPEST', 'FASTEST'];
+
+// The carrier's rate is kept for reference; checkout charges the shipping-rule estimate instead
+const toSelection = (option: CarrierOption, choice: OrderShippingSelection['choice']): OrderShippingSelection => ({
+  provider: option.provider,
+  serviceName: option.serviceName,
+  cost: option.cost,
+  estimatedDeliveryDays: option.etaDays,
+  estimatedDeliveryDate: option.etaDate,
+  choice
+});
+
+export default function CarrierRateSelector({ group, toAddress, cod, shippingCharge, selected, onSelect }: CarrierRateSelectorProps) {
+  const [comparison, setComparison] = useState<CarrierRateComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  // Re-applied when the rates are fetched again, e.g. after a pincode change
+  const preferredRef = useRef<{ choice: OrderShippingSelection['choice']; provider?: string }>({ choice: 'RECOMMENDED' });
+
+  // The shipment as plain values, so the rates are only fetched again when one of them changes
+  const { vendorId, vendorName, subtotal } = group;
+  const pickupPincode = group.items.find(item => item.vendorPincode)?.vendorPincode;
+  const vendorState = group.items.find(item => item.vendorState)?.vendorState || '';
+  const weight = Math.round(group.items.reduce((sum, item) => sum + (item.weight ?? DEFAULT_ITEM_WEIGHT) * item.quantity, 0) * 100) / 100;
+  const largest = group.items.map(item => item.dimensions).filter(Boolean)
+    .sort((a, b) => b!.length * b!.width * b!.height - a!.length * a!.width * a!.height)[0];
+  const { length = 0, width = 0, height = 0 } = largest ?? {};
+  const description = group.items.map(item => item.name).join(', ').slice(0, 100);
+  const { pincode: toPincode, state: toState } = toAddress;
+  const canShop = !!pickupPincode && ShippingService.validatePincode(toPincode);
+
+  // Street and city go on the request but don't change the rate, so typing them doesn't refetch
+  const addressLinesRef = useRef({ addressLine1: toAddress.addressLine1, city: toAddress.city });
+  useEffect(() => {
+    addressLinesRef.current = { addressLine1: toAddress.addressLine1, city: toAddress.city };
+  }, [toAddress.addressLine1, toAddress.city]);
+
+  useEffect(() => {
+    if (!canShop) {
+      setComparison(null);
+      onSelect(vendorId, undefined);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    shopCarrierRates({
+      fromAddress: {
+        name: vendorName,
+        phone: '',
+        addressLine1: '',
+        city: '',
+        state: vendorState,
+        pincode: pickupPincode!,
+        country: 'India'
+      },
+      toAddress: {
+        name: '',
+        phone: '',
+        ...addressLinesRef.current,
+        state: toState,
+        pincode: toPincode,
+        country: 'India'
+      },
+      package: {
+        length,
+        width,
+        height,
+        weight,
+        value: subtotal,
+        description
+      },
+      cod
+    })
+      .then(result => {
+        if (cancelled) return;
+        setComparison(result);
+        const { choice, provider } = preferredRef.current;
+        const option = choice === 'OTHER'
+          ? result.options.find(candidate => candidate.provider === provider) ?? result.recommended
+          : result[choice.toLowerCase() as 'cheapest' | 'fastest' | 'recommended'];
+        onSelect(vendorId, option ? toSelection(option, choice === 'OTHER' && option.provider !== provider ? 'RECOMMENDED' : choice) : undefined);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        console.error('Error shopping carrier rates:', error);
+        setComparison(null);
+        setError('Carrier rates are unavailable right now - standard shipping will be used.');
+        onSelect(vendorId, undefined);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    canShop, onSelect, vendorId, vendorName, vendorState, pickupPincode, toPincode, toState,
+    length, width, height, weight, subtotal, description, cod
+  ]);
+
+  const choose = (option: CarrierOption, choice: OrderShippingSelection['choice']) => {
+    preferredRef.current = { choice, provider: option.provider };
+    onSelect(group.vendorId, toSelection(option, choice));
+  };
+
+  if (!pickupPincode) {
+    return <p className="text-sm text-gray-500">Standard shipping - {group.vendorName} picks the carrier.</p>;
+  }
+  if (!canShop) {
+    return <p className="text-sm text-gray-500">Enter a delivery pincode to compare carriers.</p>;
+  }
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+        Comparing carriers...
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="text-sm text-orange-600">{error}</p>;
+  }
+  if (!comparison || comparison.options.length === 0) {
+    return <p className="text-sm text-red-600">No carrier delivers from {group.vendorName} to {toAddress.pincode}.</p>;
+  }
+
+  const isSelected = (option: CarrierOption) =>
+    selected?.provider === option.provider && selected?.serviceName === option.serviceName;
+
+  const renderOption = (option: CarrierOption, choice: OrderShippingSelection['choice'], heading?: string) => (
+    <button
+      key={`${heading || 'all'}-${option.provider}-${option.serviceName}`}
+      type="button"
+      onClick={() => choose(option, choice)}
+      className={`text-left border rounded-lg p-3 transition-colors ${
+        isSelected(option) && (!heading || selected?.choice === choice)
+          ? 'border-blue-600 bg-blue-50'
+          : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      {heading && <p className="text-xs font-semibold uppercase text-blue-700 mb-1">{heading}</p>}
+      <p className="text-sm font-medium text-gray-900">{formatProviderName(option.provider)} · {option.serviceName}</p>
+      <p className="text-sm text-gray-700">{option.etaDays} {option.etaDays === 1 ? 'day' : 'days'}</p>
+      <p className="text-xs text-gray-500">
+        {option.onTimeRate !== undefined ? `${Math.round(option.onTimeRate * 100)}% on time` : 'New carrier'}
+        {option.customerRating ? ` · ★ ${option.customerRating.toFixed(1)}` : ''}
+      </p>
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      {shippingCharge !== undefined && (
+        <p className="text-sm text-gray-600">
+          Shipping {shippingCharge === 0 ? <span className="text-green-600">FREE</span> : `₹${shippingCharge.toFixed(2)}`} with any carrier - choose how fast it arrives.
+        </p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {CHOICES.map(choice => {
+          const option = comparison[choice.toLowerCase() as 'cheapest' | 'fastest' | 'recommended'];
+          return option ? renderOption(option, choice, getCarrierChoiceLabel(choice)) : null;
+        })}
+      </div>
+
+      {comparison.options.length > 1 && (
+        <button type="button" onClick={() => setShowAll(!showAll)} className="text-sm text-blue-600 hover:text-blue-800">
+          {showAll ? 'Hide carriers' : `Compare all ${comparison.options.length} options`}
+        </button>
+      )}
+      {showAll && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {comparison.options.map(option => renderOption(option, option.tags[0] ?? 'OTHER'))}
+        </div>
+      )}
+    </div>
+  );
+}
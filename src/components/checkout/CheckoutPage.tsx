@@ -1,13 +1,41 @@
 'use client';
 
-import { clearCartItems } from '@/features/cart/cartSlice';
-import { CreatePaymentOrderRequest, paymentService } from '@/services/paymentService';
+import {
+  getCartItemUnitPrice,
+  getVendorGroupGst,
+  removeVendorItems,
+  revalidateCartStock,
+  selectCartVendorGroups,
+  VendorCartGroup
+} from '@/features/cart/cartSlice';
+import { formatProviderName } from '@/services/carrierRateShopping';
+import { estimateVendorGroupShipping, type ShippingEstimate } from '@/services/shippingRuleEngine';
+import { ShippingService } from '@/services/shippingService';
+import {
+  orderService,
+  CheckoutPaymentMethod,
+  CheckoutRequest,
+  OrderShippingSelection,
+  toCartCheckoutItem,
+  toOrderTaxSummary,
+  VendorCheckoutResult
+} from '@/services/orderService';
+import { CreatePaymentOrderRequest, PaymentOrder, paymentService } from '@/services/paymentService';
+import { isValidVpa, PaymentResult } from '@/services/paymentProviders';
+import { CreditLine, tradeCreditService } from '@/services/tradeCreditService';
+import { buildMilestones, DEFAULT_MILESTONE_PLAN, MILESTONE_MIN_AMOUNT } from '@/shared/utils/paymentMilestones';
+import { availableCredit, canPayOnTerms, CREDIT_TERM_LABELS, dueDateFor, formatRupees } from '@/shared/utils/tradeCredit';
+import BankTransferPayment from '@/components/payments/BankTransferPayment';
 import { Button } from '@/shared/components/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/Card';
+import GstBreakup from '@/shared/components/GstBreakup';
+import CarrierRateSelector from './CarrierRateSelector';
 import { Input } from '@/shared/components/Input';
-import { orderAPI, CreateOrderDto } from '@/shared/services/orderApi';
+import { useAppDispatch } from '@/shared/hooks/redux';
+import { isValidGstin } from '@/shared/utils/gst';
 import { RootState } from '@/store';
 import {
+  BuildingStorefrontIcon,
   CheckCircleIcon,
   CreditCardIcon,
   ExclamationCircleIcon,
@@ -16,8 +44,8 @@ import {
   TruckIcon
 } from '@heroicons/react/24/outline';
 import { useRouter } from 'next/navigation';
-import React, { useEffect, useState } from 'react';
-import { useDispatch, useSelector } from 'react-redux';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
 
 interface Address {
   id?: number;
@@ -34,14 +62,32 @@ interface CheckoutFormData {
   shippingAddress: Address;
   billingAddress: Address;
   sameAsShipping: boolean;
-  paymentMethod: 'RAZORPAY' | 'COD' | 'BANK_TRANSFER';
+  paymentMethod: CheckoutPaymentMethod;
+  upiId: string;
+  // Large online orders can be paid in stages instead of upfront
+  payInMilestones: boolean;
+  gstin: string;
   notes?: string;
 }
 
+const COD_CHARGE = 50; // per vendor order
+
+// A vendor order created by an earlier attempt, with the payment method it was booked for
+type CreatedVendorOrder = VendorCheckoutResult & { paymentMethod: CheckoutPaymentMethod };
+
+const PAYMENT_OPTIONS: Array<{ value: CheckoutPaymentMethod; icon: string; label: string }> = [
+  { value: 'ONLINE', icon: '💳', label: 'Online Payment (Cards, Net Banking, Wallets)' },
+  { value: 'UPI', icon: '📱', label: 'UPI' },
+  { value: 'BANK_TRANSFER', icon: '🏦', label: 'Bank Transfer (NEFT / RTGS)' },
+  { value: 'CREDIT', icon: '🤝', label: 'Pay on Terms (vendor credit)' },
+  { value: 'COD', icon: '💰', label: 'Cash on Delivery' }
+];
+
 const CheckoutPage: React.FC = () => {
-  const dispatch = useDispatch();
+  const dispatch = useAppDispatch();
   const router = useRouter();
   const { items, totalAmount, totalItems } = useSelector((state: RootState) => state.cart);
+  const vendorGroups = useSelector(selectCartVendorGroups);
   const { user } = useSelector((state: RootState) => state.auth);
 
   const [loading, setLoading] = useState(false);
@@ -49,6 +95,18 @@ const CheckoutPage: React.FC = () => {
   const [orderSuccess, setOrderSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [savedAddresses, setSavedAddresses] = useState<Address[]>([]);
+  const [failedVendors, setFailedVendors] = useState<VendorCheckoutResult[]>([]);
+  // Orders already created but not yet paid, by vendor; a retry pays these instead of ordering again
+  const [createdOrders, setCreatedOrders] = useState<Record<string, CreatedVendorOrder>>({});
+  // Credit lines vendors have granted this buyer, for pay on terms
+  const [creditLines, setCreditLines] = useState<CreditLine[]>([]);
+  // NEFT/RTGS orders wait on the buyer's transfer and UTR
+  const [pendingTransfers, setPendingTransfers] = useState<Array<{ vendorName: string; paymentOrder: PaymentOrder }>>([]);
+  // Carrier picked per vendor order; groups without one use standard shipping
+  const [shippingSelections, setShippingSelections] = useState<Record<string, OrderShippingSelection>>({});
+  // Vendor shipping rules evaluated for the delivery pincode - the same estimate the cart quotes
+  const [shippingEstimates, setShippingEstimates] = useState<Record<string, ShippingEstimate>>({});
+  const [estimatingShipping, setEstimatingShipping] = useState(false);
   
   const [formData, setFormData] = useState<CheckoutFormData>({
     shippingAddress: {
@@ -66,23 +124,83 @@ const CheckoutPage: React.FC = () => {
       country: 'India'
     },
     sameAsShipping: true,
-    paymentMethod: 'RAZORPAY',
+    paymentMethod: 'ONLINE',
+    upiId: '',
+    payInMilestones: false,
+    gstin: user?.gstNumber || '',
     notes: ''
   });
 
-  // Calculate totals
+  // GST is worked out per vendor order; the delivery state is the place of supply
+  const buyerGstin = isValidGstin(formData.gstin) ? formData.gstin.trim().toUpperCase() : undefined;
+  const groupTaxes = Object.fromEntries(vendorGroups.map(group => [
+    group.vendorId,
+    getVendorGroupGst(group, formData.shippingAddress.state || user?.state, buyerGstin)
+  ]));
+  const getGroupTax = (group: VendorCartGroup) => groupTaxes[group.vendorId]?.totalTax ?? 0;
+  // The shipping-rule estimate is the one charge the cart quotes and checkout collects; the carrier only sets the speed
+  const getGroupShipping = (group: VendorCartGroup) =>
+    shippingEstimates[group.vendorId]?.cost ?? group.shippingCharges;
+  const isFreeShipping = (group: VendorCartGroup) => shippingEstimates[group.vendorId]?.freeShipping ?? false;
+
+  const handleCarrierSelect = useCallback((vendorId: string, selection: OrderShippingSelection | undefined) => {
+    setShippingSelections(prev => {
+      if (!selection) {
+        if (!(vendorId in prev)) return prev;
+        const next = { ...prev };
+        delete next[vendorId];
+        return next;
+      }
+      return { ...prev, [vendorId]: selection };
+    });
+  }, []);
+
+  // Calculate totals - tax and shipping are worked out per vendor order
   const subtotal = totalAmount;
-  const taxRate = 0.18; // 18% GST
-  const taxAmount = Math.round(subtotal * taxRate);
-  const shippingCharges = subtotal > 500 ? 0 : 50; // Free shipping above ₹500
-  const finalAmount = subtotal + taxAmount + shippingCharges;
+  const taxAmount = vendorGroups.reduce((sum, group) => sum + getGroupTax(group), 0);
+  const shippingCharges = vendorGroups.reduce((sum, group) => sum + getGroupShipping(group), 0);
+  const codCharges = formData.paymentMethod === 'COD' ? COD_CHARGE * vendorGroups.length : 0;
+  const finalAmount = subtotal + taxAmount + shippingCharges + codCharges;
+  const hasMoqViolations = vendorGroups.some(group => group.moqViolations.length > 0);
 
   useEffect(() => {
-    if (items.length === 0) {
+    // Placed vendor orders leave the cart mid-checkout, so only redirect when idle
+    if (items.length === 0 && !orderSuccess && !processing) {
       router.push('/cart');
     }
     loadSavedAddresses();
-  }, [items.length, router]);
+  }, [items.length, orderSuccess, processing, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    tradeCreditService.getMyCreditLines()
+      .then(setCreditLines)
+      .catch(() => setCreditLines([]));
+  }, [user]);
+
+  const deliveryPincode = formData.shippingAddress.pincode.trim();
+  const deliveryState = formData.shippingAddress.state;
+
+  useEffect(() => {
+    setShippingEstimates({});
+    if (!ShippingService.validatePincode(deliveryPincode)) return;
+
+    let cancelled = false;
+    setEstimatingShipping(true);
+    Promise.all(vendorGroups.map(group => estimateVendorGroupShipping(group, deliveryPincode, deliveryState)))
+      .then(estimates => {
+        if (cancelled) return;
+        setShippingEstimates(Object.fromEntries(vendorGroups.map((group, index) => [group.vendorId, estimates[index]])));
+      })
+      .catch(error => console.error('Error estimating shipping:', error))
+      .finally(() => {
+        if (!cancelled) setEstimatingShipping(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vendorGroups, deliveryPincode, deliveryState]);
 
   const loadSavedAddresses = async () => {
     try {
@@ -188,89 +306,258 @@ const CheckoutPage: React.FC = () => {
       return false;
     }
 
+    if (estimatingShipping || vendorGroups.some(group => !shippingEstimates[group.vendorId])) {
+      setError('Shipping is still being calculated for this address. Please try again in a moment.');
+      return false;
+    }
+
+    const unserviceable = vendorGroups.filter(group => !shippingEstimates[group.vendorId].serviceable);
+    if (unserviceable.length > 0) {
+      setError(`${unserviceable.map(group => group.vendorName).join(', ')} cannot deliver to ${shippingAddress.pincode}. Remove their items or use another address.`);
+      return false;
+    }
+
+    // The delivery zone decides whether the carrier can collect cash
+    const noCod = vendorGroups.filter(group => !shippingEstimates[group.vendorId].codAvailable);
+    if (formData.paymentMethod === 'COD' && noCod.length > 0) {
+      setError(`Cash on delivery isn't available from ${noCod.map(group => group.vendorName).join(', ')} to ${shippingAddress.pincode}. Please choose another payment method.`);
+      return false;
+    }
+
+    // Tax can't be charged on a guessed rate; the seller has to set the HSN code first
+    const untaxed = vendorGroups.flatMap(group =>
+      (groupTaxes[group.vendorId]?.lines ?? []).filter(line => line.rateMissing).map(line => line.description || group.vendorName)
+    );
+    if (untaxed.length > 0) {
+      setError(`The GST rate for ${untaxed.join(', ')} isn't available, so tax can't be worked out. Remove these items or try again later.`);
+      return false;
+    }
+
+    if (formData.paymentMethod === 'CREDIT' && groupsWithoutCredit.length > 0) {
+      setError(`Not enough credit with ${groupsWithoutCredit.map(group => group.vendorName).join(', ')}. Choose another payment method.`);
+      return false;
+    }
+
+    if (formData.paymentMethod === 'UPI' && formData.upiId.trim() && !isValidVpa(formData.upiId)) {
+      setError('Please enter a valid UPI ID, e.g. name@bank');
+      return false;
+    }
+
+    const unpayable = vendorGroups.filter(group => !canCollectPayment(group));
+    if (unpayable.length > 0) {
+      setError(
+        `The order from ${unpayable.map(group => group.vendorName).join(', ')} can't be paid this way. ` +
+        (formData.paymentMethod === 'UPI' && !formData.upiId.trim()
+          ? 'Enter your UPI ID or choose another payment method.'
+          : 'Please choose Bank Transfer (NEFT / RTGS) or another payment method.')
+      );
+      return false;
+    }
+
+    if (formData.gstin.trim() && !isValidGstin(formData.gstin)) {
+      setError('Please enter a valid 15-character GSTIN or leave it blank');
+      return false;
+    }
+
     return true;
   };
 
+  const getGroupAmount = (group: VendorCartGroup) =>
+    group.subtotal + getGroupTax(group) + getGroupShipping(group) +
+    (formData.paymentMethod === 'COD' ? COD_CHARGE : 0);
+
+  const getCreditLine = (vendorId: string) =>
+    creditLines.find(line => line.vendorId === vendorId && line.status === 'ACTIVE');
+
+  // Pay on terms needs every vendor in the cart to have credit room for their order
+  const groupsWithoutCredit = vendorGroups.filter(group => !canPayOnTerms(getCreditLine(group.vendorId), getGroupAmount(group)));
+  const paymentOptions = PAYMENT_OPTIONS.filter(option => option.value !== 'CREDIT' || creditLines.length > 0);
+
+  const customerInfo = {
+    name: user?.name || 'Customer',
+    email: user?.email || '',
+    phone: user?.phone || ''
+  } as { name: string; email: string; phone: string; };
+
+  const toPaymentOrderRequest = (orderId: number, amount: number): CreatePaymentOrderRequest => ({
+    orderId: orderId.toString(),
+    amount: Math.round(amount * 100), // Convert to paise
+    currency: 'INR',
+    customerInfo,
+    notes: {
+      orderId: orderId.toString(),
+      customerId: user?.id?.toString() || ''
+    }
+  });
+
+  const isStagedAmount = (amount: number) => Math.round(amount * 100) >= MILESTONE_MIN_AMOUNT;
+  const stagedGroups = vendorGroups.filter(group => isStagedAmount(getGroupAmount(group)));
+
+  // Every amount a gateway will be asked for - each milestone, or the whole order - must fit some provider's limits
+  const canCollectPayment = (group: VendorCartGroup) => {
+    const method = formData.paymentMethod;
+    if (method === 'COD' || method === 'CREDIT') return true;
+    const amount = getGroupAmount(group);
+    const amounts = method === 'ONLINE' && formData.payInMilestones && isStagedAmount(amount)
+      ? buildMilestones(Math.round(amount * 100)).map(milestone => milestone.amount)
+      : [Math.round(amount * 100)];
+    return amounts.every(due => paymentService.canPay(method, due, { vpa: formData.upiId.trim() || undefined }));
+  };
+
+  // Vendor orders are paid one after another; the service picks and fails over gateways
+  const payForOrder = async (orderId: number, amount: number): Promise<PaymentResult> => {
+    if (formData.paymentMethod === 'ONLINE' && formData.payInMilestones && isStagedAmount(amount)) {
+      // Only the advance is collected now; later stages are paid as the vendor reaches them
+      const schedule = await paymentService.createPaymentSchedule(
+        orderId.toString(),
+        buildMilestones(Math.round(amount * 100))
+      );
+      const advance = schedule.milestones.find(milestone => milestone.status === 'DUE');
+      if (!advance) throw new Error('The payment schedule has no advance due');
+      return paymentService.payMilestone(advance, customerInfo);
+    }
+
+    const result = await paymentService.pay(
+      toPaymentOrderRequest(orderId, amount),
+      formData.paymentMethod as Exclude<CheckoutPaymentMethod, 'COD' | 'CREDIT'>,
+      { vpa: formData.upiId.trim() || undefined }
+    );
+    console.log('Payment result:', result);
+    return result;
+  };
+
+  // Books the order against the vendor's credit line; nothing is collected now
+  const bookOnTerms = async (orderId: number, amount: number, line: CreditLine) => {
+    await paymentService.createPaymentOrder({
+      ...toPaymentOrderRequest(orderId, amount),
+      creditTerms: { creditLineId: line.id, terms: line.terms, dueDate: dueDateFor(line.terms) }
+    });
+  };
+
   const handlePlaceOrder = async () => {
     if (!validateForm()) return;
 
+    if (hasMoqViolations) {
+      setError('Some items are below the minimum order quantity. Please update them before placing your order.');
+      return;
+    }
+
     setProcessing(true);
     setError(null);
+    setFailedVendors([]);
 
     try {
-      // Create order
-      const orderData: CreateOrderDto = {
-        items: items.map(item => ({
-          productId: parseInt(item.id, 10), // Convert string ID to number
-          quantity: item.quantity,
-          price: item.price * 100 // Convert to paise
-        })),
-        shippingAddressId: 1, // Use a default address ID for now
-        billingAddressId: formData.sameAsShipping ? 1 : 2, // Use same address ID or different one
-        paymentMethod: formData.paymentMethod === 'RAZORPAY' ? 'ONLINE' : formData.paymentMethod,
+      // Re-check stock against the catalog before creating any order
+      const stockCheck = await dispatch(revalidateCartStock()).unwrap();
+      if (stockCheck.blockedItemIds.length > 0 || stockCheck.changed) {
+        setError(
+          stockCheck.blockedItemIds.length > 0
+            ? 'Some items are no longer available. Please review your cart before placing the order.'
+            : 'Quantities in your cart were adjusted to current stock. Please review the totals and try again.'
+        );
+        setProcessing(false);
+        return;
+      }
+
+      const { shippingAddress } = formData;
+      const checkoutRequest: CheckoutRequest = {
+        shippingAddress: {
+          fullName: user?.name || 'Customer',
+          address: [shippingAddress.addressLine1, shippingAddress.addressLine2].filter(Boolean).join(', '),
+          city: shippingAddress.city,
+          state: shippingAddress.state,
+          pincode: shippingAddress.pincode,
+          phone: user?.phone || ''
+        },
+        paymentMethod: formData.paymentMethod,
+        buyerGstin,
         notes: formData.notes
       };
 
-      if (formData.paymentMethod === 'COD') {
-        // Handle Cash on Delivery
-        const order = await orderAPI.create(orderData);
+      // An order is booked for the payment method it was placed with (credit line, COD charge),
+      // so orders from an attempt with another method are cancelled and placed again
+      const pending = { ...createdOrders };
+      for (const created of Object.values(createdOrders)) {
+        if (created.paymentMethod === formData.paymentMethod) continue;
+        try {
+          await orderService.cancelOrder(created.response!.orderId);
+          delete pending[created.vendorId];
+        } catch (cancelError) {
+          console.error('Error cancelling order:', cancelError);
+          setCreatedOrders(pending);
+          throw new Error(`Couldn't cancel the earlier ${created.vendorName} order to change how it is paid. Please try again.`);
+        }
+      }
+      setCreatedOrders({ ...pending });
+
+      // Only vendors without an order yet are submitted again
+      const groupsToSubmit = vendorGroups.filter(group => !pending[group.vendorId]);
+      const { succeeded, failed } = groupsToSubmit.length > 0
+        ? await orderService.checkoutByVendor(checkoutRequest, groupsToSubmit.map(group => ({
+            vendorId: group.vendorId,
+            vendorName: group.vendorName,
+            items: group.items.map(toCartCheckoutItem),
+            tax: toOrderTaxSummary(groupTaxes[group.vendorId]),
+            shipping: shippingSelections[group.vendorId] && { ...shippingSelections[group.vendorId], cost: getGroupShipping(group) },
+            creditLineId: formData.paymentMethod === 'CREDIT' ? getCreditLine(group.vendorId)?.id : undefined
+          })))
+        : { succeeded: [], failed: [] as VendorCheckoutResult[] };
+
+      succeeded.forEach(result => { pending[result.vendorId] = { ...result, paymentMethod: formData.paymentMethod }; });
+      const toPay = vendorGroups.map(group => pending[group.vendorId]).filter(Boolean);
+
+      const unpaid: VendorCheckoutResult[] = [...failed];
+      const transfers: typeof pendingTransfers = [];
+      let placedCount = 0;
+
+      for (const result of toPay) {
+        // The server's order total is what gets charged, not the amount worked out here
+        if (formData.paymentMethod === 'CREDIT') {
+          try {
+            await bookOnTerms(result.response!.orderId, result.response!.amount, getCreditLine(result.vendorId)!);
+          } catch (creditError: any) {
+            unpaid.push({ ...result, success: false, error: creditError.message });
+            continue;
+          }
+        } else if (formData.paymentMethod !== 'COD') {
+          try {
+            const payment = await payForOrder(result.response!.orderId, result.response!.amount);
+            if (payment.status === 'pending' && payment.paymentOrder.bankTransfer) {
+              transfers.push({ vendorName: result.vendorName, paymentOrder: payment.paymentOrder });
+            }
+          } catch (paymentError: any) {
+            unpaid.push({ ...result, success: false, error: paymentError.message });
+            continue;
+          }
+        }
+        // Only this vendor's lines leave the cart; failed vendors stay for a retry
+        dispatch(removeVendorItems(result.vendorId));
+        delete pending[result.vendorId];
+        placedCount++;
+      }
+
+      setCreatedOrders(pending);
+      setPendingTransfers(transfers);
+
+      if (unpaid.length === 0) {
         setOrderSuccess(true);
-        dispatch(clearCartItems());
-        
-        // Redirect to order confirmation
+        // Bank transfer buyers stay here to see the account details and submit the UTR
+        if (transfers.length > 0) return;
+
+        // Redirect to order list - there is one order per vendor
         setTimeout(() => {
-          router.push(`/orders/${order.id}`);
+          router.push(toPay.length === 1 ? `/orders/${toPay[0].response!.orderId}` : '/orders');
         }, 2000);
-        
-      } else if (formData.paymentMethod === 'RAZORPAY') {
-        // Handle Razorpay payment
-        const order = await orderAPI.create(orderData);
-        
-        // Create payment order
-        const paymentOrderRequest: CreatePaymentOrderRequest = {
-          orderId: order.id.toString(),
-          amount: finalAmount * 100, // Convert to paise
-          currency: 'INR',
-          customerInfo: {
-            name: user?.name || 'Customer',
-            email: user?.email || '',
-            phone: user?.phone || ''
-          } as { name: string; email: string; phone: string; },
-          notes: {
-            orderId: order.id.toString(),
-            customerId: user?.id?.toString() || ''
-          }
-        };
-
-        const paymentOrder = await paymentService.createPaymentOrder(paymentOrderRequest);
-
-        // Process payment with Razorpay
-        await paymentService.processPayment(
-          paymentOrder,
-          {
-            name: user?.name || 'Customer',
-            email: user?.email || '',
-            phone: user?.phone || ''
-          } as { name: string; email: string; phone: string; },
-          async (response) => {
-            // Payment successful
-            console.log('Payment successful:', response);
-            setOrderSuccess(true);
-            dispatch(clearCartItems());
-            
-            // Redirect to order confirmation
-            setTimeout(() => {
-              router.push(`/orders/${order.id}`);
-            }, 2000);
-          },
-          (error) => {
-            // Payment failed
-            console.error('Payment failed:', error);
-            setError(error.reason || 'Payment failed. Please try again.');
-            setProcessing(false);
-          }
-        );
+        return;
       }
+
+      setFailedVendors(unpaid);
+      setError(
+        placedCount > 0
+          ? `${placedCount} of ${vendorGroups.length} vendor orders were placed. The remaining items are still in your cart.`
+          : 'Failed to place order. Please try again.'
+      );
+      setProcessing(false);
     } catch (error: any) {
       console.error('Checkout error:', error);
       setError(error.message || 'Failed to place order. Please try again.');
@@ -278,6 +565,34 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  const transferCards = pendingTransfers.map(({ vendorName, paymentOrder }) => (
+    <BankTransferPayment
+      key={paymentOrder.id}
+      paymentOrder={paymentOrder}
+      title={`${vendorName} - pay by ${paymentOrder.bankTransfer!.mode}`}
+    />
+  ));
+
+  if (orderSuccess && pendingTransfers.length > 0) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-2xl mx-auto px-4 space-y-4">
+          <div className="text-center">
+            <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Order Placed - Awaiting Payment</h2>
+            <p className="text-gray-600">
+              Transfer the amount below to each account, then submit the UTR. Orders ship once the transfer is confirmed.
+            </p>
+          </div>
+          {transferCards}
+          <div className="text-center">
+            <Button variant="outline" onClick={() => router.push('/orders')}>View my orders</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (orderSuccess) {
     return (
       <div className="min-h-screen bg-gray-50 py-12">
@@ -313,10 +628,22 @@ const CheckoutPage: React.FC = () => {
                 <ExclamationCircleIcon className="h-5 w-5 text-red-500 mr-2" />
                 <p className="text-red-700">{error}</p>
               </div>
+              {failedVendors.length > 0 && (
+                <ul className="mt-2 ml-7 list-disc text-sm text-red-700">
+                  {failedVendors.map((result) => (
+                    <li key={result.vendorId}>
+                      {result.vendorName}: {result.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </CardContent>
           </Card>
         )}
 
+        {/* Orders that were placed by bank transfer before another vendor failed */}
+        {pendingTransfers.length > 0 && <div className="mb-6 space-y-4">{transferCards}</div>}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column - Forms */}
           <div className="lg:col-span-2 space-y-6">
@@ -442,6 +769,54 @@ const CheckoutPage: React.FC = () => {
               </CardContent>
             </Card>
 
+            {/* GST Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle>GST Details (Optional)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  label="GSTIN"
+                  name="gstin"
+                  value={formData.gstin}
+                  onChange={(e) => handleInputChange('gstin', e.target.value.toUpperCase())}
+                  placeholder="27ABCDE1234F1Z5"
+                  maxLength={15}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  Add your GSTIN to claim input tax credit. It is printed on each vendor&apos;s invoice.
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Delivery Options */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <TruckIcon className="h-5 w-5 mr-2" />
+                  Delivery Options
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {vendorGroups.map((group) => (
+                  <div key={group.vendorId} className="space-y-2">
+                    <p className="flex items-center text-sm font-semibold text-gray-900">
+                      <BuildingStorefrontIcon className="h-4 w-4 mr-1" />
+                      {group.vendorName}
+                    </p>
+                    <CarrierRateSelector
+                      group={group}
+                      toAddress={formData.shippingAddress}
+                      cod={formData.paymentMethod === 'COD'}
+                      shippingCharge={shippingEstimates[group.vendorId] ? getGroupShipping(group) : undefined}
+                      selected={shippingSelections[group.vendorId]}
+                      onSelect={handleCarrierSelect}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
             {/* Payment Method */}
             <Card>
               <CardHeader>
@@ -452,43 +827,93 @@ const CheckoutPage: React.FC = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-3">
-                  <div className="flex items-center space-x-3">
-                    <input
-                      type="radio"
-                      id="razorpay"
-                      name="paymentMethod"
-                      value="RAZORPAY"
-                      checked={formData.paymentMethod === 'RAZORPAY'}
-                      onChange={(e) => handleInputChange('paymentMethod', e.target.value)}
-                      className="text-blue-600"
-                    />
-                    <label htmlFor="razorpay" className="flex items-center space-x-2">
-                      <span>💳</span>
-                      <span className="font-medium">Online Payment (Cards, UPI, Net Banking)</span>
-                    </label>
+                  {paymentOptions.map(option => (
+                    <div key={option.value} className="flex items-center space-x-3">
+                      <input
+                        type="radio"
+                        id={`payment-${option.value}`}
+                        name="paymentMethod"
+                        value={option.value}
+                        checked={formData.paymentMethod === option.value}
+                        onChange={(e) => handleInputChange('paymentMethod', e.target.value)}
+                        className="text-blue-600"
+                      />
+                      <label htmlFor={`payment-${option.value}`} className="flex items-center space-x-2">
+                        <span>{option.icon}</span>
+                        <span className="font-medium">{option.label}</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+
+                {formData.paymentMethod === 'ONLINE' && (
+                  <div className="bg-blue-50 p-4 rounded-lg space-y-3">
+                    <p className="text-sm text-blue-700">
+                      You will complete your payment on our secure payment gateway.
+                    </p>
+                    {stagedGroups.length > 0 && (
+                      <label className="flex items-start space-x-2 text-sm text-blue-900">
+                        <input
+                          type="checkbox"
+                          checked={formData.payInMilestones}
+                          onChange={(e) => handleInputChange('payInMilestones', e.target.checked)}
+                          className="mt-1"
+                        />
+                        <span>
+                          Pay {stagedGroups.map(group => group.vendorName).join(', ')} in stages:{' '}
+                          {DEFAULT_MILESTONE_PLAN.map(step => `${step.percent}% ${step.label.toLowerCase()}`).join(', ')}.
+                          Each payment is held in escrow until the vendor confirms that stage.
+                        </span>
+                      </label>
+                    )}
                   </div>
-                  
-                  <div className="flex items-center space-x-3">
-                    <input
-                      type="radio"
-                      id="cod"
-                      name="paymentMethod"
-                      value="COD"
-                      checked={formData.paymentMethod === 'COD'}
-                      onChange={(e) => handleInputChange('paymentMethod', e.target.value)}
-                      className="text-blue-600"
+                )}
+
+                {formData.paymentMethod === 'UPI' && (
+                  <div className="bg-blue-50 p-4 rounded-lg space-y-2">
+                    <Input
+                      label="UPI ID"
+                      value={formData.upiId}
+                      onChange={(e) => handleInputChange('upiId', e.target.value)}
+                      placeholder="yourname@bank"
                     />
-                    <label htmlFor="cod" className="flex items-center space-x-2">
-                      <span>💰</span>
-                      <span className="font-medium">Cash on Delivery</span>
-                    </label>
+                    <p className="text-sm text-blue-700">
+                      We&apos;ll send a payment request to this UPI ID. On your phone, leave it blank to pay in your UPI app.
+                    </p>
                   </div>
-                </div>
+                )}
 
-                {formData.paymentMethod === 'RAZORPAY' && (
+                {formData.paymentMethod === 'BANK_TRANSFER' && (
                   <div className="bg-blue-50 p-4 rounded-lg">
                     <p className="text-sm text-blue-700">
-                      You will be redirected to Razorpay secure payment gateway to complete your payment.
+                      After placing the order you&apos;ll get account details for NEFT/RTGS. Orders ship once the transfer and its UTR are confirmed.
+                    </p>
+                  </div>
+                )}
+
+                {formData.paymentMethod === 'CREDIT' && (
+                  <div className="bg-blue-50 p-4 rounded-lg space-y-2">
+                    {vendorGroups.map(group => {
+                      const line = getCreditLine(group.vendorId);
+                      const covered = canPayOnTerms(line, getGroupAmount(group));
+                      return (
+                        <div key={group.vendorId} className="flex justify-between text-sm">
+                          <span className="font-medium text-gray-900">{group.vendorName}</span>
+                          {line ? (
+                            <span className={covered ? 'text-blue-700' : 'text-red-600'}>
+                              {CREDIT_TERM_LABELS[line.terms]} · {formatRupees(availableCredit(line))} available
+                              {covered && ` · due ${dueDateFor(line.terms)}`}
+                            </span>
+                          ) : (
+                            <span className="text-red-600">No credit line</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                    <p className="text-sm text-blue-700">
+                      {groupsWithoutCredit.length === 0
+                        ? 'Each order is billed to your credit line and payable by its due date.'
+                        : 'Pay on terms is only available when every vendor in your cart has granted enough credit.'}
                     </p>
                   </div>
                 )}
@@ -496,7 +921,7 @@ const CheckoutPage: React.FC = () => {
                 {formData.paymentMethod === 'COD' && (
                   <div className="bg-orange-50 p-4 rounded-lg">
                     <p className="text-sm text-orange-700">
-                      Additional ₹50 COD charges will be applied. Pay in cash when your order is delivered.
+                      Additional ₹{COD_CHARGE} COD charges apply to each vendor order. Pay in cash when your order is delivered.
                     </p>
                   </div>
                 )}
@@ -530,16 +955,43 @@ const CheckoutPage: React.FC = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Items */}
-                <div className="space-y-3">
-                  {items.map((item) => (
-                    <div key={item.id} className="flex items-center space-x-3">
-                      <div className="w-12 h-12 bg-gray-100 rounded-lg flex-shrink-0"></div>
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">{item.name}</p>
-                        <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                {/* Items grouped into one order per vendor */}
+                <div className="space-y-4">
+                  {vendorGroups.map((group) => (
+                    <div key={group.vendorId} className="border border-gray-200 rounded-lg p-3 space-y-3">
+                      <p className="flex items-center text-sm font-semibold text-gray-900">
+                        <BuildingStorefrontIcon className="h-4 w-4 mr-1" />
+                        {group.vendorName}
+                      </p>
+                      {group.items.map((item) => (
+                        <div key={item.id} className="flex items-center space-x-3">
+                          <div className="w-12 h-12 bg-gray-100 rounded-lg flex-shrink-0"></div>
+                          <div className="flex-1">
+                            <p className="font-medium text-sm">{item.name}</p>
+                            <p className="text-sm text-gray-600">Qty: {item.quantity}</p>
+                          </div>
+                          <p className="font-medium">₹{(getCartItemUnitPrice(item) * item.quantity).toFixed(2)}</p>
+                        </div>
+                      ))}
+                      {group.moqViolations.map((item) => (
+                        <p key={item.id} className="text-xs text-red-600">
+                          {item.name} requires a minimum of {item.minOrderQuantity} {item.unit || 'units'}
+                        </p>
+                      ))}
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>Taxable value</span>
+                        <span>₹{group.subtotal.toFixed(2)}</span>
+                      </div>
+                      <GstBreakup breakup={groupTaxes[group.vendorId]} className="text-xs text-gray-600" />
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>
+                          Shipping
+                          {shippingSelections[group.vendorId] && ` (${formatProviderName(shippingSelections[group.vendorId].provider)})`}
+                        </span>
+                        <span className={getGroupShipping(group) === 0 ? 'text-green-600' : ''}>
+                          {getGroupShipping(group) === 0 ? 'FREE' : `₹${getGroupShipping(group).toFixed(2)}`}
+                        </span>
                       </div>
-                      <p className="font-medium">₹{(item.price * item.quantity).toFixed(2)}</p>
                     </div>
                   ))}
                 </div>
@@ -554,14 +1006,14 @@ const CheckoutPage: React.FC = () => {
                   </div>
                   
                   <div className="flex justify-between text-sm">
-                    <span>Tax (18% GST)</span>
+                    <span>GST</span>
                     <span>₹{taxAmount.toFixed(2)}</span>
                   </div>
                   
                   <div className="flex justify-between text-sm">
                     <span className="flex items-center">
                       <TruckIcon className="h-4 w-4 mr-1" />
-                      Shipping
+                      Shipping ({vendorGroups.length} {vendorGroups.length === 1 ? 'order' : 'orders'})
                     </span>
                     <span className={shippingCharges === 0 ? 'text-green-600' : ''}>
                       {shippingCharges === 0 ? 'FREE' : `₹${shippingCharges.toFixed(2)}`}
@@ -571,7 +1023,7 @@ const CheckoutPage: React.FC = () => {
                   {formData.paymentMethod === 'COD' && (
                     <div className="flex justify-between text-sm">
                       <span>COD Charges</span>
-                      <span>₹50.00</span>
+                      <span>₹{codCharges.toFixed(2)}</span>
                     </div>
                   )}
 
@@ -579,21 +1031,23 @@ const CheckoutPage: React.FC = () => {
 
                   <div className="flex justify-between font-bold text-lg">
                     <span>Total</span>
-                    <span>₹{(finalAmount + (formData.paymentMethod === 'COD' ? 50 : 0)).toFixed(2)}</span>
+                    <span>₹{finalAmount.toFixed(2)}</span>
                   </div>
                 </div>
 
-                {subtotal < 500 && (
-                  <div className="bg-blue-50 p-3 rounded-lg">
-                    <p className="text-sm text-blue-700">
-                      Add ₹{(500 - subtotal).toFixed(2)} more for free shipping!
-                    </p>
-                  </div>
-                )}
+                {vendorGroups.map(group => ({ group, threshold: shippingEstimates[group.vendorId]?.zone?.freeShippingThreshold }))
+                  .filter(({ group, threshold }) => threshold !== undefined && !isFreeShipping(group) && threshold > group.subtotal)
+                  .map(({ group, threshold }) => (
+                    <div key={group.vendorId} className="bg-blue-50 p-3 rounded-lg">
+                      <p className="text-sm text-blue-700">
+                        Add ₹{(threshold! - group.subtotal).toFixed(2)} more from {group.vendorName} for free shipping!
+                      </p>
+                    </div>
+                  ))}
 
                 <Button
                   onClick={handlePlaceOrder}
-                  disabled={processing || loading}
+                  disabled={processing || loading || estimatingShipping || hasMoqViolations}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 text-lg font-semibold"
                 >
                   {processing ? (
@@ -602,7 +1056,7 @@ const CheckoutPage: React.FC = () => {
                       Processing...
                     </div>
                   ) : (
-                    `Place Order - ₹${(finalAmount + (formData.paymentMethod === 'COD' ? 50 : 0)).toFixed(2)}`
+                    `Place Order - ₹${finalAmount.toFixed(2)}`
                   )}
                 </Button>
 
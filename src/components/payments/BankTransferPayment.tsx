@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import { paymentService, type PaymentOrder } from '@/services/paymentService';
+import { isValidUtr } from '@/services/paymentProviders';
+import { Button } from '@/shared/components/Button';
+import { Card, CardContent } from '@/shared/components/Card';
+import { CheckCircleIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+
+interface BankTransferPaymentProps {
+  paymentOrder: PaymentOrder;
+  title?: string;
+  onSubmitted?: (paymentOrder: PaymentOrder) => void;
+}
+
+const PROOF_TYPES = 'image/jpeg,image/png,application/pdf';
+
+const BankTransferPayment: React.FC<BankTransferPaymentProps> = ({ paymentOrder, title, onSubmitted }) => {
+  const [utr, setUtr] = useState(paymentOrder.utr || '');
+  const [proof, setProof] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(Boolean(paymentOrder.utr));
+  const [error, setError] = useState<string | null>(null);
+
+  const bank = paymentOrder.bankTransfer;
+  if (!bank) return null;
+
+  const rows: Array<[string, string]> = [
+    ['Account name', bank.accountName],
+    ['Account number', bank.accountNumber],
+    ['IFSC', bank.ifsc],
+    ['Bank', bank.bankName],
+    ['Remarks / reference', bank.reference]
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidUtr(utr)) {
+      setError('Enter the 16 or 22 character UTR (or 12-digit IMPS reference) from your bank');
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      const updated = await paymentService.submitBankTransferProof(paymentOrder.id, utr, proof || undefined);
+      setSubmitted(true);
+      onSubmitted?.(updated);
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit the transfer details');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="font-semibold text-gray-900">{title || `Pay by ${bank.mode}`}</h3>
+          <span className="text-lg font-bold text-gray-900">{paymentService.formatCurrency(paymentOrder.amount)}</span>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-600">{label}</dt>
+              <dd className="font-medium text-gray-900 flex items-center gap-1">
+                {value}
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard?.writeText(value)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={`Copy ${label}`}
+                >
+                  <DocumentDuplicateIcon className="h-4 w-4" />
+                </button>
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        {submitted ? (
+          <div className="flex items-center gap-2 bg-green-50 text-green-700 text-sm p-3 rounded-lg">
+            <CheckCircleIcon className="h-5 w-5" />
+            UTR {utr.toUpperCase()} submitted. We&apos;ll confirm the order once the transfer is matched.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+            <p className="text-sm text-gray-600">
+              After transferring, enter the UTR from your bank statement so we can match the payment.
+            </p>
+            <input
+              value={utr}
+              onChange={(e) => setUtr(e.target.value)}
+              placeholder="UTR number"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
+            />
+            <label className="block text-sm text-gray-600">
+              Transfer receipt (optional)
+              <input
+                type="file"
+                accept={PROOF_TYPES}
+                onChange={(e) => setProof(e.target.files?.[0] || null)}
+                className="block mt-1 text-sm"
+              />
+            </label>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" disabled={submitting || !utr.trim()}>
+              {submitting ? 'Submitting...' : 'Submit UTR'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BankTransferPayment;
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import {
+  paymentService,
+  type MilestoneStatus,
+  type PaymentMilestone,
+  type PaymentSchedule as PaymentScheduleData
+} from '@/services/paymentService';
+import {
+  canRequestMilestone,
+  getMilestoneProgress,
+  MILESTONE_TRIGGER_LABELS
+} from '@/shared/utils/paymentMilestones';
+
+interface PaymentScheduleProps {
+  orderId: string;
+  // Buyers pay due milestones; vendors request the next one and confirm paid ones
+  role: 'buyer' | 'vendor';
+  initialSchedule?: PaymentScheduleData | null;
+}
+
+const STATUS_STYLES: Record<MilestoneStatus, string> = {
+  PENDING: 'bg-gray-100 text-gray-700',
+  DUE: 'bg-yellow-100 text-yellow-800',
+  PAID: 'bg-blue-100 text-blue-800',
+  RELEASED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<MilestoneStatus, string> = {
+  PENDING: 'Upcoming',
+  DUE: 'Due',
+  PAID: 'In escrow',
+  RELEASED: 'Released',
+  CANCELLED: 'Cancelled',
+};
+
+// Compact paid/released bar for order lists
+export function MilestoneProgressBar({ milestones }: { milestones: PaymentMilestone[] }) {
+  const progress = getMilestoneProgress(milestones);
+  const paidCount = milestones.filter(m => m.status === 'PAID' || m.status === 'RELEASED').length;
+  return (
+    <div className="min-w-[8rem]">
+      <div className="relative h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-blue-300" style={{ width: `${progress.percentPaid}%` }} />
+        <div className="absolute inset-y-0 left-0 bg-green-500" style={{ width: `${progress.percentReleased}%` }} />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">{paidCount} of {milestones.length} milestones paid</p>
+    </div>
+  );
+}
+
+export default function PaymentSchedule({ orderId, role, initialSchedule }: PaymentScheduleProps) {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [schedule, setSchedule] = useState<PaymentScheduleData | null>(initialSchedule ?? null);
+  const [loading, setLoading] = useState(initialSchedule === undefined);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setSchedule(await paymentService.getPaymentSchedule(orderId));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    if (initialSchedule === undefined) load();
+  }, [initialSchedule, load]);
+
+  const runAction = async (milestone: PaymentMilestone, action: () => Promise<unknown>) => {
+    setBusyId(milestone.id);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePay = (milestone: PaymentMilestone) => runAction(milestone, () =>
+    paymentService.payMilestone(milestone, {
+      name: user?.name || 'Customer',
+      email: user?.email || '',
+      phone: user?.phone || ''
+    })
+  );
+
+  const handleRequest = (milestone: PaymentMilestone) =>
+    runAction(milestone, () => paymentService.requestMilestonePayment(milestone.id));
+
+  const handleConfirm = (milestone: PaymentMilestone) => {
+    if (!confirm(`Confirm "${milestone.label}" is complete? The escrowed ${paymentService.formatCurrency(milestone.amount)} will be released to you.`)) return;
+    runAction(milestone, () => paymentService.confirmMilestone(milestone.id));
+  };
+
+  if (loading) return <p className="text-sm text-gray-500">Loading payment schedule...</p>;
+  if (!schedule || schedule.milestones.length === 0) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : <p className="text-sm text-gray-500">Paid in full at checkout.</p>;
+  }
+
+  const milestones = [...schedule.milestones].sort((a, b) => a.sequence - b.sequence);
+  const progress = getMilestoneProgress(milestones);
+
+  const actionFor = (milestone: PaymentMilestone) => {
+    const busy = busyId === milestone.id;
+    const buttonClass = 'px-3 py-1 text-xs rounded-md text-white disabled:opacity-50';
+    if (role === 'buyer' && milestone.status === 'DUE') {
+      return (
+        <button onClick={() => handlePay(milestone)} disabled={busyId !== null} className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}>
+          {busy ? 'Paying...' : 'Pay now'}
+        </button>
+      );
+    }
+    if (role === 'vendor' && canRequestMilestone(milestone, milestones)) {
+      return (
+        <button onClick={() => handleRequest(milestone)} disabled={busyId !== null} className={`${buttonClass} bg-orange-600 hover:bg-orange-700`}>
+          {busy ? 'Requesting...' : 'Request payment'}
+        </button>
+      );
+    }
+    if (role === 'vendor' && milestone.status === 'PAID') {
+      return (
+        <button onClick={() => handleConfirm(milestone)} disabled={busyId !== null} className={`${buttonClass} bg-green-600 hover:bg-green-700`}>
+          {busy ? 'Confirming...' : 'Confirm & release'}
+        </button>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">
+          Paid {paymentService.formatCurrency(progress.paid)} of {paymentService.formatCurrency(progress.total)}
+        </span>
+        <span className="text-gray-600">Released {paymentService.formatCurrency(progress.released)}</span>
+      </div>
+      <MilestoneProgressBar milestones={milestones} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ol className="divide-y border rounded-md bg-white">
+        {milestones.map(milestone => (
+          <li key={milestone.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <div>
+              <p className="font-medium text-gray-900">{milestone.sequence}. {milestone.label}</p>
+              <p className="text-xs text-gray-500">{MILESTONE_TRIGGER_LABELS[milestone.trigger]}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="font-medium">{paymentService.formatCurrency(milestone.amount)}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[milestone.status]}`}>
+                {STATUS_LABELS[milestone.status]}
+              </span>
+              {actionFor(milestone)}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
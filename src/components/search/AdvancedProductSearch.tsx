@@ -9,6 +9,7 @@ import MultiSelect from '@/shared/components/MultiSelect';
 import { Button } from '@/shared/components/Button';
 import Checkbox from '@/shared/components/Checkbox';
 import RangeSlider from '@/shared/components/RangeSlider';
+import VisualSearch from '@/shared/components/VisualSearch';
 import {
   ChevronDownIcon,
   ChevronUpIcon,
@@ -391,9 +392,16 @@ const AdvancedProductSearch: React.FC = () => {
                 value={filters.query}
                 onChange={(e) => handleFilterChange('query', e.target.value)}
                 placeholder="Search products, brands, or categories..."
-                className="pl-10"
+                className="pl-10 pr-10"
               />
               <SearchIcon className="h-5 w-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <VisualSearch
+                className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                onSelectCategory={(category) => handleFilterChange(
+                  'categories',
+                  filters.categories.includes(category) ? filters.categories : [...filters.categories, category]
+                )}
+              />
             </div>
             <Select
               options={[
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { 
   searchService, 
@@ -10,8 +10,14 @@ import {
   SearchFilters,
   SearchSortOptions,
   SearchAggregation,
-  AutocompleteResult
+  AutocompleteResult,
+  SavedSearch,
+  SearchAlertFrequency
 } from '@/services/searchService';
+import { localSearchIndex, type LocalSearchEntry } from '@/services/localSearchIndex';
+import NaturalLanguageSearch from './NaturalLanguageSearch';
+import { parseSearchQuery, removeQueryToken } from '@/shared/utils/searchQuery';
+import { ALERT_FREQUENCY_LABELS } from '@/shared/utils/savedSearchAlerts';
 import { Button } from '@/shared/components/Button';
 import { Input } from '@/shared/components/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/Card';
@@ -83,9 +89,20 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
   });
 
   const [showFiltersPanel, setShowFiltersPanel] = useState(false);
-  const [savedSearches, setSavedSearches] = useState<any[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [alertFrequency, setAlertFrequency] = useState<SearchAlertFrequency>('daily');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [offlineMatches, setOfflineMatches] = useState<LocalSearchEntry[]>([]);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  const [searchMode, setSearchMode] = useState<'keyword' | 'conversational'>('keyword');
+  const latestSuggestionQuery = useRef('');
+
+  // Operators the parser picked out of the query, shown as chips
+  const understoodTokens = useMemo(
+    () => parseSearchQuery(searchState.query).tokens.filter(token => token.kind !== 'term'),
+    [searchState.query]
+  );
 
   // Update URL with current search parameters
   const updateURL = useCallback(() => {
@@ -106,10 +123,16 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
 
   // Get autocomplete suggestions
   const getSuggestions = useCallback(async (query: string) => {
-    try {
-      const suggestions = await searchService.autocomplete(query, searchType);
+    latestSuggestionQuery.current = query;
+    // Local matches arrive first and are replaced once the server answers;
+    // drop updates for a query the user has already typed past
+    const showUpdate = (suggestions: AutocompleteResult[]) => {
+      if (latestSuggestionQuery.current !== query) return;
       setSearchState(prev => ({ ...prev, suggestions }));
       setShowSuggestions(true);
+    };
+    try {
+      showUpdate(await searchService.autocomplete(query, searchType, showUpdate));
     } catch (error) {
       console.warn('Failed to get suggestions:', error);
     }
@@ -122,6 +145,7 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
     }
 
     setSearchState(prev => ({ ...prev, isLoading: true, error: null }));
+    setOfflineMatches([]);
 
     try {
       const searchRequest: SearchRequest = {
@@ -154,6 +178,7 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
         aggregations: response.aggregations,
         isLoading: false
       }));
+      setSearchId(response.searchId ?? null);
 
       // Update URL
       updateURL();
@@ -164,6 +189,9 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
         isLoading: false,
         error: error.message || 'Search failed'
       }));
+      // Still point the buyer somewhere from the categories and products cached on this device
+      await localSearchIndex.load();
+      setOfflineMatches(localSearchIndex.search(searchState.query, 10).map(hit => hit.entry));
     }
   }, [searchState.query, searchState.filters, searchState.sort, searchState.page, searchType, updateURL]);
 
@@ -271,7 +299,7 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
         sort: searchState.sort
       };
 
-      await searchService.saveSearch(`Search: ${searchState.query}`, searchRequest);
+      await searchService.saveSearch(`Search: ${searchState.query}`, searchRequest, alertFrequency);
       loadSavedSearches();
     } catch (error) {
       console.error('Failed to save search:', error);
@@ -329,9 +357,21 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
     </div>
   );
 
+  // Record which position was clicked so relevance can be measured, then open the listing
+  const openResult = (id: string, index: number, href: string) => {
+    if (searchId) {
+      searchService.trackClick(searchId, id, (searchState.page - 1) * 20 + index + 1);
+    }
+    router.push(href);
+  };
+
   // Render product result
-  const renderProductResult = (product: SearchProduct) => (
-    <Card key={product.id} className="hover:shadow-md transition-shadow cursor-pointer">
+  const renderProductResult = (product: SearchProduct, index: number) => (
+    <Card
+      key={product.id}
+      className="hover:shadow-md transition-shadow cursor-pointer"
+      onClick={() => openResult(product.id, index, `/productdetails/${product.id}`)}
+    >
       <CardContent className="p-4">
         <div className="flex space-x-4">
           <div className="flex-shrink-0">
@@ -453,11 +493,38 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
     </Card>
   );
 
+  // Conversational mode only searches products
+  const modeToggle = searchType !== 'vendors' && (
+    <div className="flex gap-2 mb-3 text-sm">
+      {([['keyword', 'Keyword search'], ['conversational', 'Describe your need']] as const).map(([mode, label]) => (
+        <button
+          key={mode}
+          onClick={() => setSearchMode(mode)}
+          className={`px-3 py-1 rounded-full ${searchMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (modeToggle && searchMode === 'conversational') {
+    return (
+      <div className="w-full">
+        <div className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 pt-4">{modeToggle}</div>
+        </div>
+        <NaturalLanguageSearch initialText={searchState.query} />
+      </div>
+    );
+  }
+
   return (
     <div className="w-full">
       {/* Search Header */}
       <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
         <div className="max-w-7xl mx-auto px-4 py-4">
+          {modeToggle}
           <div className="flex items-center space-x-4">
             {/* Search Input */}
             <div className="flex-1 relative">
@@ -497,7 +564,12 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
                           <div className="flex items-center space-x-2">
                             <TagIcon className="h-4 w-4 text-gray-400" />
                             <span>{suggestion.text}</span>
-                            <span className="text-xs text-gray-500">({suggestion.count})</span>
+                            {suggestion.count !== undefined && (
+                              <span className="text-xs text-gray-500">({suggestion.count})</span>
+                            )}
+                            {suggestion.metadata?.path && (
+                              <span className="text-xs text-gray-400 truncate">in {suggestion.metadata.path}</span>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -547,18 +619,60 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
               )}
 
               {searchState.query && (
-                <Button
-                  variant="outline"
-                  onClick={saveCurrentSearch}
-                  className="flex items-center space-x-2"
-                >
-                  <BookmarkIcon className="h-4 w-4" />
-                  <span>Save</span>
-                </Button>
+                <>
+                  <select
+                    value={alertFrequency}
+                    onChange={(e) => setAlertFrequency(e.target.value as SearchAlertFrequency)}
+                    className="border border-gray-300 rounded px-2 py-2 text-sm"
+                    aria-label="Alert frequency"
+                    title="Alerts are checked while you have the app open"
+                  >
+                    {(Object.keys(ALERT_FREQUENCY_LABELS) as SearchAlertFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{ALERT_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    onClick={saveCurrentSearch}
+                    className="flex items-center space-x-2"
+                  >
+                    <BookmarkIcon className="h-4 w-4" />
+                    <span>Save</span>
+                  </Button>
+                </>
               )}
             </div>
           </div>
 
+          {/* Understood Query */}
+          {understoodTokens.length > 0 && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-500">Understood:</span>
+              {understoodTokens.map((token, index) => (
+                <span
+                  key={`${token.raw}-${index}`}
+                  title={token.error}
+                  className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm ${
+                    token.error
+                      ? 'bg-red-50 text-red-700 border border-red-200 line-through'
+                      : token.kind === 'exclude'
+                        ? 'bg-gray-100 text-gray-700'
+                        : 'bg-green-100 text-green-800'
+                  }`}
+                >
+                  <span>{token.label}</span>
+                  <button
+                    onClick={() => handleQueryChange(removeQueryToken(searchState.query, token))}
+                    className="hover:bg-black/10 rounded-full p-0.5"
+                    aria-label={`Remove ${token.label}`}
+                  >
+                    <XMarkIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Active Filters */}
           {Object.keys(searchState.filters).length > 0 && (
             <div className="mt-4 flex flex-wrap items-center gap-2">
@@ -698,6 +812,32 @@ const AdvancedSearchComponent: React.FC<AdvancedSearchProps> = ({
             {searchState.error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
                 <p className="text-red-700">{searchState.error}</p>
+                {offlineMatches.length > 0 && (
+                  <div className="mt-3">
+                    <p className="text-sm text-gray-600 mb-2">Matches saved on this device:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {offlineMatches.map(entry => entry.type === 'product' ? (
+                        <a
+                          key={entry.id}
+                          href={`/productdetails/${entry.refId}`}
+                          className="px-3 py-1 bg-white border border-gray-200 rounded-full text-sm hover:border-blue-400"
+                        >
+                          {entry.name}
+                          {entry.price !== undefined && <span className="text-gray-500 ml-1">₹{entry.price.toLocaleString('en-IN')}</span>}
+                        </a>
+                      ) : (
+                        <button
+                          key={entry.id}
+                          onClick={() => handleQueryChange(entry.name)}
+                          className="px-3 py-1 bg-white border border-gray-200 rounded-full text-sm hover:border-blue-400"
+                        >
+                          {entry.name}
+                          {entry.path && <span className="text-gray-400 ml-1">in {entry.path}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
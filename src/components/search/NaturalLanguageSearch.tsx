@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { searchService, type SearchIntent, type SearchProduct } from '@/services/searchService';
+import { extractSearchIntent, intentToRfqParams, intentToSearchRequest } from '@/shared/utils/searchIntent';
+import { RFQ_UNITS } from '@/shared/constants/rfqSpecFields';
+import { Button } from '@/shared/components/Button';
+import { Card, CardContent } from '@/shared/components/Card';
+import { ChatBubbleLeftRightIcon, DocumentTextIcon, MapPinIcon } from '@heroicons/react/24/outline';
+
+interface NaturalLanguageSearchProps {
+  initialText?: string;
+}
+
+const EXAMPLES = [
+  'need 500 kg mild steel rods delivered to Nagpur within 10 days',
+  '200 pcs 2 inch gate valves to Pune by 15 march',
+  '5 tonnes cotton yarn in Surat within 3 weeks'
+];
+
+const fieldClass = 'w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export default function NaturalLanguageSearch({ initialText = '' }: NaturalLanguageSearchProps) {
+  const router = useRouter();
+  const [text, setText] = useState(initialText);
+  const [intent, setIntent] = useState<SearchIntent | null>(null);
+  const [results, setResults] = useState<SearchProduct[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runFacetedSearch = async (nextIntent: SearchIntent) => {
+    const response = await searchService.facetedSearch(intentToSearchRequest(nextIntent));
+    setResults(response.results);
+    setTotal(response.total);
+  };
+
+  const handleAsk = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!text.trim()) return;
+    setLoading(true);
+    setError(null);
+
+    // Local parse fills anything the NLP service leaves out, and stands in when it is down
+    const localIntent = extractSearchIntent(text);
+    try {
+      const response = await searchService.naturalLanguageSearch(text);
+      const merged = { ...localIntent, ...Object.fromEntries(
+        Object.entries(response.intent ?? {}).filter(([, value]) => value !== undefined && value !== '')
+      ) } as SearchIntent;
+      setIntent(merged);
+      setResults(response.results);
+      setTotal(response.total);
+    } catch (nlpError) {
+      console.warn('NLP search unavailable, using local intent:', nlpError);
+      setIntent(localIntent);
+      try {
+        await runFacetedSearch(localIntent);
+      } catch (err: any) {
+        setError(err.message || 'Search failed');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateIntent = (field: keyof SearchIntent, value: string) => {
+    setIntent(prev => prev && ({
+      ...prev,
+      [field]: field === 'quantity' ? (value ? Number(value) : undefined) : value || undefined
+    }));
+  };
+
+  const handleRefine = async () => {
+    if (!intent?.product) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await runFacetedSearch(intent);
+    } catch (err: any) {
+      setError(err.message || 'Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const postRfq = () => {
+    if (intent) router.push(`/post-requirement?${intentToRfqParams(intent).toString()}`);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+      <form onSubmit={handleAsk} className="space-y-2">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <ChatBubbleLeftRightIcon className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) handleAsk(e);
+              }}
+              rows={2}
+              placeholder="Describe what you need, e.g. quantity, where and by when"
+              className={`${fieldClass} pl-10 resize-none`}
+            />
+          </div>
+          <Button type="submit" disabled={loading || !text.trim()}>
+            {loading ? 'Searching...' : 'Search'}
+          </Button>
+        </div>
+        {!intent && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            <span className="text-gray-500">Try:</span>
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                type="button"
+                onClick={() => setText(example)}
+                className="text-blue-600 hover:underline"
+              >
+                &ldquo;{example}&rdquo;
+              </button>
+            ))}
+          </div>
+        )}
+      </form>
+
+      {intent && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold text-gray-900">Here&apos;s what we understood</h3>
+              <span className="text-xs text-gray-500">Edit anything that&apos;s off</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <label className="md:col-span-2 text-sm">
+                <span className="block text-gray-600 mb-1">Product</span>
+                <input value={intent.product} onChange={(e) => updateIntent('product', e.target.value)} className={fieldClass} />
+              </label>
+              <div className="text-sm">
+                <span className="block text-gray-600 mb-1">Quantity</span>
+                <div className="flex gap-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={intent.quantity ?? ''}
+                    onChange={(e) => updateIntent('quantity', e.target.value)}
+                    className={fieldClass}
+                    aria-label="Quantity"
+                  />
+                  <select
+                    value={intent.unit ?? ''}
+                    onChange={(e) => updateIntent('unit', e.target.value)}
+                    className="border border-gray-300 rounded-md px-1 text-sm"
+                    aria-label="Unit"
+                  >
+                    <option value="">Unit</option>
+                    {RFQ_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                  </select>
+                </div>
+              </div>
+              <label className="text-sm">
+                <span className="block text-gray-600 mb-1">Deliver to</span>
+                <input value={intent.location ?? ''} onChange={(e) => updateIntent('location', e.target.value)} className={fieldClass} />
+              </label>
+              <label className="text-sm">
+                <span className="block text-gray-600 mb-1">Needed by</span>
+                <input type="date" value={intent.deadline ?? ''} onChange={(e) => updateIntent('deadline', e.target.value)} className={fieldClass} />
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 mt-4">
+              <Button variant="outline" onClick={handleRefine} disabled={loading || !intent.product}>
+                Update results
+              </Button>
+              <Button onClick={postRfq} disabled={!intent.product} className="flex items-center space-x-2">
+                <DocumentTextIcon className="h-4 w-4" />
+                <span>Post as RFQ</span>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700">{error}</p>
+        </div>
+      )}
+
+      {intent && !loading && !error && (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            {total > 0
+              ? `${total.toLocaleString()} matching products`
+              : 'No listings match yet - post an RFQ and suppliers will quote for it.'}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {results.map(product => (
+              <Link key={product.id} href={`/productdetails/${product.id}`}>
+                <Card className="hover:shadow-md transition-shadow h-full">
+                  <CardContent className="p-4 flex gap-4">
+                    <img src={product.image} alt={product.name} className="w-20 h-20 object-cover rounded-lg flex-shrink-0" />
+                    <div className="min-w-0">
+                      <h4 className="font-semibold text-gray-900 truncate">{product.name}</h4>
+                      <p className="text-lg font-bold text-blue-600">₹{product.price.toLocaleString()}</p>
+                      <p className="text-sm text-gray-600 flex items-center gap-1">
+                        {product.vendor.name}
+                        <MapPinIcon className="h-4 w-4" />
+                        {product.vendor.location}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -371,6 +371,14 @@ export const getHeaders = (includeAuth: boolean = false): Record<string, string>
   return headers;
 };
 
+// Error thrown by apiRequest; status is the HTTP status of the last failed attempt, when there was a response
+export class ApiRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
 // API request helper with intelligent HTTPS/HTTP fallback
 export const apiRequest = async <T>(
   endpoint: string,
@@ -411,11 +419,11 @@ export const apiRequest = async <T>(
       // Check if backend is returning 502 Bad Gateway
       if (response.status === 502) {
         console.warn(`⚠️ Backend returning 502 Bad Gateway from: ${url}`);
-        throw new Error(`Backend service unavailable (502 Bad Gateway)`);
+        throw new ApiRequestError(`Backend service unavailable (502 Bad Gateway)`, 502);
       }
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status} from ${url}`);
+        throw new ApiRequestError(`HTTP error! status: ${response.status} from ${url}`, response.status);
       }
       console.log(`\u2705 API call successful to: ${url}`);
       clearTimeout(timeoutId); // Clear timeout on successful response
@@ -446,5 +454,8 @@ export const apiRequest = async <T>(
   }
   
   // If all URLs failed, throw the last error
-  throw new Error(`All API endpoints failed. Last error: ${lastError?.message || 'Unknown error'}. Please check if your backend server is running.`);
+  throw new ApiRequestError(
+    `All API endpoints failed. Last error: ${lastError?.message || 'Unknown error'}. Please check if your backend server is running.`,
+    lastError instanceof ApiRequestError ? lastError.status : undefined
+  );
 };
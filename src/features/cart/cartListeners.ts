@@ -0,0 +1,126 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import { cartService } from '@/services/cartService';
+import { checkAuthStatus, login, logout, verifyOTP } from '@/features/auth/authSlice';
+import {
+  CartItem,
+  CartState,
+  loadCartFromStorage,
+  loadServerCart,
+  mergeGuestCartOnLogin,
+  resetCart,
+  setServerCartItemIds
+} from './cartSlice';
+import { diffCartItems, GUEST_CART_STORAGE_KEY } from './cartSync';
+
+type CartRootState = { cart: CartState };
+
+const SYNC_DEBOUNCE_MS = 500;
+
+// Last cart contents known to be on the server
+let lastSyncedItems: CartItem[] = [];
+
+const isBuyer = (payload: { userType?: string } | undefined) =>
+  !payload?.userType || payload.userType === 'user';
+
+export const cartListenerMiddleware = createListenerMiddleware();
+
+// Guest cart is folded into the server cart on a fresh buyer login
+cartListenerMiddleware.startListening({
+  matcher: isAnyOf(login.fulfilled, verifyOTP.fulfilled),
+  effect: async (action, api) => {
+    if (isBuyer(action.payload as { userType?: string })) {
+      await api.dispatch(mergeGuestCartOnLogin());
+    }
+  },
+});
+
+// Session restore: buyers get their server cart, everyone else the guest cart
+cartListenerMiddleware.startListening({
+  actionCreator: checkAuthStatus.fulfilled,
+  effect: async (action, api) => {
+    await api.dispatch(isBuyer(action.payload) ? loadServerCart() : loadCartFromStorage());
+  },
+});
+
+cartListenerMiddleware.startListening({
+  actionCreator: checkAuthStatus.rejected,
+  effect: async (_, api) => {
+    await api.dispatch(loadCartFromStorage());
+  },
+});
+
+cartListenerMiddleware.startListening({
+  actionCreator: logout.fulfilled,
+  effect: async (_, api) => {
+    lastSyncedItems = [];
+    api.dispatch(resetCart());
+  },
+});
+
+// Snapshot whatever the server just gave us so the next diff starts from it
+cartListenerMiddleware.startListening({
+  matcher: isAnyOf(loadServerCart.fulfilled, mergeGuestCartOnLogin.fulfilled, resetCart),
+  effect: async (_, api) => {
+    lastSyncedItems = (api.getState() as CartRootState).cart.items;
+  },
+});
+
+// Push the current cart to the server, diffing against what the last sync left there
+const syncServerCart = async (getState: () => unknown, dispatch: (action: ReturnType<typeof setServerCartItemIds>) => unknown) => {
+  const { cart } = getState() as CartRootState;
+  if (cart.syncMode === 'local') {
+    return;
+  }
+
+  const { added, updated, removed } = diffCartItems(lastSyncedItems, cart.items);
+  try {
+    await Promise.all([
+      ...removed.map(item => cartService.removeFromCart(item.cartItemId!)),
+      ...updated.map(item => cartService.updateCartItem(item.cartItemId!, item.quantity)),
+    ]);
+
+    const addedIds: Record<string, number> = {};
+    for (const item of added) {
+      const serverCart = await cartService.addToCart({ productId: parseInt(item.id, 10), quantity: item.quantity });
+      const line = serverCart?.items?.find(serverItem => String(serverItem.productId) === item.id);
+      if (line) {
+        addedIds[item.id] = line.id;
+      }
+    }
+    if (added.length > 0) {
+      dispatch(setServerCartItemIds(addedIds));
+    }
+
+    lastSyncedItems = cart.items.map(item =>
+      addedIds[item.id] !== undefined ? { ...item, cartItemId: addedIds[item.id] } : item
+    );
+  } catch (error) {
+    console.error('❌ Cart sync failed:', error);
+  }
+};
+
+// Syncs run one after another: a sync that started while another was in flight
+// would diff against a stale baseline and add the same line twice
+let syncQueue: Promise<void> = Promise.resolve();
+
+// Persist item changes: localStorage for guests, debounced API calls for buyers
+cartListenerMiddleware.startListening({
+  predicate: (action, currentState, previousState) =>
+    !isAnyOf(loadServerCart.fulfilled, mergeGuestCartOnLogin.fulfilled, loadCartFromStorage.fulfilled, resetCart, setServerCartItemIds)(action) &&
+    (currentState as CartRootState).cart.items !== (previousState as CartRootState).cart.items,
+  effect: async (_, api) => {
+    api.cancelActiveListeners();
+    await api.delay(SYNC_DEBOUNCE_MS);
+
+    const { cart } = api.getState() as CartRootState;
+
+    if (cart.syncMode === 'local') {
+      localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify(cart.items));
+      return;
+    }
+
+    // State is read when this sync's turn comes, not when it was queued
+    syncQueue = syncQueue.then(() => syncServerCart(api.getState, api.dispatch));
+    await syncQueue;
+  },
+});
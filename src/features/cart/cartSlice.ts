@@ -1,4 +1,19 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { cartService } from '@/services/cartService';
+import { productService, ProductDto } from '@/services/productService';
+import { ApiRequestError } from '@/config/api';
+import type { PriceSlab } from '@/shared/types';
+import { calculateGst, type GstBreakup } from '@/shared/utils/gst';
+import { getSlabUnitPrice } from '@/shared/utils/pricing';
+import { revalidateItem, validateQuantity } from './cartValidation';
+import {
+  CatalogLookup,
+  fromCatalogProduct,
+  fromServerCartItem,
+  GUEST_CART_STORAGE_KEY,
+  mergeCartItems,
+  readGuestCart
+} from './cartSync';
 
 // Define CartItem interface
 export interface CartItem {
@@ -17,6 +32,30 @@ export interface CartItem {
   maxOrderQuantity?: number;
   inStock?: boolean;
   stockQuantity?: number;
+  // Quantity-slab pricing; `price` stays the base catalog price
+  priceSlabs?: PriceSlab[];
+  // GST inputs - gstRate is the backend's rate for hsnCode, never guessed here
+  hsnCode?: string;
+  gstRate?: number;
+  vendorGstin?: string;
+  vendorState?: string;
+  vendorPincode?: string; // pickup location, for carrier rates
+  // Per unit, for shipping estimates
+  weight?: number; // kg
+  dimensions?: { length: number; width: number; height: number }; // cm
+  // Server cart line id, set once the line is persisted for a logged-in buyer
+  cartItemId?: number;
+}
+
+// Per-vendor view of the cart - each group is checked out as its own order
+export interface VendorCartGroup {
+  vendorId: string;
+  vendorName: string;
+  items: CartItem[];
+  totalItems: number;
+  subtotal: number;
+  shippingCharges: number;
+  moqViolations: CartItem[];
 }
 
 // Define Cart state interface
@@ -27,6 +66,15 @@ export interface CartState {
   isLoading: boolean;
   error: string | null;
   lastUpdated: string | null;
+  // Per-line quantity/stock warnings keyed by item id
+  lineWarnings: Record<string, string[]>;
+  // Lines that cannot be checked out (out of stock, stock below MOQ)
+  blockedItemIds: string[];
+  isCheckingStock: boolean;
+  // 'local' = guest cart in localStorage, 'server' = persisted per user
+  syncMode: 'local' | 'server';
+  isSyncing: boolean;
+  syncNotices: string[];
 }
 
 // Initial state
@@ -37,26 +85,119 @@ const initialState: CartState = {
   isLoading: false,
   error: null,
   lastUpdated: null,
+  lineWarnings: {},
+  blockedItemIds: [],
+  isCheckingStock: false,
+  syncMode: 'local',
+  isSyncing: false,
+  syncNotices: [],
 };
 
 // Helper functions
+// Effective unit price once the line quantity crosses a price slab
+export const getCartItemUnitPrice = (item: CartItem) =>
+  getSlabUnitPrice(item.price, item.priceSlabs, item.quantity);
+
 const calculateTotals = (items: CartItem[]) => {
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-  const totalAmount = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const totalAmount = items.reduce((sum, item) => sum + getCartItemUnitPrice(item) * item.quantity, 0);
   return { totalItems, totalAmount };
 };
 
+const setLineWarnings = (state: CartState, itemId: string, warnings: string[]) => {
+  if (warnings.length > 0) {
+    state.lineWarnings[itemId] = warnings;
+  } else {
+    delete state.lineWarnings[itemId];
+  }
+  state.blockedItemIds = state.blockedItemIds.filter(id => id !== itemId);
+};
+
+// Flat placeholder until the vendor's shipping rules are evaluated for a delivery pincode
+export const VENDOR_FREE_SHIPPING_THRESHOLD = 500;
+export const VENDOR_SHIPPING_CHARGE = 50;
+
+export const groupItemsByVendor = (items: CartItem[]): VendorCartGroup[] => {
+  const groups = new Map<string, VendorCartGroup>();
+
+  items.forEach(item => {
+    let group = groups.get(item.vendorId);
+    if (!group) {
+      group = {
+        vendorId: item.vendorId,
+        vendorName: item.vendorName,
+        items: [],
+        totalItems: 0,
+        subtotal: 0,
+        shippingCharges: 0,
+        moqViolations: [],
+      };
+      groups.set(item.vendorId, group);
+    }
+    group.items.push(item);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const totals = calculateTotals(group.items);
+    return {
+      ...group,
+      totalItems: totals.totalItems,
+      subtotal: totals.totalAmount,
+      shippingCharges: totals.totalAmount > VENDOR_FREE_SHIPPING_THRESHOLD ? 0 : VENDOR_SHIPPING_CHARGE,
+      moqViolations: group.items.filter(
+        item => item.minOrderQuantity !== undefined && item.quantity < item.minOrderQuantity
+      ),
+    };
+  });
+};
+
+// GST for one vendor order; the place of supply is the delivery state
+export const getVendorGroupGst = (
+  group: VendorCartGroup,
+  placeOfSupply?: string,
+  buyerGstin?: string
+): GstBreakup => {
+  const supplier = group.items.find(item => item.vendorGstin || item.vendorState);
+  return calculateGst(
+    group.items.map(item => ({
+      id: item.id,
+      description: item.name,
+      taxableValue: getCartItemUnitPrice(item) * item.quantity,
+      hsnCode: item.hsnCode,
+      gstRate: item.gstRate,
+    })),
+    {
+      supplierGstin: supplier?.vendorGstin,
+      supplierState: supplier?.vendorState,
+      buyerGstin,
+      placeOfSupply,
+    }
+  );
+};
+
 // Async thunks
-export const addToCart = createAsyncThunk(
+export const addToCart = createAsyncThunk<
+  { item: CartItem; warnings: string[] },
+  Omit<CartItem, 'quantity'> & { quantity?: number },
+  { state: { cart: CartState }; rejectValue: string }
+>(
   'cart/addToCart',
-  async (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => {
+  async (item, { getState, rejectWithValue }) => {
+    // Validate the merged line quantity, not just the amount being added
+    const existingItem = getState().cart.items.find(cartItem => cartItem.id === item.id);
+    const requested = (existingItem?.quantity || 0) + (item.quantity || 1);
+    const result = validateQuantity(item, requested);
+    if (result.error) {
+      return rejectWithValue(result.error);
+    }
+
     // Mock API call - replace with actual API
-    return new Promise<CartItem>((resolve) => {
+    return new Promise<{ item: CartItem; warnings: string[] }>((resolve) => {
       setTimeout(() => {
         resolve({
-          ...item,
-          quantity: item.quantity || 1,
-        } as CartItem);
+          item: { ...item, quantity: result.quantity } as CartItem,
+          warnings: result.warnings,
+        });
       }, 300);
     });
   }
@@ -72,16 +213,74 @@ export const removeFromCart = createAsyncThunk(
   }
 );
 
-export const updateCartItemQuantity = createAsyncThunk(
+export const updateCartItemQuantity = createAsyncThunk<
+  { itemId: string; quantity: number; warnings: string[] },
+  { itemId: string; quantity: number },
+  { state: { cart: CartState }; rejectValue: string }
+>(
   'cart/updateQuantity',
-  async ({ itemId, quantity }: { itemId: string; quantity: number }) => {
+  async ({ itemId, quantity }, { getState, rejectWithValue }) => {
+    const item = getState().cart.items.find(cartItem => cartItem.id === itemId);
+    let warnings: string[] = [];
+
+    // Zero or less still means remove the line
+    if (item && quantity > 0) {
+      const result = validateQuantity(item, quantity);
+      if (result.error) {
+        return rejectWithValue(result.error);
+      }
+      quantity = result.quantity;
+      warnings = result.warnings;
+    }
+
     // Mock API call
-    return new Promise<{ itemId: string; quantity: number }>((resolve) => {
-      setTimeout(() => resolve({ itemId, quantity }), 300);
+    return new Promise<{ itemId: string; quantity: number; warnings: string[] }>((resolve) => {
+      setTimeout(() => resolve({ itemId, quantity, warnings }), 300);
     });
   }
 );
 
+// Re-check stock and order limits against the product API before checkout
+export const revalidateCartStock = createAsyncThunk<
+  { items: CartItem[]; lineWarnings: Record<string, string[]>; blockedItemIds: string[]; changed: boolean },
+  void,
+  { state: { cart: CartState } }
+>(
+  'cart/revalidateStock',
+  async (_, { getState }) => {
+    const { items } = getState().cart;
+    const lineWarnings: Record<string, string[]> = {};
+    const blockedItemIds: string[] = [];
+    let changed = false;
+
+    const revalidated = await Promise.all(items.map(async (item) => {
+      try {
+        const product = await productService.getProductById(item.id);
+        const result = revalidateItem(item, {
+          inStock: product.isActive === false ? false : product.stock === undefined ? undefined : product.stock > 0,
+          stockQuantity: product.stock,
+          minOrderQuantity: product.minOrderQuantity,
+          maxOrderQuantity: product.maxOrderQuantity,
+        });
+        if (result.warnings.length > 0) {
+          lineWarnings[item.id] = result.warnings;
+        }
+        if (result.blocking) {
+          blockedItemIds.push(item.id);
+        }
+        changed = changed || result.changed;
+        return product.priceSlabs ? { ...result.item, priceSlabs: product.priceSlabs } : result.item;
+      } catch (error) {
+        // Keep the line as-is when the catalog can't be reached
+        console.warn(`Stock check failed for ${item.id}:`, error);
+        return item;
+      }
+    }));
+
+    return { items: revalidated, lineWarnings, blockedItemIds, changed };
+  }
+);
+
 export const clearCart = createAsyncThunk('cart/clearCart', async () => {
   // Mock API call
   return new Promise<boolean>((resolve) => {
@@ -92,24 +291,79 @@ export const clearCart = createAsyncThunk('cart/clearCart', async () => {
 export const loadCartFromStorage = createAsyncThunk(
   'cart/loadFromStorage',
   async () => {
-    // Load cart from localStorage or API
-    const savedCart = localStorage.getItem('cart');
-    if (savedCart) {
-      return JSON.parse(savedCart) as CartItem[];
-    }
-    return [];
+    // Guest cart lives in localStorage
+    return readGuestCart();
   }
 );
 
 export const syncCartToStorage = createAsyncThunk(
   'cart/syncToStorage',
   async (items: CartItem[]) => {
-    // Save cart to localStorage or API
-    localStorage.setItem('cart', JSON.stringify(items));
+    localStorage.setItem(GUEST_CART_STORAGE_KEY, JSON.stringify(items));
     return items;
   }
 );
 
+// Restore a logged-in buyer's server cart (session restore, no guest merge)
+export const loadServerCart = createAsyncThunk(
+  'cart/loadServerCart',
+  async () => {
+    const cart = await cartService.getCart();
+    return (cart?.items || []).map(fromServerCartItem);
+  }
+);
+
+const lookupProduct = async (productId: string): Promise<ProductDto | null | undefined> => {
+  try {
+    return await productService.getProductById(productId);
+  } catch (error) {
+    // A 404 means the product is gone; anything else is an unknown state and the line is kept
+    return error instanceof ApiRequestError && error.status === 404 ? null : undefined;
+  }
+};
+
+// Merge the guest cart into the buyer's server cart after login
+export const mergeGuestCartOnLogin = createAsyncThunk(
+  'cart/mergeGuestCart',
+  async () => {
+    const guestItems = readGuestCart();
+    const serverCart = await cartService.getCart();
+    const serverItems = (serverCart?.items || []).map(fromServerCartItem);
+
+    const productIds = Array.from(new Set([...serverItems, ...guestItems].map(item => item.id)));
+    const catalog: CatalogLookup = {};
+    await Promise.all(productIds.map(async (productId) => {
+      catalog[productId] = await lookupProduct(productId);
+    }));
+
+    const { items, notices } = mergeCartItems(serverItems, guestItems, catalog);
+
+    // Push the merged result to the server
+    const mergedIds = new Set(items.map(item => item.id));
+    await Promise.all([
+      ...serverItems
+        .filter(item => !mergedIds.has(item.id))
+        .map(item => cartService.removeFromCart(item.cartItemId!)),
+      ...items.map(item => item.cartItemId
+        ? item.quantity !== serverItems.find(s => s.id === item.id)?.quantity
+          ? cartService.updateCartItem(item.cartItemId, item.quantity)
+          : Promise.resolve()
+        : cartService.addToCart({ productId: parseInt(item.id, 10), quantity: item.quantity })),
+    ]);
+
+    // Pick up server line ids for lines that were just added
+    const syncedCart = await cartService.getCart();
+    const cartItemIds = new Map((syncedCart?.items || []).map(line => [String(line.productId), line.id]));
+
+    localStorage.removeItem(GUEST_CART_STORAGE_KEY);
+
+    return {
+      items: items.map(item => ({ ...item, cartItemId: cartItemIds.get(item.id) ?? item.cartItemId })),
+      notices,
+    };
+  }
+);
+
 // Create cart slice
 const cartSlice = createSlice({
   name: 'cart',
@@ -118,12 +372,22 @@ const cartSlice = createSlice({
     // Synchronous reducers for immediate updates
     addCartItem: (state, action: PayloadAction<CartItem>) => {
       const existingItem = state.items.find(item => item.id === action.payload.id);
-      
+      const result = validateQuantity(
+        action.payload,
+        (existingItem?.quantity || 0) + action.payload.quantity
+      );
+
+      if (result.error) {
+        state.error = result.error;
+        return;
+      }
+
       if (existingItem) {
-        existingItem.quantity += action.payload.quantity;
+        existingItem.quantity = result.quantity;
       } else {
-        state.items.push(action.payload);
+        state.items.push({ ...action.payload, quantity: result.quantity });
       }
+      setLineWarnings(state, action.payload.id, result.warnings);
       
       const totals = calculateTotals(state.items);
       state.totalItems = totals.totalItems;
@@ -133,6 +397,7 @@ const cartSlice = createSlice({
 
     removeCartItem: (state, action: PayloadAction<string>) => {
       state.items = state.items.filter(item => item.id !== action.payload);
+      setLineWarnings(state, action.payload, []);
       
       const totals = calculateTotals(state.items);
       state.totalItems = totals.totalItems;
@@ -147,8 +412,15 @@ const cartSlice = createSlice({
       if (item) {
         if (quantity <= 0) {
           state.items = state.items.filter(item => item.id !== itemId);
+          setLineWarnings(state, itemId, []);
         } else {
-          item.quantity = quantity;
+          const result = validateQuantity(item, quantity);
+          if (result.error) {
+            setLineWarnings(state, itemId, [result.error]);
+            return;
+          }
+          item.quantity = result.quantity;
+          setLineWarnings(state, itemId, result.warnings);
         }
         
         const totals = calculateTotals(state.items);
@@ -158,16 +430,47 @@ const cartSlice = createSlice({
       }
     },
 
+    // Drops a vendor's lines once its sub-order has been placed
+    removeVendorItems: (state, action: PayloadAction<string>) => {
+      state.items
+        .filter(item => item.vendorId === action.payload)
+        .forEach(item => setLineWarnings(state, item.id, []));
+      state.items = state.items.filter(item => item.vendorId !== action.payload);
+
+      const totals = calculateTotals(state.items);
+      state.totalItems = totals.totalItems;
+      state.totalAmount = totals.totalAmount;
+      state.lastUpdated = new Date().toISOString();
+    },
+
     clearCartItems: (state) => {
       state.items = [];
       state.totalItems = 0;
       state.totalAmount = 0;
+      state.lineWarnings = {};
+      state.blockedItemIds = [];
       state.lastUpdated = new Date().toISOString();
     },
 
     clearError: (state) => {
       state.error = null;
     },
+
+    // Record server line ids for lines created by the background sync
+    setServerCartItemIds: (state, action: PayloadAction<Record<string, number>>) => {
+      state.items.forEach(item => {
+        if (action.payload[item.id] !== undefined) {
+          item.cartItemId = action.payload[item.id];
+        }
+      });
+    },
+
+    dismissSyncNotices: (state) => {
+      state.syncNotices = [];
+    },
+
+    // Back to an empty guest cart, e.g. on logout - the user's cart stays on the server
+    resetCart: () => initialState,
   },
   extraReducers: (builder) => {
     // Add to cart
@@ -178,13 +481,16 @@ const cartSlice = createSlice({
       })
       .addCase(addToCart.fulfilled, (state, action) => {
         state.isLoading = false;
-        const existingItem = state.items.find(item => item.id === action.payload.id);
+        const { item: validatedItem, warnings } = action.payload;
+        const existingItem = state.items.find(item => item.id === validatedItem.id);
         
+        // Quantity is already the validated line total
         if (existingItem) {
-          existingItem.quantity += action.payload.quantity;
+          existingItem.quantity = validatedItem.quantity;
         } else {
-          state.items.push(action.payload);
+          state.items.push(validatedItem);
         }
+        setLineWarnings(state, validatedItem.id, warnings);
         
         const totals = calculateTotals(state.items);
         state.totalItems = totals.totalItems;
@@ -193,7 +499,7 @@ const cartSlice = createSlice({
       })
       .addCase(addToCart.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.error.message || 'Failed to add item to cart';
+        state.error = action.payload || action.error.message || 'Failed to add item to cart';
       });
 
     // Remove from cart
@@ -204,6 +510,7 @@ const cartSlice = createSlice({
       .addCase(removeFromCart.fulfilled, (state, action) => {
         state.isLoading = false;
         state.items = state.items.filter(item => item.id !== action.payload);
+        setLineWarnings(state, action.payload, []);
         
         const totals = calculateTotals(state.items);
         state.totalItems = totals.totalItems;
@@ -222,7 +529,7 @@ const cartSlice = createSlice({
       })
       .addCase(updateCartItemQuantity.fulfilled, (state, action) => {
         state.isLoading = false;
-        const { itemId, quantity } = action.payload;
+        const { itemId, quantity, warnings } = action.payload;
         const item = state.items.find(item => item.id === itemId);
         
         if (item) {
@@ -231,6 +538,7 @@ const cartSlice = createSlice({
           } else {
             item.quantity = quantity;
           }
+          setLineWarnings(state, itemId, warnings);
           
           const totals = calculateTotals(state.items);
           state.totalItems = totals.totalItems;
@@ -240,7 +548,31 @@ const cartSlice = createSlice({
       })
       .addCase(updateCartItemQuantity.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.error.message || 'Failed to update item quantity';
+        state.error = action.payload || action.error.message || 'Failed to update item quantity';
+        if (action.payload) {
+          setLineWarnings(state, action.meta.arg.itemId, [action.payload]);
+        }
+      });
+
+    // Revalidate stock before checkout
+    builder
+      .addCase(revalidateCartStock.pending, (state) => {
+        state.isCheckingStock = true;
+      })
+      .addCase(revalidateCartStock.fulfilled, (state, action) => {
+        state.isCheckingStock = false;
+        state.items = action.payload.items;
+        state.lineWarnings = action.payload.lineWarnings;
+        state.blockedItemIds = action.payload.blockedItemIds;
+
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalAmount = totals.totalAmount;
+        state.lastUpdated = new Date().toISOString();
+      })
+      .addCase(revalidateCartStock.rejected, (state, action) => {
+        state.isCheckingStock = false;
+        state.error = action.error.message || 'Failed to check stock';
       });
 
     // Clear cart
@@ -253,6 +585,8 @@ const cartSlice = createSlice({
         state.items = [];
         state.totalItems = 0;
         state.totalAmount = 0;
+        state.lineWarnings = {};
+        state.blockedItemIds = [];
         state.lastUpdated = new Date().toISOString();
       })
       .addCase(clearCart.rejected, (state, action) => {
@@ -274,6 +608,42 @@ const cartSlice = createSlice({
       .addCase(syncCartToStorage.fulfilled, (state, action) => {
         state.lastUpdated = new Date().toISOString();
       });
+
+    // Server cart
+    builder
+      .addCase(loadServerCart.pending, (state) => {
+        state.isSyncing = true;
+      })
+      .addCase(loadServerCart.fulfilled, (state, action) => {
+        state.isSyncing = false;
+        state.syncMode = 'server';
+        state.items = action.payload;
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalAmount = totals.totalAmount;
+      })
+      .addCase(loadServerCart.rejected, (state, action) => {
+        state.isSyncing = false;
+        state.error = action.error.message || 'Failed to load your cart';
+      })
+      .addCase(mergeGuestCartOnLogin.pending, (state) => {
+        state.isSyncing = true;
+      })
+      .addCase(mergeGuestCartOnLogin.fulfilled, (state, action) => {
+        state.isSyncing = false;
+        state.syncMode = 'server';
+        state.items = action.payload.items;
+        state.syncNotices = action.payload.notices;
+        const totals = calculateTotals(state.items);
+        state.totalItems = totals.totalItems;
+        state.totalAmount = totals.totalAmount;
+        state.lastUpdated = new Date().toISOString();
+      })
+      .addCase(mergeGuestCartOnLogin.rejected, (state, action) => {
+        // Guest cart stays local so nothing is lost
+        state.isSyncing = false;
+        state.error = action.error.message || 'Failed to sync your cart';
+      });
   },
 });
 
@@ -282,15 +652,32 @@ export const {
   addCartItem,
   removeCartItem,
   updateCartItem,
+  removeVendorItems,
   clearCartItems,
   clearError,
+  setServerCartItemIds,
+  dismissSyncNotices,
+  resetCart,
 } = cartSlice.actions;
 
+// Add a catalog product with its current price slabs and order limits
+export const addProductToCart = createAsyncThunk(
+  'cart/addProduct',
+  async ({ productId, quantity = 1, vendorName }: { productId: number | string; quantity?: number; vendorName?: string }, { dispatch }) => {
+    const product = await productService.getProductById(productId);
+    dispatch(addCartItem(fromCatalogProduct(product, quantity, vendorName)));
+  }
+);
+
 // Selectors
 export const selectCartItems = (state: { cart: CartState }) => state.cart.items;
 export const selectCartTotalItems = (state: { cart: CartState }) => state.cart.totalItems;
 export const selectCartTotalAmount = (state: { cart: CartState }) => state.cart.totalAmount;
 export const selectCartIsLoading = (state: { cart: CartState }) => state.cart.isLoading;
 export const selectCartError = (state: { cart: CartState }) => state.cart.error;
+export const selectCartLineWarnings = (state: { cart: CartState }) => state.cart.lineWarnings;
+export const selectCartBlockedItemIds = (state: { cart: CartState }) => state.cart.blockedItemIds;
+export const selectCartSyncNotices = (state: { cart: CartState }) => state.cart.syncNotices;
+export const selectCartVendorGroups = createSelector([selectCartItems], groupItemsByVendor);
 
 export default cartSlice.reducer;
@@ -0,0 +1,149 @@
+import type { CartItem as ServerCartItem } from '@/services/cartService';
+import type { ProductDto } from '@/services/productService';
+import type { CartItem } from './cartSlice';
+import { validateQuantity } from './cartValidation';
+
+// localStorage key for the guest (logged-out) cart
+export const GUEST_CART_STORAGE_KEY = 'cart';
+
+// Catalog lookup used while merging: null = product no longer exists, undefined = lookup failed
+export type CatalogLookup = Record<string, ProductDto | null | undefined>;
+
+export interface CartMergeResult {
+  items: CartItem[];
+  notices: string[];
+}
+
+export interface CartDiff {
+  added: CartItem[];
+  updated: CartItem[];
+  removed: CartItem[];
+}
+
+export const readGuestCart = (): CartItem[] => {
+  try {
+    const savedCart = localStorage.getItem(GUEST_CART_STORAGE_KEY);
+    return savedCart ? (JSON.parse(savedCart) as CartItem[]) : [];
+  } catch (error) {
+    console.warn('Could not read guest cart:', error);
+    return [];
+  }
+};
+
+export const fromServerCartItem = (item: ServerCartItem): CartItem => ({
+  id: String(item.productId),
+  cartItemId: item.id,
+  name: item.productName,
+  price: item.price,
+  quantity: item.quantity,
+  image: item.productImage,
+  vendorId: item.vendor ? String(item.vendor.id) : '',
+  vendorName: item.vendor?.name || '',
+  category: '',
+  hsnCode: item.hsnCode,
+  gstRate: item.gstRate,
+  vendorGstin: item.vendor?.gstNumber,
+  vendorState: item.vendor?.state,
+  vendorPincode: item.vendor?.pincode,
+  priceSlabs: item.priceSlabs,
+  minOrderQuantity: item.minOrderQuantity,
+  maxOrderQuantity: item.maxOrderQuantity,
+  stockQuantity: item.stock,
+  inStock: item.stock === undefined ? undefined : item.stock > 0,
+});
+
+// A catalog product as a new cart line, keeping its slab pricing and order limits
+export const fromCatalogProduct = (product: ProductDto, quantity: number, vendorName = ''): CartItem => ({
+  id: String(product.id),
+  name: product.name,
+  price: product.price,
+  quantity,
+  image: product.images?.[0],
+  vendorId: product.vendorId !== undefined ? String(product.vendorId) : '',
+  vendorName,
+  category: product.category || '',
+  description: product.description,
+  minOrderQuantity: product.minOrderQuantity,
+  maxOrderQuantity: product.maxOrderQuantity,
+  stockQuantity: product.stock,
+  inStock: product.isActive === false ? false : product.stock === undefined ? undefined : product.stock > 0,
+  priceSlabs: product.priceSlabs,
+  hsnCode: product.hsnCode,
+  gstRate: product.gstRate,
+});
+
+const isDiscontinued = (product: ProductDto | null | undefined) =>
+  product === null || product?.isActive === false;
+
+/**
+ * Merge the guest cart into the server cart.
+ * Rules: quantities for the same product are summed, then capped at the
+ * product's max order quantity / stock; discontinued products are dropped.
+ */
+export const mergeCartItems = (
+  serverItems: CartItem[],
+  guestItems: CartItem[],
+  catalog: CatalogLookup
+): CartMergeResult => {
+  const notices: string[] = [];
+  const merged = new Map<string, CartItem>();
+
+  serverItems.forEach(item => merged.set(item.id, { ...item }));
+  guestItems.forEach(item => {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing
+      ? { ...existing, ...item, cartItemId: existing.cartItemId, price: existing.price, quantity: existing.quantity + item.quantity }
+      : { ...item });
+  });
+
+  const items: CartItem[] = [];
+  merged.forEach(item => {
+    const product = catalog[item.id];
+
+    if (isDiscontinued(product)) {
+      notices.push(`${item.name} has been discontinued and was removed from your cart`);
+      return;
+    }
+
+    const withCatalog: CartItem = product ? {
+      ...item,
+      stockQuantity: product.stock ?? item.stockQuantity,
+      inStock: product.stock === undefined ? item.inStock : product.stock > 0,
+      minOrderQuantity: product.minOrderQuantity ?? item.minOrderQuantity,
+      maxOrderQuantity: product.maxOrderQuantity ?? item.maxOrderQuantity,
+      priceSlabs: product.priceSlabs ?? item.priceSlabs,
+      hsnCode: product.hsnCode ?? item.hsnCode,
+      gstRate: product.gstRate ?? item.gstRate,
+    } : item;
+
+    const result = validateQuantity(withCatalog, withCatalog.quantity);
+    if (result.error) {
+      // Keep the line so the buyer sees it; checkout stock re-check blocks it
+      notices.push(result.error);
+      items.push(withCatalog);
+      return;
+    }
+
+    if (result.quantity < withCatalog.quantity) {
+      notices.push(`${item.name} quantity was capped at ${result.quantity} ${item.unit || 'units'}`);
+    }
+    items.push({ ...withCatalog, quantity: result.quantity });
+  });
+
+  return { items, notices };
+};
+
+// Changes needed to bring the server cart from `previous` to `next`
+export const diffCartItems = (previous: CartItem[], next: CartItem[]): CartDiff => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  return {
+    added: next.filter(item => !previousById.has(item.id) || !item.cartItemId),
+    updated: next.filter(item => {
+      const before = previousById.get(item.id);
+      return !!before && !!item.cartItemId && before.quantity !== item.quantity;
+    }),
+    removed: previous.filter(item => !nextIds.has(item.id) && !!item.cartItemId),
+  };
+};
@@ -0,0 +1,86 @@
+import type { CartItem } from './cartSlice';
+
+// Result of applying quantity/stock rules to a cart line
+export interface QuantityValidationResult {
+  quantity: number;
+  warnings: string[];
+  error?: string;
+}
+
+// Product fields re-checked against the catalog before checkout
+export interface StockSnapshot {
+  inStock?: boolean;
+  stockQuantity?: number;
+  minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+}
+
+const unitLabel = (item: Pick<CartItem, 'unit'>) => item.unit || 'units';
+
+/**
+ * Clamp a requested quantity to the line's MOQ, max order quantity and stock.
+ * Out-of-stock lines are rejected outright rather than clamped to zero.
+ */
+export const validateQuantity = (
+  item: Pick<CartItem, 'name' | 'unit' | 'minOrderQuantity' | 'maxOrderQuantity' | 'inStock' | 'stockQuantity'>,
+  requestedQuantity: number
+): QuantityValidationResult => {
+  const warnings: string[] = [];
+
+  if (item.inStock === false || item.stockQuantity === 0) {
+    return { quantity: 0, warnings, error: `${item.name} is out of stock` };
+  }
+
+  let quantity = Math.floor(requestedQuantity);
+
+  if (item.minOrderQuantity !== undefined && quantity < item.minOrderQuantity) {
+    quantity = item.minOrderQuantity;
+    warnings.push(`Minimum order quantity is ${item.minOrderQuantity} ${unitLabel(item)}`);
+  }
+
+  if (item.maxOrderQuantity !== undefined && quantity > item.maxOrderQuantity) {
+    quantity = item.maxOrderQuantity;
+    warnings.push(`Maximum order quantity is ${item.maxOrderQuantity} ${unitLabel(item)}`);
+  }
+
+  if (item.stockQuantity !== undefined && quantity > item.stockQuantity) {
+    quantity = item.stockQuantity;
+    warnings.push(`Only ${item.stockQuantity} ${unitLabel(item)} in stock`);
+  }
+
+  if (item.minOrderQuantity !== undefined && quantity < item.minOrderQuantity) {
+    return {
+      quantity: 0,
+      warnings,
+      error: `Only ${quantity} ${unitLabel(item)} of ${item.name} in stock, below the minimum order of ${item.minOrderQuantity}`
+    };
+  }
+
+  return { quantity, warnings };
+};
+
+/**
+ * Merge fresh catalog data into a cart line and re-apply the quantity rules.
+ */
+export const revalidateItem = (item: CartItem, snapshot: StockSnapshot) => {
+  const updated: CartItem = {
+    ...item,
+    inStock: snapshot.inStock ?? item.inStock,
+    stockQuantity: snapshot.stockQuantity ?? item.stockQuantity,
+    minOrderQuantity: snapshot.minOrderQuantity ?? item.minOrderQuantity,
+    maxOrderQuantity: snapshot.maxOrderQuantity ?? item.maxOrderQuantity,
+  };
+  const result = validateQuantity(updated, item.quantity);
+  const warnings = [...result.warnings];
+
+  if (!result.error && result.quantity !== item.quantity) {
+    warnings.push(`Quantity changed from ${item.quantity} to ${result.quantity}`);
+  }
+
+  return {
+    item: { ...updated, quantity: result.error ? item.quantity : result.quantity },
+    warnings: result.error ? [result.error] : warnings,
+    blocking: !!result.error,
+    changed: !result.error && result.quantity !== item.quantity,
+  };
+};
@@ -13,6 +13,7 @@ const tabs = [
   { id: 'vendors', label: 'Vendors', icon: '🏢' },
   { id: 'products', label: 'Products', icon: '📦' },
   { id: 'orders', label: 'Orders', icon: '🛍️' },
+  { id: 'search', label: 'Search Quality', icon: '🔍' },
   { id: 'support', label: 'Support', icon: '💬' },
 ];
 
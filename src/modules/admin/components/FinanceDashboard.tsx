@@ -0,0 +1,370 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { financeService, type FinanceDateRange, type FinanceReport } from '@/services/financeService';
+import { formatRupees } from '@/shared/utils/tradeCredit';
+import { downloadCsv, downloadXlsx, type Sheet } from '@/shared/utils/spreadsheet';
+import { MISMATCH_LABELS, MISMATCH_TYPES, type MismatchType } from '@/shared/utils/reconciliation';
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysBack = (days: number): FinanceDateRange => ({
+  from: toDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000)),
+  to: toDate(new Date())
+});
+
+// Indian financial year starts on 1 April
+const financialYear = (): FinanceDateRange => {
+  const now = new Date();
+  const startYear = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  return { from: `${startYear}-04-01`, to: toDate(now) };
+};
+
+const PRESETS: { label: string; range: () => FinanceDateRange }[] = [
+  { label: 'Last 30 days', range: () => daysBack(30) },
+  { label: 'Last 90 days', range: () => daysBack(90) },
+  { label: 'This financial year', range: financialYear }
+];
+
+const MISMATCH_STYLES: Record<MismatchType, string> = {
+  PAID_NO_ORDER: 'bg-red-100 text-red-800',
+  ORDER_NO_PAYMENT: 'bg-red-100 text-red-800',
+  AMOUNT_MISMATCH: 'bg-orange-100 text-orange-800',
+  PARTIAL_REFUND: 'bg-yellow-100 text-yellow-800',
+  REFUND_MISMATCH: 'bg-purple-100 text-purple-800',
+  REFUND_NO_PAYMENT: 'bg-red-100 text-red-800',
+};
+
+const StatCard = ({ title, value, icon, hint }: { title: string; value: string; icon: string; hint?: string }) => (
+  <div className="bg-white rounded-lg shadow-md p-6">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-500">{title}</p>
+        <p className="text-2xl font-semibold text-gray-900">{value}</p>
+        {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+      </div>
+      <span className="text-3xl">{icon}</span>
+    </div>
+  </div>
+);
+
+// Spreadsheet rows for every section of the report; amounts stay numeric so they can be summed
+const reportSheets = (report: FinanceReport): Sheet[] => [
+  {
+    name: 'Reconciliation',
+    rows: [
+      ['Order ID', 'Order number', 'Vendor', 'Order amount', 'Paid', 'Refunded', 'Gateway fees', 'Status'],
+      ...report.reconciliation.lines.map(line => [
+        line.orderId,
+        line.orderNumber,
+        line.vendorName,
+        line.orderAmount,
+        line.paid,
+        line.refunded,
+        line.fees,
+        line.mismatches.length ? line.mismatches.map(type => MISMATCH_LABELS[type]).join('; ') : 'Matched'
+      ])
+    ]
+  },
+  {
+    name: 'Mismatches',
+    rows: [
+      ['Type', 'Order ID', 'Order number', 'Expected', 'Actual', 'Transactions'],
+      ...report.reconciliation.mismatches.map(m => [
+        MISMATCH_LABELS[m.type], m.orderId, m.orderNumber, m.expected, m.actual, m.transactionIds.join(' ')
+      ])
+    ]
+  },
+  {
+    name: 'Vendor payouts',
+    rows: [
+      ['Vendor', 'Orders', 'Gross', 'Refunds', 'Commission', 'Paid out', 'Pending'],
+      ...report.payouts.map(p => [p.vendorName, p.orders, p.gross, p.refunds, p.commission, p.paidOut, p.pending])
+    ]
+  },
+  {
+    name: 'P&L',
+    rows: [
+      ['Month', 'Collections', 'Refunds', 'Gateway fees', 'Commission', 'Vendor payouts', 'Net'],
+      ...report.pnl.periods.map(p => [p.period, p.collections, p.refunds, p.gatewayFees, p.commission, p.payouts, p.net]),
+      ['Total', report.pnl.collections, report.pnl.refunds, report.pnl.gatewayFees, report.pnl.commission, report.pnl.payouts, report.pnl.net]
+    ]
+  }
+];
+
+export default function FinanceDashboard() {
+  const [range, setRange] = useState<FinanceDateRange>(() => daysBack(30));
+  const [report, setReport] = useState<FinanceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [fixtureMode, setFixtureMode] = useState(financeService.usingFixtures);
+  const [mismatchFilter, setMismatchFilter] = useState<MismatchType | 'ALL'>('ALL');
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setReport(await financeService.getReport(range));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load finance data');
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, fixtureMode]);
+
+  const toggleFixtureMode = (enabled: boolean) => {
+    financeService.setFixtureMode(enabled);
+    setFixtureMode(enabled);
+  };
+
+  const mismatchCounts = useMemo(() => {
+    const counts = Object.fromEntries(MISMATCH_TYPES.map(type => [type, 0])) as Record<MismatchType, number>;
+    report?.reconciliation.mismatches.forEach(m => { counts[m.type] += 1; });
+    return counts;
+  }, [report]);
+
+  const visibleMismatches = (report?.reconciliation.mismatches || [])
+    .filter(m => mismatchFilter === 'ALL' || m.type === mismatchFilter);
+
+  const fileName = (extension: string) => `finance-${range.from}-to-${range.to}.${extension}`;
+
+  const exportCsv = () => report && downloadCsv(reportSheets(report)[0].rows, fileName('csv'));
+  const exportXlsx = () => report && downloadXlsx(reportSheets(report), fileName('xlsx'));
+
+  const controls = (
+    <div className="bg-white rounded-lg shadow-md p-4 flex flex-col lg:flex-row lg:items-end gap-4">
+      <div className="flex items-end gap-3">
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">From</span>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2"
+          />
+        </label>
+        <label className="text-sm">
+          <span className="block text-gray-600 mb-1">To</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="border border-gray-300 rounded-md px-3 py-2"
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setRange(preset.range())}
+            className="px-3 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 lg:ml-auto">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={fixtureMode} onChange={(e) => toggleFixtureMode(e.target.checked)} />
+          Sample data
+        </label>
+        <button onClick={exportCsv} disabled={!report} className="px-4 py-2 text-sm rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50">
+          Export CSV
+        </button>
+        <button onClick={exportXlsx} disabled={!report} className="px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50">
+          Export XLSX
+        </button>
+      </div>
+    </div>
+  );
+
+  if (loading || error || !report) {
+    return (
+      <div className="space-y-6">
+        {controls}
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-600">{error}</p>
+            <button onClick={fetchReport} className="mt-2 text-red-800 hover:text-red-900 underline">
+              Try again
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { pnl, reconciliation, payouts } = report;
+
+  return (
+    <div className="space-y-6">
+      {controls}
+
+      {fixtureMode && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+          Showing the built-in sample dataset, not live ledgers.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard title="Collections" value={formatRupees(pnl.collections)} icon="💰" hint={`${formatRupees(pnl.refunds)} refunded`} />
+        <StatCard title="Gateway Fees" value={formatRupees(pnl.gatewayFees)} icon="🏦" />
+        <StatCard title="Net Revenue" value={formatRupees(pnl.net)} icon="📈" hint={`${formatRupees(pnl.commission)} commission less fees`} />
+        <StatCard
+          title="Reconciled"
+          value={`${reconciliation.matched} / ${reconciliation.lines.length}`}
+          icon={reconciliation.mismatches.length ? '⚠️' : '✅'}
+          hint={`${reconciliation.mismatches.length} open mismatches`}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-gray-900">Reconciliation</h3>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setMismatchFilter('ALL')}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${mismatchFilter === 'ALL' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              All ({reconciliation.mismatches.length})
+            </button>
+            {MISMATCH_TYPES.filter(type => mismatchCounts[type] > 0).map(type => (
+              <button
+                key={type}
+                onClick={() => setMismatchFilter(type)}
+                className={`px-3 py-1 rounded-full text-xs font-medium ${mismatchFilter === type ? 'ring-2 ring-gray-900' : ''} ${MISMATCH_STYLES[type]}`}
+              >
+                {MISMATCH_LABELS[type]} ({mismatchCounts[type]})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {visibleMismatches.length === 0 ? (
+          <p className="text-sm text-gray-500">Every payment, order and refund in this range lines up.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Issue</th>
+                  <th>Order</th>
+                  <th className="text-right">Expected</th>
+                  <th className="text-right">Actual</th>
+                  <th className="pl-4">Transactions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMismatches.map(m => (
+                  <tr key={`${m.type}-${m.orderId}`} className="border-b last:border-0">
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${MISMATCH_STYLES[m.type]}`}>{MISMATCH_LABELS[m.type]}</span>
+                    </td>
+                    <td className="font-medium">{m.orderNumber || `#${m.orderId}`}</td>
+                    <td className="text-right">{formatRupees(m.expected)}</td>
+                    <td className="text-right">{formatRupees(m.actual)}</td>
+                    <td className="pl-4 text-xs text-gray-500 font-mono">{m.transactionIds.join(', ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Vendor Payouts</h3>
+          {payouts.length === 0 ? (
+            <p className="text-sm text-gray-500">No vendor sales in this range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Vendor</th>
+                    <th className="text-right">Gross</th>
+                    <th className="text-right">Refunds</th>
+                    <th className="text-right">Commission</th>
+                    <th className="text-right">Paid out</th>
+                    <th className="text-right">Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payouts.map(payout => (
+                    <tr key={payout.vendorId} className="border-b last:border-0">
+                      <td className="py-2">
+                        <p className="font-medium text-gray-900">{payout.vendorName}</p>
+                        <p className="text-xs text-gray-500">{payout.orders} {payout.orders === 1 ? 'order' : 'orders'}</p>
+                      </td>
+                      <td className="text-right">{formatRupees(payout.gross)}</td>
+                      <td className="text-right">{formatRupees(payout.refunds)}</td>
+                      <td className="text-right">{formatRupees(payout.commission)}</td>
+                      <td className="text-right">{formatRupees(payout.paidOut)}</td>
+                      <td className={`text-right font-medium ${payout.pending > 0 ? 'text-orange-600' : 'text-gray-900'}`}>{formatRupees(payout.pending)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Profit &amp; Loss</h3>
+          {pnl.periods.length === 0 ? (
+            <p className="text-sm text-gray-500">No settled transactions in this range.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Month</th>
+                    <th className="text-right">Collections</th>
+                    <th className="text-right">Refunds</th>
+                    <th className="text-right">Fees</th>
+                    <th className="text-right">Commission</th>
+                    <th className="text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pnl.periods.map(period => (
+                    <tr key={period.period} className="border-b">
+                      <td className="py-2">
+                        {new Date(`${period.period}-01`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                      </td>
+                      <td className="text-right">{formatRupees(period.collections)}</td>
+                      <td className="text-right">{formatRupees(period.refunds)}</td>
+                      <td className="text-right">{formatRupees(period.gatewayFees)}</td>
+                      <td className="text-right">{formatRupees(period.commission)}</td>
+                      <td className={`text-right font-medium ${period.net < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatRupees(period.net)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold">
+                    <td className="py-2">Total</td>
+                    <td className="text-right">{formatRupees(pnl.collections)}</td>
+                    <td className="text-right">{formatRupees(pnl.refunds)}</td>
+                    <td className="text-right">{formatRupees(pnl.gatewayFees)}</td>
+                    <td className="text-right">{formatRupees(pnl.commission)}</td>
+                    <td className={`text-right ${pnl.net < 0 ? 'text-red-600' : ''}`}>{formatRupees(pnl.net)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
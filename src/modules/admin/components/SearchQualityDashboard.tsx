@@ -0,0 +1,417 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  searchService,
+  type SearchAnalytics,
+  type SearchPinnedResult,
+  type SearchProduct,
+  type SearchSynonym
+} from '@/services/searchService';
+import {
+  ctrByPosition,
+  meanReciprocalRank,
+  queryCategoryShares,
+  suggestSynonyms
+} from '@/shared/utils/searchRelevance';
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' }
+];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const dateRangeFor = (days: number) => ({
+  from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  to: new Date().toISOString().slice(0, 10)
+});
+
+export default function SearchQualityDashboard() {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [pins, setPins] = useState<SearchPinnedResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [synonymForm, setSynonymForm] = useState({ term: '', synonyms: '', oneWay: false });
+  const [pinQuery, setPinQuery] = useState('');
+  const [pinCandidates, setPinCandidates] = useState<{ query: string; products: SearchProduct[] }>({ query: '', products: [] });
+  const [searchingPins, setSearchingPins] = useState(false);
+
+  const fetchAll = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const [analyticsData, synonymData, pinData] = await Promise.all([
+        searchService.getSearchAnalytics(dateRangeFor(days)),
+        searchService.getSynonyms(),
+        searchService.getPinnedResults()
+      ]);
+      setAnalytics(analyticsData);
+      setSynonyms(synonymData);
+      setPins(pinData);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch search analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const positions = useMemo(() => analytics ? ctrByPosition(analytics) : [], [analytics]);
+  const categoryShares = useMemo(() => analytics ? queryCategoryShares(analytics) : [], [analytics]);
+  const suggestions = useMemo(
+    () => analytics ? new Map(suggestSynonyms(analytics, synonyms).map(s => [s.query, s])) : new Map(),
+    [analytics, synonyms]
+  );
+
+  const addSynonym = async (term: string, equivalents: string[], oneWay: boolean) => {
+    try {
+      const created = await searchService.saveSynonym({ term, synonyms: equivalents, oneWay });
+      setSynonyms(prev => [created, ...prev]);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleSynonymSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const equivalents = synonymForm.synonyms.split(',').map(term => term.trim()).filter(Boolean);
+    if (!synonymForm.term.trim() || equivalents.length === 0) return;
+    await addSynonym(synonymForm.term.trim(), equivalents, synonymForm.oneWay);
+    setSynonymForm({ term: '', synonyms: '', oneWay: false });
+  };
+
+  const removeSynonym = async (synonym: SearchSynonym) => {
+    try {
+      await searchService.deleteSynonym(synonym.id);
+      setSynonyms(prev => prev.filter(s => s.id !== synonym.id));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  // Show what the query returns today so the admin pins an actual listing
+  const findPinCandidates = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pinQuery.trim()) return;
+    try {
+      setSearchingPins(true);
+      const response = await searchService.search<SearchProduct>(
+        { query: pinQuery, searchType: 'products', page: 0, size: 10 },
+        { recordHistory: false }
+      );
+      setPinCandidates({ query: pinQuery.trim().toLowerCase(), products: response.results });
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setSearchingPins(false);
+    }
+  };
+
+  const pinResult = async (product: SearchProduct, position: number) => {
+    try {
+      const created = await searchService.savePinnedResult({
+        query: pinCandidates.query,
+        productId: product.id,
+        productName: product.name,
+        position
+      });
+      setPins(prev => [...prev.filter(p => !(p.query === created.query && p.productId === created.productId)), created]);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const removePin = async (pin: SearchPinnedResult) => {
+    try {
+      await searchService.deletePinnedResult(pin.id);
+      setPins(prev => prev.filter(p => p.id !== pin.id));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error || !analytics) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4">
+        <p className="text-red-600">{error}</p>
+        <button onClick={fetchAll} className="mt-2 text-red-800 hover:text-red-900 underline">
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const zeroResultSearches = analytics.noResultQueries.reduce((sum, query) => sum + query.count, 0);
+  const maxCtr = Math.max(...positions.map(row => row.ctr), 0.01);
+
+  const StatCard = ({ title, value, icon, hint }: { title: string; value: string; icon: string; hint?: string }) => (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-500">{title}</p>
+          <p className="text-2xl font-semibold text-gray-900">{value}</p>
+          {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+        </div>
+        <span className="text-3xl">{icon}</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Search Quality</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {RANGES.map(range => <option key={range.days} value={range.days}>{range.label}</option>)}
+          </select>
+          <button onClick={fetchAll} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md">
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard title="Searches" value={analytics.totalSearches.toLocaleString()} icon="🔍" hint={`${analytics.uniqueSearchers.toLocaleString()} searchers`} />
+        <StatCard title="Click-through Rate" value={percent(analytics.performanceMetrics.clickThroughRate)} icon="👆" />
+        <StatCard title="Mean Reciprocal Rank" value={meanReciprocalRank(analytics).toFixed(3)} icon="🎯" hint="1.0 = first result always clicked" />
+        <StatCard
+          title="Zero-result Rate"
+          value={analytics.totalSearches ? percent(zeroResultSearches / analytics.totalSearches) : '0%'}
+          icon="🚫"
+          hint={`${zeroResultSearches.toLocaleString()} searches`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* CTR by position */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">CTR by Position</h3>
+          {positions.length === 0 ? (
+            <p className="text-sm text-gray-500">No click data for this period.</p>
+          ) : (
+            <div className="space-y-2">
+              {positions.map(row => (
+                <div key={row.position} className="flex items-center gap-3 text-sm">
+                  <span className="w-8 text-gray-600">#{row.position}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-4">
+                    <div className="bg-blue-500 h-4 rounded" style={{ width: `${(row.ctr / maxCtr) * 100}%` }}></div>
+                  </div>
+                  <span className="w-14 text-right font-medium">{percent(row.ctr)}</span>
+                  <span className="w-20 text-right text-xs text-gray-500">{row.clicks}/{row.impressions}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Query-to-category distribution */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">Queries by Category</h3>
+          {categoryShares.length === 0 ? (
+            <p className="text-sm text-gray-500">No category data for this period.</p>
+          ) : (
+            <div className="space-y-3">
+              {categoryShares.slice(0, 10).map(row => (
+                <div key={row.category} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="font-medium">{row.category}</span>
+                    <span className="text-gray-600">{percent(row.share)} · {row.searches.toLocaleString()}</span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div className="bg-green-500 h-2 rounded-full" style={{ width: `${row.share * 100}%` }}></div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 truncate">{row.topQueries.join(', ')}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Zero-result queries */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="text-lg font-semibold mb-4">Zero-result Queries</h3>
+        {analytics.noResultQueries.length === 0 ? (
+          <p className="text-sm text-gray-500">Every search returned results. 🎉</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Query</th>
+                <th className="py-2">Searches</th>
+                <th className="py-2">Suggested synonym</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.noResultQueries.map(({ query, count }) => {
+                const suggestion = suggestions.get(query);
+                return (
+                  <tr key={query} className="border-b last:border-0">
+                    <td className="py-2 font-medium">{query}</td>
+                    <td className="py-2">{count.toLocaleString()}</td>
+                    <td className="py-2 text-gray-600">
+                      {suggestion ? `→ ${suggestion.suggestion}` : '—'}
+                    </td>
+                    <td className="py-2 text-right">
+                      {suggestion ? (
+                        <button
+                          onClick={() => addSynonym(query, [suggestion.suggestion], true)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Map
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setSynonymForm({ term: query, synonyms: '', oneWay: true })}
+                          className="text-gray-600 hover:underline"
+                        >
+                          Map manually
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Synonyms */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">Synonyms</h3>
+          <form onSubmit={handleSynonymSubmit} className="space-y-2 mb-4">
+            <div className="flex gap-2">
+              <input
+                value={synonymForm.term}
+                onChange={(e) => setSynonymForm(prev => ({ ...prev, term: e.target.value }))}
+                placeholder="Term, e.g. ms"
+                className="w-1/3 border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+              <input
+                value={synonymForm.synonyms}
+                onChange={(e) => setSynonymForm(prev => ({ ...prev, synonyms: e.target.value }))}
+                placeholder="Equivalents, comma separated"
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="flex justify-between items-center">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={synonymForm.oneWay}
+                  onChange={(e) => setSynonymForm(prev => ({ ...prev, oneWay: e.target.checked }))}
+                />
+                One-way (replace the term)
+              </label>
+              <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm">
+                Add synonym
+              </button>
+            </div>
+          </form>
+
+          {synonyms.length === 0 ? (
+            <p className="text-sm text-gray-500">No synonyms yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {synonyms.map(synonym => (
+                <li key={synonym.id} className="flex justify-between items-center py-2">
+                  <span>
+                    <span className="font-medium">{synonym.term}</span>
+                    <span className="text-gray-500 mx-2">{synonym.oneWay ? '→' : '↔'}</span>
+                    {synonym.synonyms.join(', ')}
+                  </span>
+                  <button onClick={() => removeSynonym(synonym)} className="text-gray-400 hover:text-red-600" aria-label={`Delete synonym ${synonym.term}`}>
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Pinned results */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="text-lg font-semibold mb-4">Pinned Results</h3>
+          <form onSubmit={findPinCandidates} className="flex gap-2 mb-4">
+            <input
+              value={pinQuery}
+              onChange={(e) => setPinQuery(e.target.value)}
+              placeholder="Query to curate, e.g. pvc pipe"
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button type="submit" disabled={searchingPins} className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm disabled:opacity-50">
+              {searchingPins ? 'Searching...' : 'Find results'}
+            </button>
+          </form>
+
+          {pinCandidates.products.length > 0 && (
+            <ul className="divide-y text-sm mb-4 border rounded-md">
+              {pinCandidates.products.map((product, index) => (
+                <li key={product.id} className="flex justify-between items-center px-3 py-2">
+                  <span className="truncate">
+                    <span className="text-gray-400 mr-2">#{index + 1}</span>
+                    {product.name}
+                  </span>
+                  <span className="flex gap-1 flex-shrink-0">
+                    {[1, 2, 3].map(position => (
+                      <button
+                        key={position}
+                        onClick={() => pinResult(product, position)}
+                        className="text-xs border border-gray-300 rounded px-2 py-0.5 hover:bg-blue-50"
+                      >
+                        Pin #{position}
+                      </button>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pins.length === 0 ? (
+            <p className="text-sm text-gray-500">No pinned results yet.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {[...pins].sort((a, b) => a.query.localeCompare(b.query) || a.position - b.position).map(pin => (
+                <li key={pin.id} className="flex justify-between items-center py-2">
+                  <span className="truncate">
+                    <span className="font-medium">{pin.query}</span>
+                    <span className="text-gray-500 mx-2">#{pin.position}</span>
+                    {pin.productName || pin.productId}
+                  </span>
+                  <button onClick={() => removePin(pin)} className="text-gray-400 hover:text-red-600" aria-label={`Unpin ${pin.productName || pin.productId}`}>
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
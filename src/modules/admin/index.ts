@@ -3,9 +3,11 @@ export { default as AdminDashboard } from './components/AdminDashboard';
 export { default as AdminDashboardTabs } from './components/AdminDashboardTabs';
 export { default as AdminStatsPanel } from './components/AdminStatsPanel';
 export { default as AnalyticsDashboard } from './components/AnalyticsDashboard';
+export { default as FinanceDashboard } from './components/FinanceDashboard';
 export { default as KycReviewDashboard } from './components/KycReviewDashboard';
 export { default as LiveChatSupport } from './components/LiveChatSupport';
 export { default as ProductManagement } from './components/ProductManagement';
+export { default as SearchQualityDashboard } from './components/SearchQualityDashboard';
 export { default as TicketList } from './components/TicketList';
 export { default as TopProductItem } from './components/TopProductItem';
 export { default as TopSellingProductList } from './components/TopSellingProductList';
@@ -1,20 +1,97 @@
 'use client';
 
-import React from 'react';
-import { useSelector, useDispatch } from 'react-redux';
+import React, { useState } from 'react';
+import { useSelector } from 'react-redux';
 import { RootState } from '@/store';
-import { removeCartItem, updateCartItem, clearCartItems } from '@/features/cart/cartSlice';
+import { useAppDispatch } from '@/shared/hooks/redux';
+import {
+  removeCartItem,
+  updateCartItem,
+  clearCartItems,
+  getCartItemUnitPrice,
+  getVendorGroupGst,
+  revalidateCartStock,
+  dismissSyncNotices,
+  selectCartSyncNotices,
+  selectCartVendorGroups,
+  CartItem,
+  VendorCartGroup
+} from '@/features/cart/cartSlice';
+import { ShippingService } from '@/services/shippingService';
+import { estimateVendorGroupShipping, type ShippingEstimate } from '@/services/shippingRuleEngine';
 import { Button } from '@/shared/components/Button';
 import { Input } from '@/shared/components/Input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/Card';
-import { TrashIcon, ShoppingCartIcon } from '@heroicons/react/24/outline';
+import GstBreakup from '@/shared/components/GstBreakup';
+import {
+  TrashIcon,
+  ShoppingCartIcon,
+  BuildingStorefrontIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
 import Image from 'next/image';
+import { getNextPriceSlab } from '@/shared/utils/pricing';
 
-const Cart: React.FC = () => {
-  const dispatch = useDispatch();
-  const { items, totalItems, totalAmount, isLoading } = useSelector(
+interface CartProps {
+  onCheckout?: () => void;
+}
+
+const Cart: React.FC<CartProps> = ({ onCheckout }) => {
+  const dispatch = useAppDispatch();
+  const { items, totalItems, totalAmount, isLoading, lineWarnings, blockedItemIds, isCheckingStock } = useSelector(
     (state: RootState) => state.cart
   );
+  const vendorGroups = useSelector(selectCartVendorGroups);
+  const syncNotices = useSelector(selectCartSyncNotices);
+  const user = useSelector((state: RootState) => state.auth.user);
+
+  // Estimated against the buyer's profile state until a delivery address is picked at checkout
+  const groupTaxes = vendorGroups.map(group => getVendorGroupGst(group, user?.state, user?.gstNumber));
+  const totalTax = groupTaxes.reduce((sum, breakup) => sum + breakup.totalTax, 0);
+
+  const [estimatePincode, setEstimatePincode] = useState('');
+  const [estimatedPincode, setEstimatedPincode] = useState<string | null>(null);
+  const [shippingEstimates, setShippingEstimates] = useState<Record<string, ShippingEstimate>>({});
+  const [estimating, setEstimating] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  // Same estimate checkout charges: the backend's figure, or each vendor's zones and rules if it is slow
+  const handleEstimateShipping = async () => {
+    const pincode = estimatePincode.trim();
+    if (!ShippingService.validatePincode(pincode)) {
+      setEstimateError('Enter a valid 6-digit pincode');
+      return;
+    }
+
+    setEstimating(true);
+    setEstimateError(null);
+    try {
+      const estimates = await Promise.all(vendorGroups.map(group => estimateVendorGroupShipping(group, pincode, user?.state)));
+      setShippingEstimates(Object.fromEntries(vendorGroups.map((group, index) => [group.vendorId, estimates[index]])));
+      setEstimatedPincode(pincode);
+    } catch (error) {
+      console.error('Error estimating shipping:', error);
+      setEstimateError('Shipping could not be estimated right now. Please try again.');
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  const renderShippingEstimate = (group: VendorCartGroup) => {
+    const estimate = shippingEstimates[group.vendorId];
+    if (!estimate) {
+      return 'Enter your delivery pincode below to see shipping for this order';
+    }
+    if (!estimate.serviceable) {
+      return `${group.vendorName} does not ship to ${estimatedPincode}`;
+    }
+    return [
+      estimate.freeShipping ? `Free shipping to ${estimatedPincode}` : `Estimated shipping to ${estimatedPincode}: ₹${estimate.cost.toFixed(2)}`,
+      `~${estimate.estimatedDeliveryDays} days`,
+      estimate.provider ? `via ${estimate.provider.replace('_', ' ')}` : null,
+      estimate.priorityShipping ? 'priority' : null
+    ].filter(Boolean).join(' · ');
+  };
 
   const handleRemoveItem = (id: string) => {
     dispatch(removeCartItem(id));
@@ -26,10 +103,52 @@ const Cart: React.FC = () => {
     }
   };
 
+  // Nudge towards the next bulk price slab
+  const renderSlabHint = (item: CartItem) => {
+    const nextSlab = getNextPriceSlab(item.priceSlabs, item.quantity);
+    if (!nextSlab) return null;
+
+    return (
+      <p className="text-sm text-green-600">
+        Order {nextSlab.minQuantity - item.quantity} more to pay ₹{nextSlab.price} per {item.unit || 'unit'}
+      </p>
+    );
+  };
+
   const handleClearCart = () => {
     dispatch(clearCartItems());
   };
 
+  // Stock is re-checked against the catalog so buyers don't learn about shortages at fulfilment
+  const handleCheckout = async () => {
+    const result = await dispatch(revalidateCartStock()).unwrap();
+    if (result.blockedItemIds.length === 0 && !result.changed) {
+      onCheckout?.();
+    }
+  };
+
+  // Changes made while merging the guest cart into the account cart
+  const syncNoticesBanner = syncNotices.length > 0 && (
+    <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4">
+      <div className="flex justify-between items-start">
+        <ul className="space-y-1">
+          {syncNotices.map((notice) => (
+            <li key={notice} className="flex items-center text-sm text-yellow-800">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              {notice}
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={() => dispatch(dismissSyncNotices())}
+          className="text-sm text-yellow-800 hover:text-yellow-900"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[200px]">
@@ -40,18 +159,23 @@ const Cart: React.FC = () => {
 
   if (items.length === 0) {
     return (
-      <Card className="text-center py-8">
-        <CardContent>
-          <ShoppingCartIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">Your cart is empty</h3>
-          <p className="text-gray-600">Add some products to get started!</p>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        {syncNoticesBanner}
+        <Card className="text-center py-8">
+          <CardContent>
+            <ShoppingCartIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Your cart is empty</h3>
+            <p className="text-gray-600">Add some products to get started!</p>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      {syncNoticesBanner}
+
       {/* Cart Header */}
       <Card>
         <CardHeader>
@@ -71,60 +195,124 @@ const Cart: React.FC = () => {
         </CardHeader>
       </Card>
 
-      {/* Cart Items */}
-      <div className="space-y-4">
-        {items.map((item) => (
-          <Card key={item.id}>
-            <CardContent className="p-4">
-              <div className="flex items-center space-x-4">
-                {/* Product Image */}
-                <div className="relative h-20 w-20 flex-shrink-0">
-                  <Image
-                    src={item.image || '/api/placeholder/80/80'}
-                    alt={item.name}
-                    fill
-                    className="object-contain rounded-lg"
-                  />
-                </div>
-
-                {/* Product Details */}
-                <div className="flex-1">
-                  <h3 className="font-semibold text-gray-900">{item.name}</h3>
-                  <p className="text-sm text-gray-600">{item.vendorName}</p>
-                  <p className="text-sm text-gray-600">Price: ₹{item.price}</p>
-                  <p className="text-sm text-gray-600">Category: {item.category}</p>
-                  {item.description && (
-                    <p className="text-sm text-gray-600">Description: {item.description}</p>
-                  )}
-                </div>
-
-                {/* Quantity Controls */}
-                <div className="flex items-center space-x-2">
-                  <label className="text-sm font-medium text-gray-700">Qty:</label>
-                  <Input
-                    type="number"
-                    value={item.quantity}
-                    onChange={(e) => handleUpdateQuantity(item.id, e.target.value)}
-                    className="w-20"
-                    min="1"
-                  />
-                </div>
-
-                {/* Remove Button */}
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleRemoveItem(item.id)}
-                  className="text-red-600 hover:text-red-700"
-                >
-                  <TrashIcon className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+      {/* Cart Items - one sub-order per vendor */}
+      <div className="space-y-6">
+        {vendorGroups.map((group, groupIndex) => (
+          <div key={group.vendorId} className="space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="flex items-center font-semibold text-gray-900">
+                <BuildingStorefrontIcon className="h-5 w-5 mr-2" />
+                {group.vendorName}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {group.totalItems} items · Subtotal ₹{group.subtotal.toFixed(2)}
+              </p>
+            </div>
+            {group.items.map((item) => (
+              <Card key={item.id} className={blockedItemIds.includes(item.id) ? 'border-red-300' : undefined}>
+                <CardContent className="p-4">
+                  <div className="flex items-center space-x-4">
+                    {/* Product Image */}
+                    <div className="relative h-20 w-20 flex-shrink-0">
+                      <Image
+                        src={item.image || '/api/placeholder/80/80'}
+                        alt={item.name}
+                        fill
+                        className="object-contain rounded-lg"
+                      />
+                    </div>
+
+                    {/* Product Details */}
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900">{item.name}</h3>
+                      <p className="text-sm text-gray-600">{item.vendorName}</p>
+                      <p className="text-sm text-gray-600">
+                        Price: ₹{getCartItemUnitPrice(item)}
+                        {getCartItemUnitPrice(item) < item.price && (
+                          <span className="ml-2 text-gray-400 line-through">₹{item.price}</span>
+                        )}
+                      </p>
+                      {renderSlabHint(item)}
+                      <p className="text-sm text-gray-600">Category: {item.category}</p>
+                      {item.description && (
+                        <p className="text-sm text-gray-600">Description: {item.description}</p>
+                      )}
+                    </div>
+
+                    {/* Quantity Controls */}
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm font-medium text-gray-700">Qty:</label>
+                      <Input
+                        type="number"
+                        value={item.quantity}
+                        onChange={(e) => handleUpdateQuantity(item.id, e.target.value)}
+                        className="w-20"
+                        min={item.minOrderQuantity || 1}
+                        max={item.maxOrderQuantity ?? item.stockQuantity}
+                      />
+                    </div>
+
+                    {/* Remove Button */}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveItem(item.id)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {/* Quantity / stock warnings */}
+                  {lineWarnings[item.id]?.map((warning) => (
+                    <p
+                      key={warning}
+                      className={`mt-2 flex items-center text-sm ${
+                        blockedItemIds.includes(item.id) ? 'text-red-600' : 'text-amber-600'
+                      }`}
+                    >
+                      <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                      {warning}
+                    </p>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+            {group.moqViolations.map((item) => (
+              <p key={item.id} className="text-sm text-red-600">
+                {item.name} requires a minimum order of {item.minOrderQuantity} {item.unit || 'units'}
+              </p>
+            ))}
+            <p className="text-sm text-gray-600">
+              {renderShippingEstimate(group)}
+            </p>
+            <GstBreakup breakup={groupTaxes[groupIndex]} className="max-w-xs text-gray-600" />
+          </div>
         ))}
       </div>
 
+      {/* Shipping Estimate */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Estimate shipping</label>
+              <Input
+                value={estimatePincode}
+                onChange={(e) => setEstimatePincode(e.target.value)}
+                placeholder="Delivery pincode"
+                maxLength={6}
+                className="w-40"
+              />
+            </div>
+            <Button variant="outline" onClick={handleEstimateShipping} disabled={estimating}>
+              {estimating ? 'Estimating...' : 'Estimate'}
+            </Button>
+            {estimateError && <p className="text-sm text-red-600">{estimateError}</p>}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Cart Summary */}
       <Card>
         <CardContent className="p-6">
@@ -133,12 +321,22 @@ const Cart: React.FC = () => {
               <p className="text-lg font-semibold text-gray-900">
                 Total Items: {totalItems}
               </p>
+              <p className="text-sm text-gray-600">
+                {vendorGroups.length} {vendorGroups.length === 1 ? 'vendor order' : 'vendor orders'}
+              </p>
+              <p className="text-sm text-gray-600">
+                Subtotal ₹{totalAmount.toFixed(2)} + GST ₹{totalTax.toFixed(2)} (estimated)
+              </p>
               <p className="text-2xl font-bold text-gray-900">
-                Total Amount: ₹{totalAmount.toFixed(2)}
+                Total Amount: ₹{(totalAmount + totalTax).toFixed(2)}
               </p>
             </div>
-            <Button className="bg-teal-600 hover:bg-teal-700 text-white">
-              Proceed to Checkout
+            <Button
+              onClick={handleCheckout}
+              disabled={isCheckingStock || blockedItemIds.length > 0}
+              className="bg-teal-600 hover:bg-teal-700 text-white"
+            >
+              {isCheckingStock ? 'Checking stock...' : 'Proceed to Checkout'}
             </Button>
           </div>
         </CardContent>
@@ -0,0 +1,130 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { paymentService } from '@/services/paymentService';
+import { tradeCreditService, type CreditDue, type CreditLine } from '@/services/tradeCreditService';
+import AgeingBuckets from '@/shared/components/AgeingBuckets';
+import {
+  availableCredit,
+  CREDIT_TERM_LABELS,
+  daysOverdue,
+  formatRupees,
+  outstandingAmount,
+  summarizeAgeing
+} from '@/shared/utils/tradeCredit';
+
+// Pay-on-terms summary for the buyer dashboard; hidden until a vendor grants credit
+export default function CreditDues() {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [lines, setLines] = useState<CreditLine[]>([]);
+  const [dues, setDues] = useState<CreditDue[]>([]);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [creditLines, openDues] = await Promise.all([
+        tradeCreditService.getMyCreditLines(),
+        tradeCreditService.getMyDues()
+      ]);
+      setLines(creditLines);
+      setDues(openDues.filter(due => outstandingAmount(due) > 0));
+    } catch (err) {
+      console.error('Error loading trade credit:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePay = async (due: CreditDue) => {
+    setPayingId(due.id);
+    setError(null);
+    try {
+      await paymentService.pay({
+        orderId: due.orderId.toString(),
+        amount: Math.round(outstandingAmount(due) * 100),
+        currency: 'INR',
+        customerInfo: { name: user?.name || 'Customer', email: user?.email || '', phone: user?.phone || '' },
+        notes: { orderId: due.orderId.toString(), creditDueId: due.id }
+      }, 'ONLINE');
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Payment failed. Please try again.');
+    } finally {
+      setPayingId(null);
+    }
+  };
+
+  if (lines.length === 0 && dues.length === 0) return null;
+
+  const totalOutstanding = dues.reduce((sum, due) => sum + outstandingAmount(due), 0);
+  const sortedDues = [...dues].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return (
+    <div className="bg-white p-6 rounded-md border shadow-sm space-y-5">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-lg">Trade Credit</h3>
+        <span className="text-sm text-gray-600">Outstanding <span className="font-bold text-gray-900">{formatRupees(totalOutstanding)}</span></span>
+      </div>
+
+      {lines.length > 0 && (
+        <div className="space-y-2">
+          {lines.map(line => (
+            <div key={line.id} className="flex justify-between text-sm">
+              <span>
+                {line.vendorName}
+                <span className="text-gray-500"> · {CREDIT_TERM_LABELS[line.terms]}</span>
+                {line.status === 'SUSPENDED' && <span className="text-red-600"> · suspended</span>}
+              </span>
+              <span className="text-gray-700">
+                {formatRupees(availableCredit(line))} of {formatRupees(line.limit)} available
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dues.length > 0 && (
+        <>
+          <AgeingBuckets summary={summarizeAgeing(dues)} />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <ul className="divide-y">
+            {sortedDues.map(due => {
+              const overdue = daysOverdue(due);
+              return (
+                <li key={due.id} className="py-3 flex justify-between items-center gap-4 text-sm">
+                  <div>
+                    <Link href={`/orders/${due.orderId}`} className="font-medium text-blue-600 hover:underline">
+                      {due.orderNumber}
+                    </Link>
+                    <span className="text-gray-500"> · {due.vendorName}</span>
+                    <p className={overdue > 0 ? 'text-red-600' : 'text-gray-500'}>
+                      {overdue > 0 ? `${overdue} days overdue` : `Due ${new Date(due.dueDate).toLocaleDateString('en-IN')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold">{formatRupees(outstandingAmount(due))}</span>
+                    <button
+                      onClick={() => handlePay(due)}
+                      disabled={payingId !== null}
+                      className="bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {payingId === due.id ? 'Paying...' : 'Pay now'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,14 @@
 import React, { useState, useEffect } from 'react';
 import { orderAPI, type Order } from '@/shared/services';
 import { Card, Button, Select, Badge } from '@/shared/components';
+import PaymentSchedule, { MilestoneProgressBar } from '@/components/payments/PaymentSchedule';
 
 const OrderManagement: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(0);
   const [size, setSize] = useState(10);
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
 
   const statusColors: Record<string, string> = {
     'PENDING': 'yellow',
@@ -64,28 +66,54 @@ const OrderManagement: React.FC = () => {
                 <th>Order Number</th>
                 <th>Status</th>
                 <th>Total</th>
+                <th>Payments</th>
                 <th>Action</th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {orders.map((order) => (
-                <tr key={order.id}>
-                  <td>{order.orderNumber}</td>
-                  <td>
-                    <Badge color={statusColors[order.status]}>{order.status}</Badge>
-                  </td>
-                  <td>₹{order.finalAmount.toFixed(2)}</td>
-                  <td>
-                    <Select value="" onChange={(e) => updateOrderStatus(order.id, e.target.value)}>
-                      <option value="">Change Status</option>
-                      {['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED'].map((status) => (
-                        <option key={status} value={status}>
-                          {status}
-                        </option>
-                      ))}
-                    </Select>
-                  </td>
-                </tr>
+                <React.Fragment key={order.id}>
+                  <tr>
+                    <td>{order.orderNumber}</td>
+                    <td>
+                      <Badge color={statusColors[order.status]}>{order.status}</Badge>
+                    </td>
+                    <td>₹{order.finalAmount.toFixed(2)}</td>
+                    <td>
+                      {order.paymentSchedule ? (
+                        <button
+                          onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                          className="text-left"
+                        >
+                          <MilestoneProgressBar milestones={order.paymentSchedule.milestones} />
+                        </button>
+                      ) : (
+                        <span className="text-sm text-gray-500">{order.paymentStatus}</span>
+                      )}
+                    </td>
+                    <td>
+                      <Select value="" onChange={(e) => updateOrderStatus(order.id, e.target.value)}>
+                        <option value="">Change Status</option>
+                        {['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED'].map((status) => (
+                          <option key={status} value={status}>
+                            {status}
+                          </option>
+                        ))}
+                      </Select>
+                    </td>
+                  </tr>
+                  {expandedOrderId === order.id && (
+                    <tr>
+                      <td colSpan={5} className="p-4 bg-gray-50">
+                        <PaymentSchedule
+                          orderId={order.id.toString()}
+                          role="buyer"
+                          initialSchedule={order.paymentSchedule}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -0,0 +1,359 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { quoteApi, type Quote } from '@/shared/services/api/quoteApi';
+import { reviewApi } from '@/shared/services/reviewApi';
+import { userAPI } from '@/shared/services/userApi';
+import { estimateShippingCost, loadVendorRuleSet } from '@/services/shippingRuleEngine';
+import { vendorService } from '@/services/vendorService';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/Card';
+import { Button } from '@/shared/components/Button';
+import {
+  ComparisonColumn,
+  findBestValues,
+  getLandedCost,
+  KycState,
+  parseCreditDays,
+  parseLeadTimeDays,
+  QuoteComparisonRow,
+  toKycState
+} from '@/shared/utils/quoteComparison';
+import { getEffectiveQuoteStatus } from '@/shared/utils/quoteNegotiation';
+import { purchaseOrderAPI } from '@/shared/services/purchaseOrderApi';
+import PurchaseOrderPanel from '@/shared/components/PurchaseOrderPanel';
+import { CheckBadgeIcon, StarIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface QuoteComparisonProps {
+  inquiryId: number;
+  // Inquiry quantity, used when a vendor quotes a unit price without a quantity
+  quantity?: number;
+  // Falls back to the buyer's default address
+  deliveryPincode?: string;
+  onClose?: () => void;
+}
+
+interface ComparedQuote {
+  quote: Quote;
+  row: QuoteComparisonRow;
+}
+
+const KYC_LABELS: Record<KycState, { label: string; className: string }> = {
+  VERIFIED: { label: 'Verified', className: 'bg-green-100 text-green-800' },
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  UNKNOWN: { label: 'Not submitted', className: 'bg-gray-100 text-gray-700' },
+};
+
+const formatPrice = (price?: number, currency = 'INR') => {
+  if (price === undefined) return '—';
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(price);
+};
+
+const getQuoteStatus = (quote: Quote) => getEffectiveQuoteStatus(quote);
+
+export default function QuoteComparison({ inquiryId, quantity, deliveryPincode, onClose }: QuoteComparisonProps) {
+  const [compared, setCompared] = useState<ComparedQuote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shippingUnavailable, setShippingUnavailable] = useState(false);
+  const [actionQuoteId, setActionQuoteId] = useState<number | null>(null);
+  const [rejectingQuoteId, setRejectingQuoteId] = useState<number | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const resolveDeliveryPincode = useCallback(async () => {
+    if (deliveryPincode) return deliveryPincode;
+    try {
+      const addresses = await userAPI.addresses.getAll();
+      return (addresses.find(address => address.isDefault) || addresses[0])?.pincode;
+    } catch (error) {
+      console.warn('Could not load default address:', error);
+      return undefined;
+    }
+  }, [deliveryPincode]);
+
+  const buildRow = useCallback(async (quote: Quote, toPincode?: string): Promise<QuoteComparisonRow> => {
+    const [vendorResult, ratingResult] = await Promise.allSettled([
+      vendorService.getVendorById(quote.vendorId),
+      reviewApi.getVendorAverageRating(quote.vendorId),
+    ]);
+    const vendor = vendorResult.status === 'fulfilled' ? vendorResult.value : undefined;
+    const quotedQuantity = quote.quantity ?? quantity ?? 1;
+
+    let shippingCost: number | undefined;
+    if (vendor?.pincode && toPincode && quote.price !== undefined) {
+      try {
+        // Vendors without published rules are still priced at the default zone rates
+        const ruleSet = await loadVendorRuleSet(String(quote.vendorId)).catch(() => ({ zones: [], rules: [] }));
+        const shipping = await estimateShippingCost(vendor.pincode, {
+          toPincode,
+          packages: [{ weight: quote.shippingWeight ?? 1 }],
+          value: quote.price * quotedQuantity,
+        }, ruleSet);
+        shippingCost = shipping.freeShipping ? 0 : shipping.cost;
+      } catch (error) {
+        console.warn(`Shipping estimate failed for quote ${quote.id}:`, error);
+      }
+    }
+
+    return {
+      quoteId: quote.id,
+      unitPrice: quote.price,
+      quantity: quotedQuantity,
+      shippingCost,
+      landedCost: getLandedCost(quote.price, quotedQuantity, shippingCost),
+      leadTimeDays: parseLeadTimeDays(quote.deliveryTime),
+      creditDays: parseCreditDays(quote.paymentTerms),
+      rating: ratingResult.status === 'fulfilled' ? ratingResult.value : undefined,
+      kyc: toKycState(vendor?.kycStatus),
+    };
+  }, [quantity]);
+
+  const fetchComparison = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [quotes, toPincode] = await Promise.all([
+        quoteApi.getQuotesForInquiry(inquiryId),
+        resolveDeliveryPincode(),
+      ]);
+      const rows = await Promise.all(quotes.map(quote => buildRow(quote, toPincode)));
+      setCompared(quotes.map((quote, index) => ({ quote, row: rows[index] })));
+      setShippingUnavailable(rows.some(row => row.unitPrice !== undefined && row.shippingCost === undefined));
+    } catch (error: any) {
+      console.error('Error loading quote comparison:', error);
+      setError(error.message || 'Failed to load quotes');
+    } finally {
+      setLoading(false);
+    }
+  }, [inquiryId, resolveDeliveryPincode, buildRow]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  // Rejected/expired quotes stay visible but don't compete for "best"
+  const bestValues = useMemo(() => findBestValues(
+    compared
+      .filter(({ quote }) => !['REJECTED', 'EXPIRED'].includes(getQuoteStatus(quote)))
+      .map(({ row }) => row)
+  ), [compared]);
+
+  const acceptedQuote = compared.find(({ quote }) => getQuoteStatus(quote) === 'ACCEPTED')?.quote;
+  const hasAccepted = !!acceptedQuote;
+
+  const updateQuote = (updated: Quote) => {
+    setCompared(prev => prev.map(entry =>
+      entry.quote.id === updated.id ? { ...entry, quote: { ...entry.quote, ...updated } } : entry
+    ));
+  };
+
+  const handleToggleShortlist = async (quote: Quote) => {
+    try {
+      setActionQuoteId(quote.id);
+      const updated = getQuoteStatus(quote) === 'SHORTLISTED'
+        ? await quoteApi.removeFromShortlist(quote.id)
+        : await quoteApi.shortlistQuote(quote.id);
+      updateQuote(updated);
+    } catch (error) {
+      console.error('Error updating shortlist:', error);
+      alert('Failed to update shortlist. Please try again.');
+    } finally {
+      setActionQuoteId(null);
+    }
+  };
+
+  const handleReject = async (quoteId: number) => {
+    if (!rejectReason.trim()) return;
+    try {
+      setActionQuoteId(quoteId);
+      const updated = await quoteApi.rejectQuote(quoteId, rejectReason.trim());
+      updateQuote({ ...updated, status: 'REJECTED', rejectionReason: rejectReason.trim() });
+      setRejectingQuoteId(null);
+      setRejectReason('');
+    } catch (error) {
+      console.error('Error rejecting quote:', error);
+      alert('Failed to reject quote. Please try again.');
+    } finally {
+      setActionQuoteId(null);
+    }
+  };
+
+  const handleAccept = async (quote: Quote) => {
+    if (!confirm(`Accept the quote from ${quote.vendor?.businessName || quote.vendor?.name || 'this vendor'}?`)) {
+      return;
+    }
+    try {
+      setActionQuoteId(quote.id);
+      await quoteApi.acceptQuote(quote.id);
+      updateQuote({ ...quote, isAccepted: true, status: 'ACCEPTED' });
+      try {
+        await purchaseOrderAPI.issueForQuote(quote.id);
+      } catch (poError) {
+        // The PO panel below retries issuing on load
+        console.error('Error issuing purchase order:', poError);
+      }
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      alert('Failed to accept quote. Please try again.');
+    } finally {
+      setActionQuoteId(null);
+    }
+  };
+
+  const cellClass = (column: ComparisonColumn, quoteId: number) =>
+    `px-4 py-3 text-sm ${bestValues[column].includes(quoteId) ? 'bg-green-50 font-semibold text-green-800' : 'text-gray-900'}`;
+
+  if (loading) {
+    return <div className="text-center py-8">Comparing quotes...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Compare Quotes ({compared.length})</CardTitle>
+          {onClose && (
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close comparison">
+              <XMarkIcon className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">Best value in each column is highlighted in green.</p>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-center py-6">
+            <p className="text-red-600 mb-3">{error}</p>
+            <Button variant="outline" onClick={fetchComparison}>Retry</Button>
+          </div>
+        ) : compared.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No quotes received for this inquiry yet.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Vendor', 'Unit Price', 'Landed Cost', 'Lead Time', 'Payment Terms', 'Rating', 'KYC', 'Actions'].map(heading => (
+                      <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {compared.map(({ quote, row }) => {
+                    const status = getQuoteStatus(quote);
+                    const isClosed = status === 'REJECTED' || status === 'EXPIRED';
+                    const isBusy = actionQuoteId === quote.id;
+
+                    return (
+                      <React.Fragment key={quote.id}>
+                        <tr className={isClosed ? 'opacity-50' : status === 'SHORTLISTED' ? 'bg-blue-50' : undefined}>
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{quote.vendor?.businessName || quote.vendor?.name || `Vendor #${quote.vendorId}`}</p>
+                            <p className="text-xs text-gray-500">{status === 'PENDING' ? `Quote #${quote.id}` : status}</p>
+                            {quote.rejectionReason && <p className="text-xs text-red-600">Reason: {quote.rejectionReason}</p>}
+                          </td>
+                          <td className={cellClass('unitPrice', quote.id)}>
+                            {formatPrice(row.unitPrice, quote.currency)}
+                            <p className="text-xs font-normal text-gray-500">× {row.quantity}</p>
+                          </td>
+                          <td className={cellClass('landedCost', quote.id)}>
+                            {formatPrice(row.landedCost, quote.currency)}
+                            <p className="text-xs font-normal text-gray-500">
+                              {row.shippingCost === undefined ? 'Shipping not estimated' : row.shippingCost === 0 ? 'Free shipping' : `incl. ${formatPrice(row.shippingCost)} shipping`}
+                            </p>
+                          </td>
+                          <td className={cellClass('leadTimeDays', quote.id)}>{quote.deliveryTime || '—'}</td>
+                          <td className={cellClass('creditDays', quote.id)}>{quote.paymentTerms || '—'}</td>
+                          <td className={cellClass('rating', quote.id)}>
+                            {row.rating ? (
+                              <span className="flex items-center">
+                                <StarIcon className="h-4 w-4 mr-1 text-yellow-500" />
+                                {row.rating.toFixed(1)}
+                              </span>
+                            ) : 'No reviews'}
+                          </td>
+                          <td className={cellClass('kyc', quote.id)}>
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${KYC_LABELS[row.kyc].className}`}>
+                              {row.kyc === 'VERIFIED' && <CheckBadgeIcon className="h-4 w-4 mr-1" />}
+                              {KYC_LABELS[row.kyc].label}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {status === 'ACCEPTED' ? (
+                              <span className="text-green-700 font-medium">✓ Accepted</span>
+                            ) : !isClosed && !hasAccepted && (
+                              <div className="flex flex-wrap gap-2">
+                                <Button size="sm" variant="success" disabled={isBusy} onClick={() => handleAccept(quote)}>
+                                  Accept
+                                </Button>
+                                <Button size="sm" variant="outline" disabled={isBusy} onClick={() => handleToggleShortlist(quote)}>
+                                  {status === 'SHORTLISTED' ? 'Unshortlist' : 'Shortlist'}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="text-red-600"
+                                  disabled={isBusy}
+                                  onClick={() => {
+                                    setRejectingQuoteId(quote.id);
+                                    setRejectReason('');
+                                  }}
+                                >
+                                  Reject
+                                </Button>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                        {rejectingQuoteId === quote.id && (
+                          <tr className="bg-red-50">
+                            <td colSpan={8} className="px-4 py-3">
+                              <div className="flex gap-2 items-center">
+                                <input
+                                  type="text"
+                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                                  placeholder="Reason for rejecting (shared with the vendor)"
+                                  value={rejectReason}
+                                  onChange={(e) => setRejectReason(e.target.value)}
+                                  autoFocus
+                                />
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  disabled={!rejectReason.trim() || isBusy}
+                                  onClick={() => handleReject(quote.id)}
+                                >
+                                  Confirm Reject
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setRejectingQuoteId(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {shippingUnavailable && (
+              <p className="mt-3 text-xs text-gray-500">
+                Landed cost excludes shipping where an estimate wasn&apos;t available (missing vendor or delivery pincode).
+              </p>
+            )}
+            {acceptedQuote && actionQuoteId !== acceptedQuote.id && (
+              <div className="mt-6 border-t pt-6">
+                <PurchaseOrderPanel quoteId={acceptedQuote.id} party="BUYER" />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Paperclip, X } from 'lucide-react';
+import type { Order } from '@/services/orderService';
+import { miscService } from '@/services/miscService';
+import { buildReturnDraft, returnAPI, type ReturnPhoto, type ReturnRequest } from '@/shared/services/returnApi';
+import {
+  calculateReturnRefund,
+  getReturnDeadline,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  type ReturnReason
+} from '@/shared/utils/returns';
+
+interface ReturnRequestModalProps {
+  order: Order;
+  onClose: () => void;
+  onCreated: (request: ReturnRequest) => void;
+}
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5 MB
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const BUYER_REASONS = (Object.keys(RETURN_REASONS) as ReturnReason[]).filter(reason => RETURN_REASONS[reason].buyerSelectable);
+
+export default function ReturnRequestModal({ order, onClose, onCreated }: ReturnRequestModalProps) {
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [comment, setComment] = useState('');
+  const [photos, setPhotos] = useState<ReturnPhoto[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lines = order.items
+    .map(item => ({ productId: item.productId, quantity: quantities[item.productId] ?? 0 }))
+    .filter(line => line.quantity > 0);
+  const refundEstimate = calculateReturnRefund(order, lines);
+  const photosRequired = reason !== '' && RETURN_REASONS[reason].requiresPhotos;
+  const deadline = getReturnDeadline(order);
+
+  const setQuantity = (productId: number, quantity: number, max: number) => {
+    setQuantities(prev => ({ ...prev, [productId]: Math.max(0, Math.min(max, quantity || 0)) }));
+  };
+
+  const handlePhotosSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).slice(0, MAX_RETURN_PHOTOS - photos.length);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const uploadErrors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const uploaded = await miscService.uploadFile(file, {
+          folder: 'return-evidence',
+          maxSize: MAX_PHOTO_SIZE,
+          allowedTypes: ALLOWED_PHOTO_TYPES,
+        });
+        setPhotos(prev => [...prev, {
+          fileId: uploaded.id,
+          url: uploaded.url,
+          fileName: uploaded.originalName || uploaded.fileName,
+        }]);
+      } catch (error: any) {
+        uploadErrors.push(`${file.name}: ${error.message || 'Upload failed'}`);
+      }
+    }
+
+    setError(uploadErrors.length ? uploadErrors.join('; ') : null);
+    setUploading(false);
+  };
+
+  const validate = (): string | null => {
+    if (lines.length === 0) return 'Select at least one item to return';
+    if (!reason) return 'Choose a reason for the return';
+    if (photosRequired && photos.length === 0) return 'Add at least one photo of the problem';
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validate();
+    if (validationError || !reason) {
+      setError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const request = await returnAPI.create(buildReturnDraft(order, quantities, reason, comment, photos));
+      onCreated(request);
+    } catch (error: any) {
+      setError(error.response?.data?.message || error.message || 'Failed to submit return request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white max-w-xl w-full rounded-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Return items</h2>
+            <p className="text-sm text-gray-600">
+              Order #{order.orderNumber}
+              {deadline && ` · returnable until ${deadline.toLocaleDateString()}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <h3 className="font-medium mb-2">Items to return</h3>
+            <div className="space-y-2">
+              {order.items.map(item => (
+                <div key={item.productId} className="flex items-center justify-between gap-4 border rounded-md p-3">
+                  <div>
+                    <p className="font-medium">{item.productName}</p>
+                    <p className="text-sm text-gray-600">₹{item.price} × {item.quantity} ordered</p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.quantity}
+                    value={quantities[item.productId] ?? 0}
+                    onChange={(e) => setQuantity(item.productId, parseInt(e.target.value, 10), item.quantity)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                    aria-label={`Quantity of ${item.productName} to return`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReturnReason | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Select a reason</option>
+              {BUYER_REASONS.map(code => (
+                <option key={code} value={code}>{RETURN_REASONS[code].label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">
+              Photos {photosRequired ? <span className="text-red-600">(required)</span> : <span className="text-gray-500 text-sm">(optional)</span>}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map(photo => (
+                <div key={photo.fileId} className="relative">
+                  <img src={photo.url} alt={photo.fileName} className="w-20 h-20 object-cover rounded border" />
+                  <button
+                    onClick={() => setPhotos(prev => prev.filter(p => p.fileId !== photo.fileId))}
+                    className="absolute -top-2 -right-2 bg-white border rounded-full p-0.5"
+                    aria-label={`Remove ${photo.fileName}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_RETURN_PHOTOS && (
+                <label className="w-20 h-20 border-2 border-dashed border-gray-300 rounded flex flex-col items-center justify-center text-xs text-gray-500 cursor-pointer hover:border-blue-400">
+                  {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Paperclip className="w-5 h-5" />}
+                  <span className="mt-1">Add photo</span>
+                  <input
+                    type="file"
+                    accept={ALLOWED_PHOTO_TYPES.join(',')}
+                    multiple
+                    disabled={uploading}
+                    onChange={handlePhotosSelected}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Up to {MAX_RETURN_PHOTOS} photos, JPG/PNG/WebP, 5 MB each</p>
+          </div>
+
+          <div>
+            <label className="block font-medium mb-2">Comments</label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Tell the seller what went wrong"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+
+          <div className="flex justify-between items-center bg-gray-50 rounded-md p-3">
+            <span className="text-sm text-gray-600">Estimated refund</span>
+            <span className="font-semibold">₹{refundEstimate.toFixed(2)}</span>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t">
+          <button onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || uploading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting ? 'Submitting...' : 'Request return'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,665 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Loader2, Paperclip, X } from 'lucide-react';
+import { categoryService, type Category } from '@/services/categoryService';
+import { miscService } from '@/services/miscService';
+import { aiRecommendationService, type VendorRecommendation } from '@/services/aiRecommendationService';
+import { rfqAPI, toVendorMatchRequirement, type CreateRfqDto, type Rfq, type RfqAttachment, type RfqSpecValue } from '@/shared/services/rfqApi';
+import { getSpecFieldsForCategory, RFQ_UNITS, type RfqSpecField } from '@/shared/constants/rfqSpecFields';
+
+const STEPS = ['Category', 'Specifications', 'Quantity & Delivery', 'Attachments & Review'];
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+const ALLOWED_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+// Earliest selectable delivery deadline (tomorrow), as yyyy-mm-dd
+const minDeadline = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+interface RfqFormState {
+  title: string;
+  description: string;
+  categoryId: string;
+  subCategoryId: string;
+  specifications: Record<string, RfqSpecValue>;
+  quantity: string;
+  unit: string;
+  targetPrice: string;
+  deliveryPincode: string;
+  deliveryDeadline: string;
+}
+
+const initialFormState: RfqFormState = {
+  title: '',
+  description: '',
+  categoryId: '',
+  subCategoryId: '',
+  specifications: {},
+  quantity: '',
+  unit: RFQ_UNITS[0],
+  targetPrice: '',
+  deliveryPincode: '',
+  deliveryDeadline: '',
+};
+
+// Fields carried over from a search, e.g. /post-requirement?title=...&quantity=500&unit=Kg
+export interface RfqPrefill {
+  title?: string;
+  quantity?: string;
+  unit?: string;
+  deadline?: string;
+  location?: string;
+  category?: string;
+}
+
+const prefilledFormState = (prefill: RfqPrefill = {}): RfqFormState => ({
+  ...initialFormState,
+  title: prefill.title || '',
+  description: prefill.location ? `Delivery to ${prefill.location}` : '',
+  quantity: prefill.quantity && Number(prefill.quantity) > 0 ? prefill.quantity : '',
+  unit: prefill.unit && RFQ_UNITS.includes(prefill.unit) ? prefill.unit : initialFormState.unit,
+  deliveryDeadline: prefill.deadline && prefill.deadline >= minDeadline() ? prefill.deadline : '',
+});
+
+interface RfqWizardProps {
+  prefill?: RfqPrefill;
+}
+
+export default function RfqWizard({ prefill }: RfqWizardProps) {
+  const [step, setStep] = useState(0);
+  const [form, setForm] = useState<RfqFormState>(() => prefilledFormState(prefill));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [categoriesError, setCategoriesError] = useState<string | null>(null);
+
+  const [attachments, setAttachments] = useState<RfqAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [postedRfq, setPostedRfq] = useState<Rfq | null>(null);
+  const [matchedVendors, setMatchedVendors] = useState<VendorRecommendation[]>([]);
+
+  const loadCategories = async () => {
+    try {
+      setCategoriesLoading(true);
+      setCategoriesError(null);
+      const hierarchy = await categoryService.getCategoryHierarchy();
+      setCategories(hierarchy.filter(category => category.isActive !== false));
+    } catch (error: any) {
+      console.error('Error loading categories:', error);
+      setCategoriesError(error.message || 'Failed to load categories');
+    } finally {
+      setCategoriesLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  // Preselect the category a search handed over, by name
+  const prefillCategory = prefill?.category?.trim().toLowerCase();
+  useEffect(() => {
+    if (!prefillCategory) return;
+    for (const category of categories) {
+      const sub = category.subcategories?.find(s => s.name.toLowerCase() === prefillCategory);
+      if (category.name.toLowerCase() === prefillCategory || sub) {
+        setForm(prev => prev.categoryId ? prev : {
+          ...prev,
+          categoryId: String(category.id),
+          subCategoryId: sub ? String(sub.id) : ''
+        });
+        return;
+      }
+    }
+  }, [categories, prefillCategory]);
+
+  const selectedCategory = categories.find(category => String(category.id) === form.categoryId);
+  const subcategories = selectedCategory?.subcategories || [];
+  const selectedSubCategory = subcategories.find(sub => String(sub.id) === form.subCategoryId);
+
+  // Sub-category name is more specific, so try it first for the spec template
+  const specFields = useMemo<RfqSpecField[]>(() => {
+    if (!selectedCategory) return [];
+    return getSpecFieldsForCategory({
+      name: `${selectedSubCategory?.name || ''} ${selectedCategory.name}`,
+      slug: selectedSubCategory?.slug || selectedCategory.slug,
+    });
+  }, [selectedCategory, selectedSubCategory]);
+
+  const updateField = (field: keyof RfqFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: '' }));
+  };
+
+  const updateSpec = (key: string, value: RfqSpecValue) => {
+    setForm(prev => ({ ...prev, specifications: { ...prev.specifications, [key]: value } }));
+    setErrors(prev => ({ ...prev, [`spec.${key}`]: '' }));
+  };
+
+  const toggleSpecOption = (key: string, option: string) => {
+    const current = (form.specifications[key] as string[] | undefined) || [];
+    updateSpec(key, current.includes(option) ? current.filter(o => o !== option) : [...current, option]);
+  };
+
+  const validateStep = (stepIndex: number): boolean => {
+    const stepErrors: Record<string, string> = {};
+
+    if (stepIndex === 0) {
+      if (!form.title.trim()) stepErrors.title = 'Tell suppliers what you need';
+      if (!form.categoryId) stepErrors.categoryId = 'Select a category';
+    }
+
+    if (stepIndex === 1) {
+      specFields.forEach(field => {
+        const value = form.specifications[field.key];
+        const isEmpty = Array.isArray(value) ? value.length === 0 : !value;
+        if (field.required && isEmpty) {
+          stepErrors[`spec.${field.key}`] = `${field.label} is required`;
+        }
+        if (field.type === 'number' && value && Number(value) < 0) {
+          stepErrors[`spec.${field.key}`] = `${field.label} must be positive`;
+        }
+      });
+    }
+
+    if (stepIndex === 2) {
+      if (!form.quantity || Number(form.quantity) <= 0) stepErrors.quantity = 'Enter the required quantity';
+      if (form.targetPrice && Number(form.targetPrice) <= 0) stepErrors.targetPrice = 'Target price must be greater than 0';
+      if (!/^[1-9][0-9]{5}$/.test(form.deliveryPincode)) stepErrors.deliveryPincode = 'Enter a valid 6-digit pincode';
+      if (!form.deliveryDeadline) {
+        stepErrors.deliveryDeadline = 'Select a delivery deadline';
+      } else if (form.deliveryDeadline < minDeadline()) {
+        stepErrors.deliveryDeadline = 'Deadline must be in the future';
+      }
+    }
+
+    setErrors(stepErrors);
+    return Object.keys(stepErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (validateStep(step)) {
+      setStep(prev => Math.min(prev + 1, STEPS.length - 1));
+    }
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStep(prev => Math.max(prev - 1, 0));
+  };
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    const uploadErrors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const uploaded = await miscService.uploadFile(file, {
+          folder: 'rfq-attachments',
+          maxSize: MAX_ATTACHMENT_SIZE,
+          allowedTypes: ALLOWED_ATTACHMENT_TYPES,
+        });
+        setAttachments(prev => [...prev, {
+          fileId: uploaded.id,
+          url: uploaded.url,
+          fileName: uploaded.originalName || uploaded.fileName,
+          mimeType: uploaded.mimeType,
+          fileSize: uploaded.fileSize,
+        }]);
+      } catch (error: any) {
+        uploadErrors.push(`${file.name}: ${error.message || 'Upload failed'}`);
+      }
+    }
+
+    setErrors(prev => ({ ...prev, attachments: uploadErrors.join('; ') }));
+    setUploading(false);
+  };
+
+  const buildRfq = (): CreateRfqDto => {
+    const specificationLabels: Record<string, string> = {};
+    const specifications: Record<string, RfqSpecValue> = {};
+    specFields.forEach(field => {
+      const value = form.specifications[field.key];
+      if (value === undefined || (Array.isArray(value) ? value.length === 0 : value === '')) return;
+      specifications[field.key] = value;
+      specificationLabels[field.key] = field.unit ? `${field.label} (${field.unit})` : field.label;
+    });
+
+    return {
+      title: form.title.trim(),
+      description: form.description.trim() || undefined,
+      categoryId: Number(form.categoryId),
+      categoryName: selectedCategory?.name || '',
+      subCategoryId: selectedSubCategory?.id,
+      subCategoryName: selectedSubCategory?.name,
+      specifications,
+      specificationLabels,
+      quantity: Number(form.quantity),
+      unit: form.unit,
+      targetPrice: form.targetPrice ? Number(form.targetPrice) : undefined,
+      deliveryPincode: form.deliveryPincode,
+      deliveryDeadline: form.deliveryDeadline,
+      attachments,
+    };
+  };
+
+  const handleSubmit = async () => {
+    // Earlier steps can't be skipped, but re-check in case fields were cleared since
+    const invalidStep = [0, 1, 2].find(stepIndex => !validateStep(stepIndex));
+    if (invalidStep !== undefined) {
+      setStep(invalidStep);
+      return;
+    }
+
+    const rfq = buildRfq();
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+      const created = await rfqAPI.create(rfq);
+      setPostedRfq(created);
+
+      // Matching is best-effort; the RFQ is already posted
+      try {
+        setMatchedVendors(await aiRecommendationService.getMatchedVendors(toVendorMatchRequirement(rfq), 5));
+      } catch (error) {
+        console.warn('Vendor matching unavailable:', error);
+      }
+    } catch (error: any) {
+      console.error('Error posting requirement:', error);
+      setSubmitError(error.message || 'Failed to post your requirement. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resetWizard = () => {
+    setForm(initialFormState);
+    setAttachments([]);
+    setErrors({});
+    setPostedRfq(null);
+    setMatchedVendors([]);
+    setStep(0);
+  };
+
+  const renderError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-sm text-red-600">{errors[key]}</p> : null;
+
+  const renderSpecField = (field: RfqSpecField) => {
+    const value = form.specifications[field.key];
+    const label = (
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {field.label}{field.unit ? ` (${field.unit})` : ''}{field.required ? ' *' : ''}
+      </label>
+    );
+
+    if (field.type === 'multiselect') {
+      const selected = (value as string[] | undefined) || [];
+      return (
+        <div key={field.key} className="md:col-span-2">
+          {label}
+          <div className="flex flex-wrap gap-2">
+            {field.options?.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => toggleSpecOption(field.key, option)}
+                className={`px-3 py-1 rounded-full border text-sm ${selected.includes(option)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:border-blue-500'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {renderError(`spec.${field.key}`)}
+        </div>
+      );
+    }
+
+    return (
+      <div key={field.key}>
+        {label}
+        {field.type === 'select' ? (
+          <select
+            className={inputClass}
+            value={(value as string) || ''}
+            onChange={(e) => updateSpec(field.key, e.target.value)}
+          >
+            <option value="">Select {field.label.toLowerCase()}</option>
+            {field.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={field.type}
+            min={field.type === 'number' ? 0 : undefined}
+            className={inputClass}
+            placeholder={field.placeholder}
+            value={(value as string) || ''}
+            onChange={(e) => updateSpec(field.key, e.target.value)}
+          />
+        )}
+        {renderError(`spec.${field.key}`)}
+      </div>
+    );
+  };
+
+  if (postedRfq) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <CheckCircle className="mx-auto text-green-600 mb-4" size={48} />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Requirement Posted</h2>
+          <p className="text-gray-600">
+            RFQ <span className="font-semibold">{postedRfq.rfqNumber}</span> has been shared with matching suppliers.
+            You&apos;ll be notified as quotes come in.
+          </p>
+        </div>
+
+        {matchedVendors.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Suppliers matched to your requirement</h3>
+            <div className="space-y-3">
+              {matchedVendors.map(vendor => (
+                <div key={vendor.id} className="flex justify-between items-start border border-gray-200 rounded-lg p-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{vendor.companyName || vendor.name}</p>
+                    <p className="text-sm text-gray-600">{vendor.location.city}, {vendor.location.state}</p>
+                    <p className="text-sm text-gray-500">{vendor.matchReason}</p>
+                  </div>
+                  <span className="text-sm font-semibold text-blue-600">
+                    {Math.round(vendor.recommendationScore * 100)}% match
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={resetWizard}
+          className="w-full border border-blue-600 text-blue-600 py-3 px-6 rounded-lg hover:bg-blue-50 transition-colors font-semibold"
+        >
+          Post Another Requirement
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Step indicator */}
+      <ol className="flex items-center justify-between">
+        {STEPS.map((label, index) => (
+          <li key={label} className="flex-1 flex flex-col items-center text-center">
+            <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${index <= step ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-600'}`}>
+              {index + 1}
+            </div>
+            <span className={`mt-2 text-xs ${index === step ? 'text-blue-600 font-medium' : 'text-gray-500'}`}>{label}</span>
+          </li>
+        ))}
+      </ol>
+
+      {step === 0 && (
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Product/Service Name *</label>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder="e.g., Industrial-grade centrifugal pumps"
+              value={form.title}
+              onChange={(e) => updateField('title', e.target.value)}
+            />
+            {renderError('title')}
+          </div>
+
+          {categoriesError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+              {categoriesError}{' '}
+              <button type="button" onClick={loadCategories} className="underline font-medium">Retry</button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category *</label>
+                <select
+                  className={inputClass}
+                  value={form.categoryId}
+                  disabled={categoriesLoading}
+                  onChange={(e) => {
+                    setForm(prev => ({ ...prev, categoryId: e.target.value, subCategoryId: '', specifications: {} }));
+                    setErrors(prev => ({ ...prev, categoryId: '' }));
+                  }}
+                >
+                  <option value="">{categoriesLoading ? 'Loading categories…' : 'Select category'}</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+                {renderError('categoryId')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Sub-category</label>
+                <select
+                  className={inputClass}
+                  value={form.subCategoryId}
+                  disabled={subcategories.length === 0}
+                  onChange={(e) => setForm(prev => ({ ...prev, subCategoryId: e.target.value, specifications: {} }))}
+                >
+                  <option value="">Any</option>
+                  {subcategories.map(sub => (
+                    <option key={sub.id} value={sub.id}>{sub.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Additional Details</label>
+            <textarea
+              rows={4}
+              className={inputClass}
+              placeholder="Anything else suppliers should know about this requirement"
+              value={form.description}
+              onChange={(e) => updateField('description', e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === 1 && (
+        <div>
+          <p className="text-sm text-gray-600 mb-4">
+            Specifications for <span className="font-medium">{selectedSubCategory?.name || selectedCategory?.name}</span>.
+            Precise specs get you comparable quotes.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {specFields.map(renderSpecField)}
+          </div>
+        </div>
+      )}
+
+      {step === 2 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Quantity *</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                placeholder="Enter required quantity"
+                value={form.quantity}
+                onChange={(e) => updateField('quantity', e.target.value)}
+              />
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                value={form.unit}
+                onChange={(e) => updateField('unit', e.target.value)}
+              >
+                {RFQ_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+              </select>
+            </div>
+            {renderError('quantity')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Target Price (₹ per {form.unit.toLowerCase()})</label>
+            <input
+              type="number"
+              min={0}
+              className={inputClass}
+              placeholder="Optional"
+              value={form.targetPrice}
+              onChange={(e) => updateField('targetPrice', e.target.value)}
+            />
+            {renderError('targetPrice')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Delivery Pincode *</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={6}
+              className={inputClass}
+              placeholder="e.g. 110001"
+              value={form.deliveryPincode}
+              onChange={(e) => updateField('deliveryPincode', e.target.value.replace(/\D/g, ''))}
+            />
+            {renderError('deliveryPincode')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Delivery Deadline *</label>
+            <input
+              type="date"
+              className={inputClass}
+              min={minDeadline()}
+              value={form.deliveryDeadline}
+              onChange={(e) => updateField('deliveryDeadline', e.target.value)}
+            />
+            {renderError('deliveryDeadline')}
+          </div>
+        </div>
+      )}
+
+      {step === 3 && (
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Attachments (drawings, spec sheets)</label>
+            <label className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-lg p-4 cursor-pointer hover:border-blue-500 text-gray-600">
+              {uploading ? <Loader2 className="animate-spin" size={16} /> : <Paperclip size={16} />}
+              <span>{uploading ? 'Uploading…' : 'PDF, JPG, PNG, XLSX or DOCX up to 10 MB'}</span>
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                disabled={uploading}
+                accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                onChange={handleFilesSelected}
+              />
+            </label>
+            {renderError('attachments')}
+            {attachments.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {attachments.map(attachment => (
+                  <li key={attachment.fileId} className="flex justify-between items-center text-sm bg-gray-50 rounded px-3 py-2">
+                    <span className="truncate">{attachment.fileName}</span>
+                    <button
+                      type="button"
+                      onClick={() => setAttachments(prev => prev.filter(a => a.fileId !== attachment.fileId))}
+                      className="text-gray-500 hover:text-red-600"
+                      aria-label={`Remove ${attachment.fileName}`}
+                    >
+                      <X size={16} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Review</h3>
+            <p><span className="text-gray-600">Requirement:</span> {form.title}</p>
+            <p>
+              <span className="text-gray-600">Category:</span> {selectedCategory?.name}
+              {selectedSubCategory ? ` › ${selectedSubCategory.name}` : ''}
+            </p>
+            {specFields.filter(field => {
+              const value = form.specifications[field.key];
+              return Array.isArray(value) ? value.length > 0 : !!value;
+            }).map(field => {
+              const value = form.specifications[field.key];
+              return (
+                <p key={field.key}>
+                  <span className="text-gray-600">{field.label}:</span>{' '}
+                  {Array.isArray(value) ? value.join(', ') : value}{field.unit && !Array.isArray(value) ? ` ${field.unit}` : ''}
+                </p>
+              );
+            })}
+            <p><span className="text-gray-600">Quantity:</span> {form.quantity} {form.unit}</p>
+            {form.targetPrice && <p><span className="text-gray-600">Target price:</span> ₹{form.targetPrice} per {form.unit.toLowerCase()}</p>}
+            <p><span className="text-gray-600">Deliver to:</span> {form.deliveryPincode} by {form.deliveryDeadline}</p>
+          </div>
+
+          {submitError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{submitError}</div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-between gap-4">
+        {step > 0 ? (
+          <button
+            type="button"
+            onClick={handleBack}
+            className="px-6 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 font-semibold"
+          >
+            Back
+          </button>
+        ) : <span />}
+        {step < STEPS.length - 1 ? (
+          <button
+            type="button"
+            onClick={handleNext}
+            className="bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+          >
+            Next
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={submitting || uploading}
+            className="bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50"
+          >
+            {submitting ? 'Submitting…' : 'Submit Requirement'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
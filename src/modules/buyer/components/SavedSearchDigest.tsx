@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { SearchService, searchService, type SavedSearch, type SearchAlertFrequency } from '@/services/searchService';
+import { savedSearchAlertService, type SearchAlertDigestEntry } from '@/services/savedSearchAlertService';
+import { ALERT_FREQUENCY_LABELS } from '@/shared/utils/savedSearchAlerts';
+
+// How often the dashboard re-runs instant alerts while it stays open
+const INSTANT_CHECK_INTERVAL = 15 * 60 * 1000;
+
+const formatPrice = (price: number) => `₹${price.toLocaleString('en-IN')}`;
+
+export default function SavedSearchDigest() {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [digest, setDigest] = useState<SearchAlertDigestEntry[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const runChecks = useCallback(async (force = false) => {
+    if (!user) return;
+    setChecking(true);
+    try {
+      const saved = await searchService.getSavedSearches();
+      // "Check now" ignores the schedule but still skips searches with alerts off
+      const toCheck = force
+        ? saved.filter(search => search.alertFrequency !== 'off').map(search => ({ ...search, lastCheckedAt: undefined }))
+        : saved;
+      await savedSearchAlertService.checkSavedSearches(user.id, toCheck);
+      setSearches(await searchService.getSavedSearches());
+      setDigest(savedSearchAlertService.getDigest());
+    } finally {
+      setChecking(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    setDigest(savedSearchAlertService.getDigest());
+    runChecks();
+    const interval = setInterval(() => runChecks(), INSTANT_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [runChecks]);
+
+  const handleFrequencyChange = async (search: SavedSearch, alertFrequency: SearchAlertFrequency) => {
+    try {
+      const updated = await searchService.updateSavedSearch(search.id, { alertFrequency });
+      setSearches(prev => prev.map(s => s.id === search.id ? { ...s, ...updated } : s));
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete saved search "${search.name}"?`)) return;
+    try {
+      await searchService.deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+      setDigest(savedSearchAlertService.removeFromDigest(search.id));
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const unseenCount = digest.filter(entry => !entry.seen).length;
+
+  return (
+    <div className="bg-white p-6 rounded-md border shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-lg">
+          Search Alerts
+          {unseenCount > 0 && (
+            <span className="ml-2 bg-blue-600 text-white text-xs rounded-full px-2 py-0.5">{unseenCount}</span>
+          )}
+        </h3>
+        <button
+          onClick={() => runChecks(true)}
+          disabled={checking || searches.length === 0}
+          className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+        >
+          {checking ? 'Checking...' : 'Check now'}
+        </button>
+      </div>
+
+      {searches.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Save a search to be told about new suppliers and cheaper listings.
+        </p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {searches.map(search => (
+            <li key={search.id} className="flex items-center justify-between gap-2 border-b pb-2 text-sm">
+              <Link href={SearchService.buildSearchUrl(search.searchRequest)} className="truncate hover:underline">
+                {search.name}
+              </Link>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <select
+                  value={search.alertFrequency ?? 'off'}
+                  onChange={(e) => handleFrequencyChange(search, e.target.value as SearchAlertFrequency)}
+                  className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                >
+                  {(Object.keys(ALERT_FREQUENCY_LABELS) as SearchAlertFrequency[]).map(frequency => (
+                    <option key={frequency} value={frequency}>{ALERT_FREQUENCY_LABELS[frequency]}</option>
+                  ))}
+                </select>
+                <button onClick={() => handleDelete(search)} className="text-gray-400 hover:text-red-600" aria-label={`Delete ${search.name}`}>
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {searches.length > 0 && (
+        <p className="text-xs text-gray-500 mb-4">
+          Alerts are checked while you have the app open, so matches found since your last visit show up when you come back.
+        </p>
+      )}
+
+      {digest.length > 0 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-medium text-gray-700">Recent matches</h4>
+            {unseenCount > 0 && (
+              <button onClick={() => setDigest(savedSearchAlertService.markDigestSeen())} className="text-xs text-gray-500 hover:underline">
+                Mark all seen
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {digest.slice(0, 10).map(entry => (
+              <li key={entry.id} className={`rounded-md p-2 text-sm ${entry.seen ? 'bg-gray-50' : 'bg-blue-50'}`}>
+                <button
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  className="w-full text-left"
+                >
+                  <p className="font-medium">{entry.searchName}</p>
+                  <p className="text-xs text-gray-600">
+                    {[
+                      entry.newItems.length && `${entry.newItems.length} new`,
+                      entry.priceDrops.length && `${entry.priceDrops.length} cheaper`,
+                      entry.newSuppliers.length && `${entry.newSuppliers.length} new suppliers`
+                    ].filter(Boolean).join(' · ')}
+                    {' · '}{new Date(entry.checkedAt).toLocaleDateString()}
+                  </p>
+                </button>
+
+                {expandedId === entry.id && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {entry.priceDrops.map(({ item, previousPrice }) => (
+                      <li key={`drop-${item.id}`} className="flex justify-between gap-2">
+                        <Link href={`/productdetails/${item.id}`} className="truncate hover:underline">{item.name}</Link>
+                        <span className="flex-shrink-0">
+                          <span className="line-through text-gray-400 mr-1">{formatPrice(previousPrice)}</span>
+                          <span className="text-green-700 font-medium">{formatPrice(item.price!)}</span>
+                        </span>
+                      </li>
+                    ))}
+                    {entry.newItems.map(item => (
+                      <li key={`new-${item.id}`} className="flex justify-between gap-2">
+                        {item.price !== undefined ? (
+                          <Link href={`/productdetails/${item.id}`} className="truncate hover:underline">{item.name}</Link>
+                        ) : (
+                          <span className="truncate">{item.name}</span>
+                        )}
+                        <span className="flex-shrink-0 text-gray-600">
+                          {item.price !== undefined ? formatPrice(item.price) : 'New'}
+                        </span>
+                      </li>
+                    ))}
+                    {entry.newSuppliers.length > 0 && (
+                      <li className="text-gray-600">
+                        New suppliers: {entry.newSuppliers.map(supplier => supplier.name).join(', ')}
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
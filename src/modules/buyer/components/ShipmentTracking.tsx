@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle, Circle, ExternalLink, MapPin, Package, RefreshCw, Truck } from 'lucide-react';
+import { orderService, type Order, type OrderStatus } from '@/services/orderService';
+import { ShippingService, shippingService, type ShippingProvider, type TrackingInfo } from '@/services/shippingService';
+import { formatProviderName } from '@/services/carrierRateShopping';
+import { useShipmentTracking, type TrackedShipment } from '@/shared/hooks/useShipmentTracking';
+
+interface ShipmentTrackingProps {
+  orderNumber: string;
+}
+
+const STATUS_BADGE: Record<string, string> = {
+  blue: 'bg-blue-100 text-blue-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  purple: 'bg-purple-100 text-purple-800',
+  green: 'bg-green-100 text-green-800',
+  orange: 'bg-orange-100 text-orange-800',
+  red: 'bg-red-100 text-red-800',
+  gray: 'bg-gray-100 text-gray-800'
+};
+
+const formatTime = (timestamp: string) => {
+  try {
+    return format(new Date(timestamp), 'dd MMM yyyy, h:mm a');
+  } catch {
+    return timestamp;
+  }
+};
+
+export default function ShipmentTracking({ orderNumber }: ShipmentTrackingProps) {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [orderHistory, setOrderHistory] = useState<Array<{ status: OrderStatus; timestamp: string; message: string }>>([]);
+  const [loadingOrder, setLoadingOrder] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      try {
+        setLoadingOrder(true);
+        setError(null);
+        const { order, trackingHistory } = await orderService.trackOrder(orderNumber);
+        setOrder(order);
+        setOrderHistory(trackingHistory);
+      } catch (error: any) {
+        console.error('Error loading order for tracking:', error);
+        setError(error.message || 'Failed to load order');
+      } finally {
+        setLoadingOrder(false);
+      }
+    };
+
+    loadOrder();
+  }, [orderNumber]);
+
+  // Multi-package orders list each shipment; older orders only have one tracking number
+  const shipments = useMemo<TrackedShipment[]>(() => {
+    if (!order) return [];
+    if (order.shipments?.length) {
+      return order.shipments.map(({ trackingNumber, provider }) => ({ trackingNumber, provider }));
+    }
+    return order.trackingNumber ? [{ trackingNumber: order.trackingNumber, provider: order.shipping?.provider }] : [];
+  }, [order]);
+
+  // Buyers are notified of status changes by the server as carrier updates arrive, not from this page
+  const { tracking, errors, loading, lastUpdated, refresh } = useShipmentTracking(shipments);
+
+  if (loadingOrder) {
+    return (
+      <div className="min-h-[50vh] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-12 text-center">
+        <Package className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Order not found</h2>
+        <p className="text-gray-600 mb-6">{error || `We couldn't find order ${orderNumber}.`}</p>
+        <Link href="/orders" className="text-indigo-600 hover:text-indigo-800">Back to my orders</Link>
+      </div>
+    );
+  }
+
+  const getItemsInShipment = (trackingNumber: string) => {
+    const productIds = order.shipments?.find(shipment => shipment.trackingNumber === trackingNumber)?.productIds;
+    return productIds ? order.items.filter(item => productIds.includes(item.productId)) : [];
+  };
+
+  const renderShipment = (shipment: TrackedShipment, index: number) => {
+    const info: TrackingInfo | undefined = tracking[shipment.trackingNumber];
+    const provider: ShippingProvider | undefined = info?.provider ?? shipment.provider;
+    const color = info ? ShippingService.getStatusColor(info.currentStatus) : 'gray';
+    const events = [...(info?.events || [])].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    const items = getItemsInShipment(shipment.trackingNumber);
+
+    return (
+      <div key={shipment.trackingNumber} className="bg-white rounded-lg shadow-md overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <h2 className="font-semibold text-lg flex items-center gap-2">
+              <Truck size={20} className="text-purple-500" />
+              {shipments.length > 1 ? `Package ${index + 1} of ${shipments.length}` : 'Shipment'}
+            </h2>
+            <p className="text-sm text-gray-600">
+              {provider ? formatProviderName(provider) : 'Carrier'} · <span className="font-mono">{shipment.trackingNumber}</span>
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {info && (
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_BADGE[color] || STATUS_BADGE.gray}`}>
+                {ShippingService.formatTrackingStatus(info.currentStatus)}
+              </span>
+            )}
+            {provider && (
+              <a
+                href={shippingService.getProviderTrackingUrl(shipment.trackingNumber, provider)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Track on {formatProviderName(provider)}
+                <ExternalLink size={14} />
+              </a>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {info && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">From</p>
+                <p className="font-medium">{info.origin || '—'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">To</p>
+                <p className="font-medium">{info.destination || '—'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">{info.actualDelivery ? 'Delivered' : 'Expected delivery'}</p>
+                <p className="font-medium">
+                  {info.actualDelivery
+                    ? formatTime(info.actualDelivery)
+                    : info.estimatedDelivery ? format(new Date(info.estimatedDelivery), 'EEE, dd MMM') : '—'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Contains: {items.map(item => `${item.productName} × ${item.quantity}`).join(', ')}
+            </p>
+          )}
+
+          {errors[shipment.trackingNumber] && !info && (
+            <p className="text-sm text-orange-600">
+              Tracking details aren&apos;t available yet. Check again shortly or use the carrier&apos;s website.
+            </p>
+          )}
+
+          {events.length > 0 && (
+            <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+              {events.map((event, eventIndex) => (
+                <li key={`${event.timestamp}-${eventIndex}`} className="ml-6">
+                  <span className="absolute -left-[9px] bg-white">
+                    {eventIndex === 0
+                      ? <CheckCircle size={16} className="text-green-600" />
+                      : <Circle size={16} className="text-gray-300" />}
+                  </span>
+                  <p className={`font-medium ${eventIndex === 0 ? 'text-gray-900' : 'text-gray-700'}`}>
+                    {ShippingService.formatTrackingStatus(event.status)}
+                  </p>
+                  <p className="text-sm text-gray-600">{event.description}</p>
+                  <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                    {event.location && (<><MapPin size={12} />{event.location} · </>)}
+                    {formatTime(event.timestamp)}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <Link href="/orders" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft size={16} />
+        My Orders
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-2">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Track Order</h1>
+          <p className="text-gray-600">
+            {order.orderNumber} · placed {format(new Date(order.createdAt), 'dd MMM yyyy')}
+          </p>
+        </div>
+        {shipments.length > 0 && (
+          <button
+            onClick={() => refresh()}
+            disabled={loading}
+            className="flex items-center gap-2 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+            {lastUpdated ? `Updated ${format(lastUpdated, 'h:mm a')}` : 'Refresh'}
+          </button>
+        )}
+      </div>
+
+      {shipments.length === 0 ? (
+        // Not shipped yet - fall back to the order's own status history
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="font-semibold text-lg mb-4 flex items-center gap-2">
+            <Package size={20} className="text-blue-500" />
+            Order status
+          </h2>
+          <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+            {orderHistory.map((entry, index) => (
+              <li key={`${entry.status}-${index}`} className="ml-6">
+                <span className="absolute -left-[9px] bg-white">
+                  <CheckCircle size={16} className={index === orderHistory.length - 1 ? 'text-green-600' : 'text-gray-300'} />
+                </span>
+                <p className="font-medium text-gray-900">{entry.status.charAt(0) + entry.status.slice(1).toLowerCase().replace(/_/g, ' ')}</p>
+                <p className="text-sm text-gray-600">{entry.message}</p>
+                <p className="text-xs text-gray-500 mt-1">{formatTime(entry.timestamp)}</p>
+              </li>
+            ))}
+          </ol>
+          <p className="text-sm text-gray-500 mt-6">Tracking details will appear here once the seller ships your order.</p>
+        </div>
+      ) : (
+        shipments.map(renderShipment)
+      )}
+    </div>
+  );
+}
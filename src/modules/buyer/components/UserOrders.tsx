@@ -1,48 +1,76 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { Button } from '@/shared/components/Button';
+import ReturnStatusTracker from '@/shared/components/ReturnStatusTracker';
+import { orderService, type Order } from '@/services/orderService';
+import { returnAPI, type ReturnRequest } from '@/shared/services/returnApi';
+import {
+  getAvailableReturnActions,
+  isReturnClosed,
+  isWithinReturnWindow,
+  RETURN_STATUS_LABELS
+} from '@/shared/utils/returns';
+import ReturnRequestModal from './ReturnRequestModal';
 
-// Mock data for orders
-const mockOrders = [
-  {
-    id: 'ORD-001',
-    date: '2024-01-15',
-    total: 1299.99,
-    status: 'Delivered',
-    items: [
-      { name: 'Laptop HP Pavilion', price: 1299.99, quantity: 1 }
-    ]
-  },
-  {
-    id: 'ORD-002',
-    date: '2024-01-20',
-    total: 45.99,
-    status: 'Shipped',
-    items: [
-      { name: 'Wireless Mouse', price: 25.99, quantity: 1 },
-      { name: 'Mouse Pad', price: 19.99, quantity: 1 }
-    ]
-  },
-  {
-    id: 'ORD-003',
-    date: '2024-01-25',
-    total: 199.99,
-    status: 'Processing',
-    items: [
-      { name: 'Mechanical Keyboard', price: 199.99, quantity: 1 }
-    ]
-  }
+const FILTERS = [
+  { value: 'all', label: 'All' },
+  { value: 'PROCESSING', label: 'Processing' },
+  { value: 'SHIPPED', label: 'Shipped' },
+  { value: 'DELIVERED', label: 'Delivered' }
 ];
 
 export default function UserOrders() {
-  const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<number | null>(null);
   const [filter, setFilter] = useState('all');
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setOrders(await orderService.getMyOrders());
+      } catch (error: any) {
+        setError(error.message || 'Failed to load orders');
+      } finally {
+        setLoading(false);
+      }
+    };
+    // Orders still show if returns can't be loaded; only the return badges are missing
+    const loadReturns = async () => {
+      try {
+        setReturns(await returnAPI.getMine());
+      } catch (error) {
+        console.error('Error loading returns:', error);
+      }
+    };
+    load();
+    loadReturns();
+  }, []);
+
+  const filteredOrders = orders.filter(order => filter === 'all' || order.status === filter);
+
+  const getOrderReturns = (orderId: number) => returns.filter(request => request.orderId === orderId);
 
-  const filteredOrders = mockOrders.filter(order => {
-    if (filter === 'all') return true;
-    return order.status.toLowerCase() === filter.toLowerCase();
-  });
+  const replaceReturn = (updated: ReturnRequest) => {
+    setReturns(prev => prev.some(r => r.id === updated.id) ? prev.map(r => r.id === updated.id ? updated : r) : [updated, ...prev]);
+  };
+
+  const handleCancelReturn = async (request: ReturnRequest) => {
+    setCancellingId(request.id);
+    try {
+      replaceReturn(await returnAPI.transition(request, 'CANCEL', { note: 'Cancelled by buyer' }));
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel return');
+    } finally {
+      setCancellingId(null);
+    }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -57,114 +85,157 @@ export default function UserOrders() {
     }
   };
 
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+        Loading orders...
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold">My Orders</h2>
           <div className="flex space-x-2">
-            <Button
-              onClick={() => setFilter('all')}
-              className={`px-4 py-2 rounded-md ${filter === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              All
-            </Button>
-            <Button
-              onClick={() => setFilter('processing')}
-              className={`px-4 py-2 rounded-md ${filter === 'processing' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              Processing
-            </Button>
-            <Button
-              onClick={() => setFilter('shipped')}
-              className={`px-4 py-2 rounded-md ${filter === 'shipped' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              Shipped
-            </Button>
-            <Button
-              onClick={() => setFilter('delivered')}
-              className={`px-4 py-2 rounded-md ${filter === 'delivered' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
-            >
-              Delivered
-            </Button>
+            {FILTERS.map(option => (
+              <Button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`px-4 py-2 rounded-md ${filter === option.value ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                {option.label}
+              </Button>
+            ))}
           </div>
         </div>
 
+        {error && <p className="text-red-600 mb-4">{error}</p>}
+
         {filteredOrders.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-gray-500">No orders found.</p>
           </div>
         ) : (
           <div className="space-y-4">
-            {filteredOrders.map((order) => (
-              <div key={order.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
-                <div className="flex justify-between items-start mb-3">
-                  <div>
-                    <h3 className="font-semibold text-lg">Order #{order.id}</h3>
-                    <p className="text-gray-600 text-sm">Placed on {new Date(order.date).toLocaleDateString()}</p>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-semibold text-lg">₹{order.total}</p>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                      {order.status}
-                    </span>
-                  </div>
-                </div>
+            {filteredOrders.map((order) => {
+              const orderReturns = getOrderReturns(order.id);
+              const hasOpenReturn = orderReturns.some(request => !isReturnClosed(request.status));
 
-                <div className="border-t pt-3">
-                  <div className="flex justify-between items-center">
+              return (
+                <div key={order.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                  <div className="flex justify-between items-start mb-3">
                     <div>
-                      <p className="text-sm text-gray-600">
-                        {order.items.length} item{order.items.length > 1 ? 's' : ''}
-                      </p>
-                      <p className="text-sm font-medium">
-                        {order.items[0].name}
-                        {order.items.length > 1 && ` + ${order.items.length - 1} more`}
-                      </p>
+                      <h3 className="font-semibold text-lg">Order #{order.orderNumber}</h3>
+                      <p className="text-gray-600 text-sm">Placed on {new Date(order.createdAt).toLocaleDateString()}</p>
                     </div>
-                    <div className="space-x-2">
-                      <Button
-                        onClick={() => setSelectedOrder(selectedOrder === order.id ? null : order.id)}
-                        className="bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-1 rounded-md text-sm"
-                      >
-                        {selectedOrder === order.id ? 'Hide Details' : 'View Details'}
-                      </Button>
-                      {order.status === 'Delivered' && (
-                        <Button className="bg-blue-600 text-white hover:bg-blue-700 px-3 py-1 rounded-md text-sm">
-                          Reorder
+                    <div className="text-right">
+                      <p className="font-semibold text-lg">₹{order.totalAmount}</p>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
+                        {order.status}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="border-t pt-3">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <p className="text-sm text-gray-600">
+                          {order.items.length} item{order.items.length > 1 ? 's' : ''}
+                        </p>
+                        <p className="text-sm font-medium">
+                          {order.items[0]?.productName}
+                          {order.items.length > 1 && ` + ${order.items.length - 1} more`}
+                        </p>
+                      </div>
+                      <div className="space-x-2">
+                        <Button
+                          onClick={() => setSelectedOrder(selectedOrder === order.id ? null : order.id)}
+                          className="bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-1 rounded-md text-sm"
+                        >
+                          {selectedOrder === order.id ? 'Hide Details' : 'View Details'}
                         </Button>
-                      )}
+                        {order.status === 'SHIPPED' && (
+                          <Link
+                            href={`/orders/${order.orderNumber}/track`}
+                            className="inline-block bg-gray-100 text-gray-700 hover:bg-gray-200 px-3 py-1 rounded-md text-sm"
+                          >
+                            Track
+                          </Link>
+                        )}
+                        {isWithinReturnWindow(order) && !hasOpenReturn && (
+                          <Button
+                            onClick={() => setReturnOrder(order)}
+                            className="bg-orange-100 text-orange-800 hover:bg-orange-200 px-3 py-1 rounded-md text-sm"
+                          >
+                            Return items
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {selectedOrder === order.id && (
-                  <div className="mt-4 pt-4 border-t bg-gray-50 rounded-md p-4">
-                    <h4 className="font-semibold mb-3">Order Details</h4>
-                    <div className="space-y-2">
-                      {order.items.map((item, index) => (
-                        <div key={index} className="flex justify-between items-center">
-                          <div>
-                            <p className="font-medium">{item.name}</p>
-                            <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
+                  {orderReturns.map(request => (
+                    <div key={request.id} className="mt-4 pt-4 border-t">
+                      <div className="flex justify-between items-center mb-3">
+                        <p className="text-sm font-medium">
+                          {request.type === 'RTO' ? 'Returned to seller' : 'Return'} {request.returnNumber}
+                          <span className="ml-2 text-gray-500">{RETURN_STATUS_LABELS[request.status]}</span>
+                        </p>
+                        {getAvailableReturnActions(request.status, 'BUYER').includes('CANCEL') && (
+                          <button
+                            onClick={() => handleCancelReturn(request)}
+                            disabled={cancellingId === request.id}
+                            className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            {cancellingId === request.id ? 'Cancelling...' : 'Cancel return'}
+                          </button>
+                        )}
+                      </div>
+                      <ReturnStatusTracker request={request} />
+                    </div>
+                  ))}
+
+                  {selectedOrder === order.id && (
+                    <div className="mt-4 pt-4 border-t bg-gray-50 rounded-md p-4">
+                      <h4 className="font-semibold mb-3">Order Details</h4>
+                      <div className="space-y-2">
+                        {order.items.map((item) => (
+                          <div key={item.productId} className="flex justify-between items-center">
+                            <div>
+                              <p className="font-medium">{item.productName}</p>
+                              <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
+                            </div>
+                            <p className="font-semibold">₹{item.price}</p>
                           </div>
-                          <p className="font-semibold">₹{item.price}</p>
+                        ))}
+                      </div>
+                      <div className="mt-4 pt-4 border-t">
+                        <div className="flex justify-between items-center font-semibold">
+                          <span>Total:</span>
+                          <span>₹{order.totalAmount}</span>
                         </div>
-                      ))}
-                    </div>
-                    <div className="mt-4 pt-4 border-t">
-                      <div className="flex justify-between items-center font-semibold">
-                        <span>Total:</span>
-                        <span>₹{order.total}</span>
                       </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            ))}
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
+
+      {returnOrder && (
+        <ReturnRequestModal
+          order={returnOrder}
+          onClose={() => setReturnOrder(null)}
+          onCreated={(request) => {
+            replaceReturn(request);
+            setReturnOrder(null);
+          }}
+        />
+      )}
     </div>
   );
 }
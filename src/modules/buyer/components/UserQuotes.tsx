@@ -2,11 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { inquiryQuoteAPI, type Quote } from '@/shared/services/inquiryQuoteApi';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/Card';
 import { Button } from '@/shared/components/Button';
+import QuoteComparison from './QuoteComparison';
+import QuoteNegotiationThread from '@/shared/components/QuoteNegotiationThread';
+import PurchaseOrderPanel from '@/shared/components/PurchaseOrderPanel';
+import { purchaseOrderAPI } from '@/shared/services/purchaseOrderApi';
 
 export default function UserQuotes() {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
   const [acceptingQuote, setAcceptingQuote] = useState<number | null>(null);
+  const [comparingInquiryId, setComparingInquiryId] = useState<number | null>(null);
+  const [negotiatingQuoteId, setNegotiatingQuoteId] = useState<number | null>(null);
 
   useEffect(() => {
     fetchQuotes();
@@ -32,8 +38,14 @@ export default function UserQuotes() {
     try {
       setAcceptingQuote(quoteId);
       await inquiryQuoteAPI.quotes.accept(quoteId);
+      try {
+        await purchaseOrderAPI.issueForQuote(quoteId);
+      } catch (poError) {
+        // The PO panel retries issuing when the accepted quote is opened
+        console.error('Error issuing purchase order:', poError);
+      }
       fetchQuotes(); // Refresh quotes
-      alert('Quote accepted successfully! The vendor has been notified.');
+      alert('Quote accepted successfully! A purchase order has been issued to the vendor.');
     } catch (error) {
       console.error('Error accepting quote:', error);
       alert('Failed to accept quote. Please try again.');
@@ -42,6 +54,10 @@ export default function UserQuotes() {
     }
   };
 
+  // Quotes past their validity auto-lapse and can no longer be accepted
+  const isLapsed = (quote: Quote) =>
+    quote.status === 'EXPIRED' || (quote.status !== 'ACCEPTED' && !!quote.validUntil && new Date(quote.validUntil) < new Date());
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-IN', {
       day: 'numeric',
@@ -60,10 +76,28 @@ export default function UserQuotes() {
     }).format(price);
   };
 
+  // Quotes per inquiry, to offer side-by-side comparison where there is a choice
+  const quoteCountByInquiry = quotes.reduce<Record<number, number>>((counts, quote) => {
+    counts[quote.inquiryId] = (counts[quote.inquiryId] || 0) + 1;
+    return counts;
+  }, {});
+
   if (loading) {
     return <div className="text-center">Loading your quotes...</div>;
   }
 
+  if (comparingInquiryId !== null) {
+    return (
+      <QuoteComparison
+        inquiryId={comparingInquiryId}
+        onClose={() => {
+          setComparingInquiryId(null);
+          fetchQuotes();
+        }}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -103,12 +137,17 @@ export default function UserQuotes() {
                     </p>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {quoteCountByInquiry[quote.inquiryId] > 1 && (
+                      <Button size="sm" variant="outline" onClick={() => setComparingInquiryId(quote.inquiryId)}>
+                        Compare {quoteCountByInquiry[quote.inquiryId]} quotes
+                      </Button>
+                    )}
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                       quote.status === 'ACCEPTED' 
                         ? 'bg-green-100 text-green-800' 
                         : 'bg-blue-100 text-blue-800'
                     }`}>
-                      {quote.status === 'ACCEPTED' ? 'Accepted' : quote.status}
+                      {quote.status === 'ACCEPTED' ? 'Accepted' : isLapsed(quote) ? 'EXPIRED' : quote.status}
                     </span>
                   </div>
                 </div>
@@ -146,7 +185,13 @@ export default function UserQuotes() {
                     )}
                   </div>
 
-                  {quote.status !== 'ACCEPTED' && (
+                  {isLapsed(quote) && (
+                    <div className="pt-4 border-t">
+                      <p className="text-sm text-gray-500">This quote has expired. Ask the vendor for a revised quote.</p>
+                    </div>
+                  )}
+
+                  {quote.status !== 'ACCEPTED' && !isLapsed(quote) && (
                     <div className="flex space-x-2 pt-4 border-t">
                       <Button
                         onClick={() => handleAcceptQuote(quote.id)}
@@ -161,17 +206,26 @@ export default function UserQuotes() {
                       >
                         Contact Vendor
                       </Button>
-                      <Button variant="outline">
-                        Negotiate
+                      <Button
+                        variant="outline"
+                        onClick={() => setNegotiatingQuoteId(negotiatingQuoteId === quote.id ? null : quote.id)}
+                      >
+                        {negotiatingQuoteId === quote.id ? 'Hide Negotiation' : 'Negotiate'}
                       </Button>
                     </div>
                   )}
 
+                  {negotiatingQuoteId === quote.id && (
+                    <div className="pt-4 border-t">
+                      <QuoteNegotiationThread quoteId={quote.id} party="BUYER" onQuoteUpdated={fetchQuotes} />
+                    </div>
+                  )}
+
                   {quote.status === 'ACCEPTED' && (
                     <div className="pt-4 border-t bg-green-50 p-3 rounded-md">
                       <p className="text-green-800 font-medium">✓ Quote Accepted</p>
                       <p className="text-green-700 text-sm">
-                        Please contact the vendor to proceed with your order.
+                        Review the purchase order below and place your order at the negotiated price.
                       </p>
                       <div className="mt-2">
                         <Button
@@ -181,6 +235,9 @@ export default function UserQuotes() {
                           Contact Vendor
                         </Button>
                       </div>
+                      <div className="mt-4 bg-white rounded-md p-4">
+                        <PurchaseOrderPanel quoteId={quote.id} party="BUYER" />
+                      </div>
                     </div>
                   )}
                 </div>
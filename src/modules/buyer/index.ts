@@ -17,6 +17,12 @@ export { default as Cart } from './components/Cart';
 export { default as WishlistButton } from './components/WishlistButton';
 export { default as WishlistPage } from './components/WishlistPage';
 export { default as OrderManagement } from './components/OrderManagement';
+export { default as RfqWizard } from './components/RfqWizard';
+export { default as QuoteComparison } from './components/QuoteComparison';
+export { default as ShipmentTracking } from './components/ShipmentTracking';
+export { default as ReturnRequestModal } from './components/ReturnRequestModal';
+export { default as SavedSearchDigest } from './components/SavedSearchDigest';
+export { default as CreditDues } from './components/CreditDues';
 
 // Services  
 export * from './services/cartWishlistApi';
@@ -49,6 +49,18 @@ export interface VendorRecommendation {
   };
 }
 
+// Buyer requirement (e.g. a posted RFQ) used for vendor matching
+export interface VendorMatchRequirement {
+  category: string;
+  subCategory?: string;
+  budget?: number;
+  location?: string;
+  quantity?: number;
+  unit?: string;
+  specifications?: string[];
+  timeline?: string;
+}
+
 export interface PriceOptimization {
   productId: string;
   currentPrice: number;
@@ -210,14 +222,7 @@ class AIRecommendationService {
 
   // Vendor Matching
   async getMatchedVendors(
-    requirement: {
-      category: string;
-      budget?: number;
-      location?: string;
-      quantity?: number;
-      specifications?: string[];
-      timeline?: string;
-    },
+    requirement: VendorMatchRequirement,
     count: number = 10
   ): Promise<VendorRecommendation[]> {
     try {
@@ -0,0 +1,167 @@
+import {
+  shippingService,
+  type ShippingAddress,
+  type ShippingAnalytics,
+  type ShippingPackage,
+  type ShippingProvider,
+  type ShippingRate
+} from './shippingService';
+
+/**
+ * 🏷️ Carrier Rate Shopping
+ *
+ * Ranks the rates returned by each carrier on cost, delivery estimate and
+ * historical on-time performance, and picks the cheapest, fastest and
+ * recommended options for the buyer.
+ */
+
+export type CarrierChoice = 'CHEAPEST' | 'FASTEST' | 'RECOMMENDED';
+
+export type ProviderPerformance = ShippingAnalytics['providerPerformance'][number];
+
+// Weights of the recommended score - they add up to 1
+export const RATE_SHOPPING_WEIGHTS = {
+  cost: 0.45,
+  speed: 0.3,
+  reliability: 0.25,
+};
+
+// Assumed on-time rate for carriers with no delivery history yet
+const DEFAULT_ON_TIME_RATE = 0.85;
+
+export interface CarrierOption extends ShippingRate {
+  etaDays: number;
+  etaDate: string;
+  onTimeRate?: number; // 0-1, from past deliveries
+  customerRating?: number;
+  score: number; // 0-1, higher is better
+  tags: CarrierChoice[];
+}
+
+export interface CarrierRateComparison {
+  options: CarrierOption[]; // best score first
+  cheapest?: CarrierOption;
+  fastest?: CarrierOption;
+  recommended?: CarrierOption;
+}
+
+export interface CarrierRateRequest {
+  fromAddress: ShippingAddress;
+  toAddress: ShippingAddress;
+  package: ShippingPackage;
+  cod?: boolean;
+}
+
+type DeliveryEstimate = Awaited<ReturnType<typeof shippingService.getDeliveryEstimate>>;
+
+// Analytics report on-time delivery either as a fraction or a percentage
+const toFraction = (rate: number) => (rate > 1 ? rate / 100 : rate);
+
+const byCostThenDays = (a: CarrierOption, b: CarrierOption) => a.cost - b.cost || a.etaDays - b.etaDays;
+const byDaysThenCost = (a: CarrierOption, b: CarrierOption) => a.etaDays - b.etaDays || a.cost - b.cost;
+
+/**
+ * Score and tag the available rates. The carrier's own delivery estimate wins
+ * over the days quoted with the rate, when there is one.
+ */
+export function rankCarrierRates(
+  rates: ShippingRate[],
+  estimates: Partial<Record<ShippingProvider, DeliveryEstimate>> = {},
+  performance: ProviderPerformance[] = []
+): CarrierRateComparison {
+  const available = rates
+    .filter(rate => rate.available && estimates[rate.provider]?.serviceAvailable !== false)
+    .map(rate => {
+      const estimate = estimates[rate.provider];
+      const history = performance.find(entry => entry.provider === rate.provider);
+      return {
+        ...rate,
+        etaDays: estimate?.estimatedDays ?? rate.estimatedDeliveryDays,
+        etaDate: estimate?.estimatedDate ?? rate.estimatedDeliveryDate,
+        onTimeRate: history && history.totalShipments > 0 ? toFraction(history.onTimeDeliveryRate) : undefined,
+        customerRating: history?.customerRating,
+        score: 0,
+        tags: [] as CarrierChoice[],
+      };
+    });
+
+  if (available.length === 0) return { options: [] };
+
+  const minCost = Math.min(...available.map(option => option.cost));
+  const minDays = Math.min(...available.map(option => option.etaDays));
+  available.forEach(option => {
+    const costScore = option.cost > 0 ? minCost / option.cost : 1;
+    const speedScore = option.etaDays > 0 ? minDays / option.etaDays : 1;
+    option.score = Math.round((
+      RATE_SHOPPING_WEIGHTS.cost * costScore +
+      RATE_SHOPPING_WEIGHTS.speed * speedScore +
+      RATE_SHOPPING_WEIGHTS.reliability * (option.onTimeRate ?? DEFAULT_ON_TIME_RATE)
+    ) * 1000) / 1000;
+  });
+
+  const options = [...available].sort((a, b) => b.score - a.score || byCostThenDays(a, b));
+  const recommended = options[0];
+  const cheapest = [...available].sort(byCostThenDays)[0];
+  const fastest = [...available].sort(byDaysThenCost)[0];
+  cheapest.tags.push('CHEAPEST');
+  fastest.tags.push('FASTEST');
+  recommended.tags.push('RECOMMENDED');
+
+  return { options, cheapest, fastest, recommended };
+}
+
+let performanceCache: Promise<ProviderPerformance[]> | null = null;
+
+// Carrier history changes slowly, so it is fetched once per session
+const loadProviderPerformance = (): Promise<ProviderPerformance[]> => {
+  if (!performanceCache) {
+    performanceCache = shippingService.getShippingAnalytics()
+      .then(analytics => analytics.providerPerformance || [])
+      .catch(error => {
+        console.warn('Ranking carriers without delivery history:', error);
+        performanceCache = null;
+        return [];
+      });
+  }
+  return performanceCache;
+};
+
+/**
+ * Fetch rates from every carrier and rank them. Delivery estimates and
+ * carrier history only refine the ranking, so failures there are ignored.
+ */
+export async function shopCarrierRates(request: CarrierRateRequest): Promise<CarrierRateComparison> {
+  console.log('🏷️ Shopping carrier rates to', request.toAddress.pincode);
+  const rates = await shippingService.getShippingRates(
+    request.fromAddress,
+    request.toAddress,
+    request.package,
+    { cod: request.cod }
+  );
+
+  const providers = Array.from(new Set(rates.filter(rate => rate.available).map(rate => rate.provider)));
+  const [estimates, performance] = await Promise.all([
+    Promise.all(providers.map(provider =>
+      shippingService
+        .getDeliveryEstimate(request.fromAddress.pincode, request.toAddress.pincode, provider)
+        .then(estimate => [provider, estimate] as const)
+        .catch(() => null)
+    )),
+    loadProviderPerformance(),
+  ]);
+
+  return rankCarrierRates(
+    rates,
+    Object.fromEntries(estimates.filter(entry => entry !== null)),
+    performance
+  );
+}
+
+export const getCarrierChoiceLabel = (choice: CarrierChoice): string => ({
+  CHEAPEST: 'Cheapest',
+  FASTEST: 'Fastest',
+  RECOMMENDED: 'Recommended',
+}[choice]);
+
+export const formatProviderName = (provider: ShippingProvider): string =>
+  provider.split('_').map(word => word[0] + word.slice(1).toLowerCase()).join(' ');
@@ -1,4 +1,5 @@
 import { API_CONFIG, apiRequest } from '@/config/api';
+import type { PriceSlab } from '@/shared/types';
 
 // Types for Cart operations
 export interface CartItem {
@@ -9,9 +10,19 @@ export interface CartItem {
   quantity: number;
   price: number;
   totalPrice: number;
+  hsnCode?: string;
+  gstRate?: number;
+  // Product pricing and order limits at the time the cart was read
+  priceSlabs?: PriceSlab[];
+  minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+  stock?: number;
   vendor?: {
     id: number;
     name: string;
+    gstNumber?: string;
+    state?: string;
+    pincode?: string; // pickup location
   };
 }
 
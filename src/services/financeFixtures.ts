@@ -0,0 +1,109 @@
+// In-memory finance dataset for working on the finance console offline
+import type { TransactionHistory } from './paymentService';
+import type { FinanceDataSource, FinanceDataset, FinanceDateRange, FinanceOrder, FinanceRefund } from './financeService';
+import { inDateRange, referencedOrderIds } from '@/shared/utils/reconciliation';
+
+const VENDORS = {
+  steel: { vendorId: 'v-101', vendorName: 'Shree Ganesh Steel' },
+  pumps: { vendorId: 'v-102', vendorName: 'Bharat Pumps & Motors' },
+  agro: { vendorId: 'v-103', vendorName: 'Kaveri Agro Equipments' },
+};
+
+/**
+ * One example of every case the reconciliation has to handle, dated relative
+ * to `today` so the default date ranges always pick it up:
+ * a clean order, a partial refund, an unpaid order, a payment with no order,
+ * an underpayment, a full refund, a pay-on-terms order, a cancelled order and
+ * a refund that is in the ledger but never reached the gateway.
+ */
+export function createFinanceFixtures(today: Date = new Date()): FinanceDataset {
+  const daysAgo = (days: number) => new Date(today.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const order = (id: number, vendor: keyof typeof VENDORS, totalAmount: number, days: number, extra: Partial<FinanceOrder> = {}): FinanceOrder => ({
+    id,
+    orderNumber: `ORD-${id}`,
+    buyerName: 'Patil Constructions',
+    ...VENDORS[vendor],
+    totalAmount,
+    paymentMethod: 'ONLINE',
+    status: 'DELIVERED',
+    createdAt: daysAgo(days),
+    ...extra,
+  });
+
+  const transaction = (
+    id: string,
+    type: TransactionHistory['type'],
+    orderId: string,
+    amount: number,
+    days: number,
+    metadata: Record<string, any> = {},
+    status = 'completed'
+  ): TransactionHistory => ({
+    id,
+    type,
+    orderId,
+    amount,
+    status,
+    description: `${type} for order ${orderId}`,
+    createdAt: daysAgo(days),
+    metadata,
+  });
+
+  const refund = (id: string, orderId: string, amount: number, days: number, reason: string): FinanceRefund => ({
+    id,
+    orderId,
+    amount,
+    status: 'PROCESSED',
+    reason,
+    createdAt: daysAgo(days),
+  });
+
+  return {
+    orders: [
+      order(1001, 'steel', 11800, 24),
+      order(1002, 'steel', 25000, 20),
+      order(1003, 'pumps', 8400, 18, { status: 'CONFIRMED' }),
+      order(1004, 'pumps', 42000, 15),
+      order(1005, 'agro', 15600, 12, { status: 'RETURNED' }),
+      order(1006, 'agro', 62000, 9, { paymentMethod: 'CREDIT' }),
+      order(1007, 'steel', 9000, 6, { status: 'CANCELLED' }),
+      order(1008, 'pumps', 18000, 3),
+    ],
+    transactions: [
+      transaction('pay_1001', 'payment', '1001', 11800, 24, { gatewayFee: 236 }),
+      transaction('pay_1002', 'payment', '1002', 25000, 20, { gatewayFee: 500 }),
+      transaction('rfd_1002', 'refund', '1002', 5000, 10),
+      transaction('pay_1003_failed', 'payment', '1003', 8400, 18, { gatewayFee: 0 }, 'failed'),
+      transaction('pay_1004', 'payment', '1004', 40000, 15, { gatewayFee: 800 }),
+      transaction('pay_1005', 'payment', '1005', 15600, 12, { gatewayFee: 312 }),
+      transaction('rfd_1005', 'refund', '1005', 15600, 5),
+      transaction('pay_1008', 'payment', '1008', 18000, 3, { gatewayFee: 360 }),
+      transaction('pay_1099', 'payment', '1099', 7500, 2, { gatewayFee: 150 }),
+      transaction('stl_v101', 'settlement', '', 30000, 7, { ...VENDORS.steel, commission: 1770 }),
+      transaction('stl_v102', 'settlement', '', 37600, 4, { ...VENDORS.pumps, commission: 2400 }),
+    ],
+    refunds: [
+      refund('ref_1002', '1002', 5000, 11, 'Short supply of 20 sheets'),
+      refund('ref_1005', '1005', 15600, 6, 'Returned: damaged in transit'),
+      refund('ref_1008', '1008', 3000, 1, 'Late delivery penalty'),
+    ],
+  };
+}
+
+export class FixtureFinanceSource implements FinanceDataSource {
+  constructor(private dataset: FinanceDataset = createFinanceFixtures()) {}
+
+  // Same shape as the API source: the range's orders plus older orders its transactions refer to, with their full history
+  async loadDataset(range: FinanceDateRange): Promise<FinanceDataset> {
+    const orders = this.dataset.orders.filter(order => inDateRange(order.createdAt, range));
+    const transactions = this.dataset.transactions.filter(t => inDateRange(t.createdAt, range));
+    const referenced = new Set(referencedOrderIds(orders, transactions));
+
+    return {
+      orders: [...orders, ...this.dataset.orders.filter(order => referenced.has(String(order.id)))],
+      transactions: this.dataset.transactions.filter(t => inDateRange(t.createdAt, range) || referenced.has(String(t.orderId))),
+      refunds: this.dataset.refunds.filter(refund => inDateRange(refund.createdAt, range) || referenced.has(String(refund.orderId))),
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import { api } from '@/shared/services/api';
+import { handleApiError } from '@/shared/services/errorHandler';
+import { paymentService, type TransactionHistory } from './paymentService';
+import { FixtureFinanceSource } from './financeFixtures';
+import {
+  profitAndLoss,
+  reconcile,
+  referencedOrderIds,
+  summarizeVendorPayouts,
+  type ProfitAndLoss,
+  type ReconciliationResult,
+  type VendorPayout
+} from '@/shared/utils/reconciliation';
+
+// Inclusive, as YYYY-MM-DD
+export interface FinanceDateRange {
+  from: string;
+  to: string;
+}
+
+// An order as the finance team sees it; amounts in rupees
+export interface FinanceOrder {
+  id: number;
+  orderNumber: string;
+  buyerName: string;
+  vendorId: string;
+  vendorName: string;
+  totalAmount: number;
+  paymentMethod?: string;
+  status: string;
+  createdAt: string;
+}
+
+// Refund ledger entry, recorded when a return or cancellation is approved
+export interface FinanceRefund {
+  id: string;
+  orderId: string;
+  paymentId?: string;
+  amount: number;
+  status: 'REQUESTED' | 'APPROVED' | 'PROCESSED' | 'REJECTED';
+  reason?: string;
+  createdAt: string;
+}
+
+export interface FinanceDataset {
+  orders: FinanceOrder[];
+  transactions: TransactionHistory[];
+  refunds: FinanceRefund[];
+}
+
+export interface FinanceReport {
+  range: FinanceDateRange;
+  dataset: FinanceDataset;
+  reconciliation: ReconciliationResult;
+  payouts: VendorPayout[];
+  pnl: ProfitAndLoss;
+}
+
+// Where the finance console reads its ledgers from
+export interface FinanceDataSource {
+  loadDataset(range: FinanceDateRange): Promise<FinanceDataset>;
+}
+
+// Admin order listings come back paged and with nested buyer/vendor objects
+const toFinanceOrder = (order: any): FinanceOrder => ({
+  id: order.id,
+  orderNumber: order.orderNumber,
+  buyerName: order.buyerName ?? order.user?.name ?? '',
+  vendorId: String(order.vendorId ?? order.vendor?.id ?? ''),
+  vendorName: order.vendorName ?? order.vendor?.companyName ?? '',
+  totalAmount: order.totalAmount,
+  paymentMethod: order.paymentMethod,
+  status: order.status,
+  createdAt: order.createdAt,
+});
+
+const ORDER_PAGE_SIZE = 200;
+// Order histories fetched at once; each one is three requests
+const HISTORY_BATCH_SIZE = 5;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const mergeById = <T extends { id: string }>(first: T[], second: T[]) => {
+  const ids = new Set(first.map(entry => entry.id));
+  return [...first, ...second.filter(entry => !ids.has(entry.id))];
+};
+
+export class ApiFinanceSource implements FinanceDataSource {
+  async loadDataset(range: FinanceDateRange): Promise<FinanceDataset> {
+    const params = { dateFrom: range.from, dateTo: range.to };
+    try {
+      const [orders, transactions, refundsResponse] = await Promise.all([
+        this.loadOrders(params),
+        paymentService.getTransactionHistory(params),
+        api.get('/api/finance/refunds', { params })
+      ]);
+
+      // Orders paid or refunded in the range can have been placed before it; reconcile those on their full history
+      const referenced = await this.loadOrderHistories(referencedOrderIds(orders, transactions));
+
+      return {
+        orders: [...orders, ...referenced.flatMap(history => history.orders)],
+        transactions: mergeById(transactions, referenced.flatMap(history => history.transactions)),
+        refunds: mergeById<FinanceRefund>(refundsResponse.data, referenced.flatMap(history => history.refunds)),
+      };
+    } catch (error) {
+      const apiError = handleApiError(error, { customMessage: 'Failed to load finance data' });
+      throw new Error(apiError.message);
+    }
+  }
+
+  // Admin order listings are paged; read every page in the range
+  private async loadOrders(params: Record<string, string>): Promise<FinanceOrder[]> {
+    const orders: any[] = [];
+    for (let page = 0; ; page++) {
+      const { data } = await api.get('/api/admin/orders', { params: { ...params, page, size: ORDER_PAGE_SIZE } });
+      // An unpaged backend returns a plain array
+      if (!data.content) return [...orders, ...data].map(toFinanceOrder);
+      orders.push(...data.content);
+      if (data.last || data.content.length === 0 || page + 1 >= (data.totalPages ?? 0)) break;
+    }
+    return orders.map(toFinanceOrder);
+  }
+
+  // A few histories at a time, so a range with many older orders doesn't fire hundreds of requests together
+  private async loadOrderHistories(orderIds: string[]): Promise<FinanceDataset[]> {
+    const histories: FinanceDataset[] = [];
+    for (const batch of chunk(orderIds, HISTORY_BATCH_SIZE)) {
+      const loaded = await Promise.all(batch.map(orderId => this.loadOrderHistory(orderId)));
+      histories.push(...loaded.filter((history): history is FinanceDataset => history !== null));
+    }
+    return histories;
+  }
+
+  // One order with all of its transactions and refunds, or null if it doesn't exist
+  private async loadOrderHistory(orderId: string): Promise<FinanceDataset | null> {
+    let order: any;
+    try {
+      order = (await api.get(`/api/admin/orders/${orderId}`)).data;
+    } catch (error: any) {
+      // A payment or refund against an unknown order is what PAID_NO_ORDER / REFUND_NO_PAYMENT report
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+    const [transactions, refundsResponse] = await Promise.all([
+      paymentService.getTransactionHistory({ orderId }),
+      api.get('/api/finance/refunds', { params: { orderId } })
+    ]);
+    return { orders: [toFinanceOrder(order)], transactions, refunds: refundsResponse.data };
+  }
+}
+
+export class FinanceService {
+  private source: FinanceDataSource;
+  private fixtures = false;
+
+  constructor(source?: FinanceDataSource) {
+    this.fixtures = !source && process.env.NEXT_PUBLIC_FINANCE_FIXTURES === 'true';
+    this.source = source ?? (this.fixtures ? new FixtureFinanceSource() : new ApiFinanceSource());
+  }
+
+  get usingFixtures(): boolean {
+    return this.fixtures;
+  }
+
+  // Switch to the in-memory dataset to work on the console without a backend
+  setFixtureMode(enabled: boolean): void {
+    console.log('🧾 Finance data source:', enabled ? 'fixtures' : 'API');
+    this.fixtures = enabled;
+    this.source = enabled ? new FixtureFinanceSource() : new ApiFinanceSource();
+  }
+
+  async getReport(range: FinanceDateRange): Promise<FinanceReport> {
+    console.log('🧾 Building finance report', range.from, '→', range.to);
+    const dataset = await this.source.loadDataset(range);
+    const reconciliation = reconcile(dataset);
+    return {
+      range,
+      dataset,
+      reconciliation,
+      payouts: summarizeVendorPayouts(dataset, reconciliation),
+      pnl: profitAndLoss(dataset.transactions, range),
+    };
+  }
+}
+
+export const financeService = new FinanceService();
+export default financeService;
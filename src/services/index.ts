@@ -20,6 +20,7 @@ export type {
   UserProfile as AIUserProfile,
   ProductRecommendation,
   VendorRecommendation,
+  VendorMatchRequirement,
   PriceOptimization,
   SmartInsights,
   MLModelMetrics
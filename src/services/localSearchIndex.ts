@@ -0,0 +1,262 @@
+import { categoryService, type Category } from './categoryService';
+import { scoreTokens, tokenizeForSearch, tokenizeQuery } from '@/shared/utils/fuzzyMatch';
+
+export type LocalSearchEntryType = 'category' | 'subcategory' | 'microcategory' | 'product';
+
+export interface LocalSearchEntry {
+  id: string; // `${type}:${refId}`
+  type: LocalSearchEntryType;
+  refId: string;
+  name: string;
+  path?: string; // parent categories, e.g. "Industrial Supplies › Pipes"
+  slug?: string;
+  tokens: string[];
+  updatedAt?: string;
+  viewedAt?: string;
+  price?: number;
+  image?: string;
+  productCount?: number;
+}
+
+export interface RecentlyViewedProduct {
+  id: string | number;
+  name: string;
+  price?: number;
+  image?: string;
+  category?: string;
+}
+
+export interface LocalSearchHit {
+  entry: LocalSearchEntry;
+  score: number;
+}
+
+const DB_NAME = 'itm-search-index';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+
+// The category tree rarely changes; refresh it at most this often
+const CATEGORY_SYNC_INTERVAL = 6 * 60 * 60 * 1000;
+const MAX_RECENT_PRODUCTS = 200;
+const MIN_MATCH_SCORE = 0.5;
+
+const TYPE_WEIGHTS: Record<LocalSearchEntryType, number> = {
+  category: 1,
+  subcategory: 0.97,
+  microcategory: 0.95,
+  product: 0.9,
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const entryFor = (
+  type: LocalSearchEntryType,
+  refId: string | number,
+  name: string,
+  extra: Partial<LocalSearchEntry> = {}
+): LocalSearchEntry => ({
+  id: `${type}:${refId}`,
+  type,
+  refId: String(refId),
+  name,
+  tokens: tokenizeForSearch([name, extra.path, extra.slug?.replace(/-/g, ' ')].filter(Boolean).join(' ')),
+  ...extra,
+});
+
+// Flatten the category tree into index entries
+const categoryEntries = (categories: Category[]): LocalSearchEntry[] =>
+  categories.filter(category => category.isActive !== false).flatMap(category => [
+    entryFor('category', category.id, category.name, {
+      slug: category.slug,
+      updatedAt: category.updatedAt,
+      image: category.iconUrl || category.imageUrl,
+      productCount: category.productCount,
+    }),
+    ...(category.subcategories ?? []).filter(sub => sub.isActive !== false).flatMap(sub => [
+      entryFor('subcategory', sub.id, sub.name, {
+        path: category.name,
+        slug: sub.slug,
+        updatedAt: sub.updatedAt,
+        productCount: sub.productCount,
+      }),
+      ...(sub.microcategories ?? []).filter(micro => micro.isActive !== false).map(micro =>
+        entryFor('microcategory', micro.id, micro.name, {
+          path: `${category.name} › ${sub.name}`,
+          slug: micro.slug,
+          updatedAt: micro.updatedAt,
+          productCount: micro.productCount,
+        })
+      ),
+    ]),
+  ]);
+
+/**
+ * Client-side search index of the category tree and recently viewed
+ * products. Entries live in IndexedDB so search keeps answering offline and
+ * on slow connections; queries run against an in-memory copy.
+ */
+class LocalSearchIndex {
+  private entries = new Map<string, LocalSearchEntry>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private syncPromise: Promise<void> | null = null;
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        // No IndexedDB (SSR, some private modes) - the index still works in memory
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+          request.result.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Local search index unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Read the persisted index into memory, once
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await this.openDb();
+        if (!db) return;
+        const stored = await requestToPromise<LocalSearchEntry[]>(
+          db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll()
+        );
+        stored.forEach(entry => {
+          if (!this.entries.has(entry.id)) this.entries.set(entry.id, entry);
+        });
+        console.log('🗂️ Local search index loaded:', this.entries.size, 'entries');
+      })().catch(error => console.warn('Failed to load local search index:', error));
+    }
+    return this.loadPromise;
+  }
+
+  // Loaded and, when stale, refreshing in the background
+  async ready(): Promise<void> {
+    await this.load();
+    this.syncCategories().catch(error => console.warn('Category index refresh failed:', error));
+  }
+
+  private async write(upserts: LocalSearchEntry[], deletes: string[], meta?: Record<string, string>): Promise<void> {
+    upserts.forEach(entry => this.entries.set(entry.id, entry));
+    deletes.forEach(id => this.entries.delete(id));
+
+    const db = await this.openDb();
+    if (!db) return;
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+    upserts.forEach(entry => entries.put(entry));
+    deletes.forEach(id => entries.delete(id));
+    Object.entries(meta ?? {}).forEach(([key, value]) => transaction.objectStore(META_STORE).put(value, key));
+    await transactionDone(transaction);
+  }
+
+  private async getMeta(key: string): Promise<string | undefined> {
+    const db = await this.openDb();
+    if (!db) return undefined;
+    return requestToPromise<string | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+  }
+
+  /**
+   * Pull the category tree and write only what changed since the last sync.
+   * Offline or failing requests leave the existing index in place.
+   */
+  syncCategories(force = false): Promise<void> {
+    if (this.syncPromise) return this.syncPromise;
+
+    this.syncPromise = (async () => {
+      await this.load();
+      const lastSynced = await this.getMeta('categoriesSyncedAt');
+      if (!force && lastSynced && Date.now() - new Date(lastSynced).getTime() < CATEGORY_SYNC_INTERVAL) return;
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+      const fresh = categoryEntries(await categoryService.getCategoryHierarchy());
+      const freshIds = new Set(fresh.map(entry => entry.id));
+      const changed = fresh.filter(entry => {
+        const existing = this.entries.get(entry.id);
+        return !existing || existing.updatedAt !== entry.updatedAt || existing.name !== entry.name || existing.path !== entry.path;
+      });
+      const removed = Array.from(this.entries.values())
+        .filter(entry => entry.type !== 'product' && !freshIds.has(entry.id))
+        .map(entry => entry.id);
+
+      await this.write(changed, removed, { categoriesSyncedAt: new Date().toISOString() });
+      console.log(`✅ Category index synced: ${changed.length} updated, ${removed.length} removed`);
+    })().finally(() => {
+      this.syncPromise = null;
+    });
+
+    return this.syncPromise;
+  }
+
+  // Remember a product the buyer opened; the oldest fall out past the cap
+  async recordProductView(product: RecentlyViewedProduct): Promise<void> {
+    await this.load();
+    const entry = entryFor('product', product.id, product.name, {
+      path: product.category,
+      price: product.price,
+      image: product.image,
+      viewedAt: new Date().toISOString(),
+    });
+
+    const evicted = Array.from(this.entries.values())
+      .filter(existing => existing.type === 'product' && existing.id !== entry.id)
+      .sort((a, b) => (b.viewedAt ?? '').localeCompare(a.viewedAt ?? ''))
+      .slice(MAX_RECENT_PRODUCTS - 1)
+      .map(existing => existing.id);
+
+    await this.write([entry], evicted).catch(error => console.warn('Failed to save viewed product:', error));
+  }
+
+  getRecentlyViewed(limit = 10): LocalSearchEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.type === 'product')
+      .sort((a, b) => (b.viewedAt ?? '').localeCompare(a.viewedAt ?? ''))
+      .slice(0, limit);
+  }
+
+  // Fuzzy, script-agnostic match against whatever is in memory right now
+  search(query: string, limit = 8, types?: LocalSearchEntryType[]): LocalSearchHit[] {
+    const queryWords = tokenizeQuery(query);
+    if (queryWords.length === 0) return [];
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+
+    const hits: LocalSearchHit[] = [];
+    this.entries.forEach(entry => {
+      if (types && !types.includes(entry.type)) return;
+      const match = scoreTokens(queryWords, entry.tokens);
+      if (match < MIN_MATCH_SCORE) return;
+      const recentBonus = entry.viewedAt && new Date(entry.viewedAt).getTime() > weekAgo ? 0.05 : 0;
+      hits.push({ entry, score: match * TYPE_WEIGHTS[entry.type] + recentBonus });
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export const localSearchIndex = new LocalSearchIndex();
+export default localSearchIndex;
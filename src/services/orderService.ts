@@ -1,4 +1,10 @@
 import { API_CONFIG, apiRequest } from '@/config/api';
+import type { CartItem } from '@/features/cart/cartSlice';
+import type { PurchaseOrder } from '@/shared/services/purchaseOrderApi';
+import { calculateGst, type GstBreakup } from '@/shared/utils/gst';
+import { getSlabUnitPrice } from '@/shared/utils/pricing';
+import type { CarrierChoice } from './carrierRateShopping';
+import type { ShippingProvider } from './shippingService';
 
 // Types for Order operations
 export interface ShippingAddress {
@@ -18,6 +24,9 @@ export interface OrderItem {
   quantity: number;
   price: number;
   totalPrice?: number;
+  unit?: string;
+  hsnCode?: string;
+  gstRate?: number;
   vendor?: {
     id: number;
     name: string;
@@ -36,7 +45,53 @@ export interface Order {
   createdAt: string;
   updatedAt?: string;
   razorpayOrderId?: string;
+  paymentId?: string; // gateway payment id, used for refunds
   trackingNumber?: string;
+  deliveredAt?: string;
+  buyerGstin?: string;
+  buyer?: {
+    name: string;
+    email?: string;
+    companyName?: string;
+  };
+  tax?: OrderTaxSummary;
+  shipping?: OrderShippingSelection;
+  // One entry per package when the order ships in several
+  shipments?: OrderShipment[];
+}
+
+export interface OrderShipment {
+  trackingNumber: string;
+  provider: ShippingProvider;
+  productIds?: number[]; // items packed in this shipment
+  shippedAt?: string;
+}
+
+// GST totals stored with the order and printed on its invoice
+export type OrderTaxSummary = Pick<
+  GstBreakup,
+  'supplyType' | 'supplierStateCode' | 'placeOfSupplyCode' | 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'totalTax'
+>;
+
+export const toOrderTaxSummary = (breakup: GstBreakup): OrderTaxSummary => ({
+  supplyType: breakup.supplyType,
+  supplierStateCode: breakup.supplierStateCode,
+  placeOfSupplyCode: breakup.placeOfSupplyCode,
+  taxableValue: breakup.taxableValue,
+  cgst: breakup.cgst,
+  sgst: breakup.sgst,
+  igst: breakup.igst,
+  totalTax: breakup.totalTax,
+});
+
+// Carrier the buyer picked at checkout
+export interface OrderShippingSelection {
+  provider: ShippingProvider;
+  serviceName: string;
+  cost: number; // charged to the buyer, INR
+  estimatedDeliveryDays: number;
+  estimatedDeliveryDate?: string;
+  choice: CarrierChoice | 'OTHER';
 }
 
 export enum OrderStatus {
@@ -56,10 +111,57 @@ export enum PaymentStatus {
   REFUNDED = 'REFUNDED'
 }
 
+export interface CheckoutItem {
+  // Absent for purchase-order lines that don't map to a catalog product
+  productId?: number;
+  description?: string;
+  quantity: number;
+  price: number; // paise
+  hsnCode?: string;
+  gstRate?: number;
+}
+
+export type CheckoutPaymentMethod = 'ONLINE' | 'UPI' | 'COD' | 'BANK_TRANSFER' | 'CREDIT';
+
 export interface CheckoutRequest {
   shippingAddress: ShippingAddress;
-  paymentMethod: 'RAZORPAY' | 'COD' | 'BANK_TRANSFER';
+  paymentMethod: CheckoutPaymentMethod;
   notes?: string;
+  // Set when checking out a single vendor's share of the cart
+  vendorId?: string;
+  items?: CheckoutItem[];
+  // Orders raised from an accepted quote keep the negotiated item prices
+  purchaseOrderId?: number;
+  lockPrices?: boolean;
+  // Registered buyers get GST input credit on the invoice
+  buyerGstin?: string;
+  tax?: OrderTaxSummary;
+  shipping?: OrderShippingSelection;
+  // Vendor credit line the order is bought on, for CREDIT checkouts
+  creditLineId?: string;
+}
+
+export interface VendorCheckoutGroup {
+  vendorId: string;
+  vendorName: string;
+  items: CheckoutItem[];
+  tax?: OrderTaxSummary;
+  shipping?: OrderShippingSelection;
+  creditLineId?: string;
+}
+
+export interface VendorCheckoutResult {
+  vendorId: string;
+  vendorName: string;
+  success: boolean;
+  response?: CheckoutResponse;
+  error?: string;
+}
+
+export interface MultiVendorCheckoutResponse {
+  results: VendorCheckoutResult[];
+  succeeded: VendorCheckoutResult[];
+  failed: VendorCheckoutResult[];
 }
 
 export interface CheckoutResponse {
@@ -84,6 +186,18 @@ export interface PaginatedOrders {
   number: number;
 }
 
+// The checkout endpoint takes item prices in paise; cart, catalog and PO prices are in rupees
+export const toCheckoutPrice = (rupees: number) => Math.round(rupees * 100);
+
+// A cart line as a checkout item, at its slab price
+export const toCartCheckoutItem = (item: CartItem): CheckoutItem => ({
+  productId: parseInt(item.id, 10),
+  quantity: item.quantity,
+  price: toCheckoutPrice(getSlabUnitPrice(item.price, item.priceSlabs, item.quantity)),
+  hsnCode: item.hsnCode,
+  gstRate: item.gstRate,
+});
+
 // Order Service Class
 class OrderServiceClass {
   /**
@@ -108,6 +222,87 @@ class OrderServiceClass {
     }
   }
 
+  /**
+   * Checkout per vendor - creates one order for each vendor group.
+   * A failing vendor does not abort the others; callers get per-vendor results.
+   */
+  async checkoutByVendor(
+    request: CheckoutRequest,
+    groups: VendorCheckoutGroup[]
+  ): Promise<MultiVendorCheckoutResponse> {
+    console.log('🛒 Processing multi-vendor checkout:', groups.map(g => g.vendorId));
+    const settled = await Promise.allSettled(
+      groups.map(group => this.checkout({
+        ...request,
+        vendorId: group.vendorId,
+        items: group.items,
+        tax: group.tax,
+        shipping: group.shipping,
+        creditLineId: group.creditLineId
+      }))
+    );
+
+    const results: VendorCheckoutResult[] = settled.map((outcome, index) => {
+      const { vendorId, vendorName } = groups[index];
+      if (outcome.status === 'fulfilled') {
+        return { vendorId, vendorName, success: true, response: outcome.value };
+      }
+      return {
+        vendorId,
+        vendorName,
+        success: false,
+        error: outcome.reason?.message || 'Checkout failed'
+      };
+    });
+
+    const succeeded = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
+    console.log(`✅ Multi-vendor checkout finished: ${succeeded.length} succeeded, ${failed.length} failed`);
+    return { results, succeeded, failed };
+  }
+
+  /**
+   * Checkout a purchase order - item prices come from the PO (the negotiated
+   * quote), not the catalog, and are locked server-side
+   */
+  async checkoutPurchaseOrder(
+    purchaseOrder: PurchaseOrder,
+    request: Omit<CheckoutRequest, 'items' | 'vendorId' | 'purchaseOrderId' | 'lockPrices'>
+  ): Promise<CheckoutResponse> {
+    console.log('📄 Checking out purchase order:', purchaseOrder.poNumber);
+    if (purchaseOrder.status !== 'ISSUED') {
+      throw new Error(`Purchase order ${purchaseOrder.poNumber} has already been ${purchaseOrder.status.toLowerCase()}`);
+    }
+
+    const items: CheckoutItem[] = purchaseOrder.lines.map(line => ({
+      productId: line.productId,
+      description: line.description,
+      quantity: line.quantity,
+      price: toCheckoutPrice(line.unitPrice),
+      hsnCode: line.hsnCode,
+      gstRate: line.taxRate * 100,
+    }));
+    const tax = calculateGst(
+      purchaseOrder.lines.map((line, index) => ({
+        id: String(index),
+        taxableValue: line.unitPrice * line.quantity,
+        hsnCode: line.hsnCode,
+        gstRate: line.taxRate * 100
+      })),
+      { supplierGstin: purchaseOrder.vendorGstin, buyerGstin: request.buyerGstin, placeOfSupply: request.shippingAddress.state }
+    );
+
+    return this.checkout({
+      ...request,
+      notes: request.notes || `Against purchase order ${purchaseOrder.poNumber}`,
+      vendorId: String(purchaseOrder.vendorId),
+      purchaseOrderId: purchaseOrder.id,
+      lockPrices: true,
+      items,
+      tax: toOrderTaxSummary(tax),
+    });
+  }
+
   /**
    * Verify payment after successful Razorpay payment
    */
@@ -388,3 +583,6 @@ export const {
   getOrderStats,
   trackOrder
 } = orderService;
+
+// Calls this.checkout per vendor, so it must stay bound to the service
+export const checkoutByVendor = orderService.checkoutByVendor.bind(orderService);
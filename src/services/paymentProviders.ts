@@ -0,0 +1,412 @@
+import type {
+  CreatePaymentOrderRequest,
+  PaymentOrder,
+  PaymentService
+} from './paymentService';
+
+/**
+ * 💳 Payment Providers
+ *
+ * Each gateway (Razorpay, Cashfree, direct UPI, NEFT/RTGS) sits behind the
+ * same interface so checkout can pick one by method and amount and fall over
+ * to the next when a gateway is down. Amounts are in paise throughout.
+ */
+
+export type PaymentProviderId = 'RAZORPAY' | 'CASHFREE' | 'UPI' | 'BANK_TRANSFER' | 'FAKE';
+
+// What the buyer chose at checkout; gateways show cards, net banking and wallets under ONLINE
+export type PaymentMethod = 'ONLINE' | 'UPI' | 'BANK_TRANSFER';
+
+export interface PaymentCustomer {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface PaymentDetails {
+  vpa?: string; // UPI ID for a collect request
+}
+
+export interface PaymentResult {
+  provider: PaymentProviderId;
+  paymentOrder: PaymentOrder;
+  // Pending means the order stands and the money is expected later (bank transfer)
+  status: 'captured' | 'pending';
+  paymentId?: string;
+}
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  readonly label: string;
+  readonly methods: PaymentMethod[];
+  readonly minAmount: number;
+  readonly maxAmount?: number;
+  // Client-side readiness: keys configured and SDK loadable
+  isAvailable(): Promise<boolean>;
+  // Whether what the buyer entered is enough for this provider; assumed so when absent
+  supports?(details: PaymentDetails): boolean;
+  createOrder(request: CreatePaymentOrderRequest, method: PaymentMethod): Promise<PaymentOrder>;
+  pay(order: PaymentOrder, customer: PaymentCustomer, details: PaymentDetails): Promise<PaymentResult>;
+}
+
+/**
+ * Raised by providers. Retryable errors mean the gateway itself failed, so
+ * the next provider is tried; a decline or a cancel is the buyer's answer.
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string, public provider: PaymentProviderId, public retryable: boolean) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+// Backend calls the providers need; PaymentService implements them
+export type PaymentBackend = Pick<
+  PaymentService,
+  'createPaymentOrder' | 'verifyPayment' | 'getPaymentStatus' | 'requestUpiCollect'
+>;
+
+const RUPEE = 100;
+// NPCI per-transaction UPI limit
+export const UPI_MAX_AMOUNT = 100000 * RUPEE;
+
+const UPI_POLL_INTERVAL = 3000;
+// Collect requests expire on the buyer's app after about five minutes
+const UPI_POLL_TIMEOUT = 5 * 60 * 1000;
+
+const isMobileDevice = () => typeof navigator !== 'undefined' && /Android|iPhone|iPad/i.test(navigator.userAgent);
+
+export const isValidVpa = (vpa: string) => /^[\w.-]{2,256}@[a-z][a-z0-9]{1,63}$/i.test(vpa.trim());
+
+// NEFT UTRs are 16 characters, RTGS 22, IMPS a 12-digit reference number
+export const isValidUtr = (utr: string) =>
+  /^[A-Z0-9]{16}$|^[A-Z0-9]{22}$|^\d{12}$/.test(utr.trim().toUpperCase());
+
+/**
+ * Providers that can take this payment, in priority order. Providers the
+ * health check reported down are left out; unknown health counts as up.
+ */
+export function selectPaymentProviders(
+  providers: PaymentProvider[],
+  method: PaymentMethod,
+  amount: number,
+  health: Partial<Record<PaymentProviderId, boolean>> = {},
+  details: PaymentDetails = {}
+): PaymentProvider[] {
+  return providers.filter(provider =>
+    provider.methods.includes(method) &&
+    amount >= provider.minAmount &&
+    (provider.maxAmount === undefined || amount <= provider.maxAmount) &&
+    (!provider.supports || provider.supports(details)) &&
+    health[provider.id] !== false
+  );
+}
+
+const loadScript = (src: string, globalName: string): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (typeof window === 'undefined') {
+      resolve(false);
+      return;
+    }
+    if ((window as any)[globalName]) {
+      resolve(true);
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => resolve(Boolean((window as any)[globalName]));
+    script.onerror = () => resolve(false);
+    document.head.appendChild(script);
+  });
+
+async function createGatewayOrder(
+  backend: PaymentBackend,
+  provider: PaymentProviderId,
+  request: CreatePaymentOrderRequest,
+  method: PaymentMethod
+): Promise<PaymentOrder> {
+  try {
+    return await backend.createPaymentOrder({ ...request, provider, method });
+  } catch (error: any) {
+    // Only an outage is worth another gateway; a rejected request would be rejected there too
+    const cause = error.cause ?? error;
+    const outage = cause?.code === 'NETWORK_ERROR' || (cause?.status ?? 0) >= 500;
+    throw new PaymentProviderError(error.message || 'Failed to create payment order', provider, outage);
+  }
+}
+
+export class RazorpayProvider implements PaymentProvider {
+  readonly id = 'RAZORPAY' as const;
+  readonly label = 'Razorpay';
+  readonly methods: PaymentMethod[] = ['ONLINE', 'UPI'];
+  readonly minAmount = 1 * RUPEE;
+  readonly maxAmount = 500000 * RUPEE;
+  private keyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || '';
+
+  constructor(private backend: PaymentBackend) {}
+
+  async isAvailable(): Promise<boolean> {
+    return Boolean(this.keyId) && loadScript('https://checkout.razorpay.com/v1/checkout.js', 'Razorpay');
+  }
+
+  createOrder(request: CreatePaymentOrderRequest, method: PaymentMethod) {
+    return createGatewayOrder(this.backend, this.id, request, method);
+  }
+
+  pay(order: PaymentOrder, customer: PaymentCustomer): Promise<PaymentResult> {
+    return new Promise((resolve, reject) => {
+      const razorpay = new window.Razorpay({
+        key: this.keyId,
+        amount: order.amount,
+        currency: order.currency,
+        name: 'Indian Trade Mart',
+        description: `Payment for Order #${order.orderId}`,
+        order_id: order.razorpayOrderId,
+        image: '/logo.png',
+        prefill: {
+          name: customer.name,
+          email: customer.email,
+          contact: customer.phone
+        },
+        notes: {
+          orderId: order.orderId,
+          customerId: customer.email
+        },
+        theme: {
+          color: '#3B82F6'
+        },
+        modal: {
+          ondismiss: () => reject(new PaymentProviderError('Payment cancelled by user', this.id, false))
+        },
+        handler: async (response: any) => {
+          try {
+            const verification = await this.backend.verifyPayment({
+              razorpay_order_id: response.razorpay_order_id,
+              razorpay_payment_id: response.razorpay_payment_id,
+              razorpay_signature: response.razorpay_signature
+            });
+            resolve({
+              provider: this.id,
+              paymentOrder: verification.paymentOrder ?? order,
+              status: 'captured',
+              paymentId: response.razorpay_payment_id
+            });
+          } catch {
+            reject(new PaymentProviderError('Payment verification failed. Please contact support if payment was deducted.', this.id, false));
+          }
+        }
+      });
+
+      razorpay.on('payment.failed', (response: any) => {
+        reject(new PaymentProviderError(response.error?.description || 'Payment failed', this.id, false));
+      });
+      razorpay.open();
+    });
+  }
+}
+
+// Second gateway, used when Razorpay is down and for amounts above its limit
+export class CashfreeProvider implements PaymentProvider {
+  readonly id = 'CASHFREE' as const;
+  readonly label = 'Cashfree';
+  readonly methods: PaymentMethod[] = ['ONLINE', 'UPI'];
+  readonly minAmount = 1 * RUPEE;
+  readonly maxAmount = 1000000 * RUPEE;
+  private mode = process.env.NEXT_PUBLIC_CASHFREE_MODE === 'production' ? 'production' : 'sandbox';
+
+  constructor(private backend: PaymentBackend) {}
+
+  isAvailable(): Promise<boolean> {
+    return loadScript('https://sdk.cashfree.com/js/v3/cashfree.js', 'Cashfree');
+  }
+
+  createOrder(request: CreatePaymentOrderRequest, method: PaymentMethod) {
+    return createGatewayOrder(this.backend, this.id, request, method);
+  }
+
+  async pay(order: PaymentOrder): Promise<PaymentResult> {
+    if (!order.paymentSessionId) {
+      throw new PaymentProviderError('Cashfree did not return a payment session', this.id, true);
+    }
+
+    const cashfree = window.Cashfree({ mode: this.mode });
+    const result = await cashfree.checkout({ paymentSessionId: order.paymentSessionId, redirectTarget: '_modal' });
+    if (result?.error) {
+      throw new PaymentProviderError(result.error.message || 'Payment cancelled or failed', this.id, false);
+    }
+
+    // Cashfree has no client-side signature; the backend confirms the order with Cashfree
+    const confirmed = await this.backend.getPaymentStatus(order.id);
+    if (confirmed.status !== 'captured' && confirmed.status !== 'authorized') {
+      throw new PaymentProviderError('Payment could not be confirmed', this.id, false);
+    }
+    return { provider: this.id, paymentOrder: confirmed, status: 'captured', paymentId: confirmed.gatewayPaymentId };
+  }
+}
+
+/**
+ * Direct UPI: an intent link opens the buyer's UPI app on mobile, a collect
+ * request goes to their UPI ID on desktop. Either way we poll until it settles.
+ */
+export class UpiProvider implements PaymentProvider {
+  readonly id = 'UPI' as const;
+  readonly label = 'UPI';
+  readonly methods: PaymentMethod[] = ['UPI'];
+  readonly minAmount = 1 * RUPEE;
+  readonly maxAmount = UPI_MAX_AMOUNT;
+
+  constructor(private backend: PaymentBackend) {}
+
+  async isAvailable(): Promise<boolean> {
+    return typeof window !== 'undefined';
+  }
+
+  // Desktop needs a UPI ID to send the collect request to; a gateway's UPI checkout takes the rest
+  supports(details: PaymentDetails): boolean {
+    return Boolean(details.vpa?.trim()) || isMobileDevice();
+  }
+
+  createOrder(request: CreatePaymentOrderRequest, method: PaymentMethod) {
+    return createGatewayOrder(this.backend, this.id, request, method);
+  }
+
+  async pay(order: PaymentOrder, _customer: PaymentCustomer, details: PaymentDetails): Promise<PaymentResult> {
+    if (details.vpa) {
+      try {
+        await this.backend.requestUpiCollect(order.id, details.vpa.trim());
+      } catch (error: any) {
+        throw new PaymentProviderError(error.message || 'Could not send the UPI request', this.id, true);
+      }
+    } else if (isMobileDevice() && order.upiIntentUrl) {
+      window.location.href = order.upiIntentUrl;
+    } else {
+      // No app link came back to hand off to, so let a gateway take the payment
+      throw new PaymentProviderError('Enter your UPI ID to receive a payment request', this.id, true);
+    }
+
+    const settled = await this.waitForSettlement(order.id);
+    return { provider: this.id, paymentOrder: settled, status: 'captured', paymentId: settled.gatewayPaymentId };
+  }
+
+  private async waitForSettlement(paymentOrderId: string): Promise<PaymentOrder> {
+    const deadline = Date.now() + UPI_POLL_TIMEOUT;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, UPI_POLL_INTERVAL));
+      try {
+        const status = await this.backend.getPaymentStatus(paymentOrderId);
+        if (status.status === 'captured' || status.status === 'authorized') return status;
+        if (status.status === 'failed') {
+          throw new PaymentProviderError('UPI payment was declined', this.id, false);
+        }
+      } catch (error) {
+        if (error instanceof PaymentProviderError) throw error;
+        // A failed status check is not a failed payment; keep waiting
+      }
+    }
+    throw new PaymentProviderError('UPI request expired. Please try again.', this.id, false);
+  }
+}
+
+/**
+ * NEFT/RTGS: the backend issues a virtual account and reference; the buyer
+ * pays from their bank and submits the UTR, so the order stays pending.
+ */
+export class BankTransferProvider implements PaymentProvider {
+  readonly id = 'BANK_TRANSFER' as const;
+  readonly label = 'NEFT / RTGS';
+  readonly methods: PaymentMethod[] = ['BANK_TRANSFER'];
+  readonly minAmount = 1 * RUPEE;
+
+  constructor(private backend: PaymentBackend) {}
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  createOrder(request: CreatePaymentOrderRequest, method: PaymentMethod) {
+    return createGatewayOrder(this.backend, this.id, request, method);
+  }
+
+  async pay(order: PaymentOrder): Promise<PaymentResult> {
+    if (!order.bankTransfer) {
+      throw new PaymentProviderError('Bank details for this transfer are unavailable', this.id, false);
+    }
+    return { provider: this.id, paymentOrder: order, status: 'pending' };
+  }
+}
+
+export interface FakeProviderOptions {
+  id?: PaymentProviderId;
+  methods?: PaymentMethod[];
+  maxAmount?: number;
+  // 'down' fails like an outage, 'decline' like a refused card
+  outcome?: 'success' | 'down' | 'decline';
+  available?: boolean;
+}
+
+/**
+ * In-memory provider for tests and for local checkout without gateway keys
+ * (NEXT_PUBLIC_PAYMENT_PROVIDER=fake). Never talks to the backend.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id: PaymentProviderId;
+  readonly label = 'Test payments';
+  readonly methods: PaymentMethod[];
+  readonly minAmount = 1 * RUPEE;
+  readonly maxAmount?: number;
+  readonly attempts: PaymentOrder[] = [];
+  private outcome: NonNullable<FakeProviderOptions['outcome']>;
+  private available: boolean;
+
+  constructor({ id = 'FAKE', methods = ['ONLINE', 'UPI', 'BANK_TRANSFER'], maxAmount, outcome = 'success', available = true }: FakeProviderOptions = {}) {
+    this.id = id;
+    this.methods = methods;
+    this.maxAmount = maxAmount;
+    this.outcome = outcome;
+    this.available = available;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  async createOrder(request: CreatePaymentOrderRequest): Promise<PaymentOrder> {
+    const now = new Date().toISOString();
+    return {
+      id: `fake_${request.orderId}_${this.attempts.length + 1}`,
+      orderId: request.orderId,
+      amount: request.amount,
+      currency: request.currency,
+      status: 'created',
+      provider: this.id,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  async pay(order: PaymentOrder): Promise<PaymentResult> {
+    this.attempts.push(order);
+    if (this.outcome === 'down') throw new PaymentProviderError('Gateway unavailable', this.id, true);
+    if (this.outcome === 'decline') throw new PaymentProviderError('Payment declined', this.id, false);
+    return {
+      provider: this.id,
+      paymentOrder: { ...order, status: 'captured' },
+      status: 'captured',
+      paymentId: `pay_${order.id}`
+    };
+  }
+}
+
+// Priority order: a direct UPI request beats a gateway for UPI; Cashfree backs Razorpay up
+export function createDefaultProviders(backend: PaymentBackend): PaymentProvider[] {
+  if (process.env.NEXT_PUBLIC_PAYMENT_PROVIDER === 'fake') {
+    return [new FakePaymentProvider()];
+  }
+  return [
+    new UpiProvider(backend),
+    new RazorpayProvider(backend),
+    new CashfreeProvider(backend),
+    new BankTransferProvider(backend)
+  ];
+}
@@ -1,21 +1,53 @@
 import { api } from '@/shared/services/api';
 import { handleApiError, retryWithBackoff } from '@/shared/services/errorHandler';
+import { miscService } from './miscService';
+import type { CreditTerms } from './tradeCreditService';
+import {
+  createDefaultProviders,
+  PaymentProviderError,
+  selectPaymentProviders,
+  type PaymentCustomer,
+  type PaymentDetails,
+  type PaymentMethod,
+  type PaymentProvider,
+  type PaymentProviderId,
+  type PaymentResult
+} from './paymentProviders';
 
 declare global {
   interface Window {
     Razorpay: any;
+    Cashfree: any;
   }
 }
 
+// Beneficiary the buyer pays into for NEFT/RTGS
+export interface BankTransferDetails {
+  accountName: string;
+  accountNumber: string;
+  ifsc: string;
+  bankName: string;
+  reference: string; // quoted in the transfer remarks so it can be matched
+  mode: 'NEFT' | 'RTGS';
+}
+
 export interface PaymentOrder {
   id: string;
   orderId: string;
   amount: number;
   currency: string;
   status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
-  razorpayOrderId: string;
+  provider?: PaymentProviderId;
+  razorpayOrderId?: string;
   razorpayPaymentId?: string;
   razorpaySignature?: string;
+  paymentSessionId?: string; // Cashfree checkout session
+  gatewayPaymentId?: string;
+  upiIntentUrl?: string;
+  bankTransfer?: BankTransferDetails;
+  utr?: string;
+  dueDate?: string; // pay-on-terms orders
+  milestoneId?: string; // set when paying one stage of a payment schedule
   createdAt: string;
   updatedAt: string;
 }
@@ -30,6 +62,44 @@ export interface CreatePaymentOrderRequest {
     phone: string;
   };
   notes?: Record<string, string>;
+  provider?: PaymentProviderId;
+  method?: PaymentMethod;
+  // Pay on terms: booked against the buyer's credit line and collected by the due date
+  creditTerms?: {
+    creditLineId: string;
+    terms: CreditTerms;
+    dueDate: string;
+  };
+  // Pays one milestone of the order's payment schedule rather than the whole order
+  milestoneId?: string;
+}
+
+export type MilestoneTrigger = 'ON_ORDER' | 'ON_DISPATCH' | 'ON_DELIVERY' | 'ON_INSTALLATION';
+
+// DUE once the vendor reaches the stage; PAID funds sit in escrow until the vendor confirms and they are RELEASED
+export type MilestoneStatus = 'PENDING' | 'DUE' | 'PAID' | 'RELEASED' | 'CANCELLED';
+
+export interface PaymentMilestoneDraft {
+  sequence: number;
+  label: string;
+  amount: number; // paise
+  trigger: MilestoneTrigger;
+}
+
+export interface PaymentMilestone extends PaymentMilestoneDraft {
+  id: string;
+  orderId: string;
+  status: MilestoneStatus;
+  paymentOrderId?: string;
+  requestedAt?: string;
+  paidAt?: string;
+  releasedAt?: string;
+}
+
+export interface PaymentSchedule {
+  orderId: string;
+  currency: string;
+  milestones: PaymentMilestone[];
 }
 
 export interface PaymentVerificationRequest {
@@ -83,27 +153,15 @@ export interface PaymentAnalytics {
   }>;
 }
 
-class PaymentService {
-  private razorpayKeyId: string;
-  
-  constructor() {
-    this.razorpayKeyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || '';
-  }
+// Health is re-checked at most once a minute
+const PROVIDER_HEALTH_TTL = 60 * 1000;
 
-  // Initialize Razorpay script
-  private loadRazorpayScript(): Promise<boolean> {
-    return new Promise((resolve) => {
-      if (window.Razorpay) {
-        resolve(true);
-        return;
-      }
+export class PaymentService {
+  private providers: PaymentProvider[];
+  private providerHealth: { value: Partial<Record<PaymentProviderId, boolean>>; fetchedAt: number } | null = null;
 
-      const script = document.createElement('script');
-      script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-      script.onload = () => resolve(true);
-      script.onerror = () => resolve(false);
-      document.head.appendChild(script);
-    });
+  constructor(providers?: PaymentProvider[]) {
+    this.providers = providers ?? createDefaultProviders(this);
   }
 
   // Create payment order
@@ -117,75 +175,167 @@ class PaymentService {
       const apiError = handleApiError(error, {
         customMessage: 'Failed to create payment order. Please try again.'
       });
-      throw new Error(apiError.message);
+      // The cause tells an outage from a rejected request when failing over between gateways
+      throw new Error(apiError.message, { cause: apiError });
     }
   }
 
-  // Process payment with Razorpay
-  async processPayment(
-    paymentOrder: PaymentOrder,
-    customerInfo: {
-      name: string;
-      email: string;
-      phone: string;
-    },
-    onSuccess: (response: any) => void,
-    onFailure: (error: any) => void
-  ): Promise<void> {
-    const scriptLoaded = await this.loadRazorpayScript();
-    
-    if (!scriptLoaded) {
-      throw new Error('Razorpay script failed to load');
+  // Gateway status from the backend; unknown or unreachable counts as up
+  async getProviderHealth(): Promise<Partial<Record<PaymentProviderId, boolean>>> {
+    if (this.providerHealth && Date.now() - this.providerHealth.fetchedAt < PROVIDER_HEALTH_TTL) {
+      return this.providerHealth.value;
+    }
+    try {
+      const response = await api.get('/api/payments/providers/health');
+      this.providerHealth = { value: response.data ?? {}, fetchedAt: Date.now() };
+    } catch (error) {
+      console.warn('⚠️ Payment provider health unavailable:', error);
+      this.providerHealth = { value: {}, fetchedAt: Date.now() };
+    }
+    return this.providerHealth.value;
+  }
+
+  private markProviderDown(id: PaymentProviderId) {
+    const value = { ...this.providerHealth?.value, [id]: false };
+    this.providerHealth = { value, fetchedAt: this.providerHealth?.fetchedAt ?? Date.now() };
+  }
+
+  // Checked before orders are placed, so an amount no provider takes is caught while the buyer can still switch method
+  canPay(method: PaymentMethod, amount: number, details: PaymentDetails = {}): boolean {
+    return selectPaymentProviders(this.providers, method, amount, {}, details).length > 0;
+  }
+
+  /**
+   * Pay through the first provider that supports the method and amount,
+   * failing over to the next when a gateway is down. A decline or cancel
+   * stops here - the buyer shouldn't be charged twice.
+   */
+  async pay(
+    request: CreatePaymentOrderRequest,
+    method: PaymentMethod,
+    details: PaymentDetails = {}
+  ): Promise<PaymentResult> {
+    const candidates = selectPaymentProviders(this.providers, method, request.amount, await this.getProviderHealth(), details);
+    if (candidates.length === 0) {
+      throw new Error(`No payment option is available for ${this.formatCurrency(request.amount)} by ${method.replace('_', ' ').toLowerCase()}`);
     }
 
-    const options = {
-      key: this.razorpayKeyId,
-      amount: paymentOrder.amount,
-      currency: paymentOrder.currency,
-      name: 'Indian Trade Mart',
-      description: `Payment for Order #${paymentOrder.orderId}`,
-      order_id: paymentOrder.razorpayOrderId,
-      image: '/logo.png',
-      prefill: {
-        name: customerInfo.name,
-        email: customerInfo.email,
-        contact: customerInfo.phone
-      },
-      notes: {
-        orderId: paymentOrder.orderId,
-        customerId: customerInfo.email
-      },
-      theme: {
-        color: '#3B82F6'
-      },
-      modal: {
-        ondismiss: () => {
-          onFailure({ reason: 'Payment cancelled by user' });
-        }
-      },
-      handler: async (response: any) => {
-        try {
-          const verificationResult = await this.verifyPayment({
-            razorpay_order_id: response.razorpay_order_id,
-            razorpay_payment_id: response.razorpay_payment_id,
-            razorpay_signature: response.razorpay_signature
-          });
-          
-          onSuccess({
-            ...response,
-            verification: verificationResult
-          });
-        } catch (error) {
-          onFailure({ reason: 'Payment verification failed', error });
-        }
-      },
-      error: (error: any) => {
-        onFailure({ reason: 'Payment failed', error });
+    let lastError: Error | null = null;
+    for (const provider of candidates) {
+      if (!(await provider.isAvailable())) {
+        console.warn(`⚠️ ${provider.label} is not available, trying the next provider`);
+        continue;
       }
-    };
+      try {
+        console.log(`💳 Paying ${this.formatCurrency(request.amount)} via ${provider.label}`);
+        const paymentOrder = await provider.createOrder(request, method);
+        return await provider.pay(paymentOrder, request.customerInfo as PaymentCustomer, details);
+      } catch (error: any) {
+        if (!(error instanceof PaymentProviderError) || !error.retryable) throw error;
+        console.warn(`⚠️ ${provider.label} failed, failing over:`, error.message);
+        this.markProviderDown(provider.id);
+        lastError = error;
+      }
+    }
+    throw new Error(lastError?.message || 'Payment gateways are unavailable. Please try again shortly.');
+  }
+
+  // Send a UPI collect request to the buyer's UPI ID
+  async requestUpiCollect(paymentOrderId: string, vpa: string): Promise<void> {
+    try {
+      await api.post('/api/payments/upi/collect', { paymentOrderId, vpa });
+    } catch (error) {
+      const apiError = handleApiError(error, {
+        customMessage: 'Could not send the UPI request. Please check your UPI ID.'
+      });
+      throw new Error(apiError.message);
+    }
+  }
+
+  // Record a NEFT/RTGS payment with its UTR and an optional proof of transfer
+  async submitBankTransferProof(paymentOrderId: string, utr: string, proof?: File): Promise<PaymentOrder> {
+    try {
+      const proofUrl = proof
+        ? (await miscService.uploadFile(proof, { folder: 'payment-proofs', maxSize: 10 * 1024 * 1024 })).url
+        : undefined;
+      const response = await api.post(`/api/payments/offline/${paymentOrderId}/utr`, {
+        utr: utr.trim().toUpperCase(),
+        proofUrl
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to submit the transfer details. Please try again.'
+      });
+      throw new Error(apiError.message);
+    }
+  }
+
+  // ========== MILESTONE PAYMENTS ==========
+
+  // Staged payment plan of an order, or null when it is paid in one go
+  async getPaymentSchedule(orderId: string): Promise<PaymentSchedule | null> {
+    try {
+      const response = await api.get(`/api/orders/${orderId}/payment-schedule`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      const apiError = handleApiError(error, { customMessage: 'Failed to fetch the payment schedule.' });
+      throw new Error(apiError.message);
+    }
+  }
+
+  async createPaymentSchedule(orderId: string, milestones: PaymentMilestoneDraft[]): Promise<PaymentSchedule> {
+    console.log('🧾 Creating payment schedule for order', orderId, milestones.length);
+    try {
+      const response = await api.post(`/api/orders/${orderId}/payment-schedule`, { milestones });
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error, { customMessage: 'Failed to set up the payment schedule.' });
+      throw new Error(apiError.message);
+    }
+  }
+
+  // Each milestone is its own gateway order, so it goes through provider selection and failover
+  async payMilestone(
+    milestone: PaymentMilestone,
+    customerInfo: PaymentCustomer,
+    method: PaymentMethod = 'ONLINE',
+    details: PaymentDetails = {}
+  ): Promise<PaymentResult> {
+    if (milestone.status !== 'DUE') {
+      throw new Error(`${milestone.label} is not due for payment`);
+    }
+    return this.pay({
+      orderId: milestone.orderId,
+      amount: milestone.amount,
+      currency: 'INR',
+      customerInfo,
+      milestoneId: milestone.id,
+      notes: { orderId: milestone.orderId, milestone: milestone.label }
+    }, method, details);
+  }
+
+  // Vendor reached the stage (e.g. dispatched) and asks the buyer to pay it
+  async requestMilestonePayment(milestoneId: string): Promise<PaymentMilestone> {
+    try {
+      const response = await api.post(`/api/payments/milestones/${milestoneId}/request`);
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error, { customMessage: 'Failed to request the milestone payment.' });
+      throw new Error(apiError.message);
+    }
+  }
 
-    const razorpay = new window.Razorpay(options);
-    razorpay.open();
+  // Vendor confirms the stage is complete; escrowed funds are then released to them
+  async confirmMilestone(milestoneId: string): Promise<PaymentMilestone> {
+    try {
+      const response = await api.post(`/api/payments/milestones/${milestoneId}/confirm`);
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error, { customMessage: 'Failed to confirm the milestone.' });
+      throw new Error(apiError.message);
+    }
   }
 
   // Verify payment signature
@@ -1,4 +1,5 @@
 import { API_CONFIG, apiRequest } from '@/config/api';
+import type { PriceSlab } from '@/shared/types';
 
 // Product types
 export interface ProductDto {
@@ -16,6 +17,10 @@ export interface ProductDto {
   isFeatured?: boolean;
   stock?: number;
   minOrderQuantity?: number;
+  maxOrderQuantity?: number;
+  priceSlabs?: PriceSlab[];
+  hsnCode?: string;
+  gstRate?: number; // %, the backend's rate for hsnCode; missing means the product can't be taxed yet
   createdAt?: string;
   updatedAt?: string;
 }
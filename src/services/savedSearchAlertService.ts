@@ -0,0 +1,137 @@
+import { searchService, type SavedSearch } from './searchService';
+import { notificationApi, NOTIFICATION_CREATED_EVENT } from '@/shared/services/api/notificationApi';
+import {
+  describeAlertDiff,
+  diffSearchResults,
+  hasAlertMatches,
+  isAlertDue,
+  mergeSnapshot,
+  toSnapshotItem,
+  type SearchAlertDiff
+} from '@/shared/utils/savedSearchAlerts';
+
+export interface SearchAlertDigestEntry extends SearchAlertDiff {
+  id: string;
+  savedSearchId: string;
+  searchName: string;
+  checkedAt: string;
+  seen: boolean;
+}
+
+const DIGEST_STORAGE_KEY = 'savedSearchDigest';
+const MAX_DIGEST_ENTRIES = 30;
+
+// Results fetched per run, newest first so fresh listings are always in the window
+const ALERT_RESULT_SIZE = 100;
+
+class SavedSearchAlertService {
+  /**
+   * Re-run every saved search whose alert is due, compare with its last
+   * snapshot and notify the buyer about new or cheaper matches.
+   */
+  async checkSavedSearches(recipientId: number, searches?: SavedSearch[]): Promise<SearchAlertDigestEntry[]> {
+    const due = (searches ?? await searchService.getSavedSearches()).filter(search => isAlertDue(search));
+    if (due.length === 0) return [];
+
+    console.log('🔔 Checking saved searches:', due.length);
+    const entries: SearchAlertDigestEntry[] = [];
+
+    // One at a time so a dashboard with many alerts doesn't flood the search API
+    for (const search of due) {
+      try {
+        const entry = await this.checkSavedSearch(search, recipientId);
+        if (entry) entries.push(entry);
+      } catch (error) {
+        console.error(`Error checking saved search ${search.name}:`, error);
+      }
+    }
+
+    if (entries.length > 0) {
+      this.saveDigest([...entries, ...this.getDigest()]);
+    }
+    return entries;
+  }
+
+  private async checkSavedSearch(search: SavedSearch, recipientId: number): Promise<SearchAlertDigestEntry | null> {
+    const checkedAt = new Date().toISOString();
+    const response = await searchService.search(
+      {
+        ...search.searchRequest,
+        sort: { field: 'newest', order: 'desc' },
+        page: 0,
+        size: ALERT_RESULT_SIZE,
+        includeAggregations: false
+      },
+      // Pinned listings are merchandising, not matches; they'd be reported as new on every run
+      { recordHistory: false, applyPins: false }
+    );
+
+    const current = response.results.map(result => toSnapshotItem(result, checkedAt));
+    const diff = diffSearchResults(search.snapshot, current);
+    await searchService.saveSearchSnapshot(search.id, mergeSnapshot(search.snapshot, current, checkedAt));
+
+    if (!hasAlertMatches(diff)) return null;
+
+    const entry: SearchAlertDigestEntry = {
+      id: `${search.id}-${checkedAt}`,
+      savedSearchId: search.id,
+      searchName: search.name,
+      checkedAt,
+      seen: false,
+      ...diff
+    };
+
+    notificationApi.createNotification({
+      recipientId,
+      recipientType: 'USER',
+      title: `New matches for "${search.name}"`,
+      message: describeAlertDiff(diff),
+      type: 'SEARCH_ALERT',
+      relatedEntityId: search.id
+    })
+      .then(notification => window.dispatchEvent(new CustomEvent(NOTIFICATION_CREATED_EVENT, { detail: notification })))
+      .catch(error => console.warn('Failed to raise search alert:', error));
+
+    console.log(`✅ ${search.name}: ${describeAlertDiff(diff)}`);
+    return entry;
+  }
+
+  // Alert runs kept on this device for the dashboard digest, newest first
+  getDigest(): SearchAlertDigestEntry[] {
+    try {
+      const stored = localStorage.getItem(DIGEST_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading search alert digest:', error);
+      return [];
+    }
+  }
+
+  markDigestSeen(): SearchAlertDigestEntry[] {
+    const digest = this.getDigest().map(entry => ({ ...entry, seen: true }));
+    this.saveDigest(digest);
+    return digest;
+  }
+
+  // Drop digest entries for a saved search, e.g. after it is deleted
+  removeFromDigest(savedSearchId: string): SearchAlertDigestEntry[] {
+    const digest = this.getDigest().filter(entry => entry.savedSearchId !== savedSearchId);
+    this.saveDigest(digest);
+    return digest;
+  }
+
+  clearDigest(): void {
+    this.saveDigest([]);
+  }
+
+  private saveDigest(entries: SearchAlertDigestEntry[]): void {
+    try {
+      localStorage.setItem(DIGEST_STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_DIGEST_ENTRIES)));
+    } catch (error) {
+      console.error('Error saving search alert digest:', error);
+    }
+  }
+}
+
+export const savedSearchAlertService = new SavedSearchAlertService();
+export default savedSearchAlertService;
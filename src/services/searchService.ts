@@ -1,4 +1,7 @@
 import { api } from '@/shared/services/api';
+import { mergeSearchFilters, parseSearchQuery } from '@/shared/utils/searchQuery';
+import { applyPinnedResults, applySynonyms } from '@/shared/utils/searchRelevance';
+import { localSearchIndex, type LocalSearchHit } from './localSearchIndex';
 
 // Search Result Types
 export interface SearchProduct {
@@ -76,11 +79,25 @@ export interface SearchFilters {
   dateFrom?: string;
   dateTo?: string;
   
+  // Query operators (see parseSearchQuery)
+  phrases?: string[];
+  excludeTerms?: string[];
+  synonyms?: Record<string, string[]>; // curated equivalents per query term (see applySynonyms)
+
   // Advanced filters
-  attributes?: Record<string, any>;
+  attributes?: Record<string, any>; // numeric specs as NumericRange, e.g. { diameter: { gte: 50, unit: 'mm' } }
   customFilters?: Record<string, any>;
 }
 
+// Bounds for a numeric attribute, in the attribute's base unit (mm, kg)
+export interface NumericRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  unit?: string;
+}
+
 export interface SearchSortOptions {
   field: 'relevance' | 'price' | 'rating' | 'popularity' | 'newest' | 'name' | 'distance';
   order: 'asc' | 'desc';
@@ -107,6 +124,7 @@ export interface SearchAggregation {
 }
 
 export interface SearchResponse<T> {
+  searchId?: string; // pass to trackClick / trackConversion
   results: T[];
   total: number;
   page: number;
@@ -117,6 +135,35 @@ export interface SearchResponse<T> {
   corrections: string[];
 }
 
+// Below this a visual match is a guess; lead with categories instead of products
+export const MIN_IMAGE_CONFIDENCE = 0.5;
+
+// Visual search adds how sure the model is, lookalikes and fallback categories
+export interface ImageSearchResponse extends SearchResponse<SearchProduct> {
+  confidence: number; // 0-1
+  detectedLabels: string[];
+  similarItems: SearchProduct[];
+  categorySuggestions: Array<{
+    category: string;
+    score: number;
+  }>;
+}
+
+// What a buyer asked for in plain words, e.g. "500 kg mild steel rods to Nagpur in 10 days"
+export interface SearchIntent {
+  product: string;
+  quantity?: number;
+  unit?: string;
+  location?: string;
+  deadline?: string; // yyyy-mm-dd
+  category?: string;
+  attributes?: Record<string, any>;
+}
+
+export interface NaturalLanguageSearchResponse extends SearchResponse<SearchProduct> {
+  intent: SearchIntent;
+}
+
 export interface AutocompleteResult {
   text: string;
   type: 'product' | 'category' | 'brand' | 'vendor' | 'location';
@@ -161,6 +208,67 @@ export interface SearchAnalytics {
     clickThroughRate: number;
     conversionRate: number;
   };
+  // Relevance breakdowns, from trackClick data
+  clicksByPosition?: Array<{
+    position: number;
+    impressions: number;
+    clicks: number;
+  }>;
+  firstClickPositions?: Array<{
+    position: number;
+    count: number;
+  }>;
+  queryCategories?: Array<{
+    query: string;
+    category: string;
+    count: number;
+  }>;
+}
+
+// Admin-curated search rules, applied by SearchService.search
+export interface SearchSynonym {
+  id: string;
+  term: string;
+  synonyms: string[];
+  oneWay?: boolean; // replace the term instead of searching both
+  createdAt?: string;
+}
+
+export interface SearchPinnedResult {
+  id: string;
+  query: string;
+  productId: string;
+  productName?: string;
+  position: number; // 1-based
+  createdAt?: string;
+}
+
+export type SearchAlertFrequency = 'instant' | 'daily' | 'weekly' | 'off';
+
+// What a saved search last returned, compared against on the next run
+export interface SavedSearchSnapshotItem {
+  id: string;
+  name: string;
+  price?: number;
+  vendorId?: string;
+  vendorName?: string;
+  seenAt: string;
+}
+
+export interface SavedSearchSnapshot {
+  items: SavedSearchSnapshotItem[];
+  takenAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  searchRequest: SearchRequest;
+  createdAt: string;
+  resultsCount?: number;
+  alertFrequency?: SearchAlertFrequency;
+  lastCheckedAt?: string;
+  snapshot?: SavedSearchSnapshot;
 }
 
 export interface SearchHistory {
@@ -172,9 +280,35 @@ export interface SearchHistory {
   searchedAt: string;
 }
 
-class SearchService {
+const MAX_SUGGESTIONS = 10;
+
+// How long curated synonyms and pins are reused before re-fetching
+const CURATION_TTL = 10 * 60 * 1000;
+
+const toAutocompleteResult = ({ entry }: LocalSearchHit): AutocompleteResult => ({
+  text: entry.name,
+  type: entry.type === 'product' ? 'product' : 'category',
+  count: entry.productCount,
+  metadata: { source: 'local', id: entry.refId, entryType: entry.type, path: entry.path }
+});
+
+const toSuggestion = ({ entry, score }: LocalSearchHit): SearchSuggestion => ({
+  text: entry.name,
+  highlighted: entry.name,
+  score,
+  type: 'completion'
+});
+
+// Server results first, then local matches the server didn't return
+const mergeByText = <T extends { text: string }>(server: T[] = [], local: T[]): T[] => {
+  const seen = new Set(server.map(item => item.text.toLowerCase()));
+  return [...server, ...local.filter(item => !seen.has(item.text.toLowerCase()))].slice(0, MAX_SUGGESTIONS);
+};
+
+export class SearchService {
   private baseUrl: string;
   private searchHistory: SearchHistory[] = [];
+  private curation: { synonyms: SearchSynonym[]; pins: SearchPinnedResult[]; fetchedAt: number } | null = null;
   
   constructor() {
     this.baseUrl = '/api/search';
@@ -182,12 +316,24 @@ class SearchService {
   }
 
   // Main search function
-  async search<T = SearchProduct>(request: SearchRequest): Promise<SearchResponse<T>> {
+  async search<T = SearchProduct>(
+    request: SearchRequest,
+    options: { recordHistory?: boolean; applyPins?: boolean } = {}
+  ): Promise<SearchResponse<T>> {
     try {
-      const response = await api.post(`${this.baseUrl}/query`, request);
+      const { synonyms, pins } = await this.getCurationRules();
+      const response = await api.post(
+        `${this.baseUrl}/query`,
+        SearchService.applySynonymRules(SearchService.applyQueryOperators(request), synonyms)
+      );
+
+      // Pins are curated for the first page only
+      if (request.query && !request.page && options.applyPins !== false && Array.isArray(response.data?.results)) {
+        response.data.results = applyPinnedResults(response.data.results, request.query, pins);
+      }
       
       // Save to search history
-      if (request.query) {
+      if (request.query && options.recordHistory !== false) {
         this.addToSearchHistory({
           query: request.query,
           filters: request.filters || {},
@@ -212,29 +358,50 @@ class SearchService {
     return this.search<SearchVendor>({ ...request, searchType: 'vendors' });
   }
 
-  // Autocomplete suggestions
-  async autocomplete(query: string, type?: string): Promise<AutocompleteResult[]> {
+  // Autocomplete suggestions. With onUpdate, matches from the local index are
+  // reported straight away and again once merged with the server's.
+  async autocomplete(
+    query: string,
+    type?: string,
+    onUpdate?: (results: AutocompleteResult[]) => void
+  ): Promise<AutocompleteResult[]> {
+    await localSearchIndex.load();
+    // The local index holds categories and viewed products, nothing for vendor-only searches
+    const local = type === 'vendors' ? [] : localSearchIndex.search(query, MAX_SUGGESTIONS).map(toAutocompleteResult);
+    if (local.length > 0) onUpdate?.(local);
+
     try {
       const response = await api.get(`${this.baseUrl}/autocomplete`, {
         params: { query, type }
       });
-      return response.data;
+      const merged = mergeByText<AutocompleteResult>(response.data, local);
+      onUpdate?.(merged);
+      return merged;
     } catch (error) {
       console.error('Error getting autocomplete suggestions:', error);
-      return [];
+      return local;
     }
   }
 
-  // Get search suggestions
-  async getSuggestions(query: string): Promise<SearchSuggestion[]> {
+  // Get search suggestions, answering from the local index first like autocomplete
+  async getSuggestions(
+    query: string,
+    onUpdate?: (suggestions: SearchSuggestion[]) => void
+  ): Promise<SearchSuggestion[]> {
+    await localSearchIndex.load();
+    const local = localSearchIndex.search(query, MAX_SUGGESTIONS).map(toSuggestion);
+    if (local.length > 0) onUpdate?.(local);
+
     try {
       const response = await api.get(`${this.baseUrl}/suggest`, {
         params: { query }
       });
-      return response.data;
+      const merged = mergeByText<SearchSuggestion>(response.data, local);
+      onUpdate?.(merged);
+      return merged;
     } catch (error) {
       console.error('Error getting search suggestions:', error);
-      return [];
+      return local;
     }
   }
 
@@ -295,10 +462,10 @@ class SearchService {
   }
 
   // Search by image (if implemented)
-  async searchByImage(imageFile: File): Promise<SearchResponse<SearchProduct>> {
+  async searchByImage(imageFile: File | Blob): Promise<ImageSearchResponse> {
     try {
       const formData = new FormData();
-      formData.append('image', imageFile);
+      formData.append('image', imageFile, imageFile instanceof File ? imageFile.name : 'search.jpg');
       
       const response = await api.post(`${this.baseUrl}/image`, formData, {
         headers: { 'Content-Type': 'multipart/form-data' }
@@ -311,7 +478,7 @@ class SearchService {
   }
 
   // Advanced query with natural language processing
-  async naturalLanguageSearch(query: string): Promise<SearchResponse<SearchProduct>> {
+  async naturalLanguageSearch(query: string): Promise<NaturalLanguageSearchResponse> {
     try {
       const response = await api.post(`${this.baseUrl}/nlp`, { query });
       return response.data;
@@ -372,11 +539,16 @@ class SearchService {
   }
 
   // Create saved search
-  async saveSearch(name: string, request: SearchRequest): Promise<{ id: string; name: string }> {
+  async saveSearch(
+    name: string,
+    request: SearchRequest,
+    alertFrequency: SearchAlertFrequency = 'daily'
+  ): Promise<SavedSearch> {
     try {
       const response = await api.post(`${this.baseUrl}/saved-searches`, {
         name,
-        searchRequest: request
+        searchRequest: request,
+        alertFrequency
       });
       return response.data;
     } catch (error) {
@@ -386,13 +558,7 @@ class SearchService {
   }
 
   // Get saved searches
-  async getSavedSearches(): Promise<Array<{
-    id: string;
-    name: string;
-    searchRequest: SearchRequest;
-    createdAt: string;
-    resultsCount?: number;
-  }>> {
+  async getSavedSearches(): Promise<SavedSearch[]> {
     try {
       const response = await api.get(`${this.baseUrl}/saved-searches`);
       return response.data;
@@ -402,6 +568,33 @@ class SearchService {
     }
   }
 
+  // Update a saved search, e.g. its alert frequency
+  async updateSavedSearch(
+    id: string,
+    updates: Partial<Pick<SavedSearch, 'name' | 'alertFrequency'>>
+  ): Promise<SavedSearch> {
+    try {
+      const response = await api.patch(`${this.baseUrl}/saved-searches/${id}`, updates);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      throw new Error('Failed to update saved search');
+    }
+  }
+
+  // Store the result set an alert run compared against
+  async saveSearchSnapshot(id: string, snapshot: SavedSearchSnapshot): Promise<void> {
+    try {
+      await api.put(`${this.baseUrl}/saved-searches/${id}/snapshot`, {
+        snapshot,
+        lastCheckedAt: snapshot.takenAt
+      });
+    } catch (error) {
+      console.error('Error saving search snapshot:', error);
+      throw new Error('Failed to save search snapshot');
+    }
+  }
+
   // Delete saved search
   async deleteSavedSearch(id: string): Promise<void> {
     try {
@@ -412,6 +605,82 @@ class SearchService {
     }
   }
 
+  // Synonyms and pinned results, cached for the search layer
+  private async getCurationRules(): Promise<{ synonyms: SearchSynonym[]; pins: SearchPinnedResult[] }> {
+    if (this.curation && Date.now() - this.curation.fetchedAt < CURATION_TTL) {
+      return this.curation;
+    }
+    // Curation only tunes ranking; a failed fetch must never block search
+    const [synonyms, pins] = await Promise.all([
+      this.getSynonyms().catch(() => []),
+      this.getPinnedResults().catch(() => [])
+    ]);
+    this.curation = { synonyms, pins, fetchedAt: Date.now() };
+    return this.curation;
+  }
+
+  async getSynonyms(): Promise<SearchSynonym[]> {
+    try {
+      const response = await api.get(`${this.baseUrl}/synonyms`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting search synonyms:', error);
+      throw new Error('Failed to get search synonyms');
+    }
+  }
+
+  async saveSynonym(synonym: Omit<SearchSynonym, 'id' | 'createdAt'>): Promise<SearchSynonym> {
+    try {
+      const response = await api.post(`${this.baseUrl}/synonyms`, synonym);
+      this.curation = null;
+      return response.data;
+    } catch (error) {
+      console.error('Error saving search synonym:', error);
+      throw new Error('Failed to save synonym');
+    }
+  }
+
+  async deleteSynonym(id: string): Promise<void> {
+    try {
+      await api.delete(`${this.baseUrl}/synonyms/${id}`);
+      this.curation = null;
+    } catch (error) {
+      console.error('Error deleting search synonym:', error);
+      throw new Error('Failed to delete synonym');
+    }
+  }
+
+  async getPinnedResults(): Promise<SearchPinnedResult[]> {
+    try {
+      const response = await api.get(`${this.baseUrl}/pins`);
+      return response.data;
+    } catch (error) {
+      console.error('Error getting pinned results:', error);
+      throw new Error('Failed to get pinned results');
+    }
+  }
+
+  async savePinnedResult(pin: Omit<SearchPinnedResult, 'id' | 'createdAt'>): Promise<SearchPinnedResult> {
+    try {
+      const response = await api.post(`${this.baseUrl}/pins`, pin);
+      this.curation = null;
+      return response.data;
+    } catch (error) {
+      console.error('Error saving pinned result:', error);
+      throw new Error('Failed to pin result');
+    }
+  }
+
+  async deletePinnedResult(id: string): Promise<void> {
+    try {
+      await api.delete(`${this.baseUrl}/pins/${id}`);
+      this.curation = null;
+    } catch (error) {
+      console.error('Error deleting pinned result:', error);
+      throw new Error('Failed to remove pinned result');
+    }
+  }
+
   // Local search history management
   private loadSearchHistory(): void {
     try {
@@ -462,6 +731,29 @@ class SearchService {
   }
 
   // Utility functions
+
+  // Move operators typed in the query (dia>=50mm, in:pune, -galvanized) into filters
+  static applyQueryOperators(request: SearchRequest): SearchRequest {
+    if (!request.query) return request;
+    const parsed = parseSearchQuery(request.query);
+    return {
+      ...request,
+      query: parsed.text,
+      filters: mergeSearchFilters(parsed.filters, request.filters)
+    };
+  }
+
+  // Rewrite one-way synonyms in the query and send two-way equivalents as a filter
+  static applySynonymRules(request: SearchRequest, synonyms: SearchSynonym[]): SearchRequest {
+    if (!request.query || synonyms.length === 0) return request;
+    const { query, expansions } = applySynonyms(request.query, synonyms);
+    return {
+      ...request,
+      query,
+      filters: Object.keys(expansions).length > 0 ? { ...request.filters, synonyms: expansions } : request.filters
+    };
+  }
+
   static buildSearchUrl(request: SearchRequest): string {
     const params = new URLSearchParams();
     
@@ -512,6 +804,10 @@ class SearchService {
     }));
   }
 
+  static isLowConfidenceMatch(response: ImageSearchResponse): boolean {
+    return response.confidence < MIN_IMAGE_CONFIDENCE || response.results.length === 0;
+  }
+
   // Search suggestions based on partial input
   async getSearchSuggestions(partialQuery: string): Promise<string[]> {
     try {
@@ -0,0 +1,357 @@
+import {
+  shippingService,
+  ShippingService,
+  type ShippingProvider,
+  type ShippingRule,
+  type ShippingZone
+} from './shippingService';
+import type { VendorCartGroup } from '@/features/cart/cartSlice';
+
+/**
+ * 🚚 Shipping Rule Engine
+ *
+ * Evaluates a vendor's shipping zones and rules in the browser, so rules can be
+ * simulated before saving and cart estimates don't wait on the backend.
+ */
+
+// Used when no zone matches or the zone has no pricing of its own
+export const DEFAULT_ZONE_RATES = {
+  baseRate: 50,
+  baseWeight: 0.5, // kg covered by the base rate
+  additionalRatePerKg: 40,
+  deliveryDays: 5,
+};
+
+export interface ShipmentPackage {
+  weight: number; // kg, per unit
+  length?: number; // cm
+  width?: number;
+  height?: number;
+  quantity?: number;
+}
+
+export interface ShippingSimulationInput {
+  toPincode: string;
+  toState?: string;
+  packages: ShipmentPackage[];
+  value: number; // order value, INR
+  categories?: string[];
+  cod?: boolean;
+}
+
+export interface ShippingRuleSet {
+  zones: ShippingZone[];
+  rules: ShippingRule[];
+}
+
+export type RuleCondition = keyof ShippingRule['conditions'];
+
+export interface RuleConditionResult {
+  condition: RuleCondition;
+  passed: boolean;
+  detail: string;
+}
+
+export interface RuleEvaluation {
+  rule: ShippingRule;
+  matched: boolean; // every condition passed
+  applied: boolean; // matched and active
+  conditions: RuleConditionResult[];
+}
+
+export interface ShippingEstimate {
+  serviceable: boolean;
+  zone: ShippingZone | null;
+  chargeableWeight: number;
+  baseCost: number;
+  discountPercent: number;
+  cost: number;
+  freeShipping: boolean;
+  provider?: ShippingProvider;
+  priorityShipping: boolean;
+  codAvailable: boolean;
+  estimatedDeliveryDays: number;
+  appliedRules: string[];
+  evaluations: RuleEvaluation[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Sum of the higher of actual or volumetric weight across all packages
+export function getShipmentChargeableWeight(packages: ShipmentPackage[]): number {
+  return round2(packages.reduce((total, pkg) => {
+    const perUnit = pkg.length && pkg.width && pkg.height
+      ? ShippingService.getChargeableWeight(pkg.weight, pkg.length, pkg.width, pkg.height)
+      : pkg.weight;
+    return total + perUnit * (pkg.quantity ?? 1);
+  }, 0));
+}
+
+// Longest prefix in the list that the pincode starts with
+export function matchPincodePrefix(pincode: string, prefixes: string[] = []): string | undefined {
+  return prefixes
+    .map(prefix => prefix.trim())
+    .filter(prefix => prefix && pincode.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Most specific zone for a destination: the longest pincode prefix wins,
+ * then a state match.
+ */
+export function findShippingZone(zones: ShippingZone[], pincode: string, state?: string): ShippingZone | null {
+  const byPincode = zones
+    .map(zone => ({ zone, length: matchPincodePrefix(pincode, zone.pincodes)?.length ?? 0 }))
+    .filter(match => match.length > 0)
+    .sort((a, b) => b.length - a.length)[0];
+  if (byPincode) return byPincode.zone;
+
+  if (!state) return null;
+  return zones.find(zone => zone.states.some(zoneState => normalise(zoneState) === normalise(state))) || null;
+}
+
+export function getZoneBaseCost(zone: ShippingZone | null, chargeableWeight: number): number {
+  const baseRate = zone?.baseRate ?? DEFAULT_ZONE_RATES.baseRate;
+  const perKg = zone?.additionalRatePerKg ?? DEFAULT_ZONE_RATES.additionalRatePerKg;
+  const extraKg = Math.max(0, chargeableWeight - DEFAULT_ZONE_RATES.baseWeight);
+  return round2(baseRate + Math.ceil(extraKg) * perKg);
+}
+
+export function evaluateRuleConditions(
+  rule: ShippingRule,
+  input: ShippingSimulationInput,
+  chargeableWeight: number
+): RuleConditionResult[] {
+  const { conditions } = rule;
+  const results: RuleConditionResult[] = [];
+
+  if (conditions.minWeight !== undefined) {
+    results.push({
+      condition: 'minWeight',
+      passed: chargeableWeight >= conditions.minWeight,
+      detail: `Chargeable weight ${chargeableWeight} kg ≥ ${conditions.minWeight} kg`,
+    });
+  }
+  if (conditions.maxWeight !== undefined) {
+    results.push({
+      condition: 'maxWeight',
+      passed: chargeableWeight <= conditions.maxWeight,
+      detail: `Chargeable weight ${chargeableWeight} kg ≤ ${conditions.maxWeight} kg`,
+    });
+  }
+  if (conditions.minValue !== undefined) {
+    results.push({
+      condition: 'minValue',
+      passed: input.value >= conditions.minValue,
+      detail: `Order value ₹${input.value} ≥ ₹${conditions.minValue}`,
+    });
+  }
+  if (conditions.maxValue !== undefined) {
+    results.push({
+      condition: 'maxValue',
+      passed: input.value <= conditions.maxValue,
+      detail: `Order value ₹${input.value} ≤ ₹${conditions.maxValue}`,
+    });
+  }
+  if (conditions.pincodes?.length) {
+    const prefix = matchPincodePrefix(input.toPincode, conditions.pincodes);
+    results.push({
+      condition: 'pincodes',
+      passed: !!prefix,
+      detail: prefix ? `${input.toPincode} matches ${prefix}` : `${input.toPincode} is not in ${conditions.pincodes.join(', ')}`,
+    });
+  }
+  if (conditions.states?.length) {
+    const passed = !!input.toState && conditions.states.some(state => normalise(state) === normalise(input.toState!));
+    results.push({
+      condition: 'states',
+      passed,
+      detail: `${input.toState || 'Unknown state'} ${passed ? 'is' : 'is not'} in ${conditions.states.join(', ')}`,
+    });
+  }
+  if (conditions.categories?.length) {
+    const wanted = conditions.categories.map(normalise);
+    const match = (input.categories || []).find(category => wanted.includes(normalise(category)));
+    results.push({
+      condition: 'categories',
+      passed: !!match,
+      detail: match ? `Contains ${match}` : `No items in ${conditions.categories.join(', ')}`,
+    });
+  }
+
+  return results;
+}
+
+// Lower priority first; rules without a priority keep their order after the prioritised ones
+const sortRules = (rules: ShippingRule[]) =>
+  rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (a.rule.priority ?? Infinity) - (b.rule.priority ?? Infinity) || a.index - b.index)
+    .map(({ rule }) => rule);
+
+/**
+ * Price a shipment against a zone and rule set.
+ * Matching rules combine: any free-shipping rule wins, the largest discount
+ * applies (discounts don't stack), and the first rule naming a provider picks it.
+ */
+export function evaluateShipping(
+  input: ShippingSimulationInput,
+  zones: ShippingZone[],
+  rules: ShippingRule[]
+): ShippingEstimate {
+  const chargeableWeight = getShipmentChargeableWeight(input.packages);
+  const zone = findShippingZone(zones, input.toPincode, input.toState);
+  const baseCost = getZoneBaseCost(zone, chargeableWeight);
+  const appliedRules: string[] = [];
+
+  let freeShipping = false;
+  let discountPercent = 0;
+  let provider: ShippingProvider | undefined;
+  let priorityShipping = false;
+
+  if (zone?.freeShippingThreshold !== undefined && input.value >= zone.freeShippingThreshold) {
+    freeShipping = true;
+    appliedRules.push(`Free shipping above ₹${zone.freeShippingThreshold} (${zone.name})`);
+  }
+
+  const evaluations = sortRules(rules).map(rule => {
+    const conditions = evaluateRuleConditions(rule, input, chargeableWeight);
+    const matched = conditions.every(result => result.passed);
+    const applied = matched && rule.active;
+
+    if (applied) {
+      appliedRules.push(rule.name);
+      if (rule.actions.freeShipping) freeShipping = true;
+      discountPercent = Math.max(discountPercent, Math.min(100, rule.actions.shippingDiscount ?? 0));
+      provider = provider ?? rule.actions.provider;
+      priorityShipping = priorityShipping || !!rule.actions.priorityShipping;
+    }
+    return { rule, matched, applied, conditions };
+  });
+
+  const cost = freeShipping ? 0 : round2(baseCost * (1 - discountPercent / 100));
+
+  return {
+    serviceable: zones.length === 0 || !!zone,
+    zone,
+    chargeableWeight,
+    baseCost,
+    discountPercent,
+    cost,
+    freeShipping,
+    provider,
+    priorityShipping,
+    codAvailable: zone ? zone.cod_available : true,
+    estimatedDeliveryDays: zone?.deliveryDays ?? DEFAULT_ZONE_RATES.deliveryDays,
+    appliedRules,
+    evaluations,
+  };
+}
+
+const ruleSetCache = new Map<string, Promise<ShippingRuleSet>>();
+
+// A vendor's zones and rules, fetched once per session
+export function loadVendorRuleSet(vendorId: string): Promise<ShippingRuleSet> {
+  let cached = ruleSetCache.get(vendorId);
+  if (!cached) {
+    cached = Promise.all([
+      shippingService.getShippingZones(vendorId),
+      shippingService.getShippingRules(vendorId),
+    ]).then(([zones, rules]) => ({ zones, rules }));
+    // Drop failures so the next estimate retries
+    cached.catch(() => ruleSetCache.delete(vendorId));
+    ruleSetCache.set(vendorId, cached);
+  }
+  return cached;
+}
+
+// Rule set for an instant estimate - falls back to default zone rates if the backend is slow or down
+export async function loadVendorRuleSetOrDefaults(vendorId: string, timeoutMs = 1500): Promise<ShippingRuleSet> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      loadVendorRuleSet(vendorId),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Shipping rules request timed out')), timeoutMs);
+      }),
+    ]);
+  } catch (error) {
+    console.warn(`Using default shipping rates for vendor ${vendorId}:`, error);
+    return { zones: [], rules: [] };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Ask the backend for the authoritative cost, but answer from the local
+ * evaluation if it fails or takes longer than `timeoutMs`.
+ */
+export async function estimateShippingCost(
+  fromPincode: string,
+  input: ShippingSimulationInput,
+  ruleSet: ShippingRuleSet,
+  timeoutMs = 1500
+): Promise<ShippingEstimate & { source: 'server' | 'local' }> {
+  const local = evaluateShipping(input, ruleSet.zones, ruleSet.rules);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const server = await Promise.race([
+      shippingService.calculateShippingCost(
+        fromPincode, input.toPincode, local.chargeableWeight, input.value, input.categories?.[0]
+      ),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Shipping cost request timed out')), timeoutMs);
+      }),
+    ]);
+    return {
+      ...local,
+      cost: server.cost,
+      freeShipping: server.freeShipping,
+      appliedRules: server.appliedRules,
+      source: 'server',
+    };
+  } catch (error) {
+    console.warn('Using local shipping estimate:', error);
+    return { ...local, source: 'local' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Assume a small parcel when the catalog has no weight
+export const DEFAULT_ITEM_WEIGHT = 0.5;
+
+export function toVendorShipmentInput(group: VendorCartGroup, toPincode: string, toState?: string): ShippingSimulationInput {
+  return {
+    toPincode,
+    toState,
+    packages: group.items.map(item => ({
+      weight: item.weight ?? DEFAULT_ITEM_WEIGHT,
+      ...item.dimensions,
+      quantity: item.quantity
+    })),
+    value: group.subtotal,
+    categories: group.items.map(item => item.category).filter(Boolean)
+  };
+}
+
+/**
+ * Shipping for one vendor's share of the cart. The cart quotes and checkout
+ * charges this same figure, so the buyer never pays a different amount.
+ */
+export async function estimateVendorGroupShipping(
+  group: VendorCartGroup,
+  toPincode: string,
+  toState?: string
+): Promise<ShippingEstimate> {
+  const ruleSet = await loadVendorRuleSetOrDefaults(group.vendorId);
+  const input = toVendorShipmentInput(group, toPincode, toState);
+  const pickupPincode = group.items.find(item => item.vendorPincode)?.vendorPincode;
+  return pickupPincode
+    ? estimateShippingCost(pickupPincode, input, ruleSet)
+    : evaluateShipping(input, ruleSet.zones, ruleSet.rules);
+}
@@ -39,6 +39,7 @@ export interface ShippingRate {
 
 export interface ShippingLabel {
   id: string;
+  orderId?: string; // set on labels from bulk creation
   trackingNumber: string;
   provider: ShippingProvider;
   labelUrl: string;
@@ -71,16 +72,21 @@ export interface TrackingInfo {
 export interface ShippingZone {
   id: string;
   name: string;
-  pincodes: string[];
+  pincodes: string[]; // full pincodes or prefixes, e.g. "110" for Delhi
   states: string[];
   deliveryDays: number;
   cod_available: boolean;
   restrictions?: string[];
+  // Zone pricing; the rule engine falls back to its defaults when absent
+  baseRate?: number; // INR for the first 0.5 kg
+  additionalRatePerKg?: number;
+  freeShippingThreshold?: number; // order value
 }
 
 export interface ShippingRule {
   id: string;
   name: string;
+  priority?: number; // lower runs first
   conditions: {
     minWeight?: number;
     maxWeight?: number;
@@ -93,7 +99,7 @@ export interface ShippingRule {
   actions: {
     provider?: ShippingProvider;
     freeShipping?: boolean;
-    shippingDiscount?: number;
+    shippingDiscount?: number; // % off the zone rate
     priorityShipping?: boolean;
   };
   active: boolean;
@@ -143,7 +149,7 @@ export interface ShippingAnalytics {
   }>;
 }
 
-class ShippingService {
+export class ShippingService {
   private baseUrl: string;
   
   constructor() {
@@ -291,10 +297,12 @@ class ShippingService {
     }
   }
 
-  // Get shipping zones
-  async getShippingZones(): Promise<ShippingZone[]> {
+  // Get shipping zones (the logged-in vendor's, or another vendor's for buyer estimates)
+  async getShippingZones(vendorId?: string): Promise<ShippingZone[]> {
     try {
-      const response = await api.get(`${this.baseUrl}/zones`);
+      const response = await api.get(`${this.baseUrl}/zones`, {
+        params: vendorId ? { vendorId } : undefined
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching shipping zones:', error);
@@ -313,10 +321,12 @@ class ShippingService {
     }
   }
 
-  // Get shipping rules
-  async getShippingRules(): Promise<ShippingRule[]> {
+  // Get shipping rules (the logged-in vendor's, or another vendor's for buyer estimates)
+  async getShippingRules(vendorId?: string): Promise<ShippingRule[]> {
     try {
-      const response = await api.get(`${this.baseUrl}/rules`);
+      const response = await api.get(`${this.baseUrl}/rules`, {
+        params: vendorId ? { vendorId } : undefined
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching shipping rules:', error);
@@ -0,0 +1,29 @@
+import { api } from '@/shared/services/api';
+import { handleApiError } from '@/shared/services/errorHandler';
+
+// GST rate the backend holds for an HSN code; it tracks rate notifications, so the client keeps no table of its own
+export interface HsnRate {
+  hsnCode: string;
+  gstRate: number; // %
+  description?: string;
+  effectiveFrom?: string;
+}
+
+class TaxService {
+  // null when the backend has no rate for the code - callers must not guess one
+  async getHsnRate(hsnCode: string): Promise<HsnRate | null> {
+    const digits = hsnCode.replace(/\D/g, '');
+    if (!digits) return null;
+    try {
+      const response = await api.get(`/api/tax/hsn/${digits}`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      const apiError = handleApiError(error, { customMessage: 'Failed to fetch the GST rate for this HSN code' });
+      throw new Error(apiError.message);
+    }
+  }
+}
+
+export const taxService = new TaxService();
+export default taxService;
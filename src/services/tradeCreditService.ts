@@ -0,0 +1,168 @@
+import { api } from '@/shared/services/api';
+import { handleApiError } from '@/shared/services/errorHandler';
+import { miscService } from './miscService';
+import { daysOverdue, formatRupees, isReminderDue, outstandingAmount } from '@/shared/utils/tradeCredit';
+
+export type CreditTerms = 'NET_15' | 'NET_30' | 'NET_45' | 'NET_60';
+
+export type CreditLineStatus = 'ACTIVE' | 'SUSPENDED';
+
+// Limit a vendor extends to one buyer; amounts in rupees
+export interface CreditLine {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  buyerId: string;
+  buyerName: string;
+  buyerEmail?: string;
+  limit: number;
+  used: number;
+  terms: CreditTerms;
+  status: CreditLineStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreditLineRequest {
+  buyerEmail: string;
+  limit: number;
+  terms: CreditTerms;
+  status?: CreditLineStatus;
+}
+
+// An order bought on terms and what is still owed on it
+export interface CreditDue {
+  id: string;
+  creditLineId: string;
+  orderId: number;
+  orderNumber: string;
+  vendorId: string;
+  vendorName: string;
+  buyerId: string;
+  buyerName: string;
+  buyerEmail?: string;
+  buyerPhone?: string;
+  amount: number;
+  paidAmount: number;
+  issuedAt: string;
+  dueDate: string;
+  status: 'OPEN' | 'PARTIALLY_PAID' | 'PAID';
+  lastRemindedAt?: string;
+}
+
+class TradeCreditService {
+  // ========== VENDOR ==========
+
+  // Credit lines the logged-in vendor has granted
+  async getVendorCreditLines(): Promise<CreditLine[]> {
+    try {
+      const response = await api.get('/api/trade-credit/vendor/lines');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching credit lines:', error);
+      throw new Error('Failed to fetch credit lines');
+    }
+  }
+
+  // Only verified buyers can be granted credit; the backend rejects the rest
+  async saveCreditLine(request: CreditLineRequest, id?: string): Promise<CreditLine> {
+    console.log('🤝 Saving credit line for', request.buyerEmail);
+    try {
+      const response = id
+        ? await api.put(`/api/trade-credit/vendor/lines/${id}`, request)
+        : await api.post('/api/trade-credit/vendor/lines', request);
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error, {
+        customMessage: 'Failed to save the credit line. Credit can only be granted to verified buyers.'
+      });
+      throw new Error(apiError.message);
+    }
+  }
+
+  // Dues owed to the logged-in vendor across all their buyers
+  async getVendorDues(): Promise<CreditDue[]> {
+    try {
+      const response = await api.get('/api/trade-credit/vendor/dues');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching receivables:', error);
+      throw new Error('Failed to fetch receivables');
+    }
+  }
+
+  // ========== BUYER ==========
+
+  // Credit lines granted to the logged-in buyer, one per vendor
+  async getMyCreditLines(): Promise<CreditLine[]> {
+    try {
+      const response = await api.get('/api/trade-credit/buyer/lines');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching credit lines:', error);
+      throw new Error('Failed to fetch credit lines');
+    }
+  }
+
+  async getMyDues(): Promise<CreditDue[]> {
+    try {
+      const response = await api.get('/api/trade-credit/buyer/dues');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching dues:', error);
+      throw new Error('Failed to fetch outstanding dues');
+    }
+  }
+
+  // ========== REMINDERS ==========
+
+  /**
+   * Email and text the buyer of every overdue due that hasn't been reminded
+   * recently. Returns how many reminders went out.
+   */
+  async sendOverdueReminders(dues: CreditDue[], today = new Date()): Promise<number> {
+    const due = dues.filter(entry => isReminderDue(entry, today));
+    if (due.length === 0) return 0;
+
+    console.log('⏰ Sending overdue reminders:', due.length);
+    let sent = 0;
+    for (const entry of due) {
+      try {
+        if (await this.sendOverdueReminder(entry, today)) sent++;
+      } catch (error) {
+        console.error(`Error sending reminder for order ${entry.orderNumber}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  private async sendOverdueReminder(entry: CreditDue, today: Date): Promise<boolean> {
+    const outstanding = formatRupees(outstandingAmount(entry));
+    const overdueDays = daysOverdue(entry, today);
+    const dueOn = new Date(entry.dueDate).toLocaleDateString('en-IN');
+    const subject = `Payment overdue: order ${entry.orderNumber} (${outstanding})`;
+    const message = `${outstanding} for order ${entry.orderNumber} from ${entry.vendorName} was due on ${dueOn} and is ${overdueDays} days overdue. Please pay from your dashboard.`;
+
+    const sends: Promise<unknown>[] = [];
+    if (entry.buyerEmail) {
+      sends.push(miscService.sendEmail({
+        to: entry.buyerEmail,
+        subject,
+        htmlContent: `<p>Dear ${entry.buyerName},</p><p>${message}</p>`,
+        textContent: message,
+        priority: overdueDays > 30 ? 'HIGH' : 'NORMAL'
+      }));
+    }
+    if (entry.buyerPhone) {
+      sends.push(miscService.sendSMS({ to: entry.buyerPhone, message }));
+    }
+    if (sends.length === 0) return false;
+
+    await Promise.all(sends);
+    await api.post(`/api/trade-credit/dues/${entry.id}/reminded`, { remindedAt: today.toISOString() });
+    return true;
+  }
+}
+
+export const tradeCreditService = new TradeCreditService();
+export default tradeCreditService;
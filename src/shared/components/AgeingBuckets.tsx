@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import { AGEING_BUCKETS, formatRupees, type AgeingBucket, type AgeingSummary } from '@/shared/utils/tradeCredit';
+
+interface AgeingBucketsProps {
+  summary: AgeingSummary;
+  className?: string;
+}
+
+// Older buckets read progressively more urgent
+const BUCKET_STYLES: Record<AgeingBucket, string> = {
+  '0-30': 'bg-green-50 text-green-800',
+  '31-60': 'bg-yellow-50 text-yellow-800',
+  '61-90': 'bg-orange-50 text-orange-800',
+  '90+': 'bg-red-50 text-red-800',
+};
+
+export default function AgeingBuckets({ summary, className = '' }: AgeingBucketsProps) {
+  return (
+    <div className={`grid grid-cols-2 md:grid-cols-4 gap-3 ${className}`}>
+      {AGEING_BUCKETS.map(bucket => (
+        <div key={bucket} className={`rounded-lg p-3 ${BUCKET_STYLES[bucket]}`}>
+          <p className="text-xs font-medium">{bucket} days</p>
+          <p className="text-lg font-bold">{formatRupees(summary[bucket].amount)}</p>
+          <p className="text-xs">{summary[bucket].count} {summary[bucket].count === 1 ? 'order' : 'orders'}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { store, AppDispatch } from '@/store';
 import { checkAuthStatus as initializeAuth } from '@/features/auth/authSlice';
 import { initAuthCleanup } from '@/utils/auth-cleanup';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { localSearchIndex } from '@/services/localSearchIndex';
 
 interface ClientProvidersProps {
   children: React.ReactNode;
@@ -35,6 +36,17 @@ const AuthInitializer: React.FC<{ children: React.ReactNode }> = ({ children })
 };
 
 const ClientProviders: React.FC<ClientProvidersProps> = ({ children }) => {
+  // Warm the offline search index once the page is idle so autocomplete answers instantly
+  useEffect(() => {
+    const warm = () => localSearchIndex.ready();
+    if ('requestIdleCallback' in window) {
+      const handle = window.requestIdleCallback(warm);
+      return () => window.cancelIdleCallback(handle);
+    }
+    const timeout = setTimeout(warm, 2000);
+    return () => clearTimeout(timeout);
+  }, []);
+
   return (
     <Provider store={store}>
       <AuthProvider>
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { getStateName, type GstBreakup as GstBreakupData } from '@/shared/utils/gst';
+
+interface GstBreakupProps {
+  // Issued invoices always have every rate, so they carry no missing-rate list
+  breakup: Omit<GstBreakupData, 'missingRateLineIds'> & Partial<Pick<GstBreakupData, 'missingRateLineIds'>>;
+  className?: string;
+  // Hide the place-of-supply line, e.g. when it is shown elsewhere on the page
+  hidePlaceOfSupply?: boolean;
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+export default function GstBreakup({ breakup, className = '', hidePlaceOfSupply = false }: GstBreakupProps) {
+  const placeOfSupply = getStateName(breakup.placeOfSupplyCode);
+  const rates = breakup.byRate.filter(summary => summary.rate > 0);
+  const missingRates = breakup.lines.filter(line => line.rateMissing);
+
+  return (
+    <div className={`space-y-1 text-sm ${className}`}>
+      {rates.map(summary => breakup.supplyType === 'INTRA_STATE' ? (
+        <React.Fragment key={summary.rate}>
+          <div className="flex justify-between">
+            <span>CGST @ {summary.rate / 2}%</span>
+            <span>{formatAmount(summary.cgst)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>SGST @ {summary.rate / 2}%</span>
+            <span>{formatAmount(summary.sgst)}</span>
+          </div>
+        </React.Fragment>
+      ) : (
+        <div key={summary.rate} className="flex justify-between">
+          <span>IGST @ {summary.rate}%</span>
+          <span>{formatAmount(summary.igst)}</span>
+        </div>
+      ))}
+      {rates.length === 0 && (
+        <div className="flex justify-between">
+          <span>GST</span>
+          <span>{formatAmount(0)}</span>
+        </div>
+      )}
+      {missingRates.length > 0 && (
+        <p className="text-xs text-red-600">
+          GST rate not available for {missingRates.map(line => line.description || 'an item').join(', ')} - tax is incomplete
+        </p>
+      )}
+      {!hidePlaceOfSupply && (
+        <p className="text-xs text-gray-500">
+          {breakup.supplyType === 'INTRA_STATE' ? 'Intra-state' : 'Inter-state'} supply
+          {placeOfSupply ? ` · Place of supply: ${placeOfSupply}` : ' · Place of supply not set yet'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { BellIcon, XMarkIcon, CheckIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { motion, AnimatePresence } from 'framer-motion';
-import { notificationApi, INotification, NotificationSummary } from '@/shared/services/api/notificationApi';
+import {
+  notificationApi,
+  INotification,
+  NotificationSummary,
+  NOTIFICATION_CREATED_EVENT
+} from '@/shared/services/api/notificationApi';
 import { formatDistanceToNow } from 'date-fns';
 import { io, Socket } from 'socket.io-client';
 
@@ -76,6 +81,18 @@ const NotificationCenter: React.FC = () => {
     };
   }, []);
 
+  // Pick up notifications raised elsewhere in this tab
+  useEffect(() => {
+    const handleCreated = (event: Event) => {
+      const notification = (event as CustomEvent<INotification>).detail;
+      setNotifications(prev => prev.some(notif => notif.id === notification.id) ? prev : [notification, ...prev]);
+      fetchNotificationSummary();
+    };
+
+    window.addEventListener(NOTIFICATION_CREATED_EVENT, handleCreated);
+    return () => window.removeEventListener(NOTIFICATION_CREATED_EVENT, handleCreated);
+  }, []);
+
   // Request notification permission
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -239,9 +256,18 @@ const NotificationCenter: React.FC = () => {
       case 'QUOTE':
       case 'QUOTE_ACCEPTED':
         return <span className={`${iconClasses} text-green-500`}>💰</span>;
+      case 'QUOTE_COUNTERED':
+      case 'QUOTE_REVISED':
+        return <span className={`${iconClasses} text-blue-500`}>🤝</span>;
+      case 'QUOTE_EXPIRED':
+        return <span className={`${iconClasses} text-gray-500`}>⌛</span>;
       case 'ORDER':
       case 'ORDER_UPDATE':
         return <span className={`${iconClasses} text-purple-500`}>📦</span>;
+      case 'SHIPMENT_UPDATE':
+        return <span className={`${iconClasses} text-purple-500`}>🚚</span>;
+      case 'SEARCH_ALERT':
+        return <span className={`${iconClasses} text-teal-500`}>🔎</span>;
       case 'PAYMENT':
         return <span className={`${iconClasses} text-green-600`}>💳</span>;
       case 'KYC_UPDATE':
@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import type { PriceSlab } from '@/shared/types';
+import { normalizePriceSlabs } from '@/shared/utils/pricing';
+
+interface PriceSlabTableProps {
+  basePrice: number;
+  slabs?: PriceSlab[];
+  unit?: string;
+  highlightQuantity?: number;
+}
+
+export default function PriceSlabTable({
+  basePrice,
+  slabs,
+  unit = 'unit',
+  highlightQuantity
+}: PriceSlabTableProps) {
+  const rows = normalizePriceSlabs(slabs);
+
+  if (rows.length === 0) return null;
+
+  const isActive = (slab: PriceSlab) =>
+    highlightQuantity !== undefined &&
+    highlightQuantity >= slab.minQuantity &&
+    (slab.maxQuantity === undefined || highlightQuantity <= slab.maxQuantity);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left font-semibold text-gray-700">Quantity ({unit})</th>
+            <th className="px-4 py-2 text-right font-semibold text-gray-700">Price / {unit}</th>
+            <th className="px-4 py-2 text-right font-semibold text-gray-700">You save</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((slab) => (
+            <tr key={slab.minQuantity} className={isActive(slab) ? 'bg-green-50' : undefined}>
+              <td className="px-4 py-2 text-gray-900">
+                {slab.maxQuantity !== undefined
+                  ? `${slab.minQuantity} - ${slab.maxQuantity}`
+                  : `${slab.minQuantity}+`}
+              </td>
+              <td className="px-4 py-2 text-right font-medium text-gray-900">
+                ₹{slab.price.toLocaleString('en-IN')}
+              </td>
+              <td className="px-4 py-2 text-right text-green-600">
+                {basePrice > slab.price
+                  ? `${Math.round(((basePrice - slab.price) / basePrice) * 100)}%`
+                  : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
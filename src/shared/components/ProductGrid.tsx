@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { api } from '@/shared/utils/apiClient';
+import { addProductToCart } from '@/features/cart/cartSlice';
+import { useAppDispatch } from '@/shared/hooks/redux';
 import { Heart, ShoppingCart, Eye, Star } from 'lucide-react';
 
 interface Product {
@@ -25,6 +27,7 @@ interface Product {
 
 export default function ProductGrid() {
   const router = useRouter();
+  const dispatch = useAppDispatch();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -130,10 +133,10 @@ export default function ProductGrid() {
     router.push(`/products/${productId}`);
   };
 
-  const handleAddToCart = async (productId: number, e: React.MouseEvent) => {
+  const handleAddToCart = async (product: Product, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      await api.post('/api/buyer/cart/add', { productId, quantity: 1 });
+      await dispatch(addProductToCart({ productId: product.id, vendorName: product.vendor?.name })).unwrap();
       // Show success notification
       console.log('Product added to cart');
     } catch (error) {
@@ -281,7 +284,7 @@ export default function ProductGrid() {
                 
                 {/* Add to Cart Button */}
                 <button
-                  onClick={(e) => handleAddToCart(product.id, e)}
+                  onClick={(e) => handleAddToCart(product, e)}
                   disabled={!product.inStock}
                   className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
                 >
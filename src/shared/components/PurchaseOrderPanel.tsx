@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAppSelector } from '@/shared/hooks/redux';
+import { purchaseOrderAPI, type PurchaseOrder } from '@/shared/services/purchaseOrderApi';
+import { userAPI, type UserAddress } from '@/shared/services/userApi';
+import { orderService } from '@/services/orderService';
+import { calculateGst } from '@/shared/utils/gst';
+import { Button } from './Button';
+import GstBreakup from './GstBreakup';
+
+interface PurchaseOrderPanelProps {
+  quoteId: number;
+  party: 'BUYER' | 'VENDOR';
+}
+
+const formatPrice = (amount: number, currency = 'INR') =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount);
+
+export default function PurchaseOrderPanel({ quoteId, party }: PurchaseOrderPanelProps) {
+  const user = useAppSelector(state => state.auth.user);
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  const [addressId, setAddressId] = useState<number | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<'BANK_TRANSFER' | 'COD'>('BANK_TRANSFER');
+  const [placingOrder, setPlacingOrder] = useState(false);
+
+  // Buyers issue the PO on first view if accepting the quote didn't get that far
+  const loadPurchaseOrder = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const po = party === 'BUYER'
+        ? await purchaseOrderAPI.issueForQuote(quoteId)
+        : await purchaseOrderAPI.getByQuote(quoteId);
+      setPurchaseOrder(po);
+    } catch (error: any) {
+      console.error('Error loading purchase order:', error);
+      setError(error.message || 'Failed to load purchase order');
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId, party]);
+
+  useEffect(() => {
+    loadPurchaseOrder();
+  }, [loadPurchaseOrder]);
+
+  useEffect(() => {
+    if (party !== 'BUYER' || purchaseOrder?.status !== 'ISSUED') return;
+    userAPI.addresses.getAll()
+      .then(list => {
+        setAddresses(list);
+        setAddressId((list.find(address => address.isDefault) || list[0])?.id ?? null);
+      })
+      .catch(error => console.warn('Could not load addresses:', error));
+  }, [party, purchaseOrder?.status]);
+
+  const handleDownload = async () => {
+    if (!purchaseOrder) return;
+    try {
+      const pdf = await purchaseOrderAPI.downloadPdf(purchaseOrder.id);
+      const url = window.URL.createObjectURL(pdf);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${purchaseOrder.poNumber}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading purchase order:', error);
+      alert('Failed to download the purchase order. Please try again.');
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    const address = addresses.find(a => a.id === addressId);
+    if (!purchaseOrder || !address) return;
+
+    try {
+      setPlacingOrder(true);
+      const result = await orderService.checkoutPurchaseOrder(purchaseOrder, {
+        paymentMethod,
+        buyerGstin: user?.gstNumber,
+        shippingAddress: {
+          fullName: user?.name || '',
+          phone: user?.phone || '',
+          address: [address.addressLine1, address.addressLine2].filter(Boolean).join(', '),
+          city: address.city,
+          state: address.state,
+          pincode: address.pincode,
+        },
+      });
+      const linked = await purchaseOrderAPI.linkOrder(purchaseOrder.id, result.orderId);
+      setPurchaseOrder({ ...linked, orderNumber: linked.orderNumber || result.orderNumber });
+    } catch (error: any) {
+      console.error('Error placing order from purchase order:', error);
+      alert(error.message || 'Failed to place order. Please try again.');
+    } finally {
+      setPlacingOrder(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500 py-4">Loading purchase order...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="text-sm text-red-600 py-4">
+        {error}{' '}
+        <button onClick={loadPurchaseOrder} className="underline">Retry</button>
+      </div>
+    );
+  }
+
+  if (!purchaseOrder) {
+    return <p className="text-sm text-gray-500">The buyer hasn&apos;t issued a purchase order yet.</p>;
+  }
+
+  // Split follows the selected delivery address, else the buyer's registered state
+  const gstBreakup = calculateGst(
+    purchaseOrder.lines.map((line, index) => ({
+      id: String(index),
+      taxableValue: line.unitPrice * line.quantity,
+      hsnCode: line.hsnCode,
+      gstRate: line.taxRate * 100,
+    })),
+    {
+      supplierGstin: purchaseOrder.vendorGstin,
+      buyerGstin: party === 'BUYER' ? user?.gstNumber : undefined,
+      placeOfSupply: addresses.find(a => a.id === addressId)?.state || (party === 'BUYER' ? user?.state : undefined),
+    }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-semibold text-gray-900">Purchase Order {purchaseOrder.poNumber}</p>
+          <p className="text-xs text-gray-500">
+            Issued {format(new Date(purchaseOrder.issueDate), 'dd MMM yyyy')} · {purchaseOrder.vendorName}
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleDownload}>
+          Download PDF
+        </Button>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2">Item</th>
+            <th className="py-2 text-right">Qty</th>
+            <th className="py-2 text-right">Unit Price</th>
+            <th className="py-2 text-right">GST</th>
+            <th className="py-2 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {purchaseOrder.lines.map((line, index) => (
+            <tr key={index}>
+              <td className="py-2">{line.description}</td>
+              <td className="py-2 text-right">{line.quantity} {line.unit || ''}</td>
+              <td className="py-2 text-right">{formatPrice(line.unitPrice, purchaseOrder.currency)}</td>
+              <td className="py-2 text-right">{formatPrice(line.taxAmount, purchaseOrder.currency)} ({Math.round(line.taxRate * 100)}%)</td>
+              <td className="py-2 text-right">{formatPrice(line.lineTotal, purchaseOrder.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t border-gray-200">
+          <tr>
+            <td colSpan={4} className="py-1 text-right text-gray-600">Subtotal</td>
+            <td className="py-1 text-right">{formatPrice(purchaseOrder.subtotal, purchaseOrder.currency)}</td>
+          </tr>
+          <tr>
+            <td colSpan={4} className="py-1 text-right text-gray-600">GST</td>
+            <td className="py-1 text-right">{formatPrice(purchaseOrder.taxTotal, purchaseOrder.currency)}</td>
+          </tr>
+          <tr className="font-semibold">
+            <td colSpan={4} className="py-1 text-right">Grand Total</td>
+            <td className="py-1 text-right">{formatPrice(purchaseOrder.grandTotal, purchaseOrder.currency)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <GstBreakup breakup={gstBreakup} className="ml-auto max-w-xs text-gray-600" />
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Payment Terms</p>
+          <p className="text-gray-900">{purchaseOrder.paymentTerms || 'As agreed'}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Delivery</p>
+          <p className="text-gray-900">{purchaseOrder.deliveryTerms || 'As agreed'}</p>
+        </div>
+      </div>
+
+      {purchaseOrder.status === 'ORDERED' && (
+        <p className="text-sm text-green-700 font-medium">
+          ✓ Order {purchaseOrder.orderNumber ? `#${purchaseOrder.orderNumber} ` : ''}placed against this PO
+        </p>
+      )}
+
+      {party === 'BUYER' && purchaseOrder.status === 'ISSUED' && (
+        <div className="border-t pt-4 space-y-3">
+          <p className="text-sm font-medium text-gray-700">Place order at the negotiated price</p>
+          {addresses.length === 0 ? (
+            <p className="text-sm text-gray-500">Add a delivery address in your profile to place this order.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                value={addressId ?? ''}
+                onChange={(e) => setAddressId(Number(e.target.value))}
+              >
+                {addresses.map(address => (
+                  <option key={address.id} value={address.id}>
+                    {address.addressLine1}, {address.city} - {address.pincode}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as 'BANK_TRANSFER' | 'COD')}
+              >
+                <option value="BANK_TRANSFER">Bank Transfer</option>
+                <option value="COD">Cash on Delivery</option>
+              </select>
+            </div>
+          )}
+          <Button
+            onClick={handlePlaceOrder}
+            disabled={placingOrder || !addressId}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            {placingOrder ? 'Placing Order...' : `Place Order · ${formatPrice(purchaseOrder.grandTotal, purchaseOrder.currency)}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { quoteApi, type Quote, type QuoteParty, type QuoteRevision, type QuoteTerms } from '@/shared/services/api/quoteApi';
+import { notificationApi, type CreateNotificationRequest } from '@/shared/services/api/notificationApi';
+import { Button } from './Button';
+import {
+  canRespond,
+  getChangedTerms,
+  getCurrentTerms,
+  getEffectiveQuoteStatus,
+  getQuoteExpiry,
+  TERM_LABELS
+} from '@/shared/utils/quoteNegotiation';
+
+interface QuoteNegotiationThreadProps {
+  quoteId: number;
+  // Which side is viewing the thread
+  party: QuoteParty;
+  onQuoteUpdated?: (quote: Quote) => void;
+}
+
+const DEFAULT_VALIDITY_DAYS = 7;
+
+const formatPrice = (price?: number, currency = 'INR') =>
+  price === undefined ? '—' : new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(price);
+
+const formatTerm = (term: keyof QuoteTerms, value: QuoteTerms[keyof QuoteTerms], currency?: string) =>
+  term === 'price' ? formatPrice(value as number | undefined, currency) : (value ?? '—');
+
+const defaultExpiry = () =>
+  new Date(Date.now() + DEFAULT_VALIDITY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+// Notifications are best-effort - the negotiation step has already been saved
+const notify = async (data: CreateNotificationRequest) => {
+  try {
+    await notificationApi.createNotification(data);
+  } catch (error) {
+    console.warn('Failed to send quote notification:', error);
+  }
+};
+
+export default function QuoteNegotiationThread({ quoteId, party, onQuoteUpdated }: QuoteNegotiationThreadProps) {
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [terms, setTerms] = useState<QuoteTerms>({});
+  const [message, setMessage] = useState('');
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry());
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchThread = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [loadedQuote, loadedRevisions] = await Promise.all([
+        quoteApi.getQuoteById(quoteId),
+        quoteApi.getQuoteRevisions(quoteId),
+      ]);
+      const history = [...loadedRevisions].sort((a, b) => a.version - b.version);
+
+      // Lapse quotes past their expiry the first time anyone opens them
+      if (loadedQuote.status !== 'EXPIRED' && getEffectiveQuoteStatus(loadedQuote, history) === 'EXPIRED') {
+        try {
+          const expired = await quoteApi.expireQuote(quoteId);
+          Object.assign(loadedQuote, expired);
+          const lapsed = {
+            title: 'Quote expired',
+            message: `Quote #${quoteId} lapsed without being accepted`,
+            type: 'QUOTE_EXPIRED' as const,
+            relatedEntityId: String(quoteId),
+          };
+          notify({ ...lapsed, recipientId: loadedQuote.vendorId, recipientType: 'VENDOR' });
+          if (loadedQuote.buyerId) {
+            notify({ ...lapsed, recipientId: loadedQuote.buyerId, recipientType: 'USER' });
+          }
+        } catch (expireError) {
+          console.warn('Failed to mark quote as expired:', expireError);
+        }
+      }
+
+      setQuote(loadedQuote);
+      setRevisions(history);
+    } catch (error: any) {
+      console.error('Error loading negotiation:', error);
+      setError(error.message || 'Failed to load negotiation history');
+    } finally {
+      setLoading(false);
+    }
+  }, [quoteId]);
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  const openForm = () => {
+    if (!quote) return;
+    setTerms(getCurrentTerms(quote, revisions));
+    setMessage('');
+    setExpiresAt(defaultExpiry());
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!quote) return;
+
+    try {
+      setSubmitting(true);
+      const updated = party === 'BUYER'
+        ? await quoteApi.counterOffer(quote.id, { ...terms, message: message.trim() || undefined })
+        : await quoteApi.reviseQuote(quote.id, {
+          ...terms,
+          message: message.trim() || undefined,
+          expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+        });
+
+      if (party === 'BUYER') {
+        notify({
+          recipientId: quote.vendorId,
+          recipientType: 'VENDOR',
+          title: 'Counter-offer received',
+          message: `The buyer sent a counter-offer on quote #${quote.id}`,
+          type: 'QUOTE_COUNTERED',
+          relatedEntityId: String(quote.id),
+        });
+      } else if (quote.buyerId) {
+        notify({
+          recipientId: quote.buyerId,
+          recipientType: 'USER',
+          title: 'Quote revised',
+          message: `${quote.vendor?.businessName || 'The vendor'} revised quote #${quote.id}`,
+          type: 'QUOTE_REVISED',
+          relatedEntityId: String(quote.id),
+        });
+      }
+
+      setShowForm(false);
+      onQuoteUpdated?.(updated);
+      await fetchThread();
+    } catch (error: any) {
+      console.error('Error sending negotiation response:', error);
+      alert(error.message || 'Failed to send. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500 py-4">Loading negotiation history...</div>;
+  }
+
+  if (error || !quote) {
+    return (
+      <div className="text-sm text-red-600 py-4">
+        {error || 'Quote not found'}{' '}
+        <button onClick={fetchThread} className="underline">Retry</button>
+      </div>
+    );
+  }
+
+  const status = getEffectiveQuoteStatus(quote, revisions);
+  const expiry = getQuoteExpiry(quote, revisions);
+  const myTurn = canRespond(quote, revisions, party);
+
+  // The vendor's original quote is shown as version 1 when the backend has no revision rows yet
+  const history: QuoteRevision[] = revisions.length > 0 ? revisions : [{
+    id: 0,
+    quoteId: quote.id,
+    version: 1,
+    author: 'VENDOR',
+    price: quote.price,
+    quantity: quote.quantity,
+    deliveryTime: quote.deliveryTime,
+    paymentTerms: quote.paymentTerms,
+    message: quote.response,
+    expiresAt: quote.expiresAt,
+    createdAt: quote.createdAt,
+  }];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-sm">
+        <span className="font-medium text-gray-700">Negotiation · v{history[history.length - 1].version}</span>
+        {expiry && (
+          <span className={status === 'EXPIRED' ? 'text-red-600' : 'text-gray-500'}>
+            {status === 'EXPIRED' ? 'Expired' : 'Expires'} {format(new Date(expiry), 'dd MMM yyyy')}
+          </span>
+        )}
+      </div>
+
+      <ol className="space-y-3 border-l-2 border-gray-200 pl-4">
+        {history.map((revision, index) => {
+          const changed = getChangedTerms(revision, history[index - 1]);
+          const isMine = revision.author === party;
+
+          return (
+            <li key={`${revision.version}-${revision.id}`} className={`rounded-md p-3 ${isMine ? 'bg-blue-50' : 'bg-gray-50'}`}>
+              <div className="flex justify-between text-xs text-gray-500 mb-2">
+                <span className="font-medium">
+                  v{revision.version} · {revision.author === 'VENDOR' ? (index === 0 ? 'Original quote' : 'Vendor revision') : 'Buyer counter-offer'}
+                </span>
+                <span>{format(new Date(revision.createdAt), 'dd MMM yyyy, hh:mm a')}</span>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                {(Object.keys(TERM_LABELS) as Array<keyof QuoteTerms>).map(term => (
+                  <div key={term}>
+                    <p className="text-xs text-gray-500">{TERM_LABELS[term]}</p>
+                    <p className={changed.includes(term) ? 'font-semibold text-orange-700' : 'text-gray-900'}>
+                      {formatTerm(term, revision[term], quote.currency)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              {revision.message && <p className="mt-2 text-sm text-gray-700">&ldquo;{revision.message}&rdquo;</p>}
+            </li>
+          );
+        })}
+      </ol>
+
+      {myTurn && !showForm && (
+        <Button size="sm" variant="outline" onClick={openForm}>
+          {party === 'BUYER' ? 'Counter-offer' : 'Revise Quote'}
+        </Button>
+      )}
+      {!myTurn && status !== 'EXPIRED' && status !== 'ACCEPTED' && status !== 'REJECTED' && (
+        <p className="text-sm text-gray-500">
+          Waiting for the {party === 'BUYER' ? 'vendor' : 'buyer'} to respond.
+        </p>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 rounded-md p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{TERM_LABELS.price} (₹)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                value={terms.price ?? ''}
+                onChange={(e) => setTerms(prev => ({ ...prev, price: e.target.value === '' ? undefined : Number(e.target.value) }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{TERM_LABELS.quantity}</label>
+              <input
+                type="number"
+                min={1}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                value={terms.quantity ?? ''}
+                onChange={(e) => setTerms(prev => ({ ...prev, quantity: e.target.value === '' ? undefined : Number(e.target.value) }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{TERM_LABELS.deliveryTime}</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="e.g. 10 days"
+                value={terms.deliveryTime ?? ''}
+                onChange={(e) => setTerms(prev => ({ ...prev, deliveryTime: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">{TERM_LABELS.paymentTerms}</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="e.g. Net 30"
+                value={terms.paymentTerms ?? ''}
+                onChange={(e) => setTerms(prev => ({ ...prev, paymentTerms: e.target.value }))}
+              />
+            </div>
+            {party === 'VENDOR' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Valid until</label>
+                <input
+                  type="date"
+                  required
+                  min={new Date().toISOString().split('T')[0]}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <textarea
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            placeholder={party === 'BUYER' ? 'Explain your counter-offer (optional)' : 'Note for the buyer (optional)'}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={submitting}>
+              {submitting ? 'Sending...' : party === 'BUYER' ? 'Send Counter-offer' : 'Send Revision'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import type { ReturnRequest } from '@/shared/services/returnApi';
+import { getReturnSteps, RETURN_REASONS, RETURN_STATUS_LABELS } from '@/shared/utils/returns';
+
+interface ReturnStatusTrackerProps {
+  request: ReturnRequest;
+  className?: string;
+}
+
+const REFUND_STATUS_LABELS = {
+  pending: 'Refund initiated',
+  processed: 'Refund processed',
+  failed: 'Refund failed',
+  manual: 'Refund by bank transfer',
+};
+
+// Progress and history for a return, shown the same way to buyer and vendor
+export default function ReturnStatusTracker({ request, className = '' }: ReturnStatusTrackerProps) {
+  const steps = getReturnSteps(request.type);
+  const currentIndex = steps.indexOf(request.status);
+  const isStopped = currentIndex === -1; // rejected, cancelled or closed without a refund
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {isStopped ? (
+        <div className={`rounded-md border px-3 py-2 text-sm ${
+          request.status === 'CLOSED' ? 'bg-gray-50 border-gray-200 text-gray-700' : 'bg-red-50 border-red-200 text-red-700'
+        }`}>
+          {RETURN_STATUS_LABELS[request.status]}
+          {request.rejectionReason && `: ${request.rejectionReason}`}
+        </div>
+      ) : (
+        <ol className="flex items-center">
+          {steps.map((step, index) => (
+            <li key={step} className="flex-1 flex flex-col items-center text-center">
+              <div className="flex items-center w-full">
+                <div className={`flex-1 h-0.5 ${index === 0 ? 'invisible' : index <= currentIndex ? 'bg-green-500' : 'bg-gray-200'}`} />
+                <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold ${
+                  index <= currentIndex ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-500'
+                }`}>
+                  {index < currentIndex ? '✓' : index + 1}
+                </span>
+                <div className={`flex-1 h-0.5 ${index === steps.length - 1 ? 'invisible' : index < currentIndex ? 'bg-green-500' : 'bg-gray-200'}`} />
+              </div>
+              <span className={`mt-1 text-xs ${index === currentIndex ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                {RETURN_STATUS_LABELS[step]}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-gray-500">Reason</p>
+          <p className="font-medium">{RETURN_REASONS[request.reason].label}</p>
+          {request.comment && <p className="text-gray-600 mt-1">{request.comment}</p>}
+        </div>
+        <div>
+          <p className="text-gray-500">Refund</p>
+          <p className="font-medium">₹{request.refundAmount.toFixed(2)}</p>
+          {request.refund && (
+            <p className={request.refund.status === 'failed' ? 'text-red-600' : 'text-gray-600'}>
+              {REFUND_STATUS_LABELS[request.refund.status]}
+              {request.refund.error && `: ${request.refund.error}`}
+            </p>
+          )}
+        </div>
+        {request.reverseLabel && (
+          <div>
+            <p className="text-gray-500">Reverse pickup</p>
+            <p className="font-medium">{request.reverseLabel.provider} · {request.reverseLabel.trackingNumber}</p>
+          </div>
+        )}
+      </div>
+
+      {request.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {request.photos.map(photo => (
+            <a key={photo.fileId} href={photo.url} target="_blank" rel="noopener noreferrer">
+              <img src={photo.url} alt={photo.fileName} className="w-16 h-16 object-cover rounded border" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {request.history.length > 0 && (
+        <ul className="border-t pt-3 space-y-1 text-xs text-gray-600">
+          {[...request.history].reverse().map((entry, index) => (
+            <li key={index} className="flex justify-between gap-4">
+              <span>
+                <span className="font-medium text-gray-800">{RETURN_STATUS_LABELS[entry.status]}</span>
+                {entry.note && ` - ${entry.note}`}
+              </span>
+              <span className="whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
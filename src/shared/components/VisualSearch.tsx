@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Camera, Upload, X } from 'lucide-react';
+import { SearchService, searchService, type ImageSearchResponse, type SearchProduct } from '@/services/searchService';
+import {
+  cropAndCompress,
+  cropFromPoints,
+  formatFileSize,
+  FULL_CROP,
+  isUsableCrop,
+  type CropRect
+} from '@/shared/utils/imageProcessing';
+
+const MAX_UPLOAD_SIZE = 15 * 1024 * 1024;
+
+interface VisualSearchProps {
+  // Called instead of navigating when the buyer picks a suggested category
+  onSelectCategory?: (category: string) => void;
+  className?: string;
+}
+
+type Step = 'pick' | 'crop' | 'results';
+
+const ResultCard = ({ product, compact = false }: { product: SearchProduct; compact?: boolean }) => (
+  <Link
+    href={`/productdetails/${product.id}`}
+    className={`block border rounded-md overflow-hidden hover:shadow-md transition-shadow bg-white ${compact ? 'w-32 flex-shrink-0' : ''}`}
+  >
+    <img src={product.image} alt={product.name} className={`w-full object-cover ${compact ? 'h-24' : 'h-32'}`} />
+    <div className="p-2">
+      <p className="text-sm font-medium line-clamp-2">{product.name}</p>
+      <p className="text-sm text-blue-600 font-semibold">₹{product.price.toLocaleString('en-IN')}</p>
+      {!compact && <p className="text-xs text-gray-500 truncate">{product.vendor.name}</p>}
+    </div>
+  </Link>
+);
+
+export default function VisualSearch({ onSelectCategory, className = '' }: VisualSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('pick');
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [uploadSize, setUploadSize] = useState<number | null>(null);
+  const [response, setResponse] = useState<ImageSearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const reset = () => {
+    setStep('pick');
+    setFile(null);
+    setPreviewUrl(null);
+    setCrop(FULL_CROP);
+    setUploadSize(null);
+    setResponse(null);
+    setError('');
+  };
+
+  const close = () => {
+    reset();
+    setOpen(false);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    if (!selected.type.startsWith('image/')) {
+      setError('Please choose a photo');
+      return;
+    }
+    if (selected.size > MAX_UPLOAD_SIZE) {
+      setError(`Photo is larger than ${formatFileSize(MAX_UPLOAD_SIZE)}`);
+      return;
+    }
+    setError('');
+    setFile(selected);
+    setPreviewUrl(URL.createObjectURL(selected));
+    setCrop(FULL_CROP);
+    setStep('crop');
+  };
+
+  // Pointer position as a fraction of the displayed image
+  const relativePoint = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = relativePoint(e);
+    setDragStart(point);
+    setCrop(cropFromPoints(point, point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setCrop(cropFromPoints(dragStart, relativePoint(e)));
+  };
+
+  const handlePointerUp = () => {
+    setDragStart(null);
+    setCrop(prev => isUsableCrop(prev) ? prev : FULL_CROP);
+  };
+
+  const runSearch = async () => {
+    if (!file) return;
+    setSearching(true);
+    setError('');
+    try {
+      const compressed = await cropAndCompress(file, crop);
+      setUploadSize(compressed.size);
+      console.log(`📷 Visual search: ${formatFileSize(file.size)} → ${formatFileSize(compressed.size)}`);
+      setResponse(await searchService.searchByImage(compressed));
+      setStep('results');
+    } catch (err: any) {
+      setError(err.message || 'Image search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const lowConfidence = response && SearchService.isLowConfidenceMatch(response);
+
+  const categoryChip = (category: string) => onSelectCategory ? (
+    <button
+      type="button"
+      key={category}
+      onClick={() => {
+        onSelectCategory(category);
+        close();
+      }}
+      className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm hover:bg-blue-100"
+    >
+      {category}
+    </button>
+  ) : (
+    <Link
+      key={category}
+      href={SearchService.buildSearchUrl({ filters: { category } })}
+      onClick={close}
+      className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm hover:bg-blue-100"
+    >
+      {category}
+    </Link>
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`text-gray-400 hover:text-indigo-600 ${className}`}
+        aria-label="Search by photo"
+        title="Search by photo"
+      >
+        <Camera size={20} />
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white max-w-3xl w-full rounded-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <div>
+                <h2 className="text-xl font-semibold">Search by photo</h2>
+                <p className="text-sm text-gray-600">Snap the part or machine to find sellers of the same item</p>
+              </div>
+              <button type="button" onClick={close} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-5">
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {step === 'pick' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer hover:border-indigo-400">
+                    <Camera className="w-8 h-8 text-gray-500" />
+                    <span className="font-medium">Take a photo</span>
+                    <input type="file" accept="image/*" capture="environment" onChange={handleFile} className="hidden" />
+                  </label>
+                  <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer hover:border-indigo-400">
+                    <Upload className="w-8 h-8 text-gray-500" />
+                    <span className="font-medium">Upload an image</span>
+                    <input type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFile} className="hidden" />
+                  </label>
+                </div>
+              )}
+
+              {step === 'crop' && previewUrl && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">Drag over the part to search just that area.</p>
+                  <div
+                    className="relative inline-block select-none touch-none cursor-crosshair"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                  >
+                    <img ref={imageRef} src={previewUrl} alt="Selected" className="max-h-[50vh] rounded-md" draggable={false} />
+                    {crop !== FULL_CROP && (
+                      <div
+                        className="absolute border-2 border-indigo-500 bg-indigo-500 bg-opacity-10 pointer-events-none"
+                        style={{
+                          left: `${crop.x * 100}%`,
+                          top: `${crop.y * 100}%`,
+                          width: `${crop.width * 100}%`,
+                          height: `${crop.height * 100}%`
+                        }}
+                      />
+                    )}
+                  </div>
+                  <div className="flex justify-between">
+                    <div className="flex gap-3">
+                      <button type="button" onClick={reset} className="text-sm text-gray-600 hover:underline">Choose another</button>
+                      {crop !== FULL_CROP && (
+                        <button type="button" onClick={() => setCrop(FULL_CROP)} className="text-sm text-gray-600 hover:underline">Use whole photo</button>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={runSearch}
+                      disabled={searching}
+                      className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                    >
+                      {searching ? 'Searching...' : 'Search'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {step === 'results' && response && (
+                <div className="space-y-5">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="text-sm text-gray-600">
+                      {response.detectedLabels.length > 0 && (
+                        <p>Looks like: <span className="font-medium text-gray-900">{response.detectedLabels.join(', ')}</span></p>
+                      )}
+                      {uploadSize !== null && file && (
+                        <p className="text-xs">Uploaded {formatFileSize(uploadSize)} (from {formatFileSize(file.size)})</p>
+                      )}
+                    </div>
+                    <button type="button" onClick={reset} className="text-sm text-indigo-600 hover:underline flex-shrink-0">New photo</button>
+                  </div>
+
+                  {lowConfidence && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                      <p className="text-sm text-yellow-800 mb-2">
+                        We couldn&apos;t identify this part with confidence. Try a closer crop, or browse these categories:
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {response.categorySuggestions.map(suggestion => categoryChip(suggestion.category))}
+                      </div>
+                    </div>
+                  )}
+
+                  {response.results.length > 0 && (
+                    <div>
+                      <h3 className="font-medium mb-2">{lowConfidence ? 'Possible matches' : 'Matching products'}</h3>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {response.results.slice(0, 8).map(product => <ResultCard key={product.id} product={product} />)}
+                      </div>
+                    </div>
+                  )}
+
+                  {response.similarItems.length > 0 && (
+                    <div>
+                      <h3 className="font-medium mb-2">Similar-looking items</h3>
+                      <div className="flex gap-3 overflow-x-auto pb-2">
+                        {response.similarItems.map(product => <ResultCard key={product.id} product={product} compact />)}
+                      </div>
+                    </div>
+                  )}
+
+                  {!lowConfidence && response.categorySuggestions.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-gray-600">Browse:</span>
+                      {response.categorySuggestions.slice(0, 4).map(suggestion => categoryChip(suggestion.category))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
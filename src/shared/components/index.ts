@@ -16,6 +16,7 @@ export { default as Avatar } from './Avatar';
 export { default as Navbar } from './Navbar';
 export { default as Footer } from './Footer';
 export { default as SearchBar } from './SearchBar';
+export { default as VisualSearch } from './VisualSearch';
 export { Filter } from './Filter';
 
 // Homepage Components
@@ -31,6 +32,12 @@ export { default as InquiryForm } from './InquiryForm';
 export { default as NotificationCenter } from './NotificationCenter';
 export { default as WishlistButton } from './WishlistButton';
 export { default as StarRating } from './StarRating';
+export { default as PriceSlabTable } from './PriceSlabTable';
+export { default as GstBreakup } from './GstBreakup';
+export { default as AgeingBuckets } from './AgeingBuckets';
+export { default as QuoteNegotiationThread } from './QuoteNegotiationThread';
+export { default as PurchaseOrderPanel } from './PurchaseOrderPanel';
+export { default as ReturnStatusTracker } from './ReturnStatusTracker';
 export { ChatbotToggle } from './Chatbot';
 // export { default as ReviewsSection } from '../../../components/reviews/ReviewsSection';
 
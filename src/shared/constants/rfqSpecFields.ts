@@ -0,0 +1,110 @@
+// Category-specific specification fields for the Post Requirement (RFQ) wizard
+
+export interface RfqSpecField {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'select' | 'multiselect';
+  options?: string[];
+  unit?: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+export const RFQ_UNITS = [
+  'Pieces', 'Units', 'Sets', 'Kg', 'Tonnes', 'Litres', 'Metres', 'Sq. Metres', 'Boxes', 'Rolls'
+];
+
+const CERTIFICATIONS = ['ISO 9001', 'ISI', 'BIS', 'CE', 'RoHS', 'UL'];
+
+const DIMENSION_FIELDS: RfqSpecField[] = [
+  { key: 'length', label: 'Length', type: 'number', unit: 'mm' },
+  { key: 'width', label: 'Width', type: 'number', unit: 'mm' },
+  { key: 'height', label: 'Height / Thickness', type: 'number', unit: 'mm' },
+];
+
+// Matched against the category name/slug; first match wins
+const CATEGORY_SPEC_FIELDS: Array<{ keywords: string[]; fields: RfqSpecField[] }> = [
+  {
+    keywords: ['steel', 'metal', 'pipe', 'building', 'construction'],
+    fields: [
+      { key: 'material', label: 'Material', type: 'select', options: ['Mild Steel', 'Stainless Steel', 'Galvanised Iron', 'Aluminium', 'Copper', 'Other'], required: true },
+      { key: 'grade', label: 'Grade', type: 'text', placeholder: 'e.g. SS 304, Fe 500D', required: true },
+      ...DIMENSION_FIELDS,
+      { key: 'finish', label: 'Surface Finish', type: 'select', options: ['Mill', 'Polished', 'Painted', 'Galvanised', 'Powder Coated'] },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: CERTIFICATIONS },
+    ],
+  },
+  {
+    keywords: ['machinery', 'machine', 'industrial', 'plant', 'pump'],
+    fields: [
+      { key: 'machineType', label: 'Machine Type', type: 'text', placeholder: 'e.g. Centrifugal pump', required: true },
+      { key: 'capacity', label: 'Capacity', type: 'text', placeholder: 'e.g. 500 LPM, 2 tonnes/hr', required: true },
+      { key: 'power', label: 'Power Rating', type: 'number', unit: 'kW' },
+      { key: 'voltage', label: 'Voltage', type: 'select', options: ['230V Single Phase', '415V Three Phase', 'Other'] },
+      { key: 'automation', label: 'Automation', type: 'select', options: ['Manual', 'Semi-Automatic', 'Fully Automatic'] },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: CERTIFICATIONS },
+    ],
+  },
+  {
+    keywords: ['electronic', 'electrical', 'equipment'],
+    fields: [
+      { key: 'productType', label: 'Product Type', type: 'text', required: true },
+      { key: 'voltage', label: 'Rated Voltage', type: 'number', unit: 'V' },
+      { key: 'current', label: 'Rated Current', type: 'number', unit: 'A' },
+      { key: 'brandPreference', label: 'Brand Preference', type: 'text', placeholder: 'Any / specific brands' },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: CERTIFICATIONS },
+    ],
+  },
+  {
+    keywords: ['textile', 'fabric', 'apparel', 'garment'],
+    fields: [
+      { key: 'fabric', label: 'Fabric / Material', type: 'text', placeholder: 'e.g. 100% cotton', required: true },
+      { key: 'gsm', label: 'GSM', type: 'number', unit: 'g/m²' },
+      { key: 'width', label: 'Width', type: 'number', unit: 'inch' },
+      { key: 'colour', label: 'Colour / Print', type: 'text' },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: ['GOTS', 'OEKO-TEX', 'ISO 9001'] },
+    ],
+  },
+  {
+    keywords: ['chemical', 'dye', 'solvent', 'pharma'],
+    fields: [
+      { key: 'chemicalName', label: 'Chemical Name / CAS No.', type: 'text', required: true },
+      { key: 'purity', label: 'Purity', type: 'number', unit: '%', required: true },
+      { key: 'form', label: 'Form', type: 'select', options: ['Powder', 'Liquid', 'Granules', 'Crystals', 'Gas'] },
+      { key: 'packaging', label: 'Packaging', type: 'text', placeholder: 'e.g. 25 kg HDPE bags' },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: ['ISO 9001', 'GMP', 'REACH', 'COA required'] },
+    ],
+  },
+  {
+    keywords: ['food', 'beverage', 'agri'],
+    fields: [
+      { key: 'productVariety', label: 'Product / Variety', type: 'text', required: true },
+      { key: 'quality', label: 'Quality Grade', type: 'select', options: ['Premium', 'A', 'B', 'Commercial'] },
+      { key: 'packaging', label: 'Packaging', type: 'text' },
+      { key: 'shelfLife', label: 'Minimum Shelf Life', type: 'number', unit: 'months' },
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: ['FSSAI', 'Organic', 'HACCP', 'ISO 22000'] },
+    ],
+  },
+  {
+    keywords: ['auto', 'mechanical', 'parts'],
+    fields: [
+      { key: 'partName', label: 'Part Name / Number', type: 'text', required: true },
+      { key: 'compatibility', label: 'Vehicle / Machine Compatibility', type: 'text' },
+      { key: 'material', label: 'Material', type: 'text' },
+      ...DIMENSION_FIELDS,
+      { key: 'certifications', label: 'Certifications', type: 'multiselect', options: CERTIFICATIONS },
+    ],
+  },
+];
+
+const DEFAULT_SPEC_FIELDS: RfqSpecField[] = [
+  { key: 'productType', label: 'Product / Service Type', type: 'text', required: true },
+  { key: 'specification', label: 'Key Specification', type: 'text', placeholder: 'Size, model, grade…' },
+  { key: 'certifications', label: 'Certifications', type: 'multiselect', options: CERTIFICATIONS },
+];
+
+export const getSpecFieldsForCategory = (category: { name: string; slug?: string }): RfqSpecField[] => {
+  const haystack = `${category.name} ${category.slug || ''}`.toLowerCase();
+  const match = CATEGORY_SPEC_FIELDS.find(entry => entry.keywords.some(keyword => haystack.includes(keyword)));
+  return match ? match.fields : DEFAULT_SPEC_FIELDS;
+};
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { shippingService, type ShippingProvider, type TrackingInfo } from '@/services/shippingService';
+
+// Statuses after which a shipment no longer changes
+export const TERMINAL_TRACKING_STATUSES = ['DELIVERED', 'CANCELLED', 'RETURNED', 'LOST'];
+
+export const DEFAULT_TRACKING_POLL_INTERVAL = 2 * 60 * 1000;
+
+export interface TrackedShipment {
+  trackingNumber: string;
+  provider?: ShippingProvider;
+}
+
+interface UseShipmentTrackingOptions {
+  pollInterval?: number;
+}
+
+const isTerminal = (info?: TrackingInfo) => !!info && TERMINAL_TRACKING_STATUSES.includes(info.currentStatus);
+
+/**
+ * Track one or more shipments and keep polling while any of them is still
+ * moving. Polling pauses while the tab is hidden and resumes when it's shown.
+ */
+export const useShipmentTracking = (shipments: TrackedShipment[], options: UseShipmentTrackingOptions = {}) => {
+  const { pollInterval = DEFAULT_TRACKING_POLL_INTERVAL } = options;
+  const [tracking, setTracking] = useState<Record<string, TrackingInfo>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const trackingRef = useRef(tracking);
+
+  // Callers usually pass a fresh array each render; polling restarts only when the shipments themselves change
+  const key = JSON.stringify(shipments.map(shipment => [shipment.provider || '', shipment.trackingNumber]));
+  const tracked = useMemo<TrackedShipment[]>(
+    () => (JSON.parse(key) as string[][]).map(([provider, trackingNumber]) => ({
+      trackingNumber,
+      provider: (provider || undefined) as ShippingProvider | undefined
+    })),
+    [key]
+  );
+
+  const refresh = useCallback(async () => {
+    const pending = tracked.filter(shipment => !isTerminal(trackingRef.current[shipment.trackingNumber]));
+    // Everything already delivered or closed; still clear the spinner set when the shipment list changed
+    if (pending.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    const results: Record<string, TrackingInfo> = {};
+    const failures: Record<string, string> = {};
+
+    if (pending.length > 1) {
+      try {
+        (await shippingService.trackMultipleShipments(pending.map(shipment => shipment.trackingNumber)))
+          .forEach(info => { results[info.trackingNumber] = info; });
+      } catch (error: any) {
+        pending.forEach(shipment => { failures[shipment.trackingNumber] = error.message || 'Failed to track shipment'; });
+      }
+    } else {
+      const [shipment] = pending;
+      try {
+        results[shipment.trackingNumber] = await shippingService.trackShipment(shipment.trackingNumber, shipment.provider);
+      } catch (error: any) {
+        failures[shipment.trackingNumber] = error.message || 'Failed to track shipment';
+      }
+    }
+
+    trackingRef.current = { ...trackingRef.current, ...results };
+    setTracking(trackingRef.current);
+    setErrors(prev => {
+      const next = { ...prev, ...failures };
+      Object.keys(results).forEach(trackingNumber => delete next[trackingNumber]);
+      return next;
+    });
+    setLastUpdated(new Date());
+    setLoading(false);
+  }, [tracked]);
+
+  useEffect(() => {
+    if (tracked.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const start = () => {
+      if (timer) return;
+      timer = setInterval(() => {
+        if (tracked.every(shipment => isTerminal(trackingRef.current[shipment.trackingNumber]))) {
+          stop();
+          return;
+        }
+        refresh();
+      }, pollInterval);
+    };
+    const stop = () => {
+      clearInterval(timer);
+      timer = undefined;
+    };
+    const handleVisibility = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        refresh();
+        start();
+      }
+    };
+
+    setLoading(true);
+    refresh();
+    start();
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [tracked, refresh, pollInterval]);
+
+  return { tracking, errors, loading, lastUpdated, refresh };
+};
@@ -1,16 +1,31 @@
 import { api } from '@/lib/api';
 
+export type NotificationType = 'INQUIRY' | 'QUOTE' | 'QUOTE_ACCEPTED' | 'QUOTE_COUNTERED' | 'QUOTE_REVISED' | 'QUOTE_EXPIRED' | 'ORDER' | 'ORDER_UPDATE' | 'SHIPMENT_UPDATE' | 'SEARCH_ALERT' | 'PAYMENT' | 'KYC_UPDATE' | 'MESSAGE' | 'SUPPORT_TICKET' | 'REVIEW' | 'SUBSCRIPTION' | 'SYSTEM';
+
 export interface INotification {
   id: number;
   title: string;
   message: string;
-  type: 'INQUIRY' | 'QUOTE' | 'QUOTE_ACCEPTED' | 'ORDER' | 'ORDER_UPDATE' | 'PAYMENT' | 'KYC_UPDATE' | 'MESSAGE' | 'SUPPORT_TICKET' | 'REVIEW' | 'SUBSCRIPTION' | 'SYSTEM';
+  type: NotificationType;
   relatedEntityId?: string;
   isRead: boolean;
   createdAt: string;
   readAt?: string;
 }
 
+// Fired on window with the notification as detail, so NotificationCenter shows
+// entries raised in this tab without waiting for the socket
+export const NOTIFICATION_CREATED_EVENT = 'notification:created';
+
+export interface CreateNotificationRequest {
+  recipientId: number;
+  recipientType: 'USER' | 'VENDOR';
+  title: string;
+  message: string;
+  type: NotificationType;
+  relatedEntityId?: string;
+}
+
 export interface NotificationSummary {
   unreadCount: number;
   totalCount: number;
@@ -26,6 +41,12 @@ class NotificationApiService {
     return response.data;
   }
 
+  // Notify another user, e.g. the other side of a quote negotiation
+  async createNotification(data: CreateNotificationRequest): Promise<INotification> {
+    const response = await api.post('/api/notifications', data);
+    return response.data;
+  }
+
   // Mark notification as read
   async markAsRead(notificationId: number): Promise<void> {
     await api.post(`/api/notifications/${notificationId}/read`);
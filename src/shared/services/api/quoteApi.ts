@@ -1,18 +1,58 @@
 import { API_CONFIG, apiRequest } from '@/config/api';
 
+// COUNTERED = buyer made a counter-offer, REVISED = vendor replied with a new version
+export type QuoteStatus = 'PENDING' | 'SHORTLISTED' | 'COUNTERED' | 'REVISED' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED';
+
+export type QuoteParty = 'BUYER' | 'VENDOR';
+
+// Terms that can change between quote versions
+export interface QuoteTerms {
+  price?: number; // per unit
+  quantity?: number;
+  deliveryTime?: string;
+  paymentTerms?: string;
+}
+
+// One entry in a quote's negotiation history; version 1 is the vendor's original quote
+export interface QuoteRevision extends QuoteTerms {
+  id: number;
+  quoteId: number;
+  version: number;
+  author: QuoteParty;
+  message?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface CounterOfferRequest extends QuoteTerms {
+  message?: string;
+}
+
+export interface QuoteRevisionRequest extends QuoteTerms {
+  message?: string;
+  expiresAt: string;
+}
+
 export interface Quote {
   id: number;
   vendorId: number;
   inquiryId: number;
   response: string;
-  price?: number;
+  price?: number; // per unit
   currency?: string;
   quantity?: number;
   deliveryTime?: string;
   paymentTerms?: string;
   validityPeriod?: string;
   additionalNotes?: string;
+  shippingWeight?: number; // kg, for the full quoted quantity
   isAccepted: boolean;
+  status?: QuoteStatus;
+  rejectionReason?: string;
+  version?: number;
+  // After this the quote lapses and can no longer be accepted or countered
+  expiresAt?: string;
+  buyerId?: number;
   createdAt: string;
   updatedAt?: string;
   vendor?: {
@@ -20,11 +60,15 @@ export interface Quote {
     name: string;
     businessName: string;
     email: string;
+    gstNumber?: string;
   };
   inquiry?: {
     id: number;
     message: string;
+    productId?: number;
     productName?: string;
+    unit?: string;
+    hsnCode?: string;
   };
 }
 
@@ -62,6 +106,10 @@ class QuoteApiService {
     return apiRequest<Quote[]>(`/api/quotes/inquiry/${inquiryId}`, {}, true);
   }
 
+  async getQuoteById(quoteId: number): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}`, {}, true);
+  }
+
   async getUserQuotes(userId: number): Promise<Quote[]> {
     return apiRequest<Quote[]>(`/api/quotes/user/${userId}`, {}, true);
   }
@@ -72,6 +120,53 @@ class QuoteApiService {
     }, true);
   }
 
+  async shortlistQuote(quoteId: number): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/shortlist`, {
+      method: 'PUT',
+    }, true);
+  }
+
+  async removeFromShortlist(quoteId: number): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/shortlist`, {
+      method: 'DELETE',
+    }, true);
+  }
+
+  async rejectQuote(quoteId: number, reason: string): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/reject`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    }, true);
+  }
+
+  // ========== NEGOTIATION ==========
+
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return apiRequest<QuoteRevision[]>(`/api/quotes/${quoteId}/revisions`, {}, true);
+  }
+
+  // Buyer proposes different terms
+  async counterOffer(quoteId: number, data: CounterOfferRequest): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/counter`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, true);
+  }
+
+  // Vendor issues a new version of the quote
+  async reviseQuote(quoteId: number, data: QuoteRevisionRequest): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/revisions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, true);
+  }
+
+  async expireQuote(quoteId: number): Promise<Quote> {
+    return apiRequest<Quote>(`/api/quotes/${quoteId}/expire`, {
+      method: 'PUT',
+    }, true);
+  }
+
   async deleteQuote(quoteId: number): Promise<any> {
     return apiRequest(`/api/quotes/${quoteId}`, {
       method: 'DELETE',
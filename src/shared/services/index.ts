@@ -26,6 +26,18 @@ export { inquiryQuoteAPI } from './inquiryQuoteApi';
 export { inquiryQuoteAPI as quoteAPI } from './inquiryQuoteApi';
 export type { CreateInquiryDto, CreateQuoteDto, Inquiry, InquiryFilters, Quote, QuoteFilters } from './inquiryQuoteApi';
 
+// RFQ (structured requirements)
+export { rfqAPI, toVendorMatchRequirement } from './rfqApi';
+export type { CreateRfqDto, Rfq, RfqAttachment, RfqFilters, RfqSpecValue, RfqStatus } from './rfqApi';
+
+// Purchase orders (from accepted quotes)
+export { purchaseOrderAPI, buildPurchaseOrderDraft, generatePoNumber } from './purchaseOrderApi';
+export type { PurchaseOrder, PurchaseOrderDraft, PurchaseOrderLine, PurchaseOrderStatus } from './purchaseOrderApi';
+
+// Returns & RTO
+export { returnAPI, buildReturnDraft } from './returnApi';
+export type { CreateReturnDto, ReturnHistoryEntry, ReturnLine, ReturnPhoto, ReturnRefund, ReturnRequest } from './returnApi';
+
 // Order Management
 export { orderAPI } from './orderApi';
 export type { CreateOrderDto, Order, OrderFilters, OrderItem, OrderStatusUpdate } from './orderApi';
@@ -1,4 +1,5 @@
 import { api } from './api';
+import type { PaymentSchedule } from '@/services/paymentService';
 
 export interface OrderItem {
   id: number;
@@ -52,6 +53,8 @@ export interface Order {
   updatedAt: string;
   estimatedDelivery?: string;
   trackingNumber?: string;
+  // Staged payments for large orders; absent when paid in one go
+  paymentSchedule?: PaymentSchedule;
   user: {
     id: number;
     name: string;
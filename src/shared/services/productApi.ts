@@ -1,5 +1,6 @@
 import { api } from './api';
 import { MOCK_MODE, mockDelay, mockResponses } from './mockMode';
+import type { PriceSlab } from '@/shared/types';
 
 export interface Product {
   id: number;
@@ -24,6 +25,7 @@ export interface Product {
   height?: number;
   freeShipping?: boolean;
   shippingCharge?: number;
+  priceSlabs?: PriceSlab[];
   isActive?: boolean;
   isApproved?: boolean;
   isFeatured?: boolean;
@@ -79,6 +81,7 @@ export interface ProductDto {
   height?: number;
   freeShipping?: boolean;
   shippingCharge?: number;
+  priceSlabs?: PriceSlab[];
   isActive?: boolean;
 }
 
@@ -337,6 +340,12 @@ export const productAPI = {
     }
   },
 
+  updateProductPriceSlabs: async (id: string, priceSlabs: PriceSlab[]): Promise<Product> => {
+    console.log(`💰 Updating price slabs for product ${id}:`, priceSlabs.length);
+    const response = await api.put(`/api/products/${id}/price-slabs`, priceSlabs);
+    return response.data;
+  },
+
   // Admin endpoints
   approveProduct: async (id: number): Promise<Product> => {
     const response = await api.patch(`/api/products/${id}/approve`);
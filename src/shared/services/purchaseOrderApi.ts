@@ -0,0 +1,151 @@
+import { api } from './api';
+import { quoteApi, type Quote } from './api/quoteApi';
+import { taxService } from '@/services/taxService';
+
+export type PurchaseOrderStatus = 'ISSUED' | 'ORDERED' | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  productId?: number;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number; // negotiated, locked for checkout
+  taxRate: number;
+  taxAmount: number;
+  lineTotal: number; // incl. tax
+}
+
+export interface PurchaseOrderDraft {
+  poNumber: string;
+  quoteId: number;
+  inquiryId: number;
+  vendorId: number;
+  vendorName: string;
+  vendorGstin?: string;
+  buyerId?: number;
+  issueDate: string;
+  lines: PurchaseOrderLine[];
+  subtotal: number;
+  taxTotal: number;
+  grandTotal: number;
+  currency: string;
+  paymentTerms?: string;
+  deliveryTerms?: string;
+  notes?: string;
+}
+
+export interface PurchaseOrder extends PurchaseOrderDraft {
+  id: number;
+  status: PurchaseOrderStatus;
+  orderId?: number;
+  orderNumber?: string;
+  createdAt: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// One PO per quote, so the quote id makes the number unique: PO-20261019-000123
+export const generatePoNumber = (quoteId: number, issueDate = new Date()) =>
+  `PO-${issueDate.toISOString().slice(0, 10).replace(/-/g, '')}-${String(quoteId).padStart(6, '0')}`;
+
+/**
+ * Build the purchase order for an accepted quote using its negotiated terms.
+ * `gstRate` (%) is the backend's rate for the inquiry's HSN code.
+ */
+export const buildPurchaseOrderDraft = (quote: Quote, gstRate: number | undefined, issueDate = new Date()): PurchaseOrderDraft => {
+  if (quote.price === undefined) {
+    throw new Error('Quote has no price and cannot be converted into a purchase order');
+  }
+  if (gstRate === undefined) {
+    throw new Error(
+      quote.inquiry?.hsnCode
+        ? `No GST rate is on file for HSN ${quote.inquiry.hsnCode}, so the purchase order can't be issued yet`
+        : 'The inquiry has no HSN code, so GST for the purchase order can\'t be worked out'
+    );
+  }
+
+  const quantity = quote.quantity ?? 1;
+  const net = round2(quote.price * quantity);
+  const taxRate = gstRate / 100;
+  const taxAmount = round2(net * taxRate);
+  const line: PurchaseOrderLine = {
+    productId: quote.inquiry?.productId,
+    description: quote.inquiry?.productName || quote.response || `Quote #${quote.id}`,
+    hsnCode: quote.inquiry?.hsnCode,
+    quantity,
+    unit: quote.inquiry?.unit,
+    unitPrice: quote.price,
+    taxRate,
+    taxAmount,
+    lineTotal: round2(net + taxAmount),
+  };
+
+  return {
+    poNumber: generatePoNumber(quote.id, issueDate),
+    quoteId: quote.id,
+    inquiryId: quote.inquiryId,
+    vendorId: quote.vendorId,
+    vendorName: quote.vendor?.businessName || quote.vendor?.name || `Vendor #${quote.vendorId}`,
+    vendorGstin: quote.vendor?.gstNumber,
+    buyerId: quote.buyerId,
+    issueDate: issueDate.toISOString(),
+    lines: [line],
+    subtotal: net,
+    taxTotal: taxAmount,
+    grandTotal: line.lineTotal,
+    currency: quote.currency || 'INR',
+    paymentTerms: quote.paymentTerms,
+    deliveryTerms: quote.deliveryTime,
+    notes: quote.additionalNotes,
+  };
+};
+
+// Purchase Order API functions
+export const purchaseOrderAPI = {
+  // Issue a PO for an accepted quote
+  create: async (data: PurchaseOrderDraft): Promise<PurchaseOrder> => {
+    const response = await api.post('/api/purchase-orders', data);
+    return response.data;
+  },
+
+  // Get PO by ID
+  getById: async (id: number): Promise<PurchaseOrder> => {
+    const response = await api.get(`/api/purchase-orders/${id}`);
+    return response.data;
+  },
+
+  // Get the PO issued for a quote, if any
+  getByQuote: async (quoteId: number): Promise<PurchaseOrder | null> => {
+    try {
+      const response = await api.get(`/api/purchase-orders/quote/${quoteId}`);
+      return response.data;
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  },
+
+  // Record the order placed against the PO
+  linkOrder: async (id: number, orderId: number): Promise<PurchaseOrder> => {
+    const response = await api.patch(`/api/purchase-orders/${id}/order`, { orderId });
+    return response.data;
+  },
+
+  // Download PO as PDF (available to buyer and vendor)
+  downloadPdf: async (id: number): Promise<Blob> => {
+    const response = await api.get(`/api/purchase-orders/${id}/pdf`, {
+      responseType: 'blob'
+    });
+    return response.data;
+  },
+
+  // Fetch the accepted quote and issue its PO; returns the existing PO if one was already issued
+  issueForQuote: async (quoteId: number): Promise<PurchaseOrder> => {
+    const existing = await purchaseOrderAPI.getByQuote(quoteId);
+    if (existing) return existing;
+    const quote = await quoteApi.getQuoteById(quoteId);
+    const hsnRate = quote.inquiry?.hsnCode ? await taxService.getHsnRate(quote.inquiry.hsnCode) : null;
+    return purchaseOrderAPI.create(buildPurchaseOrderDraft(quote, hsnRate?.gstRate));
+  }
+};
@@ -0,0 +1,197 @@
+import { api } from './api';
+import type { Order } from '@/services/orderService';
+import { shippingService, type ShippingAddress, type ShippingLabel, type ShippingProvider } from '@/services/shippingService';
+import {
+  type ReturnAction,
+  type ReturnParty,
+  type ReturnReason,
+  type ReturnStatus,
+  type ReturnKind
+} from '@/shared/utils/returns';
+
+export interface ReturnPhoto {
+  fileId: string;
+  url: string;
+  fileName: string;
+}
+
+export interface ReturnLine {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface ReturnHistoryEntry {
+  status: ReturnStatus;
+  action?: ReturnAction;
+  party: ReturnParty;
+  note?: string;
+  timestamp: string;
+}
+
+export interface ReturnRefund {
+  refundId?: string;
+  amount: number;
+  status: 'pending' | 'processed' | 'failed' | 'manual';
+  error?: string;
+  processedAt?: string;
+}
+
+export interface ReturnRequest {
+  id: number;
+  returnNumber: string;
+  type: ReturnKind;
+  status: ReturnStatus;
+  orderId: number;
+  orderNumber: string;
+  vendorId?: number;
+  buyerId?: number;
+  buyerName?: string;
+  lines: ReturnLine[];
+  reason: ReturnReason;
+  comment?: string;
+  photos: ReturnPhoto[];
+  refundAmount: number;
+  paymentId?: string; // gateway payment to refund; absent for COD orders
+  pickupAddress?: ShippingAddress; // where the reverse pickup collects from
+  reverseLabel?: ShippingLabel;
+  refund?: ReturnRefund;
+  rejectionReason?: string;
+  history: ReturnHistoryEntry[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// The server prices the refund, finds the payment and sets the status from the order itself
+export interface CreateReturnDto {
+  type: ReturnKind;
+  orderId: number;
+  lines: Array<Pick<ReturnLine, 'productId' | 'quantity'>>;
+  reason: ReturnReason;
+  comment?: string;
+  photos: ReturnPhoto[];
+}
+
+// Only the action is sent: the server works out who is acting from the session
+// and checks the move against its own copy of the state machine
+export interface ReturnTransitionDto {
+  action: ReturnAction;
+  note?: string;
+  reverseLabel?: ShippingLabel;
+  rejectionReason?: string;
+}
+
+export const buildReturnDraft = (
+  order: Order,
+  quantities: Record<number, number>,
+  reason: ReturnReason,
+  comment: string,
+  photos: ReturnPhoto[],
+  type: ReturnKind = 'RETURN'
+): CreateReturnDto => {
+  const lines = order.items
+    .filter(item => (quantities[item.productId] ?? 0) > 0)
+    .map(item => ({
+      productId: item.productId,
+      quantity: Math.min(quantities[item.productId], item.quantity),
+    }));
+
+  return {
+    type,
+    orderId: order.id,
+    lines,
+    reason,
+    comment: comment.trim() || undefined,
+    photos,
+  };
+};
+
+export const returnAPI = {
+  create: async (data: CreateReturnDto): Promise<ReturnRequest> => {
+    const response = await api.post('/api/returns', data);
+    return response.data;
+  },
+
+  // Buyer's own returns
+  getMine: async (): Promise<ReturnRequest[]> => {
+    const response = await api.get('/api/returns/my');
+    return response.data;
+  },
+
+  // Returns and RTOs against the logged-in vendor's orders
+  getVendorReturns: async (): Promise<ReturnRequest[]> => {
+    const response = await api.get('/api/returns/vendor');
+    return response.data;
+  },
+
+  getById: async (id: number): Promise<ReturnRequest> => {
+    const response = await api.get(`/api/returns/${id}`);
+    return response.data;
+  },
+
+  // Ask the server to apply an action; it rejects moves the caller isn't allowed to make
+  transition: async (
+    request: ReturnRequest,
+    action: ReturnAction,
+    details: Omit<ReturnTransitionDto, 'action'> = {}
+  ): Promise<ReturnRequest> => {
+    console.log(`🔄 Return ${request.returnNumber}: ${action}`);
+    const response = await api.post(`/api/returns/${request.id}/transitions`, { action, ...details });
+    return response.data;
+  },
+
+  // Reverse label from the buyer's address back to the vendor's pickup address
+  schedulePickup: async (
+    request: ReturnRequest,
+    returnAddress: ShippingAddress,
+    provider: ShippingProvider = 'DELHIVERY'
+  ): Promise<ReturnRequest> => {
+    if (!request.pickupAddress) {
+      throw new Error('This return has no pickup address');
+    }
+    const label = await shippingService.createShippingLabel(
+      request.returnNumber,
+      request.pickupAddress,
+      returnAddress,
+      {
+        length: 0,
+        width: 0,
+        height: 0,
+        weight: request.lines.reduce((sum, line) => sum + line.quantity * 0.5, 0),
+        value: request.refundAmount,
+        description: `Return ${request.returnNumber}: ${request.lines.map(line => line.productName).join(', ')}`.slice(0, 100),
+      },
+      provider,
+      'REVERSE_PICKUP'
+    );
+    return returnAPI.transition(request, 'SCHEDULE_PICKUP', {
+      reverseLabel: label,
+      note: `${label.provider} reverse pickup ${label.trackingNumber}`,
+    });
+  },
+
+  /**
+   * Record that the goods are back. The server refunds the buyer on receipt -
+   * or closes a COD RTO that was never paid for - so no refund is started here.
+   */
+  receive: async (request: ReturnRequest): Promise<ReturnRequest> =>
+    returnAPI.transition(request, 'MARK_RECEIVED'),
+
+  /**
+   * Retry a refund the gateway declined. The return number is the idempotency
+   * key, so the server never refunds the same return twice.
+   */
+  retryRefund: async (request: ReturnRequest): Promise<ReturnRequest> => {
+    const response = await api.post(`/api/returns/${request.id}/refund/retry`, null, {
+      headers: { 'Idempotency-Key': `refund-${request.returnNumber}` }
+    });
+    return response.data;
+  },
+
+  // The server reads the carrier's tracking and advances the return itself
+  syncReverseShipment: async (request: ReturnRequest): Promise<ReturnRequest> => {
+    const response = await api.post(`/api/returns/${request.id}/tracking/sync`);
+    return response.data;
+  },
+};
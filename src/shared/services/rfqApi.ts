@@ -0,0 +1,98 @@
+import { api } from './api';
+import type { VendorMatchRequirement } from '@/services/aiRecommendationService';
+
+export type RfqStatus = 'OPEN' | 'QUOTED' | 'AWARDED' | 'CLOSED' | 'EXPIRED';
+
+// Category-specific spec value, e.g. { grade: 'SS 304' } or { certifications: ['ISI', 'CE'] }
+export type RfqSpecValue = string | string[];
+
+export interface RfqAttachment {
+  fileId: string;
+  url: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+}
+
+export interface CreateRfqDto {
+  title: string;
+  description?: string;
+  categoryId: number;
+  categoryName: string;
+  subCategoryId?: number;
+  subCategoryName?: string;
+  specifications: Record<string, RfqSpecValue>;
+  // Labels for the spec keys so vendors see "Grade", not "grade"
+  specificationLabels: Record<string, string>;
+  quantity: number;
+  unit: string;
+  targetPrice?: number; // per unit, INR
+  deliveryPincode: string;
+  deliveryDeadline: string; // ISO date
+  attachments: RfqAttachment[];
+}
+
+export interface Rfq extends CreateRfqDto {
+  id: number;
+  rfqNumber: string;
+  status: RfqStatus;
+  quoteCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RfqFilters {
+  status?: RfqStatus;
+  page?: number;
+  size?: number;
+}
+
+/**
+ * Flatten an RFQ into the shape the vendor-matching endpoint understands.
+ */
+export const toVendorMatchRequirement = (rfq: CreateRfqDto): VendorMatchRequirement => ({
+  category: rfq.categoryName,
+  subCategory: rfq.subCategoryName,
+  budget: rfq.targetPrice ? rfq.targetPrice * rfq.quantity : undefined,
+  location: rfq.deliveryPincode,
+  quantity: rfq.quantity,
+  unit: rfq.unit,
+  specifications: Object.entries(rfq.specifications)
+    .filter(([, value]) => (Array.isArray(value) ? value.length > 0 : value !== ''))
+    .map(([key, value]) =>
+      `${rfq.specificationLabels[key] || key}: ${Array.isArray(value) ? value.join(', ') : value}`
+    ),
+  timeline: rfq.deliveryDeadline,
+});
+
+// RFQ (structured requirement) API functions
+export const rfqAPI = {
+  // Post a new requirement
+  create: async (data: CreateRfqDto): Promise<Rfq> => {
+    const response = await api.post('/api/rfqs', data);
+    return response.data;
+  },
+
+  // Get RFQ by ID
+  getById: async (id: number): Promise<Rfq> => {
+    const response = await api.get(`/api/rfqs/${id}`);
+    return response.data;
+  },
+
+  // Get RFQs posted by the logged-in buyer
+  getMyRfqs: async (filters?: RfqFilters): Promise<{
+    content: Rfq[];
+    totalElements: number;
+    totalPages: number;
+    number: number;
+  }> => {
+    const response = await api.get('/api/rfqs/buyer', { params: filters });
+    return response.data;
+  },
+
+  // Close an RFQ so no more quotes are accepted
+  close: async (id: number): Promise<Rfq> => {
+    const response = await api.patch(`/api/rfqs/${id}/close`);
+    return response.data;
+  }
+};
@@ -59,6 +59,7 @@ export interface Product {
   vendorId: number;
   attributes?: ProductAttribute[];
   variants?: ProductVariant[];
+  priceSlabs?: PriceSlab[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -80,6 +81,8 @@ export interface ProductDto extends Product {
   height?: number;
   freeShipping?: boolean;
   shippingCharge?: number;
+  hsnCode?: string;
+  gstRate?: number; // %, overrides the HSN rate
 }
 
 export interface ProductAttribute {
@@ -88,6 +91,13 @@ export interface ProductAttribute {
   value: string;
 }
 
+// Quantity-slab (bulk) pricing - maxQuantity is omitted on the open-ended top slab
+export interface PriceSlab {
+  minQuantity: number;
+  maxQuantity?: number;
+  price: number;
+}
+
 export interface ProductVariant {
   id: string;
   name: string;
@@ -0,0 +1,214 @@
+/**
+ * 🔤 Fuzzy & Transliterated Matching
+ *
+ * Folds English, romanised Hindi ("loha", "kapda") and Devanagari ("पाइप")
+ * into one phonetic form so the local search index can match across scripts
+ * and survive typos.
+ */
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+};
+
+// Consonants that change sound with a nukta (़)
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f',
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo',
+  'ऋ': 'ri', 'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o',
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+const VIRAMA = '्';
+const NUKTA = '़';
+const NASALS: Record<string, string> = { 'ं': 'n', 'ँ': 'n', 'ः': 'h' };
+
+// Common trade words buyers type in Hindi, keyed by their folded form
+const HINDI_TRADE_TERMS: Record<string, string> = {
+  loha: 'iron',
+  ispat: 'steel',
+  tar: 'wire',
+  kapda: 'fabric',
+  kapra: 'fabric',
+  daga: 'thread',
+  bij: 'seeds',
+  kad: 'fertilizer',
+  dava: 'medicine',
+  davai: 'medicine',
+  chaval: 'rice',
+  gehu: 'wheat',
+  tel: 'oil',
+  rang: 'paint',
+  lakdi: 'wood',
+  lakri: 'wood',
+  kagaj: 'paper',
+  jute: 'jute',
+  bijli: 'electrical',
+  masin: 'machine',
+  panp: 'pump',
+  pamp: 'pump',
+  paip: 'pipe',
+};
+
+const DEVANAGARI = /[\u0900-\u097F]/;
+
+interface Segment {
+  kind: 'consonant' | 'vowel';
+  text: string;
+  inherent?: boolean; // the implicit "a" after a bare consonant
+}
+
+function toSegments(word: string): Segment[] {
+  const chars = Array.from(word);
+  const segments: Segment[] = [];
+
+  chars.forEach((char, index) => {
+    const consonant = CONSONANTS[char];
+    if (consonant) {
+      const hasNukta = chars[index + 1] === NUKTA;
+      segments.push({ kind: 'consonant', text: hasNukta ? NUKTA_CONSONANTS[char] ?? consonant : consonant });
+      const following = chars[index + (hasNukta ? 2 : 1)];
+      if (following !== VIRAMA && !MATRAS[following]) {
+        segments.push({ kind: 'vowel', text: 'a', inherent: true });
+      }
+    } else if (VOWELS[char] || MATRAS[char]) {
+      segments.push({ kind: 'vowel', text: VOWELS[char] ?? MATRAS[char] });
+    } else if (NASALS[char]) {
+      segments.push({ kind: 'consonant', text: NASALS[char] });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Devanagari to Latin. Hindi drops the inherent "a" at the end of a word and
+ * between consonants that have vowels on both sides (कपड़ा → kapraa, not kaparaa).
+ */
+export function transliterate(text: string): string {
+  if (!DEVANAGARI.test(text)) return text;
+
+  return text.normalize('NFC').replace(/[\u0900-\u097F]+/g, word => {
+    const segments = toSegments(word);
+    const last = segments[segments.length - 1];
+    if (segments.length > 2 && last.inherent) segments.pop();
+
+    const isVowel = (index: number) => segments[index]?.kind === 'vowel';
+    const isConsonant = (index: number) => segments[index]?.kind === 'consonant';
+    for (let i = 2; i < segments.length - 2; i++) {
+      if (segments[i].inherent && isVowel(i - 2) && isConsonant(i - 1) && isConsonant(i + 1) && isVowel(i + 2)) {
+        segments.splice(i, 1);
+      }
+    }
+    return segments.map(segment => segment.text).join('');
+  });
+}
+
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/chh/g, 'ch'],
+  [/ph/g, 'f'],
+  [/(k|g|b|d|t|j)h/g, '$1'],
+  [/sh/g, 's'],
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/z/g, 'j'],
+  [/w/g, 'v'],
+  [/ee|ea/g, 'i'],
+  [/oo/g, 'u'],
+  [/(.)\1+/g, '$1'],
+  [/y\b/g, 'i'],
+];
+
+// One spelling per sound, so "kapda", "kapra", "कपड़ा" and "capda" land close together
+export function phoneticFold(word: string): string {
+  return PHONETIC_RULES.reduce((folded, [pattern, replacement]) => folded.replace(pattern, replacement), word);
+}
+
+// Folded words, each with its English equivalent when it's a known Hindi trade term
+export function tokenizeQuery(text: string): string[][] {
+  return transliterate(text)
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => {
+      const folded = phoneticFold(word);
+      const english = HINDI_TRADE_TERMS[folded];
+      return english ? [folded, phoneticFold(english)] : [folded];
+    });
+}
+
+// Flat token list for indexing a name, aliases included
+export const tokenizeForSearch = (text: string): string[] => Array.from(new Set(tokenizeQuery(text).flat()));
+
+// Levenshtein distance, giving up once it exceeds max
+export function editDistance(a: string, b: string, max = 2): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed for a word of this length
+const allowedTypos = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+function scoreToken(queryToken: string, target: string, isLastToken: boolean): number {
+  if (target === queryToken) return 1;
+  // The word still being typed only has to start a target word
+  if (isLastToken && target.startsWith(queryToken)) return 0.9;
+  if (target.startsWith(queryToken) && queryToken.length >= 3) return 0.8;
+
+  const typos = allowedTypos(queryToken.length);
+  if (typos === 0) return 0;
+  const compared = isLastToken ? target.slice(0, queryToken.length + typos) : target;
+  const distance = Math.min(editDistance(queryToken, target, typos), editDistance(queryToken, compared, typos));
+  return distance <= typos ? 0.7 - distance * 0.15 : 0;
+}
+
+/**
+ * How well a query (from tokenizeQuery) matches a target's tokens, 0-1.
+ * Every query word has to match some target token for a non-zero score.
+ */
+export function scoreTokens(queryWords: string[][], targetTokens: string[]): number {
+  if (queryWords.length === 0 || targetTokens.length === 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i < queryWords.length; i++) {
+    const isLast = i === queryWords.length - 1;
+    const best = Math.max(...queryWords[i].flatMap(alternative =>
+      targetTokens.map(target => scoreToken(alternative, target, isLast))
+    ));
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  // Prefer targets that are mostly made up of what was typed
+  const coverage = Math.min(1, queryWords.length / targetTokens.length);
+  return (total / queryWords.length) * (0.85 + 0.15 * coverage);
+}
@@ -0,0 +1,195 @@
+/**
+ * 🧾 GST Utilities
+ *
+ * The CGST+SGST / IGST split for Indian supplies of goods. Rates come from the
+ * backend's product and HSN data; a line without one is flagged, never guessed.
+ */
+
+export type SupplyType = 'INTRA_STATE' | 'INTER_STATE';
+
+// GST state codes - the first two digits of every GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export interface GstLineInput {
+  id: string;
+  description?: string;
+  taxableValue: number; // net of discounts, excl. tax
+  hsnCode?: string;
+  gstRate?: number; // %, as served by the backend for the line's HSN code
+}
+
+export interface GstLine extends GstLineInput {
+  rate: number;
+  rateMissing?: boolean; // no rate on file - the line is left untaxed and must be fixed
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export interface GstRateSummary {
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface GstParties {
+  supplierGstin?: string;
+  supplierState?: string;
+  buyerGstin?: string;
+  // State the goods are delivered to; falls back to the buyer GSTIN's state
+  placeOfSupply?: string;
+}
+
+export interface GstBreakup {
+  supplyType: SupplyType;
+  supplierStateCode?: string;
+  placeOfSupplyCode?: string;
+  lines: GstLine[];
+  byRate: GstRateSummary[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  grandTotal: number;
+  // Lines with no GST rate on file; tax and invoices are incomplete until these are fixed
+  missingRateLineIds: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalise = (value: string) => value.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+export function isValidGstin(gstin?: string): boolean {
+  return !!gstin && GSTIN_PATTERN.test(gstin.trim().toUpperCase()) && !!GST_STATE_CODES[gstin.trim().slice(0, 2)];
+}
+
+export function getStateCodeFromGstin(gstin?: string): string | undefined {
+  return isValidGstin(gstin) ? gstin!.trim().slice(0, 2) : undefined;
+}
+
+// Accepts a state code ("27") or a state name ("Maharashtra", "tamil nadu")
+export function getStateCode(state?: string): string | undefined {
+  if (!state) return undefined;
+  const trimmed = state.trim();
+  if (/^\d{1,2}$/.test(trimmed)) {
+    const code = trimmed.padStart(2, '0');
+    return GST_STATE_CODES[code] ? code : undefined;
+  }
+  const wanted = normalise(trimmed);
+  return Object.keys(GST_STATE_CODES).find(code => normalise(GST_STATE_CODES[code]) === wanted);
+}
+
+export function getStateName(code?: string): string | undefined {
+  return code ? GST_STATE_CODES[code] : undefined;
+}
+
+export function getSupplierStateCode(parties: GstParties): string | undefined {
+  return getStateCodeFromGstin(parties.supplierGstin) || getStateCode(parties.supplierState);
+}
+
+export function getPlaceOfSupplyCode(parties: GstParties): string | undefined {
+  return getStateCode(parties.placeOfSupply) || getStateCodeFromGstin(parties.buyerGstin);
+}
+
+/**
+ * Same state on both sides = CGST + SGST; anything else is IGST.
+ * When either state is unknown the supply is treated as inter-state - the
+ * tax total is identical, only the split changes once the state is known.
+ */
+export function getSupplyType(parties: GstParties): SupplyType {
+  const supplier = getSupplierStateCode(parties);
+  const destination = getPlaceOfSupplyCode(parties);
+  return supplier && destination && supplier === destination ? 'INTRA_STATE' : 'INTER_STATE';
+}
+
+export function calculateLineGst(line: GstLineInput, supplyType: SupplyType): GstLine {
+  if (line.gstRate === undefined || line.gstRate === null || !Number.isFinite(line.gstRate)) {
+    return { ...line, rate: 0, rateMissing: true, cgst: 0, sgst: 0, igst: 0, totalTax: 0 };
+  }
+  const rate = line.gstRate;
+  if (supplyType === 'INTRA_STATE') {
+    // Each half is rounded on its own, as printed on the invoice
+    const half = round2((line.taxableValue * rate) / 200);
+    return { ...line, rate, cgst: half, sgst: half, igst: 0, totalTax: round2(half * 2) };
+  }
+  const igst = round2((line.taxableValue * rate) / 100);
+  return { ...line, rate, cgst: 0, sgst: 0, igst, totalTax: igst };
+}
+
+export function calculateGst(lines: GstLineInput[], parties: GstParties): GstBreakup {
+  const supplyType = getSupplyType(parties);
+  const taxedLines = lines.map(line => calculateLineGst(line, supplyType));
+
+  const byRate = new Map<number, GstRateSummary>();
+  taxedLines.filter(line => !line.rateMissing).forEach(line => {
+    const summary = byRate.get(line.rate) || { rate: line.rate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0 };
+    summary.taxableValue = round2(summary.taxableValue + line.taxableValue);
+    summary.cgst = round2(summary.cgst + line.cgst);
+    summary.sgst = round2(summary.sgst + line.sgst);
+    summary.igst = round2(summary.igst + line.igst);
+    byRate.set(line.rate, summary);
+  });
+
+  const sum = (field: 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'totalTax') =>
+    round2(taxedLines.reduce((total, line) => total + line[field], 0));
+  const taxableValue = sum('taxableValue');
+  const totalTax = sum('totalTax');
+
+  return {
+    supplyType,
+    supplierStateCode: getSupplierStateCode(parties),
+    placeOfSupplyCode: getPlaceOfSupplyCode(parties),
+    lines: taxedLines,
+    byRate: Array.from(byRate.values()).sort((a, b) => a.rate - b.rate),
+    taxableValue,
+    cgst: sum('cgst'),
+    sgst: sum('sgst'),
+    igst: sum('igst'),
+    totalTax,
+    grandTotal: round2(taxableValue + totalTax),
+    missingRateLineIds: taxedLines.filter(line => line.rateMissing).map(line => line.id),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * 🖼️ Image Processing
+ *
+ * Client-side crop and compression for photo uploads. Phone photos of a part
+ * are often 4-8 MB; visual search only needs the part itself at ~1024px.
+ */
+
+// Crop area as fractions (0-1) of the image, independent of display size
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CompressOptions {
+  maxSide?: number;
+  quality?: number;
+  type?: 'image/jpeg' | 'image/webp';
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Smaller crops are almost always an accidental click
+const MIN_CROP_FRACTION = 0.05;
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+// Rectangle spanned by two points, clamped to the image
+export function cropFromPoints(start: { x: number; y: number }, end: { x: number; y: number }): CropRect {
+  const x1 = clamp(Math.min(start.x, end.x));
+  const y1 = clamp(Math.min(start.y, end.y));
+  const x2 = clamp(Math.max(start.x, end.x));
+  const y2 = clamp(Math.max(start.y, end.y));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+export const isUsableCrop = (crop: CropRect) => crop.width >= MIN_CROP_FRACTION && crop.height >= MIN_CROP_FRACTION;
+
+export function cropToPixels(crop: CropRect, naturalWidth: number, naturalHeight: number) {
+  return {
+    sx: Math.round(crop.x * naturalWidth),
+    sy: Math.round(crop.y * naturalHeight),
+    sw: Math.max(1, Math.round(crop.width * naturalWidth)),
+    sh: Math.max(1, Math.round(crop.height * naturalHeight))
+  };
+}
+
+// Scale down (never up) so the longest side fits maxSide
+export function fitWithin(width: number, height: number, maxSide: number) {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read this image'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Crop, downscale and re-encode an image. Falls back to the original file
+ * when the browser can't encode, so the upload still goes through.
+ */
+export async function cropAndCompress(
+  file: Blob,
+  crop: CropRect = FULL_CROP,
+  { maxSide = 1024, quality = 0.8, type = 'image/jpeg' }: CompressOptions = {}
+): Promise<Blob> {
+  const image = await loadImage(file);
+  const { sx, sy, sw, sh } = cropToPixels(isUsableCrop(crop) ? crop : FULL_CROP, image.naturalWidth, image.naturalHeight);
+  const { width, height } = fitWithin(sw, sh, maxSide);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return file;
+
+  // JPEG has no alpha; paint white so transparent PNGs don't turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  return blob && blob.size < file.size ? blob : file;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,91 @@
+/**
+ * 🧾 Payment Milestones
+ *
+ * Staged payments for large orders (advance, on dispatch, on installation):
+ * splitting the order amount into milestones, checking a schedule adds up and
+ * summarising how much has been paid into escrow and released to the vendor.
+ */
+
+import type { MilestoneTrigger, PaymentMilestone, PaymentMilestoneDraft } from '@/services/paymentService';
+
+export interface MilestonePlanStep {
+  label: string;
+  percent: number;
+  trigger: MilestoneTrigger;
+}
+
+export const MILESTONE_TRIGGER_LABELS: Record<MilestoneTrigger, string> = {
+  ON_ORDER: 'On order',
+  ON_DISPATCH: 'On dispatch',
+  ON_DELIVERY: 'On delivery',
+  ON_INSTALLATION: 'On installation',
+};
+
+// Usual split for machinery orders
+export const DEFAULT_MILESTONE_PLAN: MilestonePlanStep[] = [
+  { label: 'Advance', percent: 30, trigger: 'ON_ORDER' },
+  { label: 'On dispatch', percent: 60, trigger: 'ON_DISPATCH' },
+  { label: 'On installation', percent: 10, trigger: 'ON_INSTALLATION' },
+];
+
+// Orders from ₹5 lakh (in paise) can be paid in stages
+export const MILESTONE_MIN_AMOUNT = 500000 * 100;
+
+/**
+ * Split an amount (paise) by the plan's percentages. Rounding is settled on
+ * the last milestone so the schedule always adds up to the order amount.
+ */
+export function buildMilestones(amount: number, plan: MilestonePlanStep[] = DEFAULT_MILESTONE_PLAN): PaymentMilestoneDraft[] {
+  let allocated = 0;
+  return plan.map((step, index) => {
+    const stepAmount = index === plan.length - 1
+      ? amount - allocated
+      : Math.round((amount * step.percent) / 100);
+    allocated += stepAmount;
+    return { sequence: index + 1, label: step.label, amount: stepAmount, trigger: step.trigger };
+  });
+}
+
+export function validateMilestonePlan(plan: MilestonePlanStep[]): string | null {
+  if (plan.length === 0) return 'Add at least one milestone';
+  if (plan.some(step => !step.label.trim())) return 'Every milestone needs a name';
+  if (plan.some(step => step.percent <= 0)) return 'Every milestone needs a share above 0%';
+  const total = plan.reduce((sum, step) => sum + step.percent, 0);
+  if (Math.abs(total - 100) > 0.001) return `Milestones add up to ${total}%, not 100%`;
+  return null;
+}
+
+export interface MilestoneProgress {
+  total: number;
+  paid: number; // paid into escrow, including released
+  released: number;
+  percentPaid: number;
+  percentReleased: number;
+  next?: PaymentMilestone; // first milestone not yet paid
+  awaitingRelease: PaymentMilestone[];
+}
+
+export function getMilestoneProgress(milestones: PaymentMilestone[]): MilestoneProgress {
+  const active = milestones.filter(m => m.status !== 'CANCELLED').sort((a, b) => a.sequence - b.sequence);
+  const total = active.reduce((sum, m) => sum + m.amount, 0);
+  const paid = active.filter(m => m.status === 'PAID' || m.status === 'RELEASED').reduce((sum, m) => sum + m.amount, 0);
+  const released = active.filter(m => m.status === 'RELEASED').reduce((sum, m) => sum + m.amount, 0);
+  const percent = (value: number) => (total > 0 ? Math.round((value / total) * 100) : 0);
+
+  return {
+    total,
+    paid,
+    released,
+    percentPaid: percent(paid),
+    percentReleased: percent(released),
+    next: active.find(m => m.status === 'PENDING' || m.status === 'DUE'),
+    awaitingRelease: active.filter(m => m.status === 'PAID'),
+  };
+}
+
+// Vendors ask for the next stage only once every earlier one is paid
+export function canRequestMilestone(milestone: PaymentMilestone, milestones: PaymentMilestone[]): boolean {
+  return milestone.status === 'PENDING' && milestones
+    .filter(m => m.sequence < milestone.sequence && m.status !== 'CANCELLED')
+    .every(m => m.status === 'PAID' || m.status === 'RELEASED');
+}
@@ -0,0 +1,151 @@
+/**
+ * 📄 Minimal PDF Writer
+ *
+ * Text-and-rule documents (invoices, statements) built in the browser with the
+ * standard Helvetica fonts, so no font embedding or PDF library is needed
+ */
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+// Helvetica advance widths (per 1000 units) for the characters that matter when aligning amounts
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, '-': 333, '/': 278, ':': 278, '(': 333, ')': 333, '%': 889,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+  i: 222, l: 222, j: 222, t: 278, f: 278, r: 333, I: 278, m: 833, w: 722, M: 833, W: 944,
+};
+const DEFAULT_CHAR_WIDTH = 556;
+
+// Standard fonts use WinAnsi encoding; anything outside printable ASCII is transliterated
+const toPdfText = (text: string) =>
+  text
+    .replace(/₹\s?/g, 'Rs. ')
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E]/g, '?');
+
+const escapePdfString = (text: string) => text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+export function measurePdfText(text: string, size = 10): number {
+  const units = Array.from(toPdfText(text)).reduce((sum, char) => sum + (CHAR_WIDTHS[char] ?? DEFAULT_CHAR_WIDTH), 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Coordinates are measured from the top-left corner of the page, as in the DOM;
+ * they are flipped to PDF's bottom-left origin when the page is written.
+ */
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const { size = 10, bold = false, align = 'left' } = options;
+    const width = measurePdfText(text, size);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.currentPage.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(left)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td (${escapePdfString(toPdfText(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.currentPage.push(
+      `${width} w ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  // Word-wraps text to the given width and returns the y position below the last line
+  paragraph(x: number, y: number, text: string, maxWidth: number, options: PdfTextOptions = {}): number {
+    const size = options.size ?? 10;
+    const lineHeight = size * 1.3;
+    let line = '';
+    let cursor = y;
+
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measurePdfText(candidate, size) > maxWidth) {
+        this.text(x, cursor, line, options);
+        cursor += lineHeight;
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    if (line) {
+      this.text(x, cursor, line, options);
+      cursor += lineHeight;
+    }
+    return cursor;
+  }
+
+  toString(): string {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page + content stream per page
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2;
+      const content = operations.join('\n');
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return output;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toString()], { type: 'application/pdf' });
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+// Save a generated PDF through a temporary object URL
+export function downloadPdf(blob: Blob, fileName: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
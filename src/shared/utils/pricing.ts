@@ -0,0 +1,59 @@
+/**
+ * 💰 Tiered Pricing Utilities
+ *
+ * Quantity-slab price lookup shared by product pages, vendor forms and the cart
+ */
+
+import type { PriceSlab } from '@/shared/types';
+
+// Sort slabs by starting quantity and drop empty rows
+export function normalizePriceSlabs(slabs?: PriceSlab[]): PriceSlab[] {
+  if (!slabs) return [];
+  return slabs
+    .filter(slab => slab.minQuantity > 0 && slab.price > 0)
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+// Unit price for a quantity - the highest slab the quantity has reached, else the base price
+export function getSlabUnitPrice(basePrice: number, slabs: PriceSlab[] | undefined, quantity: number): number {
+  const matched = normalizePriceSlabs(slabs).filter(slab =>
+    quantity >= slab.minQuantity && (slab.maxQuantity === undefined || quantity <= slab.maxQuantity)
+  );
+  return matched.length > 0 ? matched[matched.length - 1].price : basePrice;
+}
+
+// Next slab above the current quantity, used for "buy N more to save" hints
+export function getNextPriceSlab(slabs: PriceSlab[] | undefined, quantity: number): PriceSlab | null {
+  return normalizePriceSlabs(slabs).find(slab => slab.minQuantity > quantity) || null;
+}
+
+// Form validation - returns an error message per slab index
+export function validatePriceSlabs(slabs: PriceSlab[], basePrice: number): Record<number, string> {
+  const errors: Record<number, string> = {};
+
+  slabs.forEach((slab, index) => {
+    if (!slab.minQuantity || slab.minQuantity < 1) {
+      errors[index] = 'Starting quantity must be at least 1';
+    } else if (slab.maxQuantity !== undefined && slab.maxQuantity < slab.minQuantity) {
+      errors[index] = 'Max quantity must not be below the starting quantity';
+    } else if (!slab.price || slab.price <= 0) {
+      errors[index] = 'Slab price must be greater than 0';
+    } else if (basePrice > 0 && slab.price > basePrice) {
+      errors[index] = 'Slab price should not exceed the base price';
+    }
+  });
+
+  const ordered = slabs
+    .map((slab, index) => ({ slab, index }))
+    .sort((a, b) => a.slab.minQuantity - b.slab.minQuantity);
+
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].slab;
+    const current = ordered[i];
+    if (previous.maxQuantity === undefined || previous.maxQuantity >= current.slab.minQuantity) {
+      errors[current.index] = errors[current.index] || 'Slab overlaps with the previous slab';
+    }
+  }
+
+  return errors;
+}
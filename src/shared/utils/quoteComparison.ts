@@ -0,0 +1,92 @@
+/**
+ * ⚖️ Quote Comparison Utilities
+ *
+ * Normalises vendor quotes for one inquiry so they can be compared column by column
+ */
+
+export type KycState = 'VERIFIED' | 'PENDING' | 'REJECTED' | 'UNKNOWN';
+
+export interface QuoteComparisonRow {
+  quoteId: number;
+  unitPrice?: number;
+  quantity: number;
+  shippingCost?: number;
+  landedCost?: number;
+  leadTimeDays?: number;
+  creditDays?: number;
+  rating?: number;
+  kyc: KycState;
+}
+
+export type ComparisonColumn = 'unitPrice' | 'landedCost' | 'leadTimeDays' | 'creditDays' | 'rating' | 'kyc';
+
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+// "7 days", "2-3 weeks", "1 month" -> days (upper bound of a range)
+export function parseLeadTimeDays(deliveryTime?: string): number | undefined {
+  if (!deliveryTime) return undefined;
+  const match = deliveryTime.toLowerCase().match(/(\d+)(?:\s*(?:-|to)\s*(\d+))?\s*(day|week|month)/);
+  if (!match) return undefined;
+  return Number(match[2] || match[1]) * DAYS_PER_UNIT[match[3]];
+}
+
+// "Net 30", "30 days credit" -> 30; "Advance", "100% advance" -> 0
+export function parseCreditDays(paymentTerms?: string): number | undefined {
+  if (!paymentTerms) return undefined;
+  const terms = paymentTerms.toLowerCase();
+  if (terms.includes('advance') || terms.includes('prepaid')) return 0;
+  const match = terms.match(/(\d+)\s*days?|net\s*(\d+)/);
+  if (match) return Number(match[1] || match[2]);
+  return terms.includes('delivery') || terms.includes('cod') ? 0 : undefined;
+}
+
+// Map the vendor's KYC status string onto the few states buyers care about
+export function toKycState(status?: string): KycState {
+  switch ((status || '').toUpperCase()) {
+    case 'APPROVED':
+    case 'VERIFIED':
+    case 'COMPLETED':
+      return 'VERIFIED';
+    case 'PENDING':
+    case 'SUBMITTED':
+    case 'UNDER_REVIEW':
+      return 'PENDING';
+    case 'REJECTED':
+      return 'REJECTED';
+    default:
+      return 'UNKNOWN';
+  }
+}
+
+export function getLandedCost(unitPrice: number | undefined, quantity: number, shippingCost?: number): number | undefined {
+  if (unitPrice === undefined) return undefined;
+  return unitPrice * quantity + (shippingCost ?? 0);
+}
+
+const pickBest = (
+  rows: QuoteComparisonRow[],
+  value: (row: QuoteComparisonRow) => number | undefined,
+  direction: 'min' | 'max'
+): number[] => {
+  const values = rows.map(value).filter((v): v is number => v !== undefined);
+  if (values.length < 2) return [];
+  const best = direction === 'min' ? Math.min(...values) : Math.max(...values);
+  return rows.filter(row => value(row) === best).map(row => row.quoteId);
+};
+
+/**
+ * Quote ids holding the best value in each column.
+ * Columns with fewer than two comparable values get no highlight.
+ */
+export function findBestValues(rows: QuoteComparisonRow[]): Record<ComparisonColumn, number[]> {
+  const verified = rows.filter(row => row.kyc === 'VERIFIED').map(row => row.quoteId);
+
+  return {
+    unitPrice: pickBest(rows, row => row.unitPrice, 'min'),
+    landedCost: pickBest(rows, row => row.landedCost, 'min'),
+    leadTimeDays: pickBest(rows, row => row.leadTimeDays, 'min'),
+    creditDays: pickBest(rows, row => row.creditDays, 'max'),
+    rating: pickBest(rows, row => row.rating || undefined, 'max'),
+    kyc: verified.length < rows.length ? verified : [],
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * 🤝 Quote Negotiation Utilities
+ *
+ * Turn-taking, expiry and change detection for versioned quotes
+ */
+
+import type { Quote, QuoteParty, QuoteRevision, QuoteStatus, QuoteTerms } from '@/shared/services/api/quoteApi';
+
+const CLOSED_STATUSES: QuoteStatus[] = ['ACCEPTED', 'REJECTED', 'EXPIRED'];
+
+export const TERM_LABELS: Record<keyof QuoteTerms, string> = {
+  price: 'Unit price',
+  quantity: 'Quantity',
+  deliveryTime: 'Delivery time',
+  paymentTerms: 'Payment terms',
+};
+
+// Latest expiry from the quote itself or its newest revision
+export function getQuoteExpiry(quote: Quote, revisions: QuoteRevision[] = []): string | undefined {
+  const revisionExpiry = [...revisions].reverse().find(revision => revision.expiresAt)?.expiresAt;
+  return revisionExpiry || quote.expiresAt;
+}
+
+export function isQuoteLapsed(quote: Quote, revisions: QuoteRevision[] = [], now = new Date()): boolean {
+  const expiry = getQuoteExpiry(quote, revisions);
+  return !!expiry && new Date(expiry) < now;
+}
+
+// Stored status, with open quotes past their expiry treated as EXPIRED
+export function getEffectiveQuoteStatus(quote: Quote, revisions: QuoteRevision[] = [], now = new Date()): QuoteStatus {
+  const status = quote.status || (quote.isAccepted ? 'ACCEPTED' : 'PENDING');
+  if (!CLOSED_STATUSES.includes(status) && isQuoteLapsed(quote, revisions, now)) {
+    return 'EXPIRED';
+  }
+  return status;
+}
+
+// Whose move it is: the side that did not author the latest version
+export function getNextParty(revisions: QuoteRevision[]): QuoteParty {
+  const latest = revisions[revisions.length - 1];
+  return latest?.author === 'BUYER' ? 'VENDOR' : 'BUYER';
+}
+
+export function canRespond(quote: Quote, revisions: QuoteRevision[], party: QuoteParty, now = new Date()): boolean {
+  return !CLOSED_STATUSES.includes(getEffectiveQuoteStatus(quote, revisions, now)) && getNextParty(revisions) === party;
+}
+
+// Terms that differ from the previous version, for highlighting in the history
+export function getChangedTerms(revision: QuoteRevision, previous?: QuoteRevision): Array<keyof QuoteTerms> {
+  if (!previous) return [];
+  return (Object.keys(TERM_LABELS) as Array<keyof QuoteTerms>).filter(
+    term => revision[term] !== undefined && revision[term] !== previous[term]
+  );
+}
+
+// Current terms = latest value of each field across the history
+export function getCurrentTerms(quote: Quote, revisions: QuoteRevision[]): QuoteTerms {
+  return revisions.reduce<QuoteTerms>((terms, revision) => ({
+    price: revision.price ?? terms.price,
+    quantity: revision.quantity ?? terms.quantity,
+    deliveryTime: revision.deliveryTime ?? terms.deliveryTime,
+    paymentTerms: revision.paymentTerms ?? terms.paymentTerms,
+  }), {
+    price: quote.price,
+    quantity: quote.quantity,
+    deliveryTime: quote.deliveryTime,
+    paymentTerms: quote.paymentTerms,
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * 🧮 Finance Reconciliation
+ *
+ * Matches gateway transactions against orders and the refund ledger, flags
+ * what does not line up, and rolls the same data up into vendor payouts and
+ * a date-range P&L. Amounts are in rupees.
+ */
+
+import type { TransactionHistory } from '@/services/paymentService';
+import type { FinanceDataset, FinanceDateRange, FinanceOrder } from '@/services/financeService';
+
+export type MismatchType = 'PAID_NO_ORDER' | 'ORDER_NO_PAYMENT' | 'AMOUNT_MISMATCH' | 'PARTIAL_REFUND' | 'REFUND_MISMATCH' | 'REFUND_NO_PAYMENT';
+
+export const MISMATCH_TYPES: MismatchType[] = ['PAID_NO_ORDER', 'ORDER_NO_PAYMENT', 'AMOUNT_MISMATCH', 'PARTIAL_REFUND', 'REFUND_MISMATCH', 'REFUND_NO_PAYMENT'];
+
+export const MISMATCH_LABELS: Record<MismatchType, string> = {
+  PAID_NO_ORDER: 'Paid but no order',
+  ORDER_NO_PAYMENT: 'Order without payment',
+  AMOUNT_MISMATCH: 'Amount mismatch',
+  PARTIAL_REFUND: 'Partial refund',
+  REFUND_MISMATCH: 'Refund not matching ledger',
+  REFUND_NO_PAYMENT: 'Refund without payment or order',
+};
+
+export interface Mismatch {
+  type: MismatchType;
+  orderId: string;
+  orderNumber?: string;
+  expected: number;
+  actual: number;
+  transactionIds: string[];
+}
+
+export interface ReconciliationLine {
+  orderId: string;
+  orderNumber?: string;
+  vendorId?: string;
+  vendorName?: string;
+  orderAmount: number; // 0 when the payment has no matching order
+  paid: number;
+  refunded: number;
+  fees: number;
+  mismatches: MismatchType[];
+}
+
+export interface ReconciliationResult {
+  lines: ReconciliationLine[];
+  mismatches: Mismatch[];
+  matched: number;
+}
+
+export interface VendorPayout {
+  vendorId: string;
+  vendorName: string;
+  orders: number;
+  gross: number;
+  refunds: number;
+  commission: number;
+  paidOut: number;
+  pending: number;
+}
+
+export interface PnlTotals {
+  collections: number;
+  refunds: number;
+  gatewayFees: number;
+  commission: number;
+  payouts: number;
+  net: number; // commission earned less gateway fees, which the platform bears
+}
+
+export interface PnlPeriod extends PnlTotals {
+  period: string; // YYYY-MM
+}
+
+export interface ProfitAndLoss extends PnlTotals {
+  periods: PnlPeriod[];
+}
+
+// Gateways and the backend don't agree on casing or wording for a successful transaction
+const SETTLED_STATUSES = ['completed', 'success', 'captured', 'processed', 'paid'];
+
+export const isSettled = (transaction: TransactionHistory) => SETTLED_STATUSES.includes(transaction.status.toLowerCase());
+
+export const transactionFee = (transaction: TransactionHistory) => Number(transaction.metadata?.gatewayFee ?? 0);
+
+// Compare in paise so float noise is never reported as a mismatch
+const sameAmount = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const inDateRange = (date: string, range: FinanceDateRange) => {
+  const day = date.slice(0, 10);
+  return day >= range.from && day <= range.to;
+};
+
+// Orders that payments or refunds point at but the dataset doesn't include, e.g. placed before the date range
+export const referencedOrderIds = (orders: FinanceOrder[], transactions: TransactionHistory[]): string[] => {
+  const known = new Set(orders.map(order => String(order.id)));
+  return Array.from(new Set(
+    transactions
+      .filter(t => t.type !== 'settlement' && t.orderId && !known.has(String(t.orderId)))
+      .map(t => String(t.orderId))
+  ));
+};
+
+// Cancelled orders are never paid and pay-on-terms orders are tracked as trade credit dues
+const expectsPayment = (order: FinanceOrder) => order.status !== 'CANCELLED' && order.paymentMethod !== 'CREDIT';
+
+const groupByOrder = (transactions: TransactionHistory[]) => {
+  const groups = new Map<string, TransactionHistory[]>();
+  transactions.forEach(transaction => {
+    const key = String(transaction.orderId);
+    groups.set(key, [...(groups.get(key) || []), transaction]);
+  });
+  return groups;
+};
+
+export function reconcile({ orders, transactions, refunds }: FinanceDataset): ReconciliationResult {
+  const settled = transactions.filter(isSettled);
+  const payments = groupByOrder(settled.filter(t => t.type === 'payment'));
+  const refundTransactions = groupByOrder(settled.filter(t => t.type === 'refund'));
+  const mismatches: Mismatch[] = [];
+  const lines: ReconciliationLine[] = [];
+
+  const flag = (line: ReconciliationLine, type: MismatchType, expected: number, actual: number, related: TransactionHistory[]) => {
+    line.mismatches.push(type);
+    mismatches.push({
+      type,
+      orderId: line.orderId,
+      orderNumber: line.orderNumber,
+      expected,
+      actual,
+      transactionIds: related.map(t => t.id),
+    });
+  };
+
+  orders.forEach(order => {
+    const orderId = String(order.id);
+    const orderPayments = payments.get(orderId) || [];
+    const orderRefunds = refundTransactions.get(orderId) || [];
+    const line: ReconciliationLine = {
+      orderId,
+      orderNumber: order.orderNumber,
+      vendorId: order.vendorId,
+      vendorName: order.vendorName,
+      orderAmount: order.totalAmount,
+      paid: sum(orderPayments.map(t => t.amount)),
+      refunded: sum(orderRefunds.map(t => t.amount)),
+      fees: sum(orderPayments.map(transactionFee)),
+      mismatches: [],
+    };
+
+    if (line.paid === 0) {
+      if (expectsPayment(order)) flag(line, 'ORDER_NO_PAYMENT', order.totalAmount, 0, []);
+    } else if (!sameAmount(line.paid, order.totalAmount)) {
+      flag(line, 'AMOUNT_MISMATCH', order.totalAmount, line.paid, orderPayments);
+    }
+
+    if (line.refunded > 0 && line.refunded < line.paid && !sameAmount(line.refunded, line.paid)) {
+      flag(line, 'PARTIAL_REFUND', line.paid, line.refunded, orderRefunds);
+    }
+
+    const ledgerRefunded = sum(refunds.filter(r => String(r.orderId) === orderId && r.status === 'PROCESSED').map(r => r.amount));
+    if (!sameAmount(ledgerRefunded, line.refunded)) {
+      flag(line, 'REFUND_MISMATCH', ledgerRefunded, line.refunded, orderRefunds);
+    }
+
+    lines.push(line);
+  });
+
+  const orderIds = new Set(orders.map(order => String(order.id)));
+  payments.forEach((orphans, orderId) => {
+    if (orderIds.has(orderId)) return;
+    const line: ReconciliationLine = {
+      orderId,
+      orderAmount: 0,
+      paid: sum(orphans.map(t => t.amount)),
+      refunded: sum((refundTransactions.get(orderId) || []).map(t => t.amount)),
+      fees: sum(orphans.map(transactionFee)),
+      mismatches: [],
+    };
+    flag(line, 'PAID_NO_ORDER', 0, line.paid, orphans);
+    lines.push(line);
+  });
+
+  // Money went out against an order we don't know and never took a payment for
+  refundTransactions.forEach((orphans, orderId) => {
+    if (orderIds.has(orderId) || payments.has(orderId)) return;
+    const line: ReconciliationLine = {
+      orderId,
+      orderAmount: 0,
+      paid: 0,
+      refunded: sum(orphans.map(t => t.amount)),
+      fees: 0,
+      mismatches: [],
+    };
+    flag(line, 'REFUND_NO_PAYMENT', 0, line.refunded, orphans);
+    lines.push(line);
+  });
+
+  return { lines, mismatches, matched: lines.filter(line => line.mismatches.length === 0).length };
+}
+
+/**
+ * What each vendor sold, what was refunded and how much has been settled to
+ * them. Commission is only known once a settlement is made, so the pending
+ * amount on unsettled orders is before commission.
+ */
+export function summarizeVendorPayouts(dataset: FinanceDataset, result: ReconciliationResult): VendorPayout[] {
+  const payouts = new Map<string, VendorPayout>();
+  const payoutFor = (vendorId: string, vendorName: string) => {
+    if (!payouts.has(vendorId)) {
+      payouts.set(vendorId, { vendorId, vendorName, orders: 0, gross: 0, refunds: 0, commission: 0, paidOut: 0, pending: 0 });
+    }
+    return payouts.get(vendorId)!;
+  };
+
+  result.lines.forEach(line => {
+    if (!line.vendorId || line.paid === 0) return;
+    const payout = payoutFor(line.vendorId, line.vendorName || line.vendorId);
+    payout.orders += 1;
+    payout.gross += line.paid;
+    payout.refunds += line.refunded;
+  });
+
+  dataset.transactions
+    .filter(t => t.type === 'settlement' && isSettled(t) && t.metadata?.vendorId)
+    .forEach(settlement => {
+      const payout = payoutFor(String(settlement.metadata!.vendorId), settlement.metadata!.vendorName || String(settlement.metadata!.vendorId));
+      payout.paidOut += settlement.amount;
+      payout.commission += Number(settlement.metadata!.commission ?? 0);
+    });
+
+  return Array.from(payouts.values())
+    .map(payout => ({ ...payout, pending: Math.max(0, payout.gross - payout.refunds - payout.commission - payout.paidOut) }))
+    .sort((a, b) => b.pending - a.pending);
+}
+
+const emptyTotals = (): PnlTotals => ({ collections: 0, refunds: 0, gatewayFees: 0, commission: 0, payouts: 0, net: 0 });
+
+// Month-by-month P&L for transactions settled inside the range
+export function profitAndLoss(transactions: TransactionHistory[], range: FinanceDateRange): ProfitAndLoss {
+  const periods = new Map<string, PnlPeriod>();
+  const totals = emptyTotals();
+
+  transactions
+    .filter(t => isSettled(t) && inDateRange(t.createdAt, range))
+    .forEach(transaction => {
+      const period = transaction.createdAt.slice(0, 7);
+      if (!periods.has(period)) periods.set(period, { period, ...emptyTotals() });
+      const row = periods.get(period)!;
+
+      [row, totals].forEach(target => {
+        if (transaction.type === 'payment') {
+          target.collections += transaction.amount;
+          target.gatewayFees += transactionFee(transaction);
+        } else if (transaction.type === 'refund') {
+          target.refunds += transaction.amount;
+        } else {
+          target.payouts += transaction.amount;
+          target.commission += Number(transaction.metadata?.commission ?? 0);
+        }
+        target.net = target.commission - target.gatewayFees;
+      });
+    });
+
+  return {
+    ...totals,
+    periods: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+  };
+}
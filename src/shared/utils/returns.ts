@@ -0,0 +1,195 @@
+/**
+ * 🔄 Returns State Machine
+ *
+ * One set of statuses and transitions for buyer returns and carrier RTOs,
+ * shared by the buyer and vendor views so both sides offer the same actions.
+ */
+
+import type { Order } from '@/services/orderService';
+
+// RETURN = raised by the buyer; RTO = shipment sent back to origin by the carrier
+export type ReturnKind = 'RETURN' | 'RTO';
+
+export type ReturnStatus =
+  | 'REQUESTED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'CANCELLED'
+  | 'PICKUP_SCHEDULED'
+  | 'IN_TRANSIT'
+  | 'RECEIVED'
+  | 'REFUNDED'
+  | 'CLOSED';
+
+export type ReturnAction =
+  | 'APPROVE'
+  | 'REJECT'
+  | 'CANCEL'
+  | 'SCHEDULE_PICKUP'
+  | 'MARK_IN_TRANSIT'
+  | 'MARK_RECEIVED'
+  | 'REFUND'
+  | 'CLOSE';
+
+export type ReturnParty = 'BUYER' | 'VENDOR' | 'SYSTEM';
+
+export type ReturnReason =
+  | 'DAMAGED'
+  | 'DEFECTIVE'
+  | 'WRONG_ITEM'
+  | 'NOT_AS_DESCRIBED'
+  | 'MISSING_PARTS'
+  | 'NO_LONGER_NEEDED'
+  | 'UNDELIVERABLE';
+
+// Days after delivery a buyer can raise a return
+export const RETURN_WINDOW_DAYS = 7;
+
+export const MAX_RETURN_PHOTOS = 5;
+
+export const RETURN_REASONS: Record<ReturnReason, { label: string; requiresPhotos: boolean; buyerSelectable: boolean }> = {
+  DAMAGED: { label: 'Arrived damaged', requiresPhotos: true, buyerSelectable: true },
+  DEFECTIVE: { label: 'Defective / not working', requiresPhotos: true, buyerSelectable: true },
+  WRONG_ITEM: { label: 'Wrong item sent', requiresPhotos: true, buyerSelectable: true },
+  NOT_AS_DESCRIBED: { label: 'Not as described', requiresPhotos: true, buyerSelectable: true },
+  MISSING_PARTS: { label: 'Missing parts or quantity', requiresPhotos: false, buyerSelectable: true },
+  NO_LONGER_NEEDED: { label: 'No longer needed', requiresPhotos: false, buyerSelectable: true },
+  UNDELIVERABLE: { label: 'Returned by carrier (RTO)', requiresPhotos: false, buyerSelectable: false },
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  REQUESTED: 'Return requested',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  CANCELLED: 'Cancelled',
+  PICKUP_SCHEDULED: 'Pickup scheduled',
+  IN_TRANSIT: 'On the way back',
+  RECEIVED: 'Received by seller',
+  REFUNDED: 'Refunded',
+  CLOSED: 'Closed - nothing to refund',
+};
+
+export const RETURN_ACTION_LABELS: Record<ReturnAction, string> = {
+  APPROVE: 'Approve',
+  REJECT: 'Reject',
+  CANCEL: 'Cancel return',
+  SCHEDULE_PICKUP: 'Create reverse pickup',
+  MARK_IN_TRANSIT: 'Mark in transit',
+  MARK_RECEIVED: 'Mark received',
+  REFUND: 'Issue refund',
+  CLOSE: 'Close without refund',
+};
+
+interface Transition {
+  to: ReturnStatus;
+  parties: ReturnParty[];
+}
+
+const TRANSITIONS: Record<ReturnStatus, Partial<Record<ReturnAction, Transition>>> = {
+  REQUESTED: {
+    APPROVE: { to: 'APPROVED', parties: ['VENDOR'] },
+    REJECT: { to: 'REJECTED', parties: ['VENDOR'] },
+    CANCEL: { to: 'CANCELLED', parties: ['BUYER'] },
+  },
+  APPROVED: {
+    SCHEDULE_PICKUP: { to: 'PICKUP_SCHEDULED', parties: ['VENDOR'] },
+    CANCEL: { to: 'CANCELLED', parties: ['BUYER'] },
+  },
+  PICKUP_SCHEDULED: {
+    MARK_IN_TRANSIT: { to: 'IN_TRANSIT', parties: ['VENDOR', 'SYSTEM'] },
+    MARK_RECEIVED: { to: 'RECEIVED', parties: ['VENDOR', 'SYSTEM'] },
+  },
+  IN_TRANSIT: {
+    MARK_RECEIVED: { to: 'RECEIVED', parties: ['VENDOR', 'SYSTEM'] },
+  },
+  RECEIVED: {
+    REFUND: { to: 'REFUNDED', parties: ['VENDOR', 'SYSTEM'] },
+    CLOSE: { to: 'CLOSED', parties: ['VENDOR', 'SYSTEM'] },
+  },
+  REJECTED: {},
+  CANCELLED: {},
+  REFUNDED: {},
+  CLOSED: {},
+};
+
+// Happy path shown as progress steps; RTOs skip approval and pickup
+export const getReturnSteps = (type: ReturnKind): ReturnStatus[] =>
+  type === 'RTO'
+    ? ['IN_TRANSIT', 'RECEIVED', 'REFUNDED']
+    : ['REQUESTED', 'APPROVED', 'PICKUP_SCHEDULED', 'IN_TRANSIT', 'RECEIVED', 'REFUNDED'];
+
+export const getInitialReturnStatus = (type: ReturnKind): ReturnStatus =>
+  type === 'RTO' ? 'IN_TRANSIT' : 'REQUESTED';
+
+// A cash-on-delivery order that came back undelivered was never paid for
+export const isRefundDue = (type: ReturnKind, paymentId?: string) => type !== 'RTO' || !!paymentId;
+
+/**
+ * Quantities an RTO brings back: only the items packed in the shipments the
+ * carrier is returning. Packages that were delivered stay with the buyer.
+ */
+export const getRtoQuantities = (order: Order, returnedTrackingNumbers: string[]): Record<number, number> => {
+  const shipments = order.shipments ?? [];
+  const returned = shipments.filter(shipment => returnedTrackingNumbers.includes(shipment.trackingNumber));
+  // One package, or no record of what went in which: the whole order is coming back
+  const wholeOrder = shipments.length <= 1 || returned.some(shipment => !shipment.productIds);
+  const productIds = new Set(returned.flatMap(shipment => shipment.productIds ?? []));
+
+  return Object.fromEntries(
+    order.items
+      .filter(item => wholeOrder || productIds.has(item.productId))
+      .map(item => [item.productId, item.quantity])
+  );
+};
+
+export const isReturnClosed = (status: ReturnStatus) => Object.keys(TRANSITIONS[status]).length === 0;
+
+export const getAvailableReturnActions = (status: ReturnStatus, party: ReturnParty): ReturnAction[] =>
+  (Object.entries(TRANSITIONS[status]) as Array<[ReturnAction, Transition]>)
+    .filter(([, transition]) => transition.parties.includes(party))
+    .map(([action]) => action);
+
+export const canPerformReturnAction = (status: ReturnStatus, action: ReturnAction, party: ReturnParty) =>
+  !!TRANSITIONS[status][action]?.parties.includes(party);
+
+// Next status for an action, or an error when the move isn't allowed
+export const getNextReturnStatus = (status: ReturnStatus, action: ReturnAction, party: ReturnParty): ReturnStatus => {
+  const transition = TRANSITIONS[status][action];
+  if (!transition || !transition.parties.includes(party)) {
+    throw new Error(`Cannot ${RETURN_ACTION_LABELS[action].toLowerCase()} a return that is ${RETURN_STATUS_LABELS[status].toLowerCase()}`);
+  }
+  return transition.to;
+};
+
+export const getReturnDeadline = (order: Order): Date | null => {
+  if (!order.deliveredAt) return null;
+  const deadline = new Date(order.deliveredAt);
+  deadline.setDate(deadline.getDate() + RETURN_WINDOW_DAYS);
+  return deadline;
+};
+
+export const isWithinReturnWindow = (order: Order, now = new Date()): boolean => {
+  const deadline = getReturnDeadline(order);
+  return order.status === 'DELIVERED' && !!deadline && now <= deadline;
+};
+
+/**
+ * Refund for the returned lines: their price plus the same share of the
+ * order's GST. Shipping is only refunded when the whole order comes back.
+ */
+export const calculateReturnRefund = (order: Order, lines: Array<{ productId: number; quantity: number }>): number => {
+  const itemsSubtotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const returnedSubtotal = lines.reduce((sum, line) => {
+    const item = order.items.find(candidate => candidate.productId === line.productId);
+    return sum + (item ? item.price * Math.min(line.quantity, item.quantity) : 0);
+  }, 0);
+  if (itemsSubtotal === 0 || returnedSubtotal === 0) return 0;
+
+  const isFullReturn = order.items.every(item =>
+    lines.some(line => line.productId === item.productId && line.quantity >= item.quantity)
+  );
+  if (isFullReturn) return order.totalAmount;
+
+  const tax = (order.tax?.totalTax ?? 0) * (returnedSubtotal / itemsSubtotal);
+  return Math.min(order.totalAmount, Math.round((returnedSubtotal + tax) * 100) / 100);
+};
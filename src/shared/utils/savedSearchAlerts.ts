@@ -0,0 +1,116 @@
+/**
+ * 🔔 Saved Search Alerts
+ *
+ * Snapshot and diff helpers for re-running saved searches: what's new since
+ * the last run, what got cheaper and which suppliers appeared.
+ */
+
+import type {
+  SavedSearch,
+  SavedSearchSnapshot,
+  SavedSearchSnapshotItem,
+  SearchAlertFrequency,
+  SearchProduct,
+  SearchVendor
+} from '@/services/searchService';
+
+export const ALERT_FREQUENCY_LABELS: Record<SearchAlertFrequency, string> = {
+  instant: 'Instant',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+  off: 'No alerts',
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Minimum gap between runs; instant searches are re-run whenever the buyer dashboard polls
+const ALERT_INTERVALS: Record<SearchAlertFrequency, number> = {
+  instant: 0,
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR,
+  off: Infinity,
+};
+
+// Results a snapshot remembers, so listings that drop off a page aren't "new" when they return
+export const MAX_SNAPSHOT_ITEMS = 500;
+
+// Ignore rounding noise - a drop must be at least this share of the old price
+export const MIN_PRICE_DROP_RATIO = 0.01;
+
+export interface SearchPriceDrop {
+  item: SavedSearchSnapshotItem;
+  previousPrice: number;
+}
+
+export interface SearchAlertDiff {
+  newItems: SavedSearchSnapshotItem[];
+  priceDrops: SearchPriceDrop[];
+  newSuppliers: Array<{ id: string; name: string }>;
+}
+
+export const isAlertDue = (search: SavedSearch, now = new Date()): boolean => {
+  const frequency = search.alertFrequency ?? 'off';
+  if (frequency === 'off') return false;
+  if (!search.lastCheckedAt) return true;
+  return now.getTime() - new Date(search.lastCheckedAt).getTime() >= ALERT_INTERVALS[frequency];
+};
+
+const isProduct = (result: SearchProduct | SearchVendor): result is SearchProduct => 'price' in result;
+
+export const toSnapshotItem = (result: SearchProduct | SearchVendor, seenAt: string): SavedSearchSnapshotItem =>
+  isProduct(result)
+    ? { id: result.id, name: result.name, price: result.price, vendorId: result.vendor.id, vendorName: result.vendor.name, seenAt }
+    : { id: result.id, name: result.companyName || result.name, vendorId: result.id, vendorName: result.companyName || result.name, seenAt };
+
+export function diffSearchResults(previous: SavedSearchSnapshot | undefined, current: SavedSearchSnapshotItem[]): SearchAlertDiff {
+  const diff: SearchAlertDiff = { newItems: [], priceDrops: [], newSuppliers: [] };
+  // The first run only records a baseline
+  if (!previous) return diff;
+
+  const previousItems = new Map(previous.items.map(item => [item.id, item]));
+  const previousSuppliers = new Set(previous.items.map(item => item.vendorId).filter(Boolean));
+  const announcedSuppliers = new Set<string>();
+
+  current.forEach(item => {
+    const before = previousItems.get(item.id);
+    if (!before) {
+      diff.newItems.push(item);
+    } else if (
+      before.price !== undefined &&
+      item.price !== undefined &&
+      before.price - item.price >= before.price * MIN_PRICE_DROP_RATIO
+    ) {
+      diff.priceDrops.push({ item, previousPrice: before.price });
+    }
+
+    if (item.vendorId && !previousSuppliers.has(item.vendorId) && !announcedSuppliers.has(item.vendorId)) {
+      announcedSuppliers.add(item.vendorId);
+      diff.newSuppliers.push({ id: item.vendorId, name: item.vendorName || item.name });
+    }
+  });
+
+  return diff;
+}
+
+// Current results plus earlier ones not seen this run, most recent first
+export function mergeSnapshot(
+  previous: SavedSearchSnapshot | undefined,
+  current: SavedSearchSnapshotItem[],
+  takenAt: string
+): SavedSearchSnapshot {
+  const currentIds = new Set(current.map(item => item.id));
+  const carried = (previous?.items ?? []).filter(item => !currentIds.has(item.id));
+  return { items: [...current, ...carried].slice(0, MAX_SNAPSHOT_ITEMS), takenAt };
+}
+
+export const hasAlertMatches = (diff: SearchAlertDiff) =>
+  diff.newItems.length > 0 || diff.priceDrops.length > 0 || diff.newSuppliers.length > 0;
+
+export function describeAlertDiff(diff: SearchAlertDiff): string {
+  const parts = [
+    diff.newItems.length && `${diff.newItems.length} new listing${diff.newItems.length > 1 ? 's' : ''}`,
+    diff.priceDrops.length && `${diff.priceDrops.length} price drop${diff.priceDrops.length > 1 ? 's' : ''}`,
+    diff.newSuppliers.length && `${diff.newSuppliers.length} new supplier${diff.newSuppliers.length > 1 ? 's' : ''}`,
+  ].filter(Boolean);
+  return parts.join(', ');
+}
@@ -0,0 +1,136 @@
+/**
+ * 🗣️ Search Intent
+ *
+ * Pulls product, quantity, location and deadline out of a sentence like
+ * "need 500 kg mild steel rods delivered to Nagpur within 10 days", and turns
+ * that intent into a search request or a prefilled RFQ.
+ */
+
+import type { SearchIntent, SearchRequest } from '@/services/searchService';
+import { RFQ_UNITS } from '@/shared/constants/rfqSpecFields';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Spoken and abbreviated units, mapped to the RFQ form's units
+const UNIT_ALIASES: Record<string, string> = {
+  kg: 'Kg', kgs: 'Kg', kilo: 'Kg', kilos: 'Kg', kilogram: 'Kg', kilograms: 'Kg',
+  ton: 'Tonnes', tons: 'Tonnes', tonne: 'Tonnes', tonnes: 'Tonnes', mt: 'Tonnes',
+  pc: 'Pieces', pcs: 'Pieces', piece: 'Pieces', pieces: 'Pieces', nos: 'Pieces', no: 'Pieces',
+  unit: 'Units', units: 'Units',
+  set: 'Sets', sets: 'Sets',
+  l: 'Litres', ltr: 'Litres', ltrs: 'Litres', litre: 'Litres', litres: 'Litres', liter: 'Litres', liters: 'Litres',
+  m: 'Metres', mtr: 'Metres', mtrs: 'Metres', metre: 'Metres', metres: 'Metres', meter: 'Metres', meters: 'Metres',
+  sqm: 'Sq. Metres', 'sq.m': 'Sq. Metres',
+  box: 'Boxes', boxes: 'Boxes',
+  roll: 'Rolls', rolls: 'Rolls',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Words that carry no product meaning in a requirement sentence
+const FILLER = /\b(i|we|need|needs|needed|want|wants|require|required|requirement|looking|for|buy|purchase|urgently|urgent|please|of|some|delivered|delivery|deliver|supply|supplied|send|get|a|an|the)\b/gi;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const normalizeUnit = (unit: string): string | undefined => {
+  const lower = unit.toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[lower] ?? RFQ_UNITS.find(rfqUnit => rfqUnit.toLowerCase() === lower);
+};
+
+const titleCase = (text: string) => text.replace(/\b\w/g, char => char.toUpperCase());
+
+function parseDeadline(text: string, today: Date): { deadline?: string; match?: string } {
+  const relative = text.match(/\b(?:within|in|under)\s+(\d+)\s*(day|days|week|weeks|month|months)\b/i);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unit = relative[2].toLowerCase();
+    const days = unit.startsWith('week') ? amount * 7 : unit.startsWith('month') ? amount * 30 : amount;
+    return { deadline: toIsoDate(new Date(today.getTime() + days * DAY)), match: relative[0] };
+  }
+
+  const named = text.match(/\b(?:by|before)\s+(tomorrow|next week|next month)\b/i);
+  if (named) {
+    const days = { tomorrow: 1, 'next week': 7, 'next month': 30 }[named[1].toLowerCase() as 'tomorrow'];
+    return { deadline: toIsoDate(new Date(today.getTime() + days * DAY)), match: named[0] };
+  }
+
+  // "by 15 march", "before 3rd jan"
+  const dated = text.match(/\b(?:by|before)\s+(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\b/i);
+  const month = dated ? MONTHS.indexOf(dated[2].slice(0, 3).toLowerCase()) : -1;
+  if (dated && month >= 0) {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), month, Number(dated[1])));
+    // A date already past this year means next year
+    if (date.getTime() < today.getTime()) date.setUTCFullYear(date.getUTCFullYear() + 1);
+    return { deadline: toIsoDate(date), match: dated[0] };
+  }
+
+  return {};
+}
+
+/**
+ * Best-effort intent from free text, used when the NLP endpoint is unavailable
+ * and as the starting point the buyer edits.
+ */
+export function extractSearchIntent(text: string, today = new Date()): SearchIntent {
+  let rest = ` ${text.trim()} `;
+  const intent: SearchIntent = { product: '' };
+
+  const { deadline, match: deadlineMatch } = parseDeadline(rest, today);
+  if (deadline && deadlineMatch) {
+    intent.deadline = deadline;
+    rest = rest.replace(deadlineMatch, ' ');
+  }
+
+  // A number followed by a unit; a bare number only right after "need 100 ..."
+  // so grades like "ss 304 pipe" aren't read as quantities
+  const withUnit = Array.from(rest.matchAll(/\b(\d+(?:[.,]\d+)?)\s*([a-z.]+)/gi))
+    .find(match => normalizeUnit(match[2]));
+  const bare = rest.match(/\b(?:need|want|require|buy|purchase|order)\s+(\d+)\b/i);
+  if (withUnit) {
+    intent.quantity = Number(withUnit[1].replace(',', ''));
+    intent.unit = normalizeUnit(withUnit[2]);
+    rest = rest.replace(withUnit[0], ' ');
+  } else if (bare) {
+    intent.quantity = Number(bare[1]);
+    rest = rest.replace(bare[0], ' ');
+  }
+
+  // Location is the last "to/in/at <Place>", so "rods in bulk to Pune" picks Pune
+  const locations = Array.from(rest.matchAll(/\b(?:to|in|at|near)\s+([a-z][a-z ]*?)(?=\s*(?:,|\.|$|\b(?:by|within|before|for|and)\b))/gi));
+  const location = locations[locations.length - 1];
+  if (location) {
+    intent.location = titleCase(location[1].trim());
+    rest = rest.replace(location[0], ' ');
+  }
+
+  intent.product = rest.replace(FILLER, ' ').replace(/[,.]/g, ' ').replace(/\s+/g, ' ').trim();
+  return intent;
+}
+
+export function intentToSearchRequest(intent: SearchIntent): SearchRequest {
+  return {
+    query: intent.product,
+    filters: {
+      location: intent.location || undefined,
+      category: intent.category || undefined,
+      attributes: intent.attributes,
+    },
+    sort: { field: 'relevance', order: 'desc' },
+    page: 0,
+    size: 20,
+    includeAggregations: true,
+    searchType: 'products',
+  };
+}
+
+// Query string for /post-requirement, read back by RfqWizard
+export function intentToRfqParams(intent: SearchIntent): URLSearchParams {
+  const params = new URLSearchParams();
+  if (intent.product) params.set('title', titleCase(intent.product));
+  if (intent.quantity) params.set('quantity', String(intent.quantity));
+  if (intent.unit && normalizeUnit(intent.unit)) params.set('unit', normalizeUnit(intent.unit)!);
+  if (intent.deadline) params.set('deadline', intent.deadline);
+  if (intent.location) params.set('location', intent.location);
+  if (intent.category) params.set('category', intent.category);
+  return params;
+}
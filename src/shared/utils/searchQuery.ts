@@ -0,0 +1,297 @@
+/**
+ * 🔎 Search Query Parser
+ *
+ * Turns buyer queries like `ss pipe 304 dia>=50mm price<2000 in:pune` into
+ * free-text terms plus structured SearchFilters, with one token per part
+ * so the search UI can show what was understood.
+ */
+
+import type { NumericRange, SearchFilters } from '@/services/searchService';
+
+export type QueryTokenKind = 'term' | 'phrase' | 'exclude' | 'field' | 'range' | 'location';
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  raw: string; // exactly as typed, so a chip can remove it from the query
+  label: string;
+  error?: string; // understood as a filter but couldn't be applied
+}
+
+export interface ParsedSearchQuery {
+  text: string; // terms and phrases, sent as the search query
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  filters: SearchFilters;
+  tokens: QueryToken[];
+}
+
+type Dimension = 'length' | 'weight';
+
+// Length normalises to mm, weight to kg
+const UNITS: Record<string, { dimension: Dimension; factor: number; base: string }> = {
+  mm: { dimension: 'length', factor: 1, base: 'mm' },
+  cm: { dimension: 'length', factor: 10, base: 'mm' },
+  m: { dimension: 'length', factor: 1000, base: 'mm' },
+  in: { dimension: 'length', factor: 25.4, base: 'mm' },
+  inch: { dimension: 'length', factor: 25.4, base: 'mm' },
+  inches: { dimension: 'length', factor: 25.4, base: 'mm' },
+  '"': { dimension: 'length', factor: 25.4, base: 'mm' },
+  ft: { dimension: 'length', factor: 304.8, base: 'mm' },
+  g: { dimension: 'weight', factor: 0.001, base: 'kg' },
+  gm: { dimension: 'weight', factor: 0.001, base: 'kg' },
+  kg: { dimension: 'weight', factor: 1, base: 'kg' },
+  kgs: { dimension: 'weight', factor: 1, base: 'kg' },
+  t: { dimension: 'weight', factor: 1000, base: 'kg' },
+  ton: { dimension: 'weight', factor: 1000, base: 'kg' },
+  tons: { dimension: 'weight', factor: 1000, base: 'kg' },
+  tonne: { dimension: 'weight', factor: 1000, base: 'kg' },
+  mt: { dimension: 'weight', factor: 1000, base: 'kg' },
+};
+
+const BASE_UNITS: Record<Dimension, string> = { length: 'mm', weight: 'kg' };
+
+// Indian price shorthands: 5k, 2l / 2lakh, 1cr
+const PRICE_MULTIPLIERS: Record<string, number> = { k: 1e3, l: 1e5, lakh: 1e5, lac: 1e5, cr: 1e7 };
+
+interface NumericField {
+  attribute: string;
+  label: string;
+  dimension?: Dimension; // unitless values are read in the base unit
+}
+
+const NUMERIC_FIELDS: Record<string, NumericField> = {
+  dia: { attribute: 'diameter', label: 'Diameter', dimension: 'length' },
+  diameter: { attribute: 'diameter', label: 'Diameter', dimension: 'length' },
+  od: { attribute: 'diameter', label: 'Diameter', dimension: 'length' },
+  thk: { attribute: 'thickness', label: 'Thickness', dimension: 'length' },
+  thickness: { attribute: 'thickness', label: 'Thickness', dimension: 'length' },
+  len: { attribute: 'length', label: 'Length', dimension: 'length' },
+  length: { attribute: 'length', label: 'Length', dimension: 'length' },
+  width: { attribute: 'width', label: 'Width', dimension: 'length' },
+  height: { attribute: 'height', label: 'Height', dimension: 'length' },
+  wt: { attribute: 'weight', label: 'Weight', dimension: 'weight' },
+  weight: { attribute: 'weight', label: 'Weight', dimension: 'weight' },
+  capacity: { attribute: 'capacity', label: 'Capacity', dimension: 'weight' },
+  moq: { attribute: 'moq', label: 'MOQ' },
+  price: { attribute: 'price', label: 'Price' },
+  rating: { attribute: 'rating', label: 'Rating' },
+};
+
+const LOCATION_FIELDS = ['in', 'near', 'location', 'loc', 'city'];
+
+type TextField = 'brand' | 'category' | 'tag' | 'grade' | 'verified' | 'stock';
+
+const TEXT_FIELDS: Record<string, TextField> = {
+  brand: 'brand',
+  make: 'brand',
+  category: 'category',
+  cat: 'category',
+  tag: 'tag',
+  grade: 'grade',
+  material: 'grade',
+  verified: 'verified',
+  stock: 'stock',
+};
+
+const OPERATOR_SYMBOLS: Record<string, string> = { '>=': '≥', '<=': '≤', '>': '>', '<': '<' };
+
+// Optional leading "-", optional "field:" or "field>=", then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-z_]+)(>=|<=|>|<|=|:))?(?:"([^"]*)"?|(\S+))/gi;
+const NUMBER_PATTERN = /^(?:₹|rs\.?)?(\d+(?:,\d{2,3})*(?:\.\d+)?)\s*([a-z"]*)$/i;
+
+const titleCase = (value: string) => value.replace(/\b\w/g, char => char.toUpperCase());
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toLocaleString('en-IN');
+
+const formatValue = (field: NumericField, value: number, unit?: string) =>
+  field.attribute === 'price' ? `₹${formatNumber(value)}` : `${formatNumber(value)}${unit ? ` ${unit}` : ''}`;
+
+/**
+ * Read a number with an optional unit, converted to the field's base unit.
+ * Returns an error string when the unit doesn't fit the field.
+ */
+function parseQuantity(input: string, field: NumericField): { value: number; unit?: string } | string {
+  const match = input.trim().match(NUMBER_PATTERN);
+  if (!match) return `"${input}" is not a number`;
+
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  const suffix = match[2].toLowerCase();
+  if (!suffix) {
+    return { value, unit: field.dimension && BASE_UNITS[field.dimension] };
+  }
+
+  if (field.attribute === 'price' && PRICE_MULTIPLIERS[suffix]) {
+    return { value: value * PRICE_MULTIPLIERS[suffix] };
+  }
+
+  const unit = UNITS[suffix];
+  if (!unit || unit.dimension !== field.dimension) {
+    return `${field.label} can't be measured in "${match[2]}"`;
+  }
+  return { value: Math.round(value * unit.factor * 1000) / 1000, unit: unit.base };
+}
+
+function parseRange(field: NumericField, operator: string, value: string): { range: NumericRange; label: string } | string {
+  // "50-100mm", "50mm-100mm" or "50..100"
+  const bounds = operator === ':' || operator === '=' ? value.split(/\.\.|-(?=\d)/) : [value];
+
+  if (bounds.length === 2) {
+    // A unit on the upper bound applies to a bare lower bound; price shorthands don't ("500-2k")
+    const upperSuffix = bounds[1].match(/[a-z"]+$/i)?.[0] ?? '';
+    const carriedUnit = UNITS[upperSuffix.toLowerCase()] ? upperSuffix : '';
+    const lower = parseQuantity(/[a-z"]$/i.test(bounds[0]) ? bounds[0] : bounds[0] + carriedUnit, field);
+    const upper = parseQuantity(bounds[1], field);
+    if (typeof lower === 'string') return lower;
+    if (typeof upper === 'string') return upper;
+    if (lower.value > upper.value) return `${field.label} range is backwards`;
+    return {
+      range: { gte: lower.value, lte: upper.value, unit: upper.unit },
+      label: `${field.label} ${formatValue(field, lower.value, upper.unit)} – ${formatValue(field, upper.value, upper.unit)}`,
+    };
+  }
+
+  const quantity = parseQuantity(value, field);
+  if (typeof quantity === 'string') return quantity;
+
+  const range: NumericRange = { unit: quantity.unit };
+  switch (operator) {
+    case '>=': range.gte = quantity.value; break;
+    case '>': range.gt = quantity.value; break;
+    case '<=': range.lte = quantity.value; break;
+    case '<': range.lt = quantity.value; break;
+    default: range.gte = range.lte = quantity.value;
+  }
+  const symbol = OPERATOR_SYMBOLS[operator] ?? '=';
+  return { range, label: `${field.label} ${symbol} ${formatValue(field, quantity.value, quantity.unit)}` };
+}
+
+// Price and rating have their own SearchFilters fields; everything else is an attribute range
+function applyRange(filters: SearchFilters, field: NumericField, range: NumericRange) {
+  if (field.attribute === 'price') {
+    const min = range.gte ?? range.gt;
+    const max = range.lte ?? range.lt;
+    if (min !== undefined) filters.minPrice = min;
+    if (max !== undefined) filters.maxPrice = max;
+  } else if (field.attribute === 'rating') {
+    const min = range.gte ?? range.gt;
+    if (min !== undefined) filters.minRating = min;
+  } else {
+    filters.attributes = { ...filters.attributes, [field.attribute]: range };
+  }
+}
+
+function applyTextField(filters: SearchFilters, field: TextField, value: string): string | { label: string } {
+  switch (field) {
+    case 'brand':
+      filters.brands = [...(filters.brands ?? []), value];
+      return { label: `Brand: ${value}` };
+    case 'category':
+      filters.category = value;
+      return { label: `Category: ${value}` };
+    case 'tag':
+      filters.tags = [...(filters.tags ?? []), value];
+      return { label: `Tag: ${value}` };
+    case 'grade':
+      filters.attributes = { ...filters.attributes, grade: value.toUpperCase() };
+      return { label: `Grade: ${value.toUpperCase()}` };
+    case 'verified':
+      if (!/^(yes|true|1|only)$/i.test(value)) return 'Use verified:yes';
+      filters.verifiedVendorsOnly = true;
+      return { label: 'Verified sellers only' };
+    case 'stock':
+      if (!/^(in|yes|available)$/i.test(value)) return 'Use stock:in';
+      filters.availability = ['in_stock'];
+      return { label: 'In stock' };
+  }
+}
+
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { text: '', terms: [], phrases: [], excluded: [], filters: {}, tokens: [] };
+  if (!query) return parsed;
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, rawField, operator, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const fieldName = rawField?.toLowerCase();
+    if (!value && quoted === undefined) continue;
+
+    if (fieldName && operator && !negation) {
+      const numericField = NUMERIC_FIELDS[fieldName];
+      if (numericField) {
+        const result = parseRange(numericField, operator, value);
+        if (typeof result === 'string') {
+          parsed.tokens.push({ kind: 'range', raw, label: `${numericField.label}: ${value}`, error: result });
+        } else {
+          applyRange(parsed.filters, numericField, result.range);
+          parsed.tokens.push({ kind: 'range', raw, label: result.label });
+        }
+        continue;
+      }
+
+      if (operator === ':' && value) {
+        if (LOCATION_FIELDS.includes(fieldName)) {
+          parsed.filters.location = titleCase(value);
+          parsed.tokens.push({ kind: 'location', raw, label: `📍 ${titleCase(value)}` });
+          continue;
+        }
+        const textField = TEXT_FIELDS[fieldName];
+        if (textField) {
+          const result = applyTextField(parsed.filters, textField, value);
+          parsed.tokens.push(typeof result === 'string'
+            ? { kind: 'field', raw, label: `${titleCase(fieldName)}: ${value}`, error: result }
+            : { kind: 'field', raw, label: result.label });
+          continue;
+        }
+      }
+      // Unknown field - fall through and search for it as typed
+    }
+
+    const text = fieldName && operator ? `${rawField}${operator}${value}` : value;
+    if (!text) continue;
+
+    if (negation) {
+      parsed.excluded.push(text.toLowerCase());
+      parsed.tokens.push({ kind: 'exclude', raw, label: `Not "${text}"` });
+    } else if (quoted !== undefined && !(fieldName && operator)) {
+      parsed.phrases.push(text);
+      parsed.tokens.push({ kind: 'phrase', raw, label: `"${text}"` });
+    } else {
+      parsed.terms.push(text);
+      parsed.tokens.push({ kind: 'term', raw, label: text });
+    }
+  }
+
+  parsed.text = [...parsed.terms, ...parsed.phrases].join(' ');
+  if (parsed.phrases.length) parsed.filters.phrases = parsed.phrases;
+  if (parsed.excluded.length) parsed.filters.excludeTerms = parsed.excluded;
+  return parsed;
+}
+
+/**
+ * Combine parsed filters with ones set elsewhere (sidebar, URL). Explicit
+ * filters win for single values; lists are merged.
+ */
+export function mergeSearchFilters(parsed: SearchFilters, explicit: SearchFilters = {}): SearchFilters {
+  const merged: SearchFilters = { ...parsed };
+  (Object.keys(explicit) as Array<keyof SearchFilters>).forEach(key => {
+    const value = explicit[key];
+    if (value === undefined) return;
+    const current = merged[key];
+    if (Array.isArray(value) && Array.isArray(current)) {
+      (merged as Record<string, unknown>)[key] = Array.from(new Set([...current, ...value]));
+    } else if (key === 'attributes' && current) {
+      merged.attributes = { ...current as Record<string, unknown>, ...value as Record<string, unknown> };
+    } else {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  });
+  return merged;
+}
+
+// Drop one understood token from the query, e.g. when its chip is dismissed
+export function removeQueryToken(query: string, token: QueryToken): string {
+  const index = query.indexOf(token.raw);
+  if (index === -1) return query;
+  return `${query.slice(0, index)}${query.slice(index + token.raw.length)}`.replace(/\s{2,}/g, ' ').trim();
+}
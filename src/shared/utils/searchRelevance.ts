@@ -0,0 +1,169 @@
+/**
+ * 🎯 Search Relevance
+ *
+ * Quality metrics for the admin search dashboard (CTR by position, MRR,
+ * synonym suggestions for zero-result queries) and the curation rules the
+ * search layer applies: synonyms and pinned results.
+ */
+
+import type {
+  SearchAnalytics,
+  SearchPinnedResult,
+  SearchSynonym
+} from '@/services/searchService';
+import { editDistance, phoneticFold, scoreTokens, tokenizeForSearch, tokenizeQuery } from './fuzzyMatch';
+
+export interface PositionCtr {
+  position: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+export interface SynonymSuggestion {
+  query: string;
+  count: number;
+  suggestion: string;
+  confidence: number;
+}
+
+export interface QueryCategoryShare {
+  category: string;
+  searches: number;
+  share: number;
+  topQueries: string[];
+}
+
+// Positions shown individually; everything below is grouped
+const MAX_REPORTED_POSITION = 10;
+
+export function ctrByPosition(analytics: SearchAnalytics): PositionCtr[] {
+  return (analytics.clicksByPosition ?? [])
+    .filter(row => row.position <= MAX_REPORTED_POSITION)
+    .sort((a, b) => a.position - b.position)
+    .map(row => ({ ...row, ctr: row.impressions > 0 ? row.clicks / row.impressions : 0 }));
+}
+
+/**
+ * Mean reciprocal rank of the first click. Searches without a click count as
+ * 0, so MRR falls when buyers give up as well as when they scroll.
+ */
+export function meanReciprocalRank(analytics: SearchAnalytics): number {
+  const firstClicks = analytics.firstClickPositions ?? [];
+  if (analytics.totalSearches === 0) return 0;
+  const reciprocalSum = firstClicks.reduce((sum, row) => sum + row.count / row.position, 0);
+  return reciprocalSum / analytics.totalSearches;
+}
+
+/**
+ * For each zero-result query, the closest query or category that does return
+ * results - most zero-result searches are misspellings or regional names.
+ */
+export function suggestSynonyms(
+  analytics: SearchAnalytics,
+  existing: SearchSynonym[] = []
+): SynonymSuggestion[] {
+  const mapped = new Set(existing.map(synonym => synonym.term.toLowerCase()));
+  const candidates = Array.from(new Set([
+    ...analytics.topQueries.map(query => query.query),
+    ...analytics.categoryDistribution.map(category => category.category)
+  ].map(term => term.trim()).filter(Boolean)));
+  const candidateTokens = candidates.map(candidate => tokenizeForSearch(candidate));
+
+  return analytics.noResultQueries.flatMap(({ query, count }) => {
+    if (mapped.has(query.toLowerCase())) return [];
+    const queryWords = tokenizeQuery(query);
+
+    let best: SynonymSuggestion | null = null;
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      if (candidate.toLowerCase() === query.toLowerCase()) continue;
+      let confidence = scoreTokens(queryWords, candidateTokens[i]);
+      // Whole-phrase typos the per-word matcher is too strict for ("pvcpipe")
+      if (confidence === 0) {
+        const a = phoneticFold(query.toLowerCase().replace(/[^a-z0-9]/g, ''));
+        const b = phoneticFold(candidate.toLowerCase().replace(/[^a-z0-9]/g, ''));
+        const distance = editDistance(a, b, 2);
+        if (distance <= 2 && a.length >= 5) confidence = 0.6 - distance * 0.1;
+      }
+      if (confidence > 0.5 && (!best || confidence > best.confidence)) {
+        best = { query, count, suggestion: candidate, confidence };
+      }
+    }
+
+    return best ? [best] : [];
+  }).sort((a, b) => b.count - a.count);
+}
+
+export function queryCategoryShares(analytics: SearchAnalytics): QueryCategoryShare[] {
+  const rows = analytics.queryCategories ?? [];
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+  const byCategory = new Map<string, Array<{ query: string; count: number }>>();
+
+  rows.forEach(row => {
+    byCategory.set(row.category, [...(byCategory.get(row.category) ?? []), row]);
+  });
+
+  return Array.from(byCategory.entries())
+    .map(([category, queries]) => {
+      const searches = queries.reduce((sum, row) => sum + row.count, 0);
+      return {
+        category,
+        searches,
+        share: total > 0 ? searches / total : 0,
+        topQueries: queries.sort((a, b) => b.count - a.count).slice(0, 3).map(row => row.query)
+      };
+    })
+    .sort((a, b) => b.searches - a.searches);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrite a query with the curated synonyms. One-way rules replace the term
+ * ("ms" → "mild steel"); two-way rules keep it and send the equivalents along
+ * so either spelling finds both.
+ */
+export function applySynonyms(
+  query: string,
+  synonyms: SearchSynonym[]
+): { query: string; expansions: Record<string, string[]> } {
+  const expansions: Record<string, string[]> = {};
+  let rewritten = query;
+
+  synonyms.forEach(synonym => {
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(synonym.term)}(?=\\s|$)`, 'i');
+    if (!pattern.test(rewritten)) return;
+    if (synonym.oneWay) {
+      rewritten = rewritten.replace(pattern, `$1${synonym.synonyms[0]}`);
+    } else {
+      expansions[synonym.term.toLowerCase()] = synonym.synonyms;
+    }
+  });
+
+  return { query: rewritten, expansions };
+}
+
+/**
+ * Move pinned results to their curated positions for this query. Pins only
+ * reorder the first page the search returned; they never inject listings.
+ */
+export function applyPinnedResults<T extends { id: string }>(
+  results: T[],
+  query: string,
+  pins: SearchPinnedResult[]
+): T[] {
+  const normalized = query.trim().toLowerCase();
+  const active = pins
+    .filter(pin => pin.query.trim().toLowerCase() === normalized)
+    .sort((a, b) => a.position - b.position);
+  if (active.length === 0) return results;
+
+  const pinnedIds = new Set(active.map(pin => pin.productId));
+  const reordered = results.filter(result => !pinnedIds.has(result.id));
+  active.forEach(pin => {
+    const result = results.find(item => item.id === pin.productId);
+    if (result) reordered.splice(Math.min(pin.position - 1, reordered.length), 0, result);
+  });
+  return reordered;
+}
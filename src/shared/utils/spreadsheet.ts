@@ -0,0 +1,203 @@
+/**
+ * 📊 Spreadsheet Export
+ *
+ * CSV and a minimal XLSX writer (inline strings in an uncompressed zip) so
+ * reports can be downloaded from the browser without a spreadsheet library
+ */
+
+export type SheetCell = string | number | null | undefined;
+
+export interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (cell: SheetCell) => {
+  const raw = cell === null || cell === undefined ? '' : String(cell);
+  // Numbers are written as-is so negative amounts stay numeric
+  const text = typeof cell === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: SheetCell[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+// ========== XLSX ==========
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+// 0 → A, 25 → Z, 26 → AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Excel caps sheet names at 31 characters and rejects a few symbols
+const sheetName = (name: string) => name.replace(/[\\/?*:[\]]/g, ' ').slice(0, 31) || 'Sheet';
+
+// Names must also be unique (case-insensitively) after truncation; clashes get a " (2)" style suffix
+const uniqueSheetNames = (names: string[]) => {
+  const taken = new Set<string>();
+  return names.map(name => {
+    const base = sheetName(name);
+    let unique = base;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+const worksheetXml = (rows: SheetCell[][]) => {
+  const rowXml = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (cell === null || cell === undefined || cell === '') return '';
+      if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml.join('')}</sheetData></worksheet>`;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Store-only zip: every entry uncompressed, UTF-8 names, fixed 1980-01-01 timestamp
+const zip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  const header = (size: number, write: (view: DataView) => void) => {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+    return bytes;
+  };
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = header(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, 0x0800, true);
+      view.setUint16(12, 0x21, true);
+      view.setUint32(14, crc, true);
+      view.setUint32(18, data.length, true);
+      view.setUint32(22, data.length, true);
+      view.setUint16(26, name.length, true);
+    });
+    central.push(header(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, 20, true);
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(14, 0x21, true);
+      view.setUint32(16, crc, true);
+      view.setUint32(20, data.length, true);
+      view.setUint32(24, data.length, true);
+      view.setUint16(28, name.length, true);
+      view.setUint32(42, offset, true);
+    }), name);
+
+    chunks.push(local, name, data);
+    offset += local.length + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+  const end = header(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, files.length, true);
+    view.setUint16(10, files.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+  });
+
+  const parts = [...chunks, ...central, end];
+  const output = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+};
+
+export function buildXlsx(sheets: Sheet[]): Uint8Array {
+  const names = uniqueSheetNames(sheets.map(sheet => sheet.name));
+  const worksheets = sheets.map((sheet, index) => ({ ...sheet, name: names[index], file: `sheet${index + 1}.xml`, id: `rId${index + 1}` }));
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${worksheets.map(ws => `<Override PartName="/xl/worksheets/${ws.file}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${worksheets.map((ws, index) => `<sheet name="${escapeXml(ws.name)}" sheetId="${index + 1}" r:id="${ws.id}"/>`).join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${worksheets.map(ws => `<Relationship Id="${ws.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/${ws.file}"/>`).join('')}</Relationships>`,
+    },
+    ...worksheets.map(ws => ({ name: `xl/worksheets/${ws.file}`, content: worksheetXml(ws.rows) })),
+  ]);
+}
+
+// Save a generated file through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+// The BOM makes Excel read the file as UTF-8 so ₹ and names survive
+export function downloadCsv(rows: SheetCell[][], fileName: string): void {
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+export function downloadXlsx(sheets: Sheet[], fileName: string): void {
+  downloadBlob(
+    new Blob([buildXlsx(sheets) as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    fileName
+  );
+}
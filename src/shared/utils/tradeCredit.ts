@@ -0,0 +1,86 @@
+/**
+ * 🤝 Trade Credit
+ *
+ * Pay-on-terms helpers: how much of a vendor's credit line a buyer has left,
+ * when an order on terms falls due, ageing of outstanding dues and when an
+ * overdue buyer should be reminded again.
+ */
+
+import type { CreditDue, CreditLine, CreditTerms } from '@/services/tradeCreditService';
+
+export const CREDIT_TERM_DAYS: Record<CreditTerms, number> = {
+  NET_15: 15,
+  NET_30: 30,
+  NET_45: 45,
+  NET_60: 60,
+};
+
+export const CREDIT_TERM_LABELS: Record<CreditTerms, string> = {
+  NET_15: 'Net 15',
+  NET_30: 'Net 30',
+  NET_45: 'Net 45',
+  NET_60: 'Net 60',
+};
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export type AgeingSummary = Record<AgeingBucket, { count: number; amount: number }>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Gap between repeat reminders for the same overdue order
+export const REMINDER_INTERVAL_DAYS = 7;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const daysBetween = (from: Date, to: Date) => Math.floor((startOfDay(to) - startOfDay(from)) / DAY);
+
+export const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+export const availableCredit = (line: CreditLine) => Math.max(0, line.limit - line.used);
+
+export const outstandingAmount = (due: CreditDue) => Math.max(0, due.amount - due.paidAmount);
+
+// Active line with room for this order
+export const canPayOnTerms = (line: CreditLine | undefined, amount: number): line is CreditLine =>
+  Boolean(line) && line!.status === 'ACTIVE' && amount > 0 && amount <= availableCredit(line!);
+
+export function dueDateFor(terms: CreditTerms, from = new Date()): string {
+  const due = new Date(startOfDay(from) + CREDIT_TERM_DAYS[terms] * DAY);
+  return `${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}-${String(due.getDate()).padStart(2, '0')}`;
+}
+
+export const daysOverdue = (due: CreditDue, today = new Date()) =>
+  Math.max(0, daysBetween(new Date(due.dueDate), today));
+
+// Buckets go by the age of the order since it was billed, as on an AR ageing report
+export function ageingBucket(due: CreditDue, today = new Date()): AgeingBucket {
+  const age = daysBetween(new Date(due.issuedAt), today);
+  if (age <= 30) return '0-30';
+  if (age <= 60) return '31-60';
+  if (age <= 90) return '61-90';
+  return '90+';
+}
+
+export function summarizeAgeing(dues: CreditDue[], today = new Date()): AgeingSummary {
+  const summary = Object.fromEntries(
+    AGEING_BUCKETS.map(bucket => [bucket, { count: 0, amount: 0 }])
+  ) as AgeingSummary;
+
+  for (const due of dues) {
+    const amount = outstandingAmount(due);
+    if (amount === 0) continue;
+    const bucket = summary[ageingBucket(due, today)];
+    bucket.count++;
+    bucket.amount += amount;
+  }
+  return summary;
+}
+
+// Overdue and either never reminded or reminded more than a week ago
+export function isReminderDue(due: CreditDue, today = new Date()): boolean {
+  if (outstandingAmount(due) === 0 || daysOverdue(due, today) === 0) return false;
+  return !due.lastRemindedAt || daysBetween(new Date(due.lastRemindedAt), today) >= REMINDER_INTERVAL_DAYS;
+}
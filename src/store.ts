@@ -1,6 +1,7 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authReducer from './features/auth/authSlice';
 import cartReducer from './features/cart/cartSlice';
+import { cartListenerMiddleware } from './features/cart/cartListeners';
 
 export const makeStore = () => {
   return configureStore({
@@ -13,7 +14,7 @@ export const makeStore = () => {
         serializableCheck: {
           ignoredActions: ['persist/PERSIST', 'persist/REHYDRATE'],
         },
-      }),
+      }).prepend(cartListenerMiddleware.middleware),
   });
 };
 
@@ -1,5 +1,59 @@
 import { http, HttpResponse } from 'msw';
 
+// Visual search fixtures
+const mockSearchProduct = (id: string, name: string, price: number) => ({
+  id,
+  name,
+  description: `${name} for industrial use`,
+  price,
+  image: `/images/products/${id}.jpg`,
+  images: [],
+  category: 'Bearings',
+  rating: 4.2,
+  reviewCount: 18,
+  vendor: { id: 'v1', name: 'Shree Bearings Co.', rating: 4.5, verified: true, location: 'Rajkot' },
+  availability: 'in_stock',
+  tags: [],
+  attributes: {},
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z'
+});
+
+export const mockImageSearchResponse = {
+  searchId: 'img-search-1',
+  results: [
+    mockSearchProduct('p101', 'Deep Groove Ball Bearing 6205', 180),
+    mockSearchProduct('p102', 'Sealed Ball Bearing 6205-2RS', 210)
+  ],
+  total: 2,
+  page: 0,
+  totalPages: 1,
+  took: 240,
+  aggregations: [],
+  suggestions: [],
+  corrections: [],
+  confidence: 0.87,
+  detectedLabels: ['ball bearing'],
+  similarItems: [mockSearchProduct('p201', 'Taper Roller Bearing 30205', 320)],
+  categorySuggestions: [{ category: 'Bearings', score: 0.87 }, { category: 'Power Transmission', score: 0.41 }]
+};
+
+export const mockLowConfidenceImageSearchResponse = {
+  ...mockImageSearchResponse,
+  searchId: 'img-search-2',
+  results: [],
+  total: 0,
+  confidence: 0.22,
+  detectedLabels: [],
+  similarItems: [],
+  categorySuggestions: [{ category: 'Pumps', score: 0.3 }, { category: 'Valves', score: 0.25 }]
+};
+
+// Use with server.use(...) to exercise the category fallback
+export const lowConfidenceImageSearchHandler = http.post('*/api/search/image', () =>
+  HttpResponse.json(mockLowConfidenceImageSearchResponse)
+);
+
 export const handlers = [
   // Auth endpoints
   http.post('/api/auth/login', () => {
@@ -66,5 +120,13 @@ export const handlers = [
   http.get('/api/vendors', () => HttpResponse.json({ vendors: [], total: 0 })),
   http.get('/api/vendors/:id', ({ params }) => HttpResponse.json({ id: params.id, name: `Vendor ${params.id}` })),
   http.get('/api/search', () => HttpResponse.json({ products: [], total: 0 })),
+  http.post('*/api/search/image', async ({ request }) => {
+    const formData = await request.formData();
+    if (!formData.get('image')) {
+      return HttpResponse.json({ message: 'Image is required' }, { status: 400 });
+    }
+    return HttpResponse.json(mockImageSearchResponse);
+  }),
+  http.get('*/api/search/similar/:id', () => HttpResponse.json(mockImageSearchResponse.similarItems)),
   http.get('/api/analytics/dashboard', () => HttpResponse.json({ totalOrders: 1000, totalRevenue: 50000 }))
 ];
@@ -0,0 +1,76 @@
+import { configureStore } from '@reduxjs/toolkit';
+import cartReducer, { addProductToCart, getCartItemUnitPrice, updateCartItem } from '@/features/cart/cartSlice';
+import { fromServerCartItem, mergeCartItems } from '@/features/cart/cartSync';
+import type { CartItem as ServerCartItem } from '@/services/cartService';
+import { toCartCheckoutItem } from '@/services/orderService';
+import { productService, type ProductDto } from '@/services/productService';
+
+const priceSlabs = [
+  { minQuantity: 50, maxQuantity: 99, price: 90 },
+  { minQuantity: 100, price: 80 }
+];
+
+const product: ProductDto = {
+  id: 42,
+  name: 'MS angle 40x40',
+  price: 100,
+  category: 'Structural Steel',
+  vendorId: 7,
+  stock: 300,
+  minOrderQuantity: 10,
+  maxOrderQuantity: 500,
+  priceSlabs
+};
+
+const serverLine: ServerCartItem = {
+  id: 901,
+  productId: 42,
+  productName: 'MS angle 40x40',
+  quantity: 120,
+  price: 100,
+  totalPrice: 9600,
+  priceSlabs,
+  minOrderQuantity: 10,
+  maxOrderQuantity: 500,
+  stock: 300,
+  vendor: { id: 7, name: 'Shree Ganesh Steel' }
+};
+
+describe('cart slab pricing round trip', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps slabs and order limits when a catalog product is added', async () => {
+    jest.spyOn(productService, 'getProductById').mockResolvedValue(product);
+    const store = configureStore({ reducer: { cart: cartReducer } });
+
+    await store.dispatch(addProductToCart({ productId: 42, vendorName: 'Shree Ganesh Steel' }));
+
+    const [line] = store.getState().cart.items;
+    expect(line).toMatchObject({ id: '42', vendorId: '7', quantity: 10, minOrderQuantity: 10, maxOrderQuantity: 500, stockQuantity: 300, priceSlabs });
+
+    store.dispatch(updateCartItem({ itemId: '42', quantity: 120 }));
+    expect(store.getState().cart.totalAmount).toBe(9600);
+  });
+
+  it('reads slabs and limits back from the server cart', () => {
+    const item = fromServerCartItem(serverLine);
+
+    expect(item).toMatchObject({ id: '42', cartItemId: 901, minOrderQuantity: 10, maxOrderQuantity: 500, stockQuantity: 300, inStock: true });
+    expect(getCartItemUnitPrice(item)).toBe(80);
+    expect(toCartCheckoutItem(item).price).toBe(8000);
+  });
+
+  it('keeps slab pricing when the guest cart is merged after login', () => {
+    const serverItem = fromServerCartItem({ ...serverLine, quantity: 40, priceSlabs: undefined });
+    const guestItem = { ...serverItem, cartItemId: undefined, quantity: 20 };
+
+    const { items } = mergeCartItems([serverItem], [guestItem], { '42': product });
+
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(60);
+    expect(items[0].priceSlabs).toEqual(priceSlabs);
+    expect(getCartItemUnitPrice(items[0])).toBe(90);
+  });
+});
@@ -0,0 +1,101 @@
+import type { CartItem } from '@/features/cart/cartSlice';
+import { revalidateItem, validateQuantity } from '@/features/cart/cartValidation';
+
+const line: CartItem = {
+  id: '42',
+  cartItemId: 901,
+  name: 'MS angle 40x40',
+  price: 100,
+  quantity: 120,
+  vendorId: '7',
+  vendorName: 'Shree Ganesh Steel',
+  category: 'Structural Steel',
+  unit: 'kg',
+  minOrderQuantity: 10,
+  maxOrderQuantity: 500,
+  stockQuantity: 300,
+  inStock: true
+};
+
+describe('validateQuantity', () => {
+  it('accepts a quantity inside every limit', () => {
+    expect(validateQuantity(line, 120)).toEqual({ quantity: 120, warnings: [] });
+  });
+
+  it('accepts quantities exactly on the MOQ and the max order quantity', () => {
+    expect(validateQuantity(line, 10)).toEqual({ quantity: 10, warnings: [] });
+    expect(validateQuantity({ ...line, stockQuantity: 1000 }, 500)).toEqual({ quantity: 500, warnings: [] });
+  });
+
+  it('raises a quantity below the MOQ to the MOQ', () => {
+    expect(validateQuantity(line, 4)).toEqual({ quantity: 10, warnings: ['Minimum order quantity is 10 kg'] });
+  });
+
+  it('caps at the max order quantity, then at stock', () => {
+    expect(validateQuantity({ ...line, stockQuantity: 1000 }, 800)).toEqual({
+      quantity: 500,
+      warnings: ['Maximum order quantity is 500 kg']
+    });
+    expect(validateQuantity(line, 450)).toEqual({ quantity: 300, warnings: ['Only 300 kg in stock'] });
+  });
+
+  it('drops fractional quantities', () => {
+    expect(validateQuantity(line, 12.7).quantity).toBe(12);
+  });
+
+  it('rejects out-of-stock lines instead of clamping to zero', () => {
+    expect(validateQuantity({ ...line, inStock: false }, 20)).toEqual({
+      quantity: 0,
+      warnings: [],
+      error: 'MS angle 40x40 is out of stock'
+    });
+    expect(validateQuantity({ ...line, stockQuantity: 0 }, 20).error).toBe('MS angle 40x40 is out of stock');
+  });
+
+  it('rejects a line whose stock is below the MOQ', () => {
+    const result = validateQuantity({ ...line, stockQuantity: 6 }, 20);
+    expect(result.quantity).toBe(0);
+    expect(result.error).toBe('Only 6 kg of MS angle 40x40 in stock, below the minimum order of 10');
+  });
+
+  it('falls back to "units" when the line has no unit', () => {
+    expect(validateQuantity({ ...line, unit: undefined }, 2).warnings).toEqual(['Minimum order quantity is 10 units']);
+  });
+});
+
+describe('revalidateItem', () => {
+  it('leaves an unchanged line alone', () => {
+    const result = revalidateItem(line, { stockQuantity: 300, inStock: true });
+    expect(result).toEqual({ item: line, warnings: [], blocking: false, changed: false });
+  });
+
+  it('lowers the quantity when stock has dropped and says so', () => {
+    const result = revalidateItem(line, { stockQuantity: 80 });
+    expect(result.item.quantity).toBe(80);
+    expect(result.item.stockQuantity).toBe(80);
+    expect(result.changed).toBe(true);
+    expect(result.blocking).toBe(false);
+    expect(result.warnings).toEqual(['Only 80 kg in stock', 'Quantity changed from 120 to 80']);
+  });
+
+  it('applies a raised MOQ from the catalog', () => {
+    const result = revalidateItem({ ...line, quantity: 20 }, { minOrderQuantity: 50 });
+    expect(result.item.quantity).toBe(50);
+    expect(result.item.minOrderQuantity).toBe(50);
+    expect(result.changed).toBe(true);
+  });
+
+  it('keeps the quantity and blocks when the product sold out', () => {
+    const result = revalidateItem(line, { inStock: false, stockQuantity: 0 });
+    expect(result.item.quantity).toBe(120);
+    expect(result.item.inStock).toBe(false);
+    expect(result.blocking).toBe(true);
+    expect(result.changed).toBe(false);
+    expect(result.warnings).toEqual(['MS angle 40x40 is out of stock']);
+  });
+
+  it('keeps the cart values for fields the snapshot leaves out', () => {
+    const result = revalidateItem(line, {});
+    expect(result.item).toEqual(line);
+  });
+});
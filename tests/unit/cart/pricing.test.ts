@@ -0,0 +1,89 @@
+import type { PriceSlab } from '@/shared/types';
+import {
+  getNextPriceSlab,
+  getSlabUnitPrice,
+  normalizePriceSlabs,
+  validatePriceSlabs
+} from '@/shared/utils/pricing';
+
+// Deliberately out of order, as vendors often enter them
+const slabs: PriceSlab[] = [
+  { minQuantity: 100, price: 80 },
+  { minQuantity: 50, maxQuantity: 99, price: 90 }
+];
+
+describe('slab pricing', () => {
+  it('uses the base price below the first slab', () => {
+    expect(getSlabUnitPrice(100, slabs, 1)).toBe(100);
+    expect(getSlabUnitPrice(100, slabs, 49)).toBe(100);
+  });
+
+  it('switches slab exactly on the starting and max quantities', () => {
+    expect(getSlabUnitPrice(100, slabs, 50)).toBe(90);
+    expect(getSlabUnitPrice(100, slabs, 99)).toBe(90);
+    expect(getSlabUnitPrice(100, slabs, 100)).toBe(80);
+  });
+
+  it('keeps the open-ended top slab for any larger quantity', () => {
+    expect(getSlabUnitPrice(100, slabs, 100000)).toBe(80);
+  });
+
+  it('falls back to the base price in a gap between slabs', () => {
+    const gapped: PriceSlab[] = [
+      { minQuantity: 10, maxQuantity: 19, price: 95 },
+      { minQuantity: 50, price: 85 }
+    ];
+    expect(getSlabUnitPrice(100, gapped, 20)).toBe(100);
+    expect(getSlabUnitPrice(100, gapped, 49)).toBe(100);
+  });
+
+  it('uses the base price without slabs', () => {
+    expect(getSlabUnitPrice(100, undefined, 500)).toBe(100);
+    expect(getSlabUnitPrice(100, [], 500)).toBe(100);
+  });
+
+  it('ignores empty slab rows', () => {
+    expect(normalizePriceSlabs([{ minQuantity: 0, price: 50 }, { minQuantity: 10, price: 0 }, ...slabs]))
+      .toEqual([slabs[1], slabs[0]]);
+  });
+
+  it('points to the next slab up, and to none from the top slab', () => {
+    expect(getNextPriceSlab(slabs, 10)).toEqual(slabs[1]);
+    expect(getNextPriceSlab(slabs, 50)).toEqual(slabs[0]);
+    expect(getNextPriceSlab(slabs, 100)).toBeNull();
+  });
+});
+
+describe('validatePriceSlabs', () => {
+  it('accepts contiguous slabs below the base price', () => {
+    expect(validatePriceSlabs(slabs, 100)).toEqual({});
+  });
+
+  it('flags a slab that starts inside the previous one', () => {
+    expect(validatePriceSlabs([
+      { minQuantity: 50, maxQuantity: 100, price: 90 },
+      { minQuantity: 100, price: 80 }
+    ], 100)).toEqual({ 1: 'Slab overlaps with the previous slab' });
+  });
+
+  it('flags any slab after an open-ended one', () => {
+    expect(validatePriceSlabs([
+      { minQuantity: 50, price: 90 },
+      { minQuantity: 100, price: 80 }
+    ], 100)).toEqual({ 1: 'Slab overlaps with the previous slab' });
+  });
+
+  it('checks each slab on its own', () => {
+    expect(validatePriceSlabs([
+      { minQuantity: 0, price: 90 },
+      { minQuantity: 20, maxQuantity: 10, price: 90 },
+      { minQuantity: 30, maxQuantity: 39, price: 0 },
+      { minQuantity: 40, maxQuantity: 49, price: 120 }
+    ], 100)).toEqual({
+      0: 'Starting quantity must be at least 1',
+      1: 'Max quantity must not be below the starting quantity',
+      2: 'Slab price must be greater than 0',
+      3: 'Slab price should not exceed the base price'
+    });
+  });
+});
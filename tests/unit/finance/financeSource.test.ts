@@ -0,0 +1,98 @@
+import { ApiFinanceSource } from '@/services/financeService';
+import { paymentService, type TransactionHistory } from '@/services/paymentService';
+import { api } from '@/shared/services/api';
+import { reconcile } from '@/shared/utils/reconciliation';
+
+const mockedGet = api.get as jest.Mock;
+
+const order = (id: number, createdAt = '2026-10-05T10:00:00Z') => ({
+  id,
+  orderNumber: `ORD-${id}`,
+  user: { name: 'Patil Constructions' },
+  vendor: { id: 101, companyName: 'Shree Ganesh Steel' },
+  totalAmount: 1000,
+  paymentMethod: 'ONLINE',
+  status: 'DELIVERED',
+  createdAt
+});
+
+const payment = (orderId: string, createdAt = '2026-10-06T10:00:00Z'): TransactionHistory => ({
+  id: `pay_${orderId}`,
+  type: 'payment',
+  orderId,
+  amount: 1000,
+  status: 'completed',
+  description: `payment for order ${orderId}`,
+  createdAt
+});
+
+const notFound = () => Promise.reject({ response: { status: 404 } });
+
+describe('ApiFinanceSource', () => {
+  const range = { from: '2026-10-01', to: '2026-10-31' };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockedGet.mockReset();
+  });
+
+  it('reads every page of admin orders', async () => {
+    const pages = [[order(1), order(2)], [order(3), order(4)], [order(5)]];
+    mockedGet.mockImplementation((url: string, config?: { params?: Record<string, any> }) => {
+      if (url === '/api/admin/orders') {
+        const page = config!.params!.page;
+        return Promise.resolve({ data: { content: pages[page], totalPages: pages.length, last: page === pages.length - 1 } });
+      }
+      return Promise.resolve({ data: [] });
+    });
+    jest.spyOn(paymentService, 'getTransactionHistory').mockResolvedValue([1, 2, 3, 4, 5].map(id => payment(String(id))));
+
+    const dataset = await new ApiFinanceSource().loadDataset(range);
+
+    expect(dataset.orders.map(o => o.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(mockedGet.mock.calls.filter(([url]) => url === '/api/admin/orders')).toHaveLength(3);
+    expect(reconcile(dataset).mismatches).toEqual([]);
+  });
+
+  it('loads orders placed before the range that in-range payments refer to', async () => {
+    mockedGet.mockImplementation((url: string) => {
+      if (url === '/api/admin/orders') return Promise.resolve({ data: { content: [order(1)], totalPages: 1, last: true } });
+      if (url === '/api/admin/orders/7') return Promise.resolve({ data: order(7, '2026-09-20T10:00:00Z') });
+      if (url === '/api/admin/orders/99') return notFound();
+      return Promise.resolve({ data: [] });
+    });
+    jest.spyOn(paymentService, 'getTransactionHistory').mockImplementation(async filters =>
+      filters?.orderId === '7' ? [payment('7')] : [payment('1'), payment('7'), payment('99')]
+    );
+
+    const dataset = await new ApiFinanceSource().loadDataset(range);
+
+    expect(dataset.orders.map(o => o.id)).toEqual([1, 7]);
+    expect(dataset.transactions.map(t => t.id)).toEqual(['pay_1', 'pay_7', 'pay_99']);
+    expect(reconcile(dataset).mismatches.map(m => `${m.type}:${m.orderId}`)).toEqual(['PAID_NO_ORDER:99']);
+  });
+
+  it('fetches older order histories a few at a time', async () => {
+    const olderIds = Array.from({ length: 12 }, (_, index) => String(200 + index));
+    let inFlight = 0;
+    let peak = 0;
+    mockedGet.mockImplementation(async (url: string) => {
+      if (url === '/api/admin/orders') return { data: { content: [], totalPages: 1, last: true } };
+      const match = url.match(/^\/api\/admin\/orders\/(\d+)$/);
+      if (!match) return { data: [] };
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return { data: order(Number(match[1]), '2026-09-20T10:00:00Z') };
+    });
+    jest.spyOn(paymentService, 'getTransactionHistory').mockImplementation(async filters =>
+      filters?.orderId ? [] : olderIds.map(orderId => payment(orderId))
+    );
+
+    const dataset = await new ApiFinanceSource().loadDataset(range);
+
+    expect(dataset.orders).toHaveLength(12);
+    expect(peak).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,83 @@
+import { createFinanceFixtures, FixtureFinanceSource } from '@/services/financeFixtures';
+import { FinanceService } from '@/services/financeService';
+import { profitAndLoss, reconcile, summarizeVendorPayouts } from '@/shared/utils/reconciliation';
+
+const today = new Date('2026-10-19T12:00:00Z');
+const dataset = createFinanceFixtures(today);
+const wholeYear = { from: '2026-01-01', to: '2026-12-31' };
+
+describe('finance reconciliation', () => {
+  it('flags each kind of mismatch against the order it belongs to', () => {
+    const result = reconcile(dataset);
+    const flagged = result.mismatches.map(m => `${m.type}:${m.orderId}`).sort();
+
+    expect(flagged).toEqual([
+      'AMOUNT_MISMATCH:1004',
+      'ORDER_NO_PAYMENT:1003',
+      'PAID_NO_ORDER:1099',
+      'PARTIAL_REFUND:1002',
+      'REFUND_MISMATCH:1008',
+    ]);
+    // Full refund, pay-on-terms and cancelled orders reconcile cleanly
+    expect(result.matched).toBe(4);
+    expect(result.lines).toHaveLength(9);
+  });
+
+  it('ignores failed payments and float noise', () => {
+    const result = reconcile({
+      orders: [{ ...dataset.orders[0], totalAmount: 0.3 }],
+      transactions: [
+        { ...dataset.transactions[0], amount: 0.1 + 0.2 },
+        { ...dataset.transactions[0], id: 'failed', status: 'FAILED' },
+      ],
+      refunds: [],
+    });
+    expect(result.mismatches).toEqual([]);
+    expect(result.lines[0].paid).toBeCloseTo(0.3);
+  });
+
+  it('reports refunds that match neither a payment nor an order', () => {
+    const refund = { ...dataset.transactions[0], id: 'rfnd_orphan', type: 'refund' as const, orderId: '2077', amount: 500 };
+    const result = reconcile({ ...dataset, transactions: [...dataset.transactions, refund] });
+
+    expect(result.mismatches.filter(m => m.type === 'REFUND_NO_PAYMENT')).toEqual([
+      { type: 'REFUND_NO_PAYMENT', orderId: '2077', orderNumber: undefined, expected: 0, actual: 500, transactionIds: ['rfnd_orphan'] },
+    ]);
+    expect(result.lines).toHaveLength(10);
+  });
+
+  it('works out what is still owed to each vendor after settlements', () => {
+    const payouts = summarizeVendorPayouts(dataset, reconcile(dataset));
+    const byVendor = Object.fromEntries(payouts.map(p => [p.vendorName, p]));
+
+    expect(byVendor['Shree Ganesh Steel']).toMatchObject({ orders: 2, gross: 36800, refunds: 5000, commission: 1770, paidOut: 30000, pending: 30 });
+    expect(byVendor['Bharat Pumps & Motors'].pending).toBe(18000);
+    expect(byVendor['Kaveri Agro Equipments'].pending).toBe(0);
+    expect(payouts[0].vendorName).toBe('Bharat Pumps & Motors');
+  });
+
+  it('builds a P&L limited to the date range', () => {
+    const pnl = profitAndLoss(dataset.transactions, wholeYear);
+    expect(pnl).toMatchObject({
+      collections: 117900,
+      refunds: 20600,
+      gatewayFees: 2358,
+      commission: 4170,
+      payouts: 67600,
+      net: 1812,
+    });
+    expect(pnl.periods.map(p => p.period)).toEqual(['2026-09', '2026-10']);
+
+    const lastWeek = profitAndLoss(dataset.transactions, { from: '2026-10-12', to: '2026-10-19' });
+    expect(lastWeek.collections).toBe(25500);
+  });
+
+  it('reports from the fixture source through the service', async () => {
+    const service = new FinanceService(new FixtureFinanceSource(dataset));
+    const report = await service.getReport({ from: '2026-10-10', to: '2026-10-19' });
+
+    // 1005 was placed before the range but refunded inside it
+    expect(report.dataset.orders.map(o => o.id)).toEqual([1006, 1007, 1008, 1005]);
+    expect(report.reconciliation.mismatches.map(m => m.type)).toEqual(['REFUND_MISMATCH', 'PAID_NO_ORDER']);
+  });
+});
@@ -0,0 +1,47 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { buildXlsx, toCsv } from '@/shared/utils/spreadsheet';
+
+// jsdom doesn't provide the encoding API that browsers do
+Object.assign(global, { TextEncoder, TextDecoder });
+
+describe('spreadsheet export', () => {
+  it('quotes CSV cells that contain separators, quotes or newlines', () => {
+    expect(toCsv([
+      ['Vendor', 'Amount', 'Note'],
+      ['Bharat Pumps & Motors', 1250.5, 'said "urgent", call back'],
+      ['Kaveri Agro', null, 'line one\nline two'],
+    ])).toBe('Vendor,Amount,Note\r\nBharat Pumps & Motors,1250.5,"said ""urgent"", call back"\r\nKaveri Agro,,"line one\nline two"');
+  });
+
+  it('defuses cells a spreadsheet would run as a formula', () => {
+    expect(toCsv([
+      ['=HYPERLINK("http://evil.test","x")', '+91 98200 00000', '-cmd', '@SUM(A1)', '\tTab', -1250.5],
+    ])).toBe(`"'=HYPERLINK(""http://evil.test"",""x"")",'+91 98200 00000,'-cmd,'@SUM(A1),'\tTab,-1250.5`);
+  });
+
+  it('keeps sheet names unique after cutting them to 31 characters', () => {
+    const text = new TextDecoder().decode(buildXlsx([
+      { name: 'Shree Ganesh Steel - October payouts', rows: [] },
+      { name: 'Shree Ganesh Steel - October payments', rows: [] },
+      { name: 'SHREE GANESH STEEL - OCTOBER PAY', rows: [] },
+    ]));
+
+    expect(text).toContain('<sheet name="Shree Ganesh Steel - October pa" sheetId="1"');
+    expect(text).toContain('<sheet name="Shree Ganesh Steel - Octobe (2)" sheetId="2"');
+    expect(text).toContain('<sheet name="SHREE GANESH STEEL - OCTOBE (3)" sheetId="3"');
+  });
+
+  it('packages sheets as a zip with a workbook and one worksheet each', () => {
+    const bytes = buildXlsx([
+      { name: 'P&L', rows: [['Month', 'Net'], ['2026-10', 1812]] },
+      { name: 'Vendor payouts', rows: [['Vendor'], ['Shree Ganesh Steel']] },
+    ]);
+    const text = new TextDecoder().decode(bytes);
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('xl/worksheets/sheet2.xml');
+    expect(text).toContain('<sheet name="P&amp;L" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<c r="B2"><v>1812</v></c>');
+    expect(text).toContain('<t xml:space="preserve">Shree Ganesh Steel</t>');
+  });
+});
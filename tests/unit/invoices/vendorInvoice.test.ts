@@ -0,0 +1,148 @@
+import {
+  buildCreditNoteDraft,
+  DEFAULT_INVOICE_SETTINGS,
+  formatInvoiceNumber,
+  getCreditableQuantities,
+  getFinancialYear,
+  getNextInvoiceSequence,
+  vendorInvoiceAPI,
+  type InvoiceSettings,
+  type VendorInvoice
+} from '@/modules/vendor/services/vendorInvoiceApi';
+import { api } from '@/shared/services/api';
+import { PdfDocument } from '@/shared/utils/pdf';
+
+const settings: InvoiceSettings = {
+  ...DEFAULT_INVOICE_SETTINGS,
+  seller: { name: 'Shree Ganesh Steel', gstin: '27AAPFU0939F1ZV', state: 'Maharashtra' }
+};
+
+const invoice: VendorInvoice = {
+  id: 11,
+  vendorId: 101,
+  status: 'ISSUED',
+  createdAt: '2026-10-01T10:00:00Z',
+  type: 'INVOICE',
+  invoiceNumber: 'INV/26-27/0007',
+  financialYear: '2026-27',
+  sequence: 7,
+  invoiceDate: '2026-10-01T10:00:00Z',
+  orderId: 5001,
+  orderNumber: 'ORD-5001',
+  seller: settings.seller,
+  buyer: { name: 'Patil Constructions', gstin: '27AABCU9603R1ZM', state: 'Maharashtra' },
+  supplyType: 'INTRA_STATE',
+  supplierStateCode: '27',
+  placeOfSupplyCode: '27',
+  lines: [
+    { id: '1', description: 'GI pipe 2"', hsnCode: '7306', taxableValue: 1000, rate: 18, cgst: 90, sgst: 90, igst: 0, totalTax: 180, quantity: 10, unitPrice: 100 },
+    { id: '2', description: 'Elbow', hsnCode: '7307', taxableValue: 1000, rate: 12, cgst: 60, sgst: 60, igst: 0, totalTax: 120, quantity: 5, unitPrice: 200 }
+  ],
+  byRate: [],
+  taxableValue: 2000,
+  cgst: 150,
+  sgst: 150,
+  igst: 0,
+  totalTax: 300,
+  grandTotal: 2300
+};
+
+const noteDate = new Date(2026, 9, 19);
+
+describe('invoice numbering', () => {
+  it('starts the financial year on 1 April', () => {
+    expect(getFinancialYear(new Date(2027, 2, 31, 23, 59))).toBe('2026-27');
+    expect(getFinancialYear(new Date(2027, 3, 1))).toBe('2027-28');
+    expect(getFinancialYear(new Date(2099, 11, 31))).toBe('2099-00');
+  });
+
+  it('formats numbers with the short year and padded sequence', () => {
+    expect(formatInvoiceNumber(settings, 'INVOICE', '2026-27', 7)).toBe('INV/26-27/0007');
+    expect(formatInvoiceNumber(settings, 'CREDIT_NOTE', '2026-27', 12)).toBe('CN/26-27/0012');
+    expect(formatInvoiceNumber({ ...settings, separator: '-', sequencePadding: 5 }, 'INVOICE', '2027-28', 123)).toBe('INV-27-28-00123');
+    expect(formatInvoiceNumber({ ...settings, sequencePadding: 2 }, 'INVOICE', '2026-27', 1234)).toBe('INV/26-27/1234');
+  });
+
+  it('continues each series within its own type and financial year', () => {
+    const existing = [
+      { type: 'INVOICE' as const, financialYear: '2026-27', sequence: 1 },
+      { type: 'INVOICE' as const, financialYear: '2026-27', sequence: 4 },
+      { type: 'CREDIT_NOTE' as const, financialYear: '2026-27', sequence: 9 },
+      { type: 'INVOICE' as const, financialYear: '2025-26', sequence: 80 }
+    ];
+
+    expect(getNextInvoiceSequence(existing, 'INVOICE', '2026-27')).toBe(5);
+    expect(getNextInvoiceSequence(existing, 'CREDIT_NOTE', '2026-27')).toBe(10);
+    expect(getNextInvoiceSequence(existing, 'INVOICE', '2027-28', 100)).toBe(100);
+    expect(getNextInvoiceSequence([], 'CREDIT_NOTE', '2026-27')).toBe(1);
+  });
+});
+
+describe('credit notes', () => {
+  it('leaves only the quantity not yet credited on each line', () => {
+    const earlier = buildCreditNoteDraft(invoice, [3, 5], 'Short supply', settings, 1, noteDate);
+    const another = buildCreditNoteDraft(invoice, [2, 0], 'Damaged', settings, 2, noteDate);
+    const otherInvoice = { ...another, originalInvoiceNumber: 'INV/26-27/0008' };
+
+    expect(getCreditableQuantities(invoice, [])).toEqual([10, 5]);
+    expect(getCreditableQuantities(invoice, [earlier, another, otherInvoice])).toEqual([5, 0]);
+  });
+
+  it('reverses the credited lines at the invoice rates', () => {
+    const note = buildCreditNoteDraft(invoice, [4, 0], 'Damaged in transit', settings, 3, noteDate);
+
+    expect(note).toMatchObject({
+      type: 'CREDIT_NOTE',
+      invoiceNumber: 'CN/26-27/0003',
+      financialYear: '2026-27',
+      sequence: 3,
+      orderId: 5001,
+      originalInvoiceId: 11,
+      originalInvoiceNumber: 'INV/26-27/0007',
+      reason: 'Damaged in transit',
+      taxableValue: 400,
+      cgst: 36,
+      sgst: 36,
+      igst: 0,
+      grandTotal: 472
+    });
+    expect(note.lines).toHaveLength(1);
+    expect(note.lines[0]).toMatchObject({ id: '1', quantity: 4, unitPrice: 100, rate: 18 });
+  });
+
+  it('needs at least one line to credit', () => {
+    expect(() => buildCreditNoteDraft(invoice, [0, 0], 'Nothing', settings, 1, noteDate)).toThrow('Select at least one line to credit');
+  });
+
+  it('renumbers when the backend says the number is taken', async () => {
+    const taken = { ...buildCreditNoteDraft(invoice, [1, 0], 'Raised elsewhere', settings, 1, new Date()), id: 12, vendorId: 101, status: 'ISSUED' as const, createdAt: '' };
+    const post = (api.post as jest.Mock)
+      .mockRejectedValueOnce({ response: { status: 409 } })
+      .mockImplementationOnce((_url: string, draft: any) => Promise.resolve({ data: { ...draft, id: 13 } }));
+    (api.get as jest.Mock).mockResolvedValueOnce({ data: [invoice, taken] });
+
+    const note = await vendorInvoiceAPI.createCreditNote(invoice, [2, 0], 'Damaged', [invoice], settings);
+
+    expect(post.mock.calls.map(([, draft]) => draft.sequence)).toEqual([1, 2]);
+    expect(note).toMatchObject({ id: 13, sequence: 2, invoiceNumber: `CN/${getFinancialYear().slice(2)}/0002` });
+  });
+});
+
+describe('client-side PDF', () => {
+  it('writes standard-font text with a valid cross-reference table', () => {
+    const pdf = new PdfDocument();
+    pdf.text(40, 50, 'Invoice total ₹2,300 (incl. GST)', { bold: true });
+    pdf.addPage();
+    pdf.line(40, 60, 555, 60);
+
+    const output = pdf.toString();
+    expect(output.startsWith('%PDF-1.4')).toBe(true);
+    expect(output).toContain('(Invoice total Rs. 2,300 \\(incl. GST\\)) Tj');
+    expect(output).toContain('/Count 2');
+
+    const xrefOffset = Number(output.match(/startxref\n(\d+)/)![1]);
+    expect(output.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    const offsets = output.slice(xrefOffset).match(/^\d{10} 00000 n/gm)!.map(entry => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, index) => expect(output.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+  });
+});
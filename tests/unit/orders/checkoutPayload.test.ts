@@ -0,0 +1,59 @@
+import { apiRequest } from '@/config/api';
+import { orderService, toCartCheckoutItem, type CheckoutRequest } from '@/services/orderService';
+import type { CartItem } from '@/features/cart/cartSlice';
+import type { PurchaseOrder } from '@/shared/services/purchaseOrderApi';
+
+jest.mock('@/config/api', () => ({
+  API_CONFIG: { ENDPOINTS: { ORDERS: { CHECKOUT: '/api/orders/checkout' } } },
+  apiRequest: jest.fn()
+}));
+
+const mockedApiRequest = apiRequest as jest.MockedFunction<typeof apiRequest>;
+
+const request: CheckoutRequest = {
+  shippingAddress: { fullName: 'Asha Patil', address: 'MIDC Road', city: 'Pune', state: 'Maharashtra', pincode: '411019', phone: '9800000000' },
+  paymentMethod: 'ONLINE'
+};
+
+const sentItems = (call = 0) => JSON.parse((mockedApiRequest.mock.calls[call][1] as RequestInit).body as string).items;
+
+describe('checkout payload', () => {
+  beforeEach(() => {
+    mockedApiRequest.mockResolvedValue({ orderId: 1, orderNumber: 'ORD-1', amount: 0, status: 'PENDING' });
+  });
+
+  it('sends cart lines at their slab price in paise', async () => {
+    const item: CartItem = {
+      id: '42',
+      name: 'GI pipe 2"',
+      price: 120.5,
+      quantity: 100,
+      vendorId: 'v-1',
+      vendorName: 'Shree Ganesh Steel',
+      category: 'Pipes',
+      priceSlabs: [{ minQuantity: 100, price: 110.25 }]
+    };
+
+    await orderService.checkoutByVendor(request, [
+      { vendorId: 'v-1', vendorName: 'Shree Ganesh Steel', items: [toCartCheckoutItem(item)] }
+    ]);
+
+    expect(sentItems()).toEqual([{ productId: 42, quantity: 100, price: 11025 }]);
+  });
+
+  it('sends purchase-order lines in paise too', async () => {
+    const purchaseOrder = {
+      id: 7,
+      poNumber: 'PO-20261019-000007',
+      status: 'ISSUED',
+      vendorId: 3,
+      lines: [{ productId: 42, description: 'GI pipe 2"', hsnCode: '7306', quantity: 50, unitPrice: 118.4, taxRate: 0.18, taxAmount: 1065.6, lineTotal: 6985.6 }]
+    } as PurchaseOrder;
+
+    await orderService.checkoutPurchaseOrder(purchaseOrder, request);
+
+    expect(sentItems()).toEqual([
+      { productId: 42, description: 'GI pipe 2"', quantity: 50, price: 11840, hsnCode: '7306', gstRate: 18 }
+    ]);
+  });
+});
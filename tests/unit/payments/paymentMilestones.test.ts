@@ -0,0 +1,47 @@
+import {
+  buildMilestones,
+  canRequestMilestone,
+  DEFAULT_MILESTONE_PLAN,
+  getMilestoneProgress,
+  validateMilestonePlan
+} from '@/shared/utils/paymentMilestones';
+import type { MilestoneStatus, PaymentMilestone } from '@/services/paymentService';
+
+const schedule = (...statuses: MilestoneStatus[]): PaymentMilestone[] =>
+  buildMilestones(1000000, DEFAULT_MILESTONE_PLAN).map((draft, index) => ({
+    ...draft,
+    id: `m${draft.sequence}`,
+    orderId: '42',
+    status: statuses[index]
+  }));
+
+describe('payment milestones', () => {
+  it('splits the order amount by the plan and settles rounding on the last stage', () => {
+    const milestones = buildMilestones(1000001);
+    expect(milestones.map(m => m.amount)).toEqual([300000, 600001, 100000]);
+    expect(milestones.map(m => m.trigger)).toEqual(['ON_ORDER', 'ON_DISPATCH', 'ON_INSTALLATION']);
+    expect(milestones.reduce((sum, m) => sum + m.amount, 0)).toBe(1000001);
+  });
+
+  it('rejects plans that do not add up to 100%', () => {
+    expect(validateMilestonePlan(DEFAULT_MILESTONE_PLAN)).toBeNull();
+    expect(validateMilestonePlan([{ label: 'Advance', percent: 50, trigger: 'ON_ORDER' }])).toBe('Milestones add up to 50%, not 100%');
+    expect(validateMilestonePlan([])).toBe('Add at least one milestone');
+  });
+
+  it('tracks what is in escrow and what has been released', () => {
+    const progress = getMilestoneProgress(schedule('RELEASED', 'PAID', 'PENDING'));
+    expect(progress).toMatchObject({ total: 1000000, paid: 900000, released: 300000, percentPaid: 90, percentReleased: 30 });
+    expect(progress.next?.id).toBe('m3');
+    expect(progress.awaitingRelease.map(m => m.id)).toEqual(['m2']);
+  });
+
+  it('lets the vendor request a stage only after the earlier ones are paid', () => {
+    const waiting = schedule('DUE', 'PENDING', 'PENDING');
+    expect(canRequestMilestone(waiting[1], waiting)).toBe(false);
+
+    const advancePaid = schedule('PAID', 'PENDING', 'PENDING');
+    expect(canRequestMilestone(advancePaid[1], advancePaid)).toBe(true);
+    expect(canRequestMilestone(advancePaid[2], advancePaid)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  CashfreeProvider,
+  FakePaymentProvider,
+  isValidUtr,
+  isValidVpa,
+  PaymentProviderError,
+  RazorpayProvider,
+  selectPaymentProviders,
+  UpiProvider,
+  UPI_MAX_AMOUNT,
+  type PaymentBackend
+} from '@/services/paymentProviders';
+import { PaymentService, type CreatePaymentOrderRequest } from '@/services/paymentService';
+
+const request: CreatePaymentOrderRequest = {
+  orderId: '42',
+  amount: 250000,
+  currency: 'INR',
+  customerInfo: { name: 'Asha', email: 'asha@example.com', phone: '9800000000' }
+};
+
+const serviceWith = (...providers: FakePaymentProvider[]) => {
+  const service = new PaymentService(providers);
+  jest.spyOn(service, 'getProviderHealth').mockResolvedValue({});
+  return service;
+};
+
+const backendFailing = (cause: object) => ({
+  createPaymentOrder: jest.fn().mockRejectedValue(new Error('Failed to create payment order', { cause }))
+}) as unknown as PaymentBackend;
+
+describe('payment providers', () => {
+  it('selects providers by method and amount, in priority order', () => {
+    const upi = new FakePaymentProvider({ id: 'UPI', methods: ['UPI'], maxAmount: UPI_MAX_AMOUNT });
+    const gateway = new FakePaymentProvider({ id: 'RAZORPAY', methods: ['ONLINE', 'UPI'] });
+    const bank = new FakePaymentProvider({ id: 'BANK_TRANSFER', methods: ['BANK_TRANSFER'] });
+    const providers = [upi, gateway, bank];
+
+    expect(selectPaymentProviders(providers, 'UPI', 50000).map(p => p.id)).toEqual(['UPI', 'RAZORPAY']);
+    expect(selectPaymentProviders(providers, 'UPI', UPI_MAX_AMOUNT + 100).map(p => p.id)).toEqual(['RAZORPAY']);
+    expect(selectPaymentProviders(providers, 'BANK_TRANSFER', 50000).map(p => p.id)).toEqual(['BANK_TRANSFER']);
+    expect(selectPaymentProviders(providers, 'ONLINE', 50)).toEqual([]);
+  });
+
+  it('leaves out providers the health check reports down', () => {
+    const primary = new FakePaymentProvider({ id: 'RAZORPAY' });
+    const backup = new FakePaymentProvider({ id: 'CASHFREE' });
+    expect(selectPaymentProviders([primary, backup], 'ONLINE', 1000, { RAZORPAY: false }).map(p => p.id)).toEqual(['CASHFREE']);
+  });
+
+  it('fails over to the next provider when a gateway is down', async () => {
+    const primary = new FakePaymentProvider({ id: 'RAZORPAY', outcome: 'down' });
+    const unavailable = new FakePaymentProvider({ id: 'UPI', available: false });
+    const backup = new FakePaymentProvider({ id: 'CASHFREE' });
+
+    const result = await serviceWith(primary, unavailable, backup).pay(request, 'ONLINE');
+
+    expect(result).toMatchObject({ provider: 'CASHFREE', status: 'captured' });
+    expect(primary.attempts).toHaveLength(1);
+    expect(unavailable.attempts).toHaveLength(0);
+  });
+
+  it('does not retry elsewhere when the payment is declined', async () => {
+    const primary = new FakePaymentProvider({ id: 'RAZORPAY', outcome: 'decline' });
+    const backup = new FakePaymentProvider({ id: 'CASHFREE' });
+
+    await expect(serviceWith(primary, backup).pay(request, 'ONLINE')).rejects.toThrow('Payment declined');
+    expect(backup.attempts).toHaveLength(0);
+  });
+
+  it('reports when every provider is down', async () => {
+    const service = serviceWith(new FakePaymentProvider({ outcome: 'down' }));
+    await expect(service.pay(request, 'ONLINE')).rejects.toThrow('Gateway unavailable');
+    await expect(service.pay(request, 'BANK_TRANSFER', {})).rejects.toThrow('Gateway unavailable');
+  });
+
+  it('validates UPI IDs and UTRs', () => {
+    expect(isValidVpa('asha.traders@okhdfc')).toBe(true);
+    expect(isValidVpa('asha@')).toBe(false);
+    expect(isValidUtr('SBIN123456789012')).toBe(true);
+    expect(isValidUtr('hdfcr52025030100000001')).toBe(true);
+    expect(isValidUtr('412345678901')).toBe(true);
+    expect(isValidUtr('SBIN1234')).toBe(false);
+  });
+
+  it('fails over only when the gateway is unreachable or erroring', async () => {
+    const attempt = async (cause: object) => {
+      const error = await new RazorpayProvider(backendFailing(cause)).createOrder(request, 'ONLINE').catch(e => e);
+      expect(error).toBeInstanceOf(PaymentProviderError);
+      return error.retryable;
+    };
+
+    expect(await attempt({ code: 'NETWORK_ERROR' })).toBe(true);
+    expect(await attempt({ code: 'SERVER_ERROR', status: 503 })).toBe(true);
+    expect(await attempt({ code: 'BAD_REQUEST', status: 400 })).toBe(false);
+    expect(await attempt({ code: 'UNPROCESSABLE', status: 422 })).toBe(false);
+  });
+
+  it('offers direct UPI on desktop only with a UPI ID to collect from', () => {
+    const backend = {} as PaymentBackend;
+    const providers = [new UpiProvider(backend), new RazorpayProvider(backend)];
+
+    expect(selectPaymentProviders(providers, 'UPI', 50000).map(p => p.id)).toEqual(['RAZORPAY']);
+    expect(selectPaymentProviders(providers, 'UPI', 50000, {}, { vpa: 'asha@okhdfc' }).map(p => p.id)).toEqual(['UPI', 'RAZORPAY']);
+  });
+
+  it('checks gateway limits before any order is placed', () => {
+    const backend = {} as PaymentBackend;
+    const service = new PaymentService([new RazorpayProvider(backend), new CashfreeProvider(backend)]);
+    const lakh = 100000 * 100;
+
+    expect(service.canPay('ONLINE', 8 * lakh)).toBe(true); // above Razorpay, Cashfree takes it
+    expect(service.canPay('ONLINE', 10 * lakh)).toBe(true);
+    expect(service.canPay('ONLINE', 10 * lakh + 100)).toBe(false);
+    expect(service.canPay('BANK_TRANSFER', lakh)).toBe(false);
+  });
+});
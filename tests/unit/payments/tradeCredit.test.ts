@@ -0,0 +1,83 @@
+import {
+  availableCredit,
+  canPayOnTerms,
+  daysOverdue,
+  dueDateFor,
+  isReminderDue,
+  summarizeAgeing
+} from '@/shared/utils/tradeCredit';
+import type { CreditDue, CreditLine } from '@/services/tradeCreditService';
+
+const today = new Date(2026, 9, 19);
+
+const line = (overrides: Partial<CreditLine> = {}): CreditLine => ({
+  id: 'line-1',
+  vendorId: 'v1',
+  vendorName: 'Shree Steels',
+  buyerId: 'b1',
+  buyerName: 'Asha Traders',
+  limit: 500000,
+  used: 320000,
+  terms: 'NET_30',
+  status: 'ACTIVE',
+  createdAt: '2026-01-01',
+  updatedAt: '2026-01-01',
+  ...overrides
+});
+
+const due = (issuedAt: string, dueDate: string, overrides: Partial<CreditDue> = {}): CreditDue => ({
+  id: `due-${issuedAt}`,
+  creditLineId: 'line-1',
+  orderId: 1,
+  orderNumber: 'ORD-1',
+  vendorId: 'v1',
+  vendorName: 'Shree Steels',
+  buyerId: 'b1',
+  buyerName: 'Asha Traders',
+  amount: 10000,
+  paidAmount: 0,
+  issuedAt,
+  dueDate,
+  status: 'OPEN',
+  ...overrides
+});
+
+describe('trade credit', () => {
+  it('allows pay on terms only within the available limit of an active line', () => {
+    expect(availableCredit(line())).toBe(180000);
+    expect(canPayOnTerms(line(), 150000)).toBe(true);
+    expect(canPayOnTerms(line(), 200000)).toBe(false);
+    expect(canPayOnTerms(line({ status: 'SUSPENDED' }), 1000)).toBe(false);
+    expect(canPayOnTerms(undefined, 1000)).toBe(false);
+    expect(availableCredit(line({ used: 600000 }))).toBe(0);
+  });
+
+  it('sets the due date from the terms', () => {
+    expect(dueDateFor('NET_30', today)).toBe('2026-11-18');
+    expect(dueDateFor('NET_60', today)).toBe('2026-12-18');
+  });
+
+  it('buckets outstanding dues by age and skips settled ones', () => {
+    const summary = summarizeAgeing([
+      due('2026-10-01', '2026-10-31'),
+      due('2026-09-01', '2026-10-01', { paidAmount: 4000 }),
+      due('2026-07-25', '2026-08-24'),
+      due('2026-05-01', '2026-05-31'),
+      due('2026-05-02', '2026-06-01', { paidAmount: 10000 })
+    ], today);
+
+    expect(summary['0-30']).toEqual({ count: 1, amount: 10000 });
+    expect(summary['31-60']).toEqual({ count: 1, amount: 6000 });
+    expect(summary['61-90']).toEqual({ count: 1, amount: 10000 });
+    expect(summary['90+']).toEqual({ count: 1, amount: 10000 });
+  });
+
+  it('reminds overdue buyers at most once a week', () => {
+    expect(daysOverdue(due('2026-09-01', '2026-10-01'), today)).toBe(18);
+    expect(isReminderDue(due('2026-10-01', '2026-10-31'), today)).toBe(false);
+    expect(isReminderDue(due('2026-09-01', '2026-10-01'), today)).toBe(true);
+    expect(isReminderDue(due('2026-09-01', '2026-10-01', { lastRemindedAt: '2026-10-15' }), today)).toBe(false);
+    expect(isReminderDue(due('2026-09-01', '2026-10-01', { lastRemindedAt: '2026-10-10' }), today)).toBe(true);
+    expect(isReminderDue(due('2026-09-01', '2026-10-01', { paidAmount: 10000 }), today)).toBe(false);
+  });
+});
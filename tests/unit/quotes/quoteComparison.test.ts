@@ -0,0 +1,88 @@
+import {
+  findBestValues,
+  getLandedCost,
+  parseCreditDays,
+  parseLeadTimeDays,
+  toKycState,
+  type QuoteComparisonRow
+} from '@/shared/utils/quoteComparison';
+
+const row = (quoteId: number, overrides: Partial<QuoteComparisonRow> = {}): QuoteComparisonRow => ({
+  quoteId,
+  quantity: 100,
+  kyc: 'VERIFIED',
+  ...overrides
+});
+
+describe('quote comparison parsing', () => {
+  it('reads lead times as days, taking the upper end of a range', () => {
+    expect(parseLeadTimeDays('7 days')).toBe(7);
+    expect(parseLeadTimeDays('2-3 weeks')).toBe(21);
+    expect(parseLeadTimeDays('2 to 4 Weeks')).toBe(28);
+    expect(parseLeadTimeDays('1 month')).toBe(30);
+    expect(parseLeadTimeDays('ex-stock')).toBeUndefined();
+    expect(parseLeadTimeDays(undefined)).toBeUndefined();
+  });
+
+  it('reads credit days from payment terms', () => {
+    expect(parseCreditDays('Net 30')).toBe(30);
+    expect(parseCreditDays('45 days credit')).toBe(45);
+    expect(parseCreditDays('100% advance')).toBe(0);
+    expect(parseCreditDays('Payment on delivery')).toBe(0);
+    expect(parseCreditDays('As discussed')).toBeUndefined();
+  });
+
+  it('maps KYC statuses onto the states buyers see', () => {
+    expect(toKycState('approved')).toBe('VERIFIED');
+    expect(toKycState('UNDER_REVIEW')).toBe('PENDING');
+    expect(toKycState('REJECTED')).toBe('REJECTED');
+    expect(toKycState(undefined)).toBe('UNKNOWN');
+  });
+
+  it('adds shipping to the landed cost only when the unit price is known', () => {
+    expect(getLandedCost(90, 100, 500)).toBe(9500);
+    expect(getLandedCost(90, 100)).toBe(9000);
+    expect(getLandedCost(undefined, 100, 500)).toBeUndefined();
+  });
+});
+
+describe('findBestValues', () => {
+  it('ranks each column in its own direction', () => {
+    const best = findBestValues([
+      row(1, { unitPrice: 90, landedCost: 9500, leadTimeDays: 14, creditDays: 30, rating: 4.2 }),
+      row(2, { unitPrice: 95, landedCost: 9400, leadTimeDays: 7, creditDays: 0, rating: 4.8, kyc: 'PENDING' })
+    ]);
+    expect(best).toEqual({
+      unitPrice: [1],
+      landedCost: [2],
+      leadTimeDays: [2],
+      creditDays: [1],
+      rating: [2],
+      kyc: [1]
+    });
+  });
+
+  it('highlights every quote tied for the best value', () => {
+    const best = findBestValues([
+      row(1, { unitPrice: 90, leadTimeDays: 7 }),
+      row(2, { unitPrice: 90, leadTimeDays: 7 }),
+      row(3, { unitPrice: 95, leadTimeDays: 10 })
+    ]);
+    expect(best.unitPrice).toEqual([1, 2]);
+    expect(best.leadTimeDays).toEqual([1, 2]);
+  });
+
+  it('skips columns with fewer than two comparable values', () => {
+    const best = findBestValues([row(1, { unitPrice: 90, creditDays: 30 }), row(2, { unitPrice: 95 })]);
+    expect(best.creditDays).toEqual([]);
+    expect(best.unitPrice).toEqual([1]);
+  });
+
+  it('treats a zero rating as unrated', () => {
+    expect(findBestValues([row(1, { rating: 0 }), row(2, { rating: 3.5 })]).rating).toEqual([]);
+  });
+
+  it('does not highlight KYC when every vendor is verified', () => {
+    expect(findBestValues([row(1), row(2)]).kyc).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Quote, QuoteRevision } from '@/shared/services/api/quoteApi';
+import {
+  canRespond,
+  getChangedTerms,
+  getCurrentTerms,
+  getEffectiveQuoteStatus,
+  getNextParty,
+  getQuoteExpiry,
+  isQuoteLapsed
+} from '@/shared/utils/quoteNegotiation';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const quote = (overrides: Partial<Quote> = {}): Quote => ({
+  id: 7,
+  vendorId: 3,
+  inquiryId: 11,
+  response: 'Can supply from stock',
+  price: 420,
+  quantity: 200,
+  deliveryTime: '10 days',
+  paymentTerms: 'Net 30',
+  isAccepted: false,
+  status: 'PENDING',
+  expiresAt: '2026-10-25T12:00:00Z',
+  createdAt: '2026-10-10T12:00:00Z',
+  ...overrides
+});
+
+const revision = (version: number, overrides: Partial<QuoteRevision> = {}): QuoteRevision => ({
+  id: version,
+  quoteId: 7,
+  version,
+  author: version % 2 === 1 ? 'VENDOR' : 'BUYER',
+  createdAt: `2026-10-1${version}T12:00:00Z`,
+  ...overrides
+});
+
+describe('quote expiry', () => {
+  it('takes the expiry from the newest revision that set one', () => {
+    const revisions = [
+      revision(1, { expiresAt: '2026-10-20T12:00:00Z' }),
+      revision(2, { price: 400 }),
+      revision(3, { price: 410, expiresAt: '2026-10-22T12:00:00Z' }),
+      revision(4, { price: 405 })
+    ];
+    expect(getQuoteExpiry(quote(), revisions)).toBe('2026-10-22T12:00:00Z');
+  });
+
+  it('falls back to the quote expiry without dated revisions', () => {
+    expect(getQuoteExpiry(quote(), [revision(1)])).toBe('2026-10-25T12:00:00Z');
+    expect(getQuoteExpiry(quote({ expiresAt: undefined }))).toBeUndefined();
+  });
+
+  it('lapses only once the expiry has passed', () => {
+    expect(isQuoteLapsed(quote({ expiresAt: '2026-10-19T12:00:00Z' }), [], now)).toBe(false);
+    expect(isQuoteLapsed(quote({ expiresAt: '2026-10-19T11:59:59Z' }), [], now)).toBe(true);
+    expect(isQuoteLapsed(quote({ expiresAt: undefined }), [], now)).toBe(false);
+  });
+
+  it('lets a revision extend a quote past its original expiry', () => {
+    const lapsed = quote({ expiresAt: '2026-10-15T12:00:00Z' });
+    expect(isQuoteLapsed(lapsed, [revision(3, { expiresAt: '2026-10-21T12:00:00Z' })], now)).toBe(false);
+  });
+
+  it('reports open quotes past their expiry as EXPIRED', () => {
+    const past = { expiresAt: '2026-10-18T12:00:00Z' };
+    expect(getEffectiveQuoteStatus(quote({ ...past, status: 'COUNTERED' }), [], now)).toBe('EXPIRED');
+    expect(getEffectiveQuoteStatus(quote({ ...past, status: undefined }), [], now)).toBe('EXPIRED');
+  });
+
+  it('keeps closed statuses even after the expiry', () => {
+    const past = { expiresAt: '2026-10-18T12:00:00Z' };
+    expect(getEffectiveQuoteStatus(quote({ ...past, status: 'ACCEPTED' }), [], now)).toBe('ACCEPTED');
+    expect(getEffectiveQuoteStatus(quote({ ...past, status: 'REJECTED' }), [], now)).toBe('REJECTED');
+    expect(getEffectiveQuoteStatus(quote({ ...past, status: undefined, isAccepted: true }), [], now)).toBe('ACCEPTED');
+  });
+});
+
+describe('quote turn-taking', () => {
+  it('gives the move to the side that did not write the latest version', () => {
+    expect(getNextParty([])).toBe('BUYER');
+    expect(getNextParty([revision(1)])).toBe('BUYER');
+    expect(getNextParty([revision(1), revision(2)])).toBe('VENDOR');
+  });
+
+  it('only lets the party whose turn it is respond to an open quote', () => {
+    const revisions = [revision(1), revision(2)];
+    expect(canRespond(quote(), revisions, 'VENDOR', now)).toBe(true);
+    expect(canRespond(quote(), revisions, 'BUYER', now)).toBe(false);
+  });
+
+  it('closes the negotiation once the quote has lapsed or been decided', () => {
+    const revisions = [revision(1)];
+    expect(canRespond(quote({ expiresAt: '2026-10-18T12:00:00Z' }), revisions, 'BUYER', now)).toBe(false);
+    expect(canRespond(quote({ status: 'REJECTED' }), revisions, 'BUYER', now)).toBe(false);
+  });
+});
+
+describe('quote terms', () => {
+  it('highlights only the terms a revision changed', () => {
+    const previous = revision(1, { price: 420, quantity: 200, deliveryTime: '10 days' });
+    expect(getChangedTerms(revision(2, { price: 400, quantity: 200 }), previous)).toEqual(['price']);
+    expect(getChangedTerms(previous)).toEqual([]);
+  });
+
+  it('builds the current terms from the latest value of each field', () => {
+    expect(getCurrentTerms(quote(), [
+      revision(2, { price: 400 }),
+      revision(3, { price: 410, deliveryTime: '7 days' }),
+      revision(4, { paymentTerms: 'Net 45' })
+    ])).toEqual({ price: 410, quantity: 200, deliveryTime: '7 days', paymentTerms: 'Net 45' });
+  });
+});
@@ -0,0 +1,95 @@
+import { OrderStatus, type Order } from '@/services/orderService';
+import { buildReturnDraft } from '@/shared/services/returnApi';
+import {
+  calculateReturnRefund,
+  getAvailableReturnActions,
+  getNextReturnStatus,
+  getRtoQuantities,
+  isRefundDue,
+  isReturnClosed
+} from '@/shared/utils/returns';
+
+const order: Order = {
+  id: 501,
+  orderNumber: 'ORD-501',
+  userId: 9,
+  totalAmount: 1230,
+  status: OrderStatus.DELIVERED,
+  shippingAddress: { fullName: 'Asha Patil', address: 'MIDC Road', city: 'Pune', state: 'Maharashtra', pincode: '411019', phone: '9800000000' },
+  items: [
+    { productId: 1, productName: 'Gate valve', quantity: 4, price: 200 },
+    { productId: 2, productName: 'Pipe clamp', quantity: 10, price: 20 },
+  ],
+  tax: { supplyType: 'INTRA_STATE', supplierStateCode: '27', placeOfSupplyCode: '27', taxableValue: 1000, cgst: 90, sgst: 90, igst: 0, totalTax: 180 },
+  createdAt: '2026-10-01T10:00:00Z',
+};
+
+describe('return state machine', () => {
+  it('walks a buyer return from request to refund', () => {
+    let status = getNextReturnStatus('REQUESTED', 'APPROVE', 'VENDOR');
+    expect(status).toBe('APPROVED');
+    status = getNextReturnStatus(status, 'SCHEDULE_PICKUP', 'VENDOR');
+    status = getNextReturnStatus(status, 'MARK_IN_TRANSIT', 'SYSTEM');
+    status = getNextReturnStatus(status, 'MARK_RECEIVED', 'SYSTEM');
+    expect(status).toBe('RECEIVED');
+    expect(getNextReturnStatus(status, 'REFUND', 'VENDOR')).toBe('REFUNDED');
+    expect(isReturnClosed('REFUNDED')).toBe(true);
+  });
+
+  it('only lets each party take its own actions', () => {
+    expect(getAvailableReturnActions('REQUESTED', 'BUYER')).toEqual(['CANCEL']);
+    expect(getAvailableReturnActions('REQUESTED', 'VENDOR')).toEqual(['APPROVE', 'REJECT']);
+    expect(() => getNextReturnStatus('REQUESTED', 'APPROVE', 'BUYER')).toThrow('Cannot approve a return that is return requested');
+    expect(() => getNextReturnStatus('IN_TRANSIT', 'CANCEL', 'BUYER')).toThrow();
+  });
+
+  it('closes a received return without a refund when nothing was collected', () => {
+    expect(getNextReturnStatus('RECEIVED', 'CLOSE', 'SYSTEM')).toBe('CLOSED');
+    expect(isReturnClosed('CLOSED')).toBe(true);
+    expect(isRefundDue('RTO')).toBe(false);
+    expect(isRefundDue('RTO', 'pay_123')).toBe(true);
+    expect(isRefundDue('RETURN')).toBe(true);
+  });
+});
+
+describe('return refund amount', () => {
+  it('refunds the returned lines plus their share of GST', () => {
+    // 2 valves = 400 of 1000 taxable, so 40% of 180 tax
+    expect(calculateReturnRefund(order, [{ productId: 1, quantity: 2 }])).toBe(472);
+  });
+
+  it('refunds the whole order total, shipping included, when everything comes back', () => {
+    expect(calculateReturnRefund(order, [{ productId: 1, quantity: 4 }, { productId: 2, quantity: 10 }])).toBe(1230);
+  });
+
+  it('caps quantities at what was ordered and ignores unknown products', () => {
+    expect(calculateReturnRefund(order, [{ productId: 2, quantity: 50 }, { productId: 99, quantity: 1 }])).toBe(236);
+    expect(calculateReturnRefund(order, [{ productId: 99, quantity: 1 }])).toBe(0);
+  });
+});
+
+describe('return drafts', () => {
+  it('sends only lines, quantities and reason, leaving the refund to the server', () => {
+    const draft = buildReturnDraft(order, { 1: 2, 2: 0 }, 'DAMAGED', '  cracked body ', []);
+    expect(draft).toEqual({
+      type: 'RETURN',
+      orderId: 501,
+      lines: [{ productId: 1, quantity: 2 }],
+      reason: 'DAMAGED',
+      comment: 'cracked body',
+      photos: [],
+    });
+  });
+
+  it('brings back only the packages the carrier is returning', () => {
+    const split: Order = {
+      ...order,
+      shipments: [
+        { trackingNumber: 'AWB1', provider: 'DELHIVERY', productIds: [1] },
+        { trackingNumber: 'AWB2', provider: 'DELHIVERY', productIds: [2] },
+      ],
+    };
+    expect(getRtoQuantities(split, ['AWB2'])).toEqual({ 2: 10 });
+    expect(getRtoQuantities(order, ['AWB9'])).toEqual({ 1: 4, 2: 10 });
+  });
+});
@@ -0,0 +1,28 @@
+import { editDistance, scoreTokens, tokenizeForSearch, tokenizeQuery, transliterate } from '@/shared/utils/fuzzyMatch';
+
+const score = (query: string, target: string) => scoreTokens(tokenizeQuery(query), tokenizeForSearch(target));
+
+describe('fuzzy matching', () => {
+  it('transliterates Devanagari with schwa deletion', () => {
+    expect(transliterate('पाइप')).toBe('paaip');
+    expect(transliterate('कपड़ा')).toBe('kapraa');
+    expect(transliterate('मशीन')).toBe('masheen');
+  });
+
+  it('matches Hindi-typed queries against English names', () => {
+    expect(score('पाइप', 'PVC Pipes')).toBeGreaterThan(0.5);
+    expect(score('कपड़ा', 'Cotton Fabric')).toBeGreaterThan(0.5);
+    expect(score('loha', 'Iron Rods')).toBeGreaterThan(0.5);
+  });
+
+  it('tolerates typos and partially typed words', () => {
+    expect(score('machne', 'Packaging Machine')).toBeGreaterThan(0.5);
+    expect(score('indust', 'Industrial Supplies')).toBeGreaterThan(0.5);
+    expect(score('pvc pumps', 'PVC Pipes')).toBe(0);
+  });
+
+  it('gives up on edit distance past the limit', () => {
+    expect(editDistance('valve', 'valves')).toBe(1);
+    expect(editDistance('valve', 'cable', 1)).toBe(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { cropFromPoints, cropToPixels, fitWithin, formatFileSize, isUsableCrop } from '@/shared/utils/imageProcessing';
+
+describe('image processing', () => {
+  it('builds a crop from a drag in any direction, clamped to the image', () => {
+    const crop = cropFromPoints({ x: 0.8, y: 0.9 }, { x: 0.2, y: 0.3 });
+    expect(crop.x).toBe(0.2);
+    expect(crop.y).toBe(0.3);
+    expect(crop.width).toBeCloseTo(0.6);
+    expect(crop.height).toBeCloseTo(0.6);
+    expect(cropFromPoints({ x: -0.2, y: 0.5 }, { x: 0.5, y: 1.4 })).toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5 });
+  });
+
+  it('ignores tiny crops from stray clicks', () => {
+    expect(isUsableCrop({ x: 0.5, y: 0.5, width: 0.01, height: 0.4 })).toBe(false);
+    expect(isUsableCrop({ x: 0.1, y: 0.1, width: 0.3, height: 0.3 })).toBe(true);
+  });
+
+  it('maps a crop onto the source pixels', () => {
+    expect(cropToPixels({ x: 0.25, y: 0.5, width: 0.5, height: 0.25 }, 4000, 3000)).toEqual({ sx: 1000, sy: 1500, sw: 2000, sh: 750 });
+  });
+
+  it('scales down to the longest side but never up', () => {
+    expect(fitWithin(4000, 3000, 1024)).toEqual({ width: 1024, height: 768 });
+    expect(fitWithin(1500, 3000, 1024)).toEqual({ width: 512, height: 1024 });
+    expect(fitWithin(640, 480, 1024)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('formats upload sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(180 * 1024)).toBe('180 KB');
+    expect(formatFileSize(3.2 * 1024 * 1024)).toBe('3.2 MB');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment jest-fixed-jsdom
+ */
+import { File } from 'node:buffer';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import { SearchService, searchService } from '@/services/searchService';
+import VisualSearch from '@/shared/components/VisualSearch';
+import { lowConfidenceImageSearchHandler, mockImageSearchResponse } from '../../mocks/handlers';
+import { server } from '../../mocks/server';
+
+// Requests go through the real axios client to the MSW handlers
+jest.unmock('axios');
+
+// jsdom has no canvas to compress with
+jest.mock('@/shared/utils/imageProcessing', () => ({
+  ...jest.requireActual('@/shared/utils/imageProcessing'),
+  cropAndCompress: jest.fn(async () => new Blob(['compressed'], { type: 'image/jpeg' }))
+}));
+
+// Node's File, like the Blob and FormData the environment provides, so axios can stream it to MSW
+const photo = () => new File(['raw photo bytes'], 'bearing.jpg', { type: 'image/jpeg' }) as unknown as globalThis.File;
+
+const searchWithPhoto = async (onSelectCategory?: (category: string) => void) => {
+  const user = userEvent.setup();
+  const { container } = render(<VisualSearch onSelectCategory={onSelectCategory} />);
+  await user.click(screen.getByRole('button', { name: 'Search by photo' }));
+  await user.upload(container.querySelector<HTMLInputElement>('input[type="file"]')!, photo());
+  await user.click(screen.getByRole('button', { name: 'Search' }));
+  return user;
+};
+
+describe('image search', () => {
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('uploads the photo and returns the matches', async () => {
+    const response = await searchService.searchByImage(photo());
+
+    expect(response).toEqual(mockImageSearchResponse);
+    expect(SearchService.isLowConfidenceMatch(response)).toBe(false);
+  });
+
+  it('reports a failed upload', async () => {
+    server.use(http.post('*/api/search/image', () => HttpResponse.json({ message: 'Too large' }, { status: 413 })));
+
+    await expect(searchService.searchByImage(photo())).rejects.toThrow('Image search failed');
+  });
+
+  it('shows the matching products for a confident match', async () => {
+    await searchWithPhoto();
+
+    expect(await screen.findByText('Matching products')).toBeInTheDocument();
+    expect(screen.getByText('Deep Groove Ball Bearing 6205')).toBeInTheDocument();
+    expect(screen.queryByText(/couldn.t identify this part/)).not.toBeInTheDocument();
+  });
+
+  it('falls back to category suggestions when the match is a guess', async () => {
+    server.use(lowConfidenceImageSearchHandler);
+    const onSelectCategory = jest.fn();
+
+    const user = await searchWithPhoto(onSelectCategory);
+
+    expect(await screen.findByText(/couldn.t identify this part with confidence/)).toBeInTheDocument();
+    expect(screen.queryByText('Matching products')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Valves' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Pumps' }));
+    expect(onSelectCategory).toHaveBeenCalledWith('Pumps');
+  });
+});
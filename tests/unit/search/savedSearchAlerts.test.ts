@@ -0,0 +1,140 @@
+import { savedSearchAlertService } from '@/services/savedSearchAlertService';
+import type { SavedSearch, SavedSearchSnapshot, SavedSearchSnapshotItem } from '@/services/searchService';
+import { api } from '@/shared/services/api';
+import {
+  diffSearchResults,
+  isAlertDue,
+  MAX_SNAPSHOT_ITEMS,
+  mergeSnapshot
+} from '@/shared/utils/savedSearchAlerts';
+
+const item = (id: string, price?: number, vendorId = 'v1', seenAt = '2026-10-18T09:00:00Z'): SavedSearchSnapshotItem => ({
+  id,
+  name: `Listing ${id}`,
+  price,
+  vendorId,
+  vendorName: `Vendor ${vendorId}`,
+  seenAt
+});
+
+const snapshot = (items: SavedSearchSnapshotItem[]): SavedSearchSnapshot => ({ items, takenAt: '2026-10-18T09:00:00Z' });
+
+const savedSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 's1',
+  name: 'PVC pipe',
+  searchRequest: { query: 'pvc pipe', searchType: 'products' },
+  createdAt: '2026-10-01T09:00:00Z',
+  alertFrequency: 'daily',
+  ...overrides
+});
+
+describe('diffSearchResults', () => {
+  it('records a baseline without alerting on the first run', () => {
+    expect(diffSearchResults(undefined, [item('1', 100)])).toEqual({ newItems: [], priceDrops: [], newSuppliers: [] });
+  });
+
+  it('reports listings that were not in the snapshot', () => {
+    const diff = diffSearchResults(snapshot([item('1', 100)]), [item('1', 100), item('2', 90)]);
+    expect(diff.newItems.map(entry => entry.id)).toEqual(['2']);
+    expect(diff.newSuppliers).toEqual([]);
+  });
+
+  it('reports a price drop of at least 1% and ignores smaller ones', () => {
+    const diff = diffSearchResults(
+      snapshot([item('1', 100), item('2', 100), item('3', 100)]),
+      [item('1', 99), item('2', 99.5), item('3', 120)]
+    );
+    expect(diff.priceDrops).toEqual([{ item: item('1', 99), previousPrice: 100 }]);
+  });
+
+  it('ignores listings without a price on either side', () => {
+    const diff = diffSearchResults(snapshot([item('1'), item('2', 100)]), [item('1', 50), item('2')]);
+    expect(diff.priceDrops).toEqual([]);
+  });
+
+  it('announces each new supplier once', () => {
+    const diff = diffSearchResults(snapshot([item('1', 100, 'v1')]), [item('2', 90, 'v2'), item('3', 80, 'v2')]);
+    expect(diff.newSuppliers).toEqual([{ id: 'v2', name: 'Vendor v2' }]);
+  });
+});
+
+describe('mergeSnapshot', () => {
+  it('puts current results first and carries over earlier ones not seen this run', () => {
+    const merged = mergeSnapshot(snapshot([item('1', 100), item('2', 90)]), [item('2', 85), item('3', 70)], '2026-10-19T09:00:00Z');
+    expect(merged.items.map(entry => [entry.id, entry.price])).toEqual([['2', 85], ['3', 70], ['1', 100]]);
+    expect(merged.takenAt).toBe('2026-10-19T09:00:00Z');
+  });
+
+  it('starts from the current results when there is no snapshot', () => {
+    expect(mergeSnapshot(undefined, [item('1', 100)], '2026-10-19T09:00:00Z').items).toEqual([item('1', 100)]);
+  });
+
+  it('keeps at most MAX_SNAPSHOT_ITEMS entries', () => {
+    const previous = snapshot(Array.from({ length: MAX_SNAPSHOT_ITEMS }, (_, index) => item(`old-${index}`)));
+    const merged = mergeSnapshot(previous, [item('new')], '2026-10-19T09:00:00Z');
+    expect(merged.items).toHaveLength(MAX_SNAPSHOT_ITEMS);
+    expect(merged.items[0].id).toBe('new');
+    expect(merged.items[MAX_SNAPSHOT_ITEMS - 1].id).toBe(`old-${MAX_SNAPSHOT_ITEMS - 2}`);
+  });
+});
+
+describe('isAlertDue', () => {
+  const now = new Date('2026-10-19T09:00:00Z');
+
+  it('never runs alerts that are off or have no frequency', () => {
+    expect(isAlertDue(savedSearch({ alertFrequency: 'off' }), now)).toBe(false);
+    expect(isAlertDue(savedSearch({ alertFrequency: undefined }), now)).toBe(false);
+  });
+
+  it('runs a search that has never been checked', () => {
+    expect(isAlertDue(savedSearch({ lastCheckedAt: undefined }), now)).toBe(true);
+  });
+
+  it('waits a full interval since the last check', () => {
+    expect(isAlertDue(savedSearch({ alertFrequency: 'daily', lastCheckedAt: '2026-10-18T09:00:01Z' }), now)).toBe(false);
+    expect(isAlertDue(savedSearch({ alertFrequency: 'daily', lastCheckedAt: '2026-10-18T09:00:00Z' }), now)).toBe(true);
+    expect(isAlertDue(savedSearch({ alertFrequency: 'weekly', lastCheckedAt: '2026-10-13T09:00:00Z' }), now)).toBe(false);
+    expect(isAlertDue(savedSearch({ alertFrequency: 'weekly', lastCheckedAt: '2026-10-12T09:00:00Z' }), now)).toBe(true);
+  });
+
+  it('runs instant alerts on every check', () => {
+    expect(isAlertDue(savedSearch({ alertFrequency: 'instant', lastCheckedAt: now.toISOString() }), now)).toBe(true);
+  });
+});
+
+describe('savedSearchAlertService', () => {
+  const mockedGet = api.get as jest.Mock;
+  const mockedPost = api.post as jest.Mock;
+  const mockedPut = api.put as jest.Mock;
+
+  const product = (id: string) => ({
+    id,
+    name: `Listing ${id}`,
+    price: 100,
+    vendor: { id: 'v1', name: 'Vendor v1', rating: 4, verified: true, location: 'Pune' }
+  });
+
+  afterEach(() => {
+    mockedGet.mockReset();
+    mockedPost.mockReset();
+    mockedPut.mockReset();
+    localStorage.clear();
+  });
+
+  it('checks saved searches against the plain results, without curated pins', async () => {
+    mockedGet.mockImplementation(async (url: string) =>
+      url === '/api/search/pins'
+        ? { data: [{ id: 'pin1', query: 'pvc pipe', productId: 'p9', position: 1 }] }
+        : { data: [] }
+    );
+    mockedPost.mockImplementation(async (url: string) =>
+      url === '/api/search/query' ? { data: { results: [product('p1'), product('p9')], total: 2 } } : { data: {} }
+    );
+    mockedPut.mockResolvedValue({ data: {} });
+
+    await savedSearchAlertService.checkSavedSearches(1, [savedSearch({ snapshot: snapshot([item('p1', 100)]) })]);
+
+    const saved = mockedPut.mock.calls.find(([url]) => url === '/api/search/saved-searches/s1/snapshot')![1];
+    expect(saved.snapshot.items.map((entry: SavedSearchSnapshotItem) => entry.id)).toEqual(['p1', 'p9']);
+  });
+});
@@ -0,0 +1,54 @@
+import { extractSearchIntent, intentToRfqParams, intentToSearchRequest, normalizeUnit } from '@/shared/utils/searchIntent';
+
+const today = new Date('2025-03-01T10:00:00Z');
+
+describe('search intent', () => {
+  it('extracts product, quantity, location and deadline from a sentence', () => {
+    expect(extractSearchIntent('need 500 kg mild steel rods delivered to Nagpur within 10 days', today)).toEqual({
+      product: 'mild steel rods',
+      quantity: 500,
+      unit: 'Kg',
+      location: 'Nagpur',
+      deadline: '2025-03-11'
+    });
+  });
+
+  it('understands other units, dates and phrasing', () => {
+    expect(extractSearchIntent('looking for 2 tonnes of cement in navi mumbai by 15th march', today)).toEqual({
+      product: 'cement',
+      quantity: 2,
+      unit: 'Tonnes',
+      location: 'Navi Mumbai',
+      deadline: '2025-03-15'
+    });
+    expect(extractSearchIntent('want 100 gate valves at Pune in 2 weeks', today)).toMatchObject({
+      product: 'gate valves',
+      quantity: 100,
+      location: 'Pune',
+      deadline: '2025-03-15'
+    });
+  });
+
+  it('does not read grades as quantities', () => {
+    expect(extractSearchIntent('ss 304 pipes', today)).toEqual({ product: 'ss 304 pipes' });
+  });
+
+  it('rolls dates already past into next year', () => {
+    expect(extractSearchIntent('copper wire by 10 jan', today).deadline).toBe('2026-01-10');
+  });
+
+  it('normalises units to the RFQ form', () => {
+    expect(normalizeUnit('pcs')).toBe('Pieces');
+    expect(normalizeUnit('Ltrs')).toBe('Litres');
+    expect(normalizeUnit('Sq. Metres')).toBe('Sq. Metres');
+    expect(normalizeUnit('furlongs')).toBeUndefined();
+  });
+
+  it('builds a search request and RFQ prefill from the intent', () => {
+    const intent = { product: 'mild steel rods', quantity: 500, unit: 'Kg', location: 'Nagpur', deadline: '2025-03-11' };
+    expect(intentToSearchRequest(intent)).toMatchObject({ query: 'mild steel rods', filters: { location: 'Nagpur' } });
+    expect(intentToRfqParams(intent).toString()).toBe(
+      'title=Mild+Steel+Rods&quantity=500&unit=Kg&deadline=2025-03-11&location=Nagpur'
+    );
+  });
+});
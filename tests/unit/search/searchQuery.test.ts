@@ -0,0 +1,71 @@
+import { mergeSearchFilters, parseSearchQuery, removeQueryToken } from '@/shared/utils/searchQuery';
+
+describe('search query parser', () => {
+  it('splits an industrial query into terms and filters', () => {
+    const parsed = parseSearchQuery('ss pipe 304 dia>=50mm price<2000 in:pune');
+
+    expect(parsed.text).toBe('ss pipe 304');
+    expect(parsed.filters.attributes).toEqual({ diameter: { gte: 50, unit: 'mm' } });
+    expect(parsed.filters.maxPrice).toBe(2000);
+    expect(parsed.filters.location).toBe('Pune');
+    expect(parsed.tokens.map(token => token.label)).toEqual([
+      'ss', 'pipe', '304', 'Diameter ≥ 50 mm', 'Price < ₹2,000', '📍 Pune'
+    ]);
+  });
+
+  it('normalises length and weight units', () => {
+    expect(parseSearchQuery('dia>2inch').filters.attributes).toEqual({ diameter: { gt: 50.8, unit: 'mm' } });
+    expect(parseSearchQuery('thk<=0.5cm').filters.attributes).toEqual({ thickness: { lte: 5, unit: 'mm' } });
+    expect(parseSearchQuery('capacity>=2ton').filters.attributes).toEqual({ capacity: { gte: 2000, unit: 'kg' } });
+    expect(parseSearchQuery('wt<500g').filters.attributes).toEqual({ weight: { lt: 0.5, unit: 'kg' } });
+  });
+
+  it('reads ranges, carrying the upper unit to a bare lower bound', () => {
+    expect(parseSearchQuery('dia:1-2in').filters.attributes).toEqual({ diameter: { gte: 25.4, lte: 50.8, unit: 'mm' } });
+    const price = parseSearchQuery('price:500-2k').filters;
+    expect([price.minPrice, price.maxPrice]).toEqual([500, 2000]);
+  });
+
+  it('flags units that do not fit the field instead of applying them', () => {
+    const parsed = parseSearchQuery('dia>=5kg');
+    expect(parsed.filters.attributes).toBeUndefined();
+    expect(parsed.tokens[0].error).toMatch(/can't be measured/);
+  });
+
+  it('handles phrases, negation and field filters', () => {
+    const parsed = parseSearchQuery('"seamless pipe" -galvanized brand:jindal in:"navi mumbai" verified:yes');
+
+    expect(parsed.phrases).toEqual(['seamless pipe']);
+    expect(parsed.excluded).toEqual(['galvanized']);
+    expect(parsed.text).toBe('seamless pipe');
+    expect(parsed.filters).toMatchObject({
+      phrases: ['seamless pipe'],
+      excludeTerms: ['galvanized'],
+      brands: ['jindal'],
+      location: 'Navi Mumbai',
+      verifiedVendorsOnly: true
+    });
+  });
+
+  it('keeps unknown fields as search terms', () => {
+    expect(parseSearchQuery('ms:304 flange').terms).toEqual(['ms:304', 'flange']);
+  });
+
+  it('lets explicit filters win over parsed ones and merges lists', () => {
+    const merged = mergeSearchFilters(
+      { maxPrice: 2000, brands: ['jindal'], attributes: { diameter: { gte: 50 } } },
+      { maxPrice: 1500, brands: ['tata'], attributes: { grade: '304' } }
+    );
+    expect(merged).toEqual({
+      maxPrice: 1500,
+      brands: ['jindal', 'tata'],
+      attributes: { diameter: { gte: 50 }, grade: '304' }
+    });
+  });
+
+  it('removes a dismissed token from the query', () => {
+    const query = 'ss pipe dia>=50mm in:pune';
+    const token = parseSearchQuery(query).tokens.find(t => t.kind === 'range')!;
+    expect(removeQueryToken(query, token)).toBe('ss pipe in:pune');
+  });
+});
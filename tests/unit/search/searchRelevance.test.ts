@@ -0,0 +1,88 @@
+import type { SearchAnalytics } from '@/services/searchService';
+import {
+  applyPinnedResults,
+  applySynonyms,
+  ctrByPosition,
+  meanReciprocalRank,
+  queryCategoryShares,
+  suggestSynonyms
+} from '@/shared/utils/searchRelevance';
+
+const analytics: SearchAnalytics = {
+  totalSearches: 100,
+  uniqueSearchers: 40,
+  averageResultsClicked: 1.2,
+  topQueries: [
+    { query: 'pvc pipe', count: 50, averagePosition: 1.5 },
+    { query: 'submersible pump', count: 20, averagePosition: 2.1 }
+  ],
+  noResultQueries: [
+    { query: 'submersable pump', count: 4 },
+    { query: 'xyzzy', count: 9 }
+  ],
+  categoryDistribution: [{ category: 'Industrial Valves', searchCount: 10, clickRate: 0.3 }],
+  searchTrends: [],
+  performanceMetrics: { averageSearchTime: 80, averageResultsReturned: 20, clickThroughRate: 0.4, conversionRate: 0.05 },
+  clicksByPosition: [
+    { position: 2, impressions: 100, clicks: 10 },
+    { position: 1, impressions: 100, clicks: 30 },
+    { position: 14, impressions: 50, clicks: 1 }
+  ],
+  firstClickPositions: [
+    { position: 1, count: 30 },
+    { position: 2, count: 10 },
+    { position: 4, count: 4 }
+  ],
+  queryCategories: [
+    { query: 'pvc pipe', category: 'Pipes', count: 50 },
+    { query: 'cpvc pipe', category: 'Pipes', count: 10 },
+    { query: 'submersible pump', category: 'Pumps', count: 20 }
+  ]
+};
+
+describe('search relevance', () => {
+  it('reports CTR for the top positions in order', () => {
+    expect(ctrByPosition(analytics)).toEqual([
+      { position: 1, impressions: 100, clicks: 30, ctr: 0.3 },
+      { position: 2, impressions: 100, clicks: 10, ctr: 0.1 }
+    ]);
+  });
+
+  it('counts searches without a click towards MRR', () => {
+    // (30/1 + 10/2 + 4/4) / 100
+    expect(meanReciprocalRank(analytics)).toBeCloseTo(0.36);
+  });
+
+  it('suggests synonyms only for close matches', () => {
+    expect(suggestSynonyms(analytics)).toEqual([
+      expect.objectContaining({ query: 'submersable pump', suggestion: 'submersible pump' })
+    ]);
+    expect(suggestSynonyms(analytics, [{ id: '1', term: 'Submersable Pump', synonyms: ['submersible pump'] }])).toEqual([]);
+  });
+
+  it('groups queries by category', () => {
+    const shares = queryCategoryShares(analytics);
+    expect(shares.map(row => row.category)).toEqual(['Pipes', 'Pumps']);
+    expect(shares[0].share).toBeCloseTo(0.75);
+    expect(shares[0].topQueries).toEqual(['pvc pipe', 'cpvc pipe']);
+  });
+
+  it('rewrites one-way synonyms and expands two-way ones', () => {
+    const rules = [
+      { id: '1', term: 'ms', synonyms: ['mild steel'], oneWay: true },
+      { id: '2', term: 'pipe', synonyms: ['tube'] }
+    ];
+    expect(applySynonyms('MS pipe 2 inch', rules)).toEqual({ query: 'mild steel pipe 2 inch', expansions: { pipe: ['tube'] } });
+    expect(applySynonyms('msc pipes', rules)).toEqual({ query: 'msc pipes', expansions: {} });
+  });
+
+  it('moves pinned results to their positions without injecting new ones', () => {
+    const results = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+    const pins = [
+      { id: 'p1', query: 'pvc pipe', productId: 'c', position: 1 },
+      { id: 'p2', query: 'pvc pipe', productId: 'missing', position: 2 }
+    ];
+    expect(applyPinnedResults(results, ' PVC Pipe', pins).map(r => r.id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(applyPinnedResults(results, 'other', pins)).toBe(results);
+  });
+});
@@ -0,0 +1,93 @@
+import { rankCarrierRates, type ProviderPerformance } from '@/services/carrierRateShopping';
+import type { ShippingProvider, ShippingRate } from '@/services/shippingService';
+
+const rate = (provider: ShippingProvider, cost: number, days: number, overrides: Partial<ShippingRate> = {}): ShippingRate => ({
+  provider,
+  serviceName: 'Surface',
+  cost,
+  estimatedDeliveryDays: days,
+  estimatedDeliveryDate: `2026-10-${19 + days}`,
+  features: [],
+  available: true,
+  ...overrides
+});
+
+const history = (provider: ShippingProvider, onTimeDeliveryRate: number, totalShipments = 120): ProviderPerformance => ({
+  provider,
+  totalShipments,
+  onTimeDeliveryRate,
+  avgDeliveryTime: 3,
+  avgCost: 150,
+  customerRating: 4.1
+});
+
+const summary = (options: ReturnType<typeof rankCarrierRates>['options']) =>
+  options.map(option => [option.provider, option.score, option.tags]);
+
+describe('carrier rate shopping', () => {
+  it('scores on cost, speed and the default on-time rate and tags the winners', () => {
+    const result = rankCarrierRates([rate('DELHIVERY', 100, 4), rate('BLUE_DART', 200, 2)]);
+
+    expect(summary(result.options)).toEqual([
+      ['DELHIVERY', 0.813, ['CHEAPEST', 'RECOMMENDED']],
+      ['BLUE_DART', 0.738, ['FASTEST']]
+    ]);
+    expect(result.cheapest?.provider).toBe('DELHIVERY');
+    expect(result.fastest?.provider).toBe('BLUE_DART');
+    expect(result.recommended?.provider).toBe('DELHIVERY');
+  });
+
+  it('breaks a cost tie on delivery days and a speed tie on cost', () => {
+    const result = rankCarrierRates([
+      rate('DTDC', 100, 5),
+      rate('EKART', 100, 3),
+      rate('FEDEX', 300, 2),
+      rate('BLUE_DART', 250, 2)
+    ]);
+    expect(result.cheapest?.provider).toBe('EKART');
+    expect(result.fastest?.provider).toBe('BLUE_DART');
+  });
+
+  it('recommends the cheaper carrier when scores tie', () => {
+    const result = rankCarrierRates(
+      [rate('FEDEX', 100, 2), rate('DTDC', 50, 4)],
+      {},
+      [history('FEDEX', 100), history('DTDC', 70)]
+    );
+    expect(result.options.map(option => option.score)).toEqual([0.775, 0.775]);
+    expect(result.recommended?.provider).toBe('DTDC');
+  });
+
+  it('reads on-time rates given as percentages or fractions, ignoring carriers without shipments', () => {
+    const result = rankCarrierRates(
+      [rate('DELHIVERY', 100, 3), rate('DTDC', 100, 3), rate('EKART', 100, 3)],
+      {},
+      [history('DELHIVERY', 92), history('DTDC', 0.6), history('EKART', 99, 0)]
+    );
+    const onTime = Object.fromEntries(result.options.map(option => [option.provider, option.onTimeRate]));
+    expect(onTime).toEqual({ DELHIVERY: 0.92, DTDC: 0.6, EKART: undefined });
+    expect(result.recommended?.provider).toBe('DELHIVERY');
+  });
+
+  it('prefers the carrier delivery estimate over the days quoted with the rate', () => {
+    const result = rankCarrierRates(
+      [rate('DELHIVERY', 100, 6), rate('BLUE_DART', 120, 3)],
+      { DELHIVERY: { estimatedDays: 2, estimatedDate: '2026-10-21', serviceAvailable: true } }
+    );
+    expect(result.fastest?.provider).toBe('DELHIVERY');
+    expect(result.fastest?.etaDate).toBe('2026-10-21');
+  });
+
+  it('drops unavailable rates and carriers that cannot serve the pincode', () => {
+    const result = rankCarrierRates(
+      [rate('DELHIVERY', 100, 3, { available: false }), rate('BLUE_DART', 120, 3), rate('INDIA_POST', 60, 7)],
+      { INDIA_POST: { estimatedDays: 7, estimatedDate: '2026-10-26', serviceAvailable: false } }
+    );
+    expect(result.options.map(option => option.provider)).toEqual(['BLUE_DART']);
+    expect(result.options[0].tags).toEqual(['CHEAPEST', 'FASTEST', 'RECOMMENDED']);
+  });
+
+  it('returns no options when nothing is available', () => {
+    expect(rankCarrierRates([rate('DTDC', 80, 4, { available: false })])).toEqual({ options: [] });
+  });
+});
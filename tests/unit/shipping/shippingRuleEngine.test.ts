@@ -0,0 +1,161 @@
+import {
+  DEFAULT_ZONE_RATES,
+  estimateVendorGroupShipping,
+  evaluateShipping,
+  toVendorShipmentInput,
+  type ShippingSimulationInput
+} from '@/services/shippingRuleEngine';
+import { shippingService, type ShippingRule, type ShippingZone } from '@/services/shippingService';
+import type { VendorCartGroup } from '@/features/cart/cartSlice';
+
+const westZone: ShippingZone = {
+  id: 'z-west',
+  name: 'West',
+  pincodes: ['41'],
+  states: ['Maharashtra'],
+  deliveryDays: 3,
+  cod_available: true,
+  baseRate: 60,
+  additionalRatePerKg: 20,
+  freeShippingThreshold: 1000
+};
+
+const rule = (id: string, actions: ShippingRule['actions'], extra: Partial<ShippingRule> = {}): ShippingRule => ({
+  id,
+  name: id,
+  conditions: {},
+  actions,
+  active: true,
+  ...extra
+});
+
+// 2.3 kg to Pune: ₹60 for the first 0.5 kg and 2 more kg at ₹20
+const input = (value: number, extra: Partial<ShippingSimulationInput> = {}): ShippingSimulationInput => ({
+  toPincode: '411019',
+  packages: [{ weight: 2.3 }],
+  value,
+  ...extra
+});
+
+describe('evaluateShipping', () => {
+  it('charges the zone rate below the free-shipping threshold', () => {
+    const estimate = evaluateShipping(input(999), [westZone], []);
+
+    expect(estimate.zone?.id).toBe('z-west');
+    expect(estimate.baseCost).toBe(100);
+    expect(estimate.cost).toBe(100);
+    expect(estimate.freeShipping).toBe(false);
+  });
+
+  it('ships free from the zone threshold upwards', () => {
+    const estimate = evaluateShipping(input(1000), [westZone], []);
+
+    expect(estimate.freeShipping).toBe(true);
+    expect(estimate.cost).toBe(0);
+  });
+
+  it('uses default rates when the vendor has no zones', () => {
+    const estimate = evaluateShipping(input(5000), [], []);
+
+    expect(estimate.serviceable).toBe(true);
+    expect(estimate.freeShipping).toBe(false);
+    expect(estimate.cost).toBe(DEFAULT_ZONE_RATES.baseRate + 2 * DEFAULT_ZONE_RATES.additionalRatePerKg);
+  });
+
+  it('is not serviceable outside every zone', () => {
+    expect(evaluateShipping(input(500, { toPincode: '110001' }), [westZone], []).serviceable).toBe(false);
+  });
+
+  it('lets a free-shipping rule win over any discount', () => {
+    const rules = [
+      rule('ten-off', { shippingDiscount: 10 }, { priority: 1 }),
+      rule('free-pipes', { freeShipping: true }, { priority: 2, conditions: { categories: ['pipes'] } })
+    ];
+
+    const valves = evaluateShipping(input(500, { categories: ['Valves'] }), [westZone], rules);
+    expect(valves.freeShipping).toBe(false);
+    expect(valves.cost).toBe(90);
+
+    const pipes = evaluateShipping(input(500, { categories: ['Pipes'] }), [westZone], rules);
+    expect(pipes.freeShipping).toBe(true);
+    expect(pipes.cost).toBe(0);
+    expect(pipes.appliedRules).toEqual(['ten-off', 'free-pipes']);
+  });
+
+  it('applies the largest discount without stacking', () => {
+    const estimate = evaluateShipping(input(500), [westZone], [
+      rule('ten-off', { shippingDiscount: 10 }),
+      rule('quarter-off', { shippingDiscount: 25 })
+    ]);
+
+    expect(estimate.discountPercent).toBe(25);
+    expect(estimate.cost).toBe(75);
+  });
+
+  it('takes the provider from the highest-priority matching rule', () => {
+    const estimate = evaluateShipping(input(500), [westZone], [
+      rule('no-priority', { provider: 'INDIA_POST' }),
+      rule('second', { provider: 'DTDC' }, { priority: 2 }),
+      rule('first', { provider: 'DELHIVERY' }, { priority: 1 }),
+      rule('first-inactive', { provider: 'BLUE_DART' }, { priority: 0, active: false })
+    ]);
+
+    expect(estimate.provider).toBe('DELHIVERY');
+    expect(estimate.appliedRules).toEqual(['first', 'second', 'no-priority']);
+    expect(estimate.evaluations.find(evaluation => evaluation.rule.id === 'first-inactive')).toMatchObject({
+      matched: true,
+      applied: false
+    });
+  });
+
+  it('skips rules whose conditions fail', () => {
+    const estimate = evaluateShipping(input(500), [westZone], [
+      rule('heavy-only', { freeShipping: true }, { conditions: { minWeight: 10 } }),
+      rule('big-orders', { shippingDiscount: 50 }, { conditions: { minValue: 800 } })
+    ]);
+
+    expect(estimate.freeShipping).toBe(false);
+    expect(estimate.cost).toBe(100);
+    expect(estimate.appliedRules).toEqual([]);
+  });
+});
+
+describe('vendor group shipping', () => {
+  const group: VendorCartGroup = {
+    vendorId: 'v-1',
+    vendorName: 'Shree Ganesh Steel',
+    items: [
+      { id: '1', name: 'GI pipe', price: 120, quantity: 2, vendorId: 'v-1', vendorName: 'Shree Ganesh Steel', category: 'Pipes', weight: 1 },
+      { id: '2', name: 'Elbow', price: 30, quantity: 10, vendorId: 'v-1', vendorName: 'Shree Ganesh Steel', category: 'Fittings' }
+    ],
+    totalItems: 12,
+    subtotal: 540,
+    shippingCharges: 0,
+    moqViolations: []
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds the shipment from item weights, quantities and categories', () => {
+    expect(toVendorShipmentInput(group, '411019', 'Maharashtra')).toEqual({
+      toPincode: '411019',
+      toState: 'Maharashtra',
+      packages: [{ weight: 1, quantity: 2 }, { weight: 0.5, quantity: 10 }],
+      value: 540,
+      categories: ['Pipes', 'Fittings']
+    });
+  });
+
+  it('evaluates the vendor rules rather than the flat cart charge', async () => {
+    jest.spyOn(shippingService, 'getShippingZones').mockResolvedValue([{ ...westZone, freeShippingThreshold: 2000 }]);
+    jest.spyOn(shippingService, 'getShippingRules').mockResolvedValue([]);
+
+    // 7 kg: ₹60 + 7 × ₹20, even though the flat rule would ship ₹540 free
+    const estimate = await estimateVendorGroupShipping(group, '411019');
+
+    expect(estimate.cost).toBe(200);
+    expect(estimate.freeShipping).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  calculateGst,
+  getStateCode,
+  getStateCodeFromGstin,
+  getSupplyType,
+  isValidGstin
+} from '@/shared/utils/gst';
+
+const MAHARASHTRA_VENDOR = '27AAACR5055K1Z7';
+const MAHARASHTRA_BUYER = '27AAGCT1234K1Z2';
+const KARNATAKA_BUYER = '29AACCE4321M1Z7';
+
+describe('GST tax engine', () => {
+  describe('GSTIN and state parsing', () => {
+    it('reads the state code from a valid GSTIN', () => {
+      expect(isValidGstin(MAHARASHTRA_VENDOR)).toBe(true);
+      expect(getStateCodeFromGstin(MAHARASHTRA_VENDOR)).toBe('27');
+      expect(getStateCodeFromGstin(KARNATAKA_BUYER)).toBe('29');
+    });
+
+    it('rejects malformed GSTINs and unknown state codes', () => {
+      expect(isValidGstin('27AAACR5055K1Z')).toBe(false);
+      expect(isValidGstin('99AAACR5055K1Z7')).toBe(false);
+      expect(getStateCodeFromGstin(undefined)).toBeUndefined();
+    });
+
+    it('accepts state names or codes', () => {
+      expect(getStateCode('Maharashtra')).toBe('27');
+      expect(getStateCode(' tamil nadu ')).toBe('33');
+      expect(getStateCode('Andaman & Nicobar Islands')).toBe('35');
+      expect(getStateCode('7')).toBe('07');
+      expect(getStateCode('Atlantis')).toBeUndefined();
+    });
+  });
+
+  describe('missing rates', () => {
+    it('flags lines without a backend rate instead of guessing one', () => {
+      const breakup = calculateGst(
+        [
+          { id: '1', description: 'Pump', taxableValue: 1000, hsnCode: '8413', gstRate: 18 },
+          { id: '2', description: 'Unlisted spare', taxableValue: 500, hsnCode: '8413' },
+          { id: '3', description: 'Zero-rated', taxableValue: 200, gstRate: 0 }
+        ],
+        { supplierState: 'Gujarat', placeOfSupply: 'Gujarat' }
+      );
+
+      expect(breakup.missingRateLineIds).toEqual(['2']);
+      expect(breakup.lines[1]).toMatchObject({ rateMissing: true, totalTax: 0 });
+      expect(breakup.byRate.map(summary => summary.rate)).toEqual([0, 18]);
+      expect(breakup.totalTax).toBe(180);
+    });
+  });
+
+  describe('intra-state supply', () => {
+    it('splits tax equally into CGST and SGST', () => {
+      const breakup = calculateGst(
+        [{ id: '1', taxableValue: 1000, hsnCode: '8413', gstRate: 18 }],
+        { supplierGstin: MAHARASHTRA_VENDOR, placeOfSupply: 'Maharashtra' }
+      );
+
+      expect(breakup.supplyType).toBe('INTRA_STATE');
+      expect(breakup.cgst).toBe(90);
+      expect(breakup.sgst).toBe(90);
+      expect(breakup.igst).toBe(0);
+      expect(breakup.totalTax).toBe(180);
+      expect(breakup.grandTotal).toBe(1180);
+    });
+
+    it('takes the place of supply from the buyer GSTIN when no delivery state is given', () => {
+      expect(getSupplyType({ supplierGstin: MAHARASHTRA_VENDOR, buyerGstin: MAHARASHTRA_BUYER })).toBe('INTRA_STATE');
+    });
+
+    it('groups mixed-rate lines by rate', () => {
+      const breakup = calculateGst(
+        [
+          { id: '1', taxableValue: 500, hsnCode: '3004', gstRate: 5 },
+          { id: '2', taxableValue: 200, hsnCode: '3004', gstRate: 5 },
+          { id: '3', taxableValue: 1000, hsnCode: '8708', gstRate: 18 }
+        ],
+        { supplierState: 'Gujarat', placeOfSupply: 'Gujarat' }
+      );
+
+      expect(breakup.byRate).toEqual([
+        { rate: 5, taxableValue: 700, cgst: 17.5, sgst: 17.5, igst: 0 },
+        { rate: 18, taxableValue: 1000, cgst: 90, sgst: 90, igst: 0 }
+      ]);
+      expect(breakup.totalTax).toBe(215);
+    });
+
+    it('rounds each half separately', () => {
+      const breakup = calculateGst(
+        [{ id: '1', taxableValue: 99.99, gstRate: 18 }],
+        { supplierState: 'Delhi', placeOfSupply: 'Delhi' }
+      );
+
+      expect(breakup.cgst).toBe(9);
+      expect(breakup.sgst).toBe(9);
+      expect(breakup.totalTax).toBe(18);
+    });
+  });
+
+  describe('inter-state supply', () => {
+    it('charges the full rate as IGST', () => {
+      const breakup = calculateGst(
+        [{ id: '1', taxableValue: 1000, hsnCode: '8413', gstRate: 18 }],
+        { supplierGstin: MAHARASHTRA_VENDOR, placeOfSupply: 'Karnataka' }
+      );
+
+      expect(breakup.supplyType).toBe('INTER_STATE');
+      expect(breakup.igst).toBe(180);
+      expect(breakup.cgst).toBe(0);
+      expect(breakup.sgst).toBe(0);
+      expect(breakup.placeOfSupplyCode).toBe('29');
+    });
+
+    it('prefers the delivery state over the buyer GSTIN state', () => {
+      const breakup = calculateGst(
+        [{ id: '1', taxableValue: 1000, gstRate: 18 }],
+        { supplierGstin: MAHARASHTRA_VENDOR, buyerGstin: MAHARASHTRA_BUYER, placeOfSupply: 'Karnataka' }
+      );
+
+      expect(breakup.supplyType).toBe('INTER_STATE');
+      expect(breakup.igst).toBe(180);
+    });
+
+    it('treats an unknown supplier state as inter-state without changing the tax total', () => {
+      const breakup = calculateGst(
+        [{ id: '1', taxableValue: 1000, gstRate: 5 }],
+        { placeOfSupply: 'Maharashtra' }
+      );
+
+      expect(breakup.supplyType).toBe('INTER_STATE');
+      expect(breakup.totalTax).toBe(50);
+    });
+  });
+});